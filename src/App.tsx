@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertCircle } from 'lucide-react';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import AccountManagement from './components/AccountManagement';
+import AccountDetail from './components/AccountDetail';
 import DataUpload from './components/DataUpload';
 import Reports from './components/Reports';
+import MonthlyReports from './components/MonthlyReports';
 import IncentiveRules from './components/IncentiveRules';
 import IncentiveGameMap from './components/IncentiveGameMap';
 import IncentiveOverview from './components/IncentiveOverview';
@@ -11,28 +14,44 @@ import TeamManagement from './components/TeamManagement';
 import Profile from './components/Profile';
 import FileManagement from './components/FileManagement';
 import Login from './components/Login';
-import { Account, Category, SalesData, User, IncentiveRule } from './types';
+import AuditLog from './components/AuditLog';
+import SalesAnomalies from './components/SalesAnomalies';
+import { Account, Category, SalesData, User, IncentiveRule, DateFilter, UploadMode } from './types';
 import { useSupabase } from './hooks/useSupabase';
 import { supabase } from './lib/supabase';
-
-interface DateFilter {
-  startDate: string;
-  endDate: string;
-  preset: string;
-}
+import { isDemoMode } from './lib/demoMode';
+import { endDemoSession } from './lib/demoData';
+import { initialPasswordSetup, loadSessionUser, PasswordSetupReason } from './lib/authSession';
+import DemoBanner from './components/DemoBanner';
+import SetPassword from './components/SetPassword';
+import { useLocation } from './hooks/useRouter';
+import { navigate, pickQueryParams, setQueryParams } from './lib/router';
+import { AppTab, canAccessRoute, DATE_FILTER_PARAMS, getRouteByPath, getRouteParams, getTabPath, readDateFilter, toDateFilterParams } from './lib/routes';
+import { hasCapability } from './lib/permissions';
 
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [activeTab, setActiveTab] = useState('dashboard');
+  // Demo sessions live in memory only, so there is nothing to restore
+  const [isRestoringSession, setIsRestoringSession] = useState(!isDemoMode);
+  // Set when a stored session was found but its profile could not be loaded
+  const [sessionLoadFailed, setSessionLoadFailed] = useState(false);
+  const [restoreAttempt, setRestoreAttempt] = useState(0);
+  // Set when the app was opened from an invitation or password reset link
+  const [passwordSetup, setPasswordSetup] = useState<PasswordSetupReason | null>(initialPasswordSetup);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [salesData, setSalesData] = useState<SalesData[]>([]);
+  // Screens query sales data themselves; bumping this tells them to refetch after a change
+  const [salesDataVersion, setSalesDataVersion] = useState(0);
   const [incentiveRules, setIncentiveRules] = useState<IncentiveRule[]>([]);
-  const [dateFilter, setDateFilter] = useState<DateFilter>({
-    startDate: '',
-    endDate: '',
-    preset: '30'
-  });
+  const { pathname, search } = useLocation();
+  const route = getRouteByPath(pathname);
+  const isRouteAllowed = !!route && !!currentUser && canAccessRoute(route, currentUser);
+  const activeTab: AppTab = isRouteAllowed && route ? route.tab : 'dashboard';
+  const routeParams = getRouteParams(pathname);
+  // Detail screens keep their list's sidebar item highlighted
+  const sidebarTab: AppTab = isRouteAllowed && route?.parent ? route.parent : activeTab;
+  // Memoized on the query string, since screens refetch whenever the filter object changes
+  const dateFilter = useMemo(() => readDateFilter(search), [search]);
 
   const {
     loading,
@@ -45,7 +64,6 @@ function App() {
     addAccount,
     updateAccount,
     deleteAccount,
-    fetchSalesData,
     addSalesData,
     deleteSalesData,
     fetchIncentiveRules,
@@ -54,20 +72,75 @@ function App() {
     deleteIncentiveRule,
   } = useSupabase();
 
+  // Restore a stored session on startup. A profile that fails to load keeps the session and
+  // offers a retry instead of falling back to the login screen.
+  useEffect(() => {
+    if (isDemoMode) return;
+    let isCurrent = true;
+
+    const restoreSession = async () => {
+      setIsRestoringSession(true);
+      setSessionLoadFailed(false);
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (session) {
+          const user = await loadSessionUser(session);
+          if (isCurrent) setCurrentUser(user);
+        }
+      } catch (err) {
+        console.error('Error restoring session:', err);
+        if (isCurrent) setSessionLoadFailed(true);
+      } finally {
+        if (isCurrent) setIsRestoringSession(false);
+      }
+    };
+
+    restoreSession();
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [restoreAttempt]);
+
+  // Follow sign-outs and reset links from any tab
+  useEffect(() => {
+    if (isDemoMode) return;
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_OUT') {
+        setCurrentUser(null);
+        setPasswordSetup(null);
+      } else if (event === 'PASSWORD_RECOVERY') {
+        setPasswordSetup('recovery');
+      }
+      // TOKEN_REFRESHED needs nothing: the client keeps the new tokens itself, and replacing
+      // currentUser for the same user would make every screen load its data again
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  // Unknown paths and routes the user's role may not open fall back to the dashboard
+  useEffect(() => {
+    if (currentUser && !isRouteAllowed) {
+      navigate('/', { replace: true });
+    }
+  }, [currentUser, isRouteAllowed]);
+
   // Load initial data
   useEffect(() => {
     const loadData = async () => {
       try {
-        const [categoriesData, accountsData, salesDataResult, rulesData] = await Promise.all([
+        const [categoriesData, accountsData, rulesData] = await Promise.all([
           fetchCategories(),
           fetchAccounts(),
-          fetchSalesData(),
           fetchIncentiveRules(),
         ]);
         
         setCategories(categoriesData);
         setAccounts(accountsData);
-        setSalesData(salesDataResult);
         setIncentiveRules(rulesData);
       } catch (err) {
         console.error('Error loading data:', err);
@@ -84,8 +157,9 @@ function App() {
   };
 
   const handleLogout = async () => {
-    // Only sign out from Supabase if this is not a demo user
-    if (currentUser && !currentUser.email.startsWith('demo_')) {
+    if (isDemoMode) {
+      endDemoSession();
+    } else {
       try {
         await supabase.auth.signOut();
       } catch (error) {
@@ -93,17 +167,22 @@ function App() {
       }
     }
     setCurrentUser(null);
-    setActiveTab('dashboard');
+    setSessionLoadFailed(false);
+    navigate('/');
   };
 
   const handleTabChange = (tab: string) => {
     if (tab === 'logout') {
       handleLogout();
     } else {
-      setActiveTab(tab);
+      navigate(`${getTabPath(tab as AppTab)}${pickQueryParams(search, DATE_FILTER_PARAMS)}`);
     }
   };
 
+  const handleDateFilterChange = (filter: DateFilter) => {
+    setQueryParams(toDateFilterParams(filter));
+  };
+
   // Account management handlers
   const handleAddAccount = async (accountData: Omit<Account, 'id' | 'created_at' | 'account_code'>) => {
     const account = await addAccount({
@@ -112,6 +191,10 @@ function App() {
     });
     if (account) {
       setAccounts(prev => [...prev, account]);
+      // The database assigns accounts a user creates to that user; mirror that locally
+      if (currentUser && !hasCapability(currentUser, 'accounts.manage') && !currentUser.managed_accounts.includes(account.id)) {
+        setCurrentUser({ ...currentUser, managed_accounts: [...currentUser.managed_accounts, account.id] });
+      }
     }
   };
 
@@ -127,7 +210,7 @@ function App() {
       const success = await deleteAccount(id);
       if (success) {
         setAccounts(prev => prev.filter(acc => acc.id !== id));
-        setSalesData(prev => prev.filter(data => data.account_id !== id));
+        setSalesDataVersion(prev => prev + 1);
       }
     }
   };
@@ -166,39 +249,41 @@ function App() {
   };
 
   // Sales data handlers
-  const handleUploadData = async (accountId: string, data: Omit<SalesData, 'id' | 'account_id' | 'created_at'>[]) => {
+  // Returns the created batch, or nothing when the import failed
+  const handleUploadData = async (
+    accountId: string,
+    data: Omit<SalesData, 'id' | 'account_id' | 'created_at' | 'batch_id'>[],
+    source: { fileName: string; mode: UploadMode }
+  ) => {
     const salesDataWithAccountId = data.map(item => ({
       ...item,
       account_id: accountId,
     }));
     
-    const uploadedData = await addSalesData(salesDataWithAccountId);
-    if (uploadedData.length > 0) {
-      setSalesData(prev => {
-        // Remove existing data for the same account and dates, then add new data
-        const filtered = prev.filter(existing => 
-          !(existing.account_id === accountId && 
-            data.some(newItem => newItem.date === existing.date))
-        );
-        return [...filtered, ...uploadedData];
-      });
+    const batches = await addSalesData(salesDataWithAccountId, source);
+    if (batches.length > 0) {
+      setSalesDataVersion(prev => prev + 1);
+    }
+    return batches;
+  };
+
+  // Bulk uploads arrive one account at a time; returns how many rows were saved
+  const handleBulkUploadData = async (data: Omit<SalesData, 'id' | 'created_at' | 'batch_id'>[], fileName: string) => {
+    const batches = await addSalesData(data, { fileName });
+    if (batches.length > 0) {
+      setSalesDataVersion(prev => prev + 1);
     }
+    return batches.reduce((sum, batch) => sum + batch.row_count, 0);
+  };
+
+  const handleSalesDataChanged = () => {
+    setSalesDataVersion(prev => prev + 1);
   };
 
   const handleDeleteSalesData = async (accountId: string, dateRange?: { start: string; end: string }) => {
     const success = await deleteSalesData(accountId, dateRange);
     if (success) {
-      setSalesData(prev => {
-        if (dateRange) {
-          return prev.filter(data => 
-            !(data.account_id === accountId && 
-              data.date >= dateRange.start && 
-              data.date <= dateRange.end)
-          );
-        } else {
-          return prev.filter(data => data.account_id !== accountId);
-        }
-      });
+      setSalesDataVersion(prev => prev + 1);
     }
   };
 
@@ -207,19 +292,69 @@ function App() {
     setIncentiveRules(rules);
   };
 
+  if (isRestoringSession) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="flex items-center space-x-3 text-gray-600">
+          <div className="w-6 h-6 border-2 border-purple-600 border-t-transparent rounded-full animate-spin"></div>
+          <span>Memuat sesi...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (sessionLoadFailed) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+        <div className="max-w-md w-full flex items-start space-x-3 border border-red-200 bg-red-50 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+          <div className="text-sm text-red-700">
+            <h3 className="font-medium text-red-900">Profil gagal dimuat</h3>
+            <p>Sesi Anda masih aktif, tetapi data profil Anda tidak dapat dibaca. Periksa koneksi lalu coba lagi.</p>
+            <div className="mt-2 space-x-4">
+              <button
+                onClick={() => setRestoreAttempt(prev => prev + 1)}
+                className="text-red-700 font-medium underline hover:text-red-900"
+              >
+                Coba lagi
+              </button>
+              <button
+                onClick={handleLogout}
+                className="text-red-700 font-medium underline hover:text-red-900"
+              >
+                Keluar
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (!currentUser) {
     return <Login onLogin={handleLogin} />;
   }
 
+  if (passwordSetup) {
+    return (
+      <SetPassword
+        reason={passwordSetup}
+        email={currentUser.email}
+        onComplete={() => setPasswordSetup(null)}
+      />
+    );
+  }
+
   const renderContent = () => {
     switch (activeTab) {
       case 'dashboard':
         return (
           <Dashboard
             accounts={accounts}
-            salesData={salesData}
+            categories={categories}
+            salesDataVersion={salesDataVersion}
             dateFilter={dateFilter}
-            onDateFilterChange={setDateFilter}
+            onDateFilterChange={handleDateFilterChange}
             currentUser={currentUser}
           />
         );
@@ -237,17 +372,38 @@ function App() {
             onDeleteCategory={handleDeleteCategory}
           />
         );
+      case 'account-detail':
+        return (
+          <AccountDetail
+            accountId={routeParams.accountId}
+            accounts={accounts}
+            categories={categories}
+            salesDataVersion={salesDataVersion}
+            dateFilter={dateFilter}
+            onDateFilterChange={handleDateFilterChange}
+            currentUser={currentUser}
+          />
+        );
       case 'upload':
         return (
           <DataUpload
             accounts={accounts}
-            salesData={salesData}
+            salesDataVersion={salesDataVersion}
             categories={categories}
             currentUser={currentUser}
             onUploadData={handleUploadData}
+            onBulkUploadData={handleBulkUploadData}
+            onSalesDataChanged={handleSalesDataChanged}
             onDeleteSalesData={handleDeleteSalesData}
           />
         );
+      case 'anomalies':
+        return (
+          <SalesAnomalies
+            accounts={accounts}
+            salesDataVersion={salesDataVersion}
+          />
+        );
       case 'files':
         return (
           <FileManagement
@@ -259,10 +415,20 @@ function App() {
         return (
           <Reports
             accounts={accounts}
-            salesData={salesData}
+            salesDataVersion={salesDataVersion}
             categories={categories}
             dateFilter={dateFilter}
-            onDateFilterChange={setDateFilter}
+            onDateFilterChange={handleDateFilterChange}
+            currentUser={currentUser}
+          />
+        );
+      case 'monthly-report':
+        return (
+          <MonthlyReports
+            accounts={accounts}
+            categories={categories}
+            salesDataVersion={salesDataVersion}
+            incentiveRules={incentiveRules}
             currentUser={currentUser}
           />
         );
@@ -277,7 +443,7 @@ function App() {
         return (
           <IncentiveGameMap
             accounts={accounts}
-            salesData={salesData}
+            salesDataVersion={salesDataVersion}
             incentiveRules={incentiveRules}
             currentUser={currentUser}
           />
@@ -286,7 +452,7 @@ function App() {
         return (
           <IncentiveOverview
             accounts={accounts}
-            salesData={salesData}
+            salesDataVersion={salesDataVersion}
             incentiveRules={incentiveRules}
             currentUser={currentUser}
           />
@@ -299,6 +465,10 @@ function App() {
             currentUser={currentUser}
           />
         );
+      case 'audit':
+        return (
+          <AuditLog accounts={accounts} />
+        );
       case 'profile':
         return (
           <Profile 
@@ -310,9 +480,10 @@ function App() {
         return (
           <Dashboard
             accounts={accounts}
-            salesData={salesData}
+            categories={categories}
+            salesDataVersion={salesDataVersion}
             dateFilter={dateFilter}
-            onDateFilterChange={setDateFilter}
+            onDateFilterChange={handleDateFilterChange}
             currentUser={currentUser}
           />
         );
@@ -320,16 +491,17 @@ function App() {
   };
 
   return (
-    <div className="flex h-screen bg-gray-50">
+    <div className="flex h-screen bg-gray-50 print:block print:h-auto print:bg-white">
       <Sidebar
-        activeTab={activeTab}
+        activeTab={sidebarTab}
         onTabChange={handleTabChange}
         currentUser={currentUser}
       />
-      <main className="flex-1 overflow-y-auto">
-        <div className="p-6">
+      <main className="flex-1 overflow-y-auto print:overflow-visible">
+        <div className="p-6 print:p-0">
+          {isDemoMode && <DemoBanner />}
           {error && (
-            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg print:hidden">
               <p className="text-red-800">Error: {error}</p>
             </div>
           )}
@@ -0,0 +1,613 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  ArrowLeft,
+  BarChart3,
+  Calendar,
+  CalendarX,
+  DollarSign,
+  ExternalLink,
+  FileText,
+  History,
+  Mail,
+  MousePointer,
+  Percent,
+  Phone,
+  ShoppingCart,
+  TrendingDown,
+  TrendingUp,
+  User as UserIcon,
+} from 'lucide-react';
+import MetricCard from './MetricCard';
+import TimeSeriesChart from './TimeSeriesChart';
+import FunnelChart from './FunnelChart';
+import {
+  Account,
+  AccountAssignment,
+  AccountSalesTotals,
+  AuditLogEntry,
+  Category,
+  DailySalesTotals,
+  DateFilter,
+  FileData,
+  SalesQuery,
+  User,
+} from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { navigate, pickQueryParams } from '../lib/router';
+import { DATE_FILTER_PARAMS, getTabPath } from '../lib/routes';
+import { getDateFilterRange, parseDateString, sumSalesTotals, toDateString } from '../lib/salesQuery';
+import { getDashboardMetrics } from '../lib/trends';
+import { ChartMetric, chartMetricLabels, isCurrencyMetric } from '../lib/chartData';
+import {
+  accountStatusLabels,
+  findDataGaps,
+  getBestAndWorstDays,
+  getRelatedFiles,
+  getStatusChanges,
+  paymentStatusLabels,
+} from '../lib/accountHistory';
+
+interface AccountDetailProps {
+  accountId: string;
+  accounts: Account[];
+  categories: Category[];
+  salesDataVersion: number;
+  dateFilter: DateFilter;
+  onDateFilterChange: (filter: DateFilter) => void;
+  currentUser: User;
+}
+
+const RANKED_METRICS: ChartMetric[] = ['gross_commission', 'total_purchases', 'orders', 'clicks'];
+const MAX_LISTED_GAPS = 8;
+// Status changes older than this many entries are left to the audit log
+const HISTORY_LIMIT = 100;
+
+const AccountDetail: React.FC<AccountDetailProps> = ({
+  accountId,
+  accounts,
+  categories,
+  salesDataVersion,
+  dateFilter,
+  onDateFilterChange,
+  currentUser,
+}) => {
+  const account = accounts.find(acc => acc.id === accountId);
+  const { fetchAccountTotals, fetchDailyTotals, fetchAccountAssignments, fetchUsers, fetchAuditLog, fetchFiles } = useSupabase();
+
+  const [lifetimeTotals, setLifetimeTotals] = useState<AccountSalesTotals | null>(null);
+  const [dailyTotals, setDailyTotals] = useState<DailySalesTotals[]>([]);
+  const [assignments, setAssignments] = useState<AccountAssignment[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+  const [files, setFiles] = useState<FileData[]>([]);
+  const [rankedMetric, setRankedMetric] = useState<ChartMetric>('gross_commission');
+
+  const salesQuery = useMemo<SalesQuery>(() => ({
+    ...getDateFilterRange(dateFilter),
+    accountIds: [accountId],
+  }), [dateFilter, accountId]);
+
+  // All-time totals, plus the first and last day with data
+  useEffect(() => {
+    let isCurrent = true;
+    const loadLifetimeTotals = async () => {
+      const totals = await fetchAccountTotals({ accountIds: [accountId] });
+      if (isCurrent) {
+        setLifetimeTotals(totals.find(row => row.account_id === accountId) ?? null);
+      }
+    };
+
+    loadLifetimeTotals();
+    return () => {
+      isCurrent = false;
+    };
+  }, [accountId, salesDataVersion, fetchAccountTotals]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const loadDailyTotals = async () => {
+      const totals = await fetchDailyTotals(salesQuery);
+      if (isCurrent) {
+        setDailyTotals(totals);
+      }
+    };
+
+    loadDailyTotals();
+    return () => {
+      isCurrent = false;
+    };
+  }, [salesQuery, salesDataVersion, fetchDailyTotals]);
+
+  // Ownership, status history and files; reloaded when the account itself is edited
+  useEffect(() => {
+    let isCurrent = true;
+    const loadHistory = async () => {
+      const [assignmentData, userData, auditData, fileData] = await Promise.all([
+        fetchAccountAssignments({ accountIds: [accountId] }),
+        fetchUsers(),
+        fetchAuditLog({ entityType: 'account', entityId: accountId }, 0, HISTORY_LIMIT),
+        fetchFiles(),
+      ]);
+      if (isCurrent) {
+        setAssignments(assignmentData ?? []);
+        setUsers(userData ?? []);
+        setAuditEntries(auditData.data);
+        setFiles(fileData);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      isCurrent = false;
+    };
+  }, [accountId, account, fetchAccountAssignments, fetchUsers, fetchAuditLog, fetchFiles]);
+
+  const periodTotals = useMemo(() => sumSalesTotals(dailyTotals), [dailyTotals]);
+  const metrics = useMemo(() => getDashboardMetrics(periodTotals), [periodTotals]);
+  const lifetimeMetrics = useMemo(() => getDashboardMetrics(lifetimeTotals ?? sumSalesTotals([])), [lifetimeTotals]);
+  const rankedDays = useMemo(() => getBestAndWorstDays(dailyTotals, rankedMetric), [dailyTotals, rankedMetric]);
+
+  // Missing days between the account's first upload (or the range start, if later) and the range end
+  const gaps = useMemo(() => {
+    if (!lifetimeTotals) return [];
+    const range = getDateFilterRange(dateFilter);
+    const today = toDateString(new Date());
+    const start = range.startDate && range.startDate > lifetimeTotals.first_date ? range.startDate : lifetimeTotals.first_date;
+    const end = range.endDate && range.endDate < today ? range.endDate : today;
+    return findDataGaps(dailyTotals.map(day => day.date), start, end);
+  }, [lifetimeTotals, dailyTotals, dateFilter]);
+  const missingDays = gaps.reduce((sum, gap) => sum + gap.days, 0);
+
+  const statusChanges = useMemo(() => getStatusChanges(auditEntries), [auditEntries]);
+  const relatedFiles = useMemo(() => account ? getRelatedFiles(files, account) : [], [files, account]);
+  const sortedAssignments = [...assignments].sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+  const currentAssignment = sortedAssignments.find(assignment => assignment.effective_to === null);
+
+  const getUserName = (userId: string) => {
+    if (userId === currentUser.id) return currentUser.name;
+    return users.find(user => user.id === userId)?.name || 'Unknown user';
+  };
+
+  const getCategoryName = (categoryId: string) => {
+    if (!categoryId) return 'Belum Diatur';
+    const category = categories.find(cat => cat.id === categoryId);
+    return category?.name || 'Belum Diatur';
+  };
+
+  const getStatusColor = (status: Account['status']) => {
+    switch (status) {
+      case 'active': return 'bg-green-100 text-green-800';
+      case 'violation': return 'bg-red-100 text-red-800';
+      case 'inactive': return 'bg-gray-100 text-gray-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getPaymentColor = (payment: Account['payment_data']) => {
+    switch (payment) {
+      case 'belum diatur': return 'bg-gray-100 text-gray-800';
+      case 'utamakan': return 'bg-yellow-100 text-yellow-800';
+      case 'dimasukkan': return 'bg-blue-100 text-blue-800';
+      case 'disetujui': return 'bg-green-100 text-green-800';
+      case 'sah': return 'bg-purple-100 text-purple-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getChangeLabel = (field: 'status' | 'payment_data', value: string | null) => {
+    if (value === null) return '—';
+    return field === 'status'
+      ? accountStatusLabels[value as Account['status']] ?? value
+      : paymentStatusLabels[value as Account['payment_data']] ?? value;
+  };
+
+  const handleDateFilterChange = (field: string, value: string) => {
+    const newFilter = { ...dateFilter, [field]: value };
+
+    // Reset custom dates when switching to preset
+    if (field === 'preset' && value !== 'custom') {
+      newFilter.startDate = '';
+      newFilter.endDate = '';
+    }
+
+    onDateFilterChange(newFilter);
+  };
+
+  // Other screens keep the shared date range, like sidebar navigation does
+  const openPath = (path: string, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams(pickQueryParams(window.location.search, DATE_FILTER_PARAMS));
+    Object.entries(params).forEach(([key, value]) => query.set(key, value));
+    const search = query.toString();
+    navigate(`${path}${search ? `?${search}` : ''}`);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatPercentage = (value: number) => {
+    return `${value.toFixed(2)}%`;
+  };
+
+  const formatDate = (date: string) =>
+    parseDateString(date).toLocaleDateString('id-ID', { day: '2-digit', month: 'short', year: 'numeric' });
+
+  const formatRankedValue = (value: number) =>
+    isCurrencyMetric(rankedMetric) ? formatCurrency(value) : value.toLocaleString();
+
+  if (!account) {
+    return (
+      <div className="space-y-6">
+        <button
+          onClick={() => openPath(getTabPath('accounts'))}
+          className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to accounts</span>
+        </button>
+        <div className="bg-white rounded-xl border border-gray-100 p-12 text-center">
+          <UserIcon className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Account not found</h3>
+          <p className="text-gray-500">It may have been deleted, or you don't have access to it.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={() => openPath(getTabPath('accounts'))}
+        className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to accounts</span>
+      </button>
+
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-4">
+        <div className="flex items-start space-x-4">
+          <div className="w-14 h-14 bg-gradient-to-br from-blue-100 to-purple-100 rounded-xl flex items-center justify-center">
+            <UserIcon className="w-7 h-7 text-purple-600" />
+          </div>
+          <div>
+            <div className="flex items-center flex-wrap gap-2">
+              <h1 className="text-2xl font-bold text-gray-900">{account.username}</h1>
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                {account.account_code}
+              </span>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(account.status)}`}>
+                {accountStatusLabels[account.status]}
+              </span>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPaymentColor(account.payment_data)}`}>
+                {paymentStatusLabels[account.payment_data]}
+              </span>
+            </div>
+            <div className="flex items-center flex-wrap gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                {getCategoryName(account.category_id)}
+              </span>
+              {account.email && (
+                <span className="flex items-center space-x-1">
+                  <Mail className="w-4 h-4 text-gray-400" />
+                  <span>{account.email}</span>
+                </span>
+              )}
+              {account.phone && (
+                <span className="flex items-center space-x-1">
+                  <Phone className="w-4 h-4 text-gray-400" />
+                  <span>{account.phone}</span>
+                </span>
+              )}
+              <span className="flex items-center space-x-1">
+                <UserIcon className="w-4 h-4 text-gray-400" />
+                <span>{currentAssignment ? getUserName(currentAssignment.user_id) : 'Unassigned'}</span>
+              </span>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3 flex-wrap">
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-4 h-4 text-gray-400" />
+            <select
+              value={dateFilter.preset}
+              onChange={(e) => handleDateFilterChange('preset', e.target.value)}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="7">Last 7 days</option>
+              <option value="30">Last 30 days</option>
+              <option value="90">Last 90 days</option>
+              <option value="365">Last year</option>
+              <option value="all">All time</option>
+              <option value="custom">Custom range</option>
+            </select>
+          </div>
+
+          {dateFilter.preset === 'custom' && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={dateFilter.startDate}
+                onChange={(e) => handleDateFilterChange('startDate', e.target.value)}
+                className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+              <span className="text-gray-400">to</span>
+              <input
+                type="date"
+                value={dateFilter.endDate}
+                onChange={(e) => handleDateFilterChange('endDate', e.target.value)}
+                className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          <button
+            onClick={() => openPath(getTabPath('reports'), { account: account.id })}
+            className="flex items-center space-x-2 px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <BarChart3 className="w-4 h-4" />
+            <span>Open in Reports</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Lifetime */}
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Lifetime</h3>
+        {lifetimeTotals ? (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div>
+              <p className="text-sm text-gray-600">Commission</p>
+              <p className="text-lg font-bold text-gray-900">{formatCurrency(lifetimeMetrics.totalCommission)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Revenue</p>
+              <p className="text-lg font-bold text-gray-900">{formatCurrency(lifetimeMetrics.totalRevenue)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Orders</p>
+              <p className="text-lg font-bold text-gray-900">{lifetimeMetrics.totalOrders.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Clicks</p>
+              <p className="text-lg font-bold text-gray-900">{lifetimeMetrics.totalClicks.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Conversion</p>
+              <p className="text-lg font-bold text-gray-900">{formatPercentage(lifetimeMetrics.conversionRate)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Days with data</p>
+              <p className="text-lg font-bold text-gray-900">{lifetimeTotals.row_count.toLocaleString()}</p>
+              <p className="text-xs text-gray-500">
+                {formatDate(lifetimeTotals.first_date)} – {formatDate(lifetimeTotals.last_date)}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No sales data has been uploaded for this account yet.</p>
+        )}
+      </div>
+
+      {/* Selected period */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        <MetricCard
+          title="Commission"
+          value={formatCurrency(metrics.totalCommission)}
+          icon={DollarSign}
+          subtitle="Gross commission in this period"
+        />
+        <MetricCard
+          title="Revenue"
+          value={formatCurrency(metrics.totalRevenue)}
+          icon={TrendingUp}
+          subtitle="Total purchases in this period"
+        />
+        <MetricCard
+          title="Orders"
+          value={metrics.totalOrders}
+          icon={ShoppingCart}
+          subtitle="Orders placed"
+        />
+        <MetricCard
+          title="Clicks"
+          value={metrics.totalClicks}
+          icon={MousePointer}
+          subtitle="Affiliate link clicks"
+        />
+        <MetricCard
+          title="Commission Rate"
+          value={formatPercentage(metrics.commissionPercentage)}
+          icon={Percent}
+          subtitle="Commission per revenue"
+        />
+        <MetricCard
+          title="Conversion Rate"
+          value={formatPercentage(metrics.conversionRate)}
+          icon={MousePointer}
+          subtitle="Orders per clicks"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <TimeSeriesChart data={dailyTotals} title="Daily Performance" />
+        </div>
+        <FunnelChart totals={periodTotals} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Best and worst days */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Best & Worst Days</h3>
+            <select
+              value={rankedMetric}
+              onChange={(e) => setRankedMetric(e.target.value as ChartMetric)}
+              className="px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white"
+            >
+              {RANKED_METRICS.map(metric => (
+                <option key={metric} value={metric}>{chartMetricLabels[metric]}</option>
+              ))}
+            </select>
+          </div>
+          {dailyTotals.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No sales data in this period</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {([
+                { label: 'Best', days: rankedDays.best, icon: TrendingUp, color: 'text-green-600' },
+                { label: 'Worst', days: rankedDays.worst, icon: TrendingDown, color: 'text-red-600' },
+              ]).map(({ label, days, icon: Icon, color }) => (
+                <div key={label}>
+                  <div className={`flex items-center space-x-1 text-sm font-medium mb-2 ${color}`}>
+                    <Icon className="w-4 h-4" />
+                    <span>{label}</span>
+                  </div>
+                  {days.length === 0 ? (
+                    <p className="text-xs text-gray-500">Not enough days to compare</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {days.map(day => (
+                        <div key={day.date} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-lg">
+                          <span className="text-gray-700">{formatDate(day.date)}</span>
+                          <span className="font-semibold text-gray-900">{formatRankedValue(day[rankedMetric])}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Data gaps */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Data Gaps</h3>
+            {missingDays > 0 && (
+              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                {missingDays} missing {missingDays === 1 ? 'day' : 'days'}
+              </span>
+            )}
+          </div>
+          {!lifetimeTotals ? (
+            <p className="text-sm text-gray-500 text-center py-8">Nothing uploaded yet</p>
+          ) : gaps.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">Every day in this period has data</p>
+          ) : (
+            <div className="space-y-2">
+              {[...gaps].reverse().slice(0, MAX_LISTED_GAPS).map(gap => (
+                <div key={gap.start} className="flex items-center justify-between text-sm p-2 bg-orange-50 rounded-lg">
+                  <span className="flex items-center space-x-2 text-gray-700">
+                    <CalendarX className="w-4 h-4 text-orange-500" />
+                    <span>{gap.days === 1 ? formatDate(gap.start) : `${formatDate(gap.start)} – ${formatDate(gap.end)}`}</span>
+                  </span>
+                  <span className="text-orange-700 font-medium">{gap.days} {gap.days === 1 ? 'day' : 'days'}</span>
+                </div>
+              ))}
+              {gaps.length > MAX_LISTED_GAPS && (
+                <p className="text-xs text-gray-500">and {gaps.length - MAX_LISTED_GAPS} earlier gaps</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Status and payment history */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <History className="w-5 h-5 text-purple-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Status History</h3>
+          </div>
+          {statusChanges.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No recorded status changes</p>
+          ) : (
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {statusChanges.map(change => (
+                <div key={change.id} className="text-sm border-l-2 border-purple-200 pl-3">
+                  <div className="text-gray-900">
+                    <span className="font-medium">{change.field === 'status' ? 'Status' : 'Payment'}:</span>{' '}
+                    {change.before === null ? (
+                      <span>set to {getChangeLabel(change.field, change.after)}</span>
+                    ) : (
+                      <span>{getChangeLabel(change.field, change.before)} → {getChangeLabel(change.field, change.after)}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(change.changed_at).toLocaleString('id-ID')} · {change.actor_name || 'System'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Assignments */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <UserIcon className="w-5 h-5 text-purple-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Assigned To</h3>
+          </div>
+          {sortedAssignments.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No one has managed this account yet</p>
+          ) : (
+            <div className="space-y-2">
+              {sortedAssignments.map(assignment => (
+                <div key={assignment.id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-lg">
+                  <span className="font-medium text-gray-900">{getUserName(assignment.user_id)}</span>
+                  <span className="text-xs text-gray-500">
+                    {formatDate(assignment.effective_from)} – {assignment.effective_to ? formatDate(assignment.effective_to) : 'now'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Related files */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-2">
+              <FileText className="w-5 h-5 text-purple-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Related Files</h3>
+            </div>
+            {account.category_id && (
+              <button
+                onClick={() => openPath(getTabPath('files'), { category: account.category_id })}
+                className="text-xs text-purple-600 hover:text-purple-700"
+              >
+                View category files
+              </button>
+            )}
+          </div>
+          {relatedFiles.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No files for this account's category</p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {relatedFiles.map(file => (
+                <button
+                  key={file.id}
+                  onClick={() => openPath(getTabPath('files'), { q: file.name })}
+                  className="w-full flex items-center justify-between text-sm p-2 bg-gray-50 rounded-lg hover:bg-gray-100 text-left"
+                >
+                  <span className="truncate text-gray-900">{file.name}</span>
+                  <ExternalLink className="w-4 h-4 text-gray-400 flex-shrink-0 ml-2" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountDetail;
@@ -21,6 +21,9 @@ import {
 } from 'lucide-react';
 import { Account, Category, User as UserType } from '../types';
 import CategoryManagement from './CategoryManagement';
+import { hasCapability, seesOtherAccounts } from '../lib/permissions';
+import { navigate } from '../lib/router';
+import { getAccountPath } from '../lib/routes';
 
 interface AccountManagementProps {
   accounts: Account[];
@@ -45,11 +48,11 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   onUpdateCategory,
   onDeleteCategory,
 }) => {
-  // Filter accounts based on user role
+  // Filter accounts based on user permissions
   const filteredAccountsByRole = React.useMemo(() => {
     if (!currentUser) return [];
     
-    if (currentUser.role === 'superadmin') {
+    if (seesOtherAccounts(currentUser)) {
       return accounts;
     } else {
       // Regular users can only see accounts they manage
@@ -59,6 +62,13 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
     }
   }, [accounts, currentUser]);
 
+  // Team leads and finance see accounts they don't manage; finance may still change their payment status
+  const canManageAccounts = hasCapability(currentUser, 'accounts.manage');
+  const canEditAccount = (account: Account) =>
+    canManageAccounts || currentUser.managed_accounts.includes(account.id);
+  const canEditPayment = (account: Account) =>
+    canEditAccount(account) || hasCapability(currentUser, 'accounts.edit_payment');
+
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [paymentFilter, setPaymentFilter] = useState('all');
@@ -231,13 +241,13 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Account Management</h1>
             <p className="text-gray-600">
-              {currentUser?.role === 'superadmin' 
+              {canManageAccounts
                 ? 'Manage all affiliate accounts and their information'
                 : `Manage your ${filteredAccountsByRole.length} affiliate accounts`}
             </p>
           </div>
           <div className="flex space-x-3">
-            {currentUser?.role === 'superadmin' && (
+            {canManageAccounts && (
               <button
                 onClick={() => setShowCategoryManagement(true)}
                 className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
@@ -415,7 +425,12 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                           <div className="w-8 h-8 bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg flex items-center justify-center mr-3">
                             <User className="w-4 h-4 text-purple-600" />
                           </div>
-                          <div className="text-sm font-medium text-gray-900">{account.username}</div>
+                          <button
+                            onClick={() => navigate(getAccountPath(account.id))}
+                            className="text-sm font-medium text-gray-900 hover:text-purple-600 hover:underline"
+                          >
+                            {account.username}
+                          </button>
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -448,7 +463,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'status'})}
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getStatusColor(account.status)}`}
+                            disabled={!canEditAccount(account)}
+                            className={`disabled:cursor-default disabled:hover:opacity-100 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getStatusColor(account.status)}`}
                           >
                             {getStatusLabel(account.status)}
                           </button>
@@ -479,7 +495,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'payment_data'})}
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getPaymentColor(account.payment_data)}`}
+                            disabled={!canEditPayment(account)}
+                            className={`disabled:cursor-default disabled:hover:opacity-100 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getPaymentColor(account.payment_data)}`}
                           >
                             {getPaymentLabel(account.payment_data)}
                           </button>
@@ -511,7 +528,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'category_id'})}
-                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:opacity-80 transition-opacity"
+                            disabled={!canEditAccount(account)}
+                            className="disabled:cursor-default disabled:hover:opacity-100 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:opacity-80 transition-opacity"
                           >
                             {getCategoryName(account.category_id)}
                           </button>
@@ -522,14 +540,16 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex items-center space-x-3">
-                          <button
-                            onClick={() => handleEdit(account)}
-                            className="text-blue-600 hover:text-blue-700 transition-colors"
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
+                          {canEditAccount(account) && (
+                            <button
+                              onClick={() => handleEdit(account)}
+                              className="text-blue-600 hover:text-blue-700 transition-colors"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                          )}
                           
-                          {currentUser?.role === 'superadmin' && (
+                          {canManageAccounts && (
                             <button
                               onClick={() => onDeleteAccount(account.id)}
                               className="text-red-600 hover:text-red-700 transition-colors"
@@ -552,13 +572,13 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
               </h3>
               <p className="text-gray-600 mb-4">
                 {filteredAccountsByRole.length === 0 
-                  ? currentUser?.role === 'superadmin'
+                  ? canManageAccounts
                     ? 'Get started by adding your first account'
                     : 'No accounts have been assigned to you yet. Contact your administrator.'
                   : 'Try adjusting your search or filter criteria'
                 }
               </p>
-              {filteredAccountsByRole.length === 0 && currentUser?.role === 'superadmin' && (
+              {filteredAccountsByRole.length === 0 && canManageAccounts && (
                 <button
                   onClick={handleAdd}
                   className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors"
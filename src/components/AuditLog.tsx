@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ScrollText, Filter, Calendar, ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from 'lucide-react';
+import { Account, AuditAction, AuditEntityType, AuditLogEntry, AuditQuery, User } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { auditActionLabels, auditEntityLabels } from '../lib/auditLog';
+
+interface AuditLogProps {
+  accounts: Account[];
+}
+
+const AUDIT_PAGE_SIZE = 50;
+
+const actionStyles: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  import: 'bg-purple-100 text-purple-800',
+  revert: 'bg-orange-100 text-orange-800',
+};
+
+const AuditLog: React.FC<AuditLogProps> = ({ accounts }) => {
+  const { fetchAuditLog, fetchUsers } = useSupabase();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [totalRows, setTotalRows] = useState(0);
+  const [users, setUsers] = useState<User[]>([]);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [entityType, setEntityType] = useState<AuditEntityType | 'all'>('all');
+  const [action, setAction] = useState<AuditAction | 'all'>('all');
+  const [actorId, setActorId] = useState('all');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  const auditQuery = useMemo<AuditQuery>(() => ({
+    entityType: entityType !== 'all' ? entityType : undefined,
+    action: action !== 'all' ? action : undefined,
+    actorId: actorId !== 'all' ? actorId : undefined,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+  }), [entityType, action, actorId, startDate, endDate]);
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      setUsers(await fetchUsers() ?? []);
+    };
+
+    loadUsers();
+  }, [fetchUsers]);
+
+  // Start from the first page whenever the filters change
+  useEffect(() => {
+    setPage(0);
+  }, [auditQuery]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const loadEntries = async () => {
+      setIsLoading(true);
+      const result = await fetchAuditLog(auditQuery, page, AUDIT_PAGE_SIZE);
+      if (isCurrent) {
+        setEntries(result.data);
+        setTotalRows(result.count);
+        setIsLoading(false);
+      }
+    };
+
+    loadEntries();
+    return () => {
+      isCurrent = false;
+    };
+  }, [auditQuery, page, fetchAuditLog]);
+
+  const totalPages = Math.max(Math.ceil(totalRows / AUDIT_PAGE_SIZE), 1);
+
+  const getAccountName = (accountId: string) =>
+    accounts.find(account => account.id === accountId)?.username || accountId;
+
+  // Sales data entries are keyed by account, so they show the account's name
+  const getEntityLabel = (entry: AuditLogEntry) => {
+    if (entry.entity_label) return entry.entity_label;
+    if (entry.entity_type === 'sales_data' && entry.entity_id) return getAccountName(entry.entity_id);
+    return entry.entity_id || '-';
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '-';
+    if ((field === 'managed_accounts' || field === 'account_ids') && Array.isArray(value)) {
+      return value.length > 0 ? value.map(id => getAccountName(String(id))).join(', ') : '-';
+    }
+    if (field === 'account_id') return getAccountName(String(value));
+    if (Array.isArray(value) || typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+
+  const describeEntry = (entry: AuditLogEntry) => {
+    const fields = Object.keys(entry.changes);
+    if (entry.action === 'import' || entry.action === 'revert') {
+      return `${entry.metadata.row_count ?? 0} rows from ${entry.metadata.file_name || 'upload'}`;
+    }
+    if (entry.entity_type === 'sales_data' && entry.action === 'delete') {
+      const range = entry.metadata.date_range as { start: string; end: string } | null;
+      return `${entry.metadata.deleted_rows ?? 0} rows ${range ? `from ${range.start} to ${range.end}` : '(all dates)'}`;
+    }
+    if (entry.action === 'update') return fields.join(', ');
+    return `${fields.length} fields`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">Who changed accounts, users, incentive rules, payouts and sales data, and what changed</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Filter className="w-5 h-5 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">Filters:</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Entity:</label>
+            <select
+              value={entityType}
+              onChange={(e) => setEntityType(e.target.value as AuditEntityType | 'all')}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="all">All</option>
+              {(Object.keys(auditEntityLabels) as AuditEntityType[]).map(type => (
+                <option key={type} value={type}>{auditEntityLabels[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Action:</label>
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as AuditAction | 'all')}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="all">All</option>
+              {(Object.keys(auditActionLabels) as AuditAction[]).map(value => (
+                <option key={value} value={value}>{auditActionLabels[value]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Actor:</label>
+            <select
+              value={actorId}
+              onChange={(e) => setActorId(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="all">Everyone</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-4 h-4 text-gray-400" />
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            />
+            <span className="text-gray-400 text-sm">to</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="p-6 animate-pulse space-y-3">
+            <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+            <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        ) : entries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entity</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const changedFields = Object.entries(entry.changes);
+
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDateTime(entry.created_at)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {entry.actor_name || 'Unknown'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${actionStyles[entry.action]}`}>
+                            {auditActionLabels[entry.action]}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{getEntityLabel(entry)}</div>
+                          <div className="text-sm text-gray-500">{auditEntityLabels[entry.entity_type]}</div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-600 max-w-md truncate">
+                          {describeEntry(entry)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right">
+                          {changedFields.length > 0 && (
+                            <button
+                              onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                              className="p-1 text-gray-400 hover:text-gray-600"
+                            >
+                              {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={6} className="px-6 py-4">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-xs text-gray-500 uppercase">
+                                  <th className="pb-2 pr-4 font-medium">Field</th>
+                                  <th className="pb-2 pr-4 font-medium">Before</th>
+                                  <th className="pb-2 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changedFields.map(([field, change]) => (
+                                  <tr key={field} className="align-top">
+                                    <td className="py-1 pr-4 font-medium text-gray-700">{field}</td>
+                                    <td className="py-1 pr-4 text-red-700 break-all">{formatValue(field, change.before)}</td>
+                                    <td className="py-1 text-green-700 break-all">{formatValue(field, change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <ScrollText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No audit entries found</h3>
+            <p className="text-gray-600">Try adjusting your filters</p>
+          </div>
+        )}
+
+        {totalRows > 0 && (
+          <div className="flex items-center justify-between px-6 py-4 border-t border-gray-100">
+            <p className="text-sm text-gray-600">
+              {(page * AUDIT_PAGE_SIZE + 1).toLocaleString()}-{Math.min((page + 1) * AUDIT_PAGE_SIZE, totalRows).toLocaleString()} of {totalRows.toLocaleString()} entries
+            </p>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(prev => Math.max(prev - 1, 0))}
+                disabled={page === 0}
+                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {page + 1} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(prev => Math.min(prev + 1, totalPages - 1))}
+                disabled={page >= totalPages - 1}
+                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,414 @@
+import React, { useMemo, useState, useRef } from 'react';
+import { Upload, FileText, CheckCircle, AlertCircle, AlertTriangle, X, Layers } from 'lucide-react';
+import { Account, SalesData } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { BulkImportPlan, buildBulkImportPlan, readImportSources, toAccountUploads } from '../lib/bulkImport';
+import { detectAnomalies, toAcknowledgement } from '../lib/anomalies';
+
+interface BulkUploadModalProps {
+  accounts: Account[];
+  onClose: () => void;
+  onUploadAccount: (data: Omit<SalesData, 'id' | 'created_at' | 'batch_id'>[], fileName: string) => Promise<number>;
+}
+
+const BulkUploadModal: React.FC<BulkUploadModalProps> = ({ accounts, onClose, onUploadAccount }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [plan, setPlan] = useState<BulkImportPlan | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [uploadResult, setUploadResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [anomaliesAcknowledged, setAnomaliesAcknowledged] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { acknowledgeAnomalies } = useSupabase();
+
+  // Only the file itself is checked here; the single-account upload also compares with stored data
+  const flaggedByAccount = useMemo(() => new Map(
+    (plan?.accounts || []).map(preview => [preview.account.id, detectAnomalies(preview.rows)])
+  ), [plan]);
+  const flaggedCount = [...flaggedByAccount.values()].reduce((sum, flagged) => sum + flagged.length, 0);
+  const needsAcknowledgement = flaggedCount > 0 && !anomaliesAcknowledged;
+
+  const loadFiles = async (selectedFiles: File[]) => {
+    if (selectedFiles.length === 0) return;
+
+    setFiles(selectedFiles);
+    setPlan(null);
+    setUploadResult(null);
+    setAnomaliesAcknowledged(false);
+    setIsReading(true);
+
+    const { sources, issues } = await readImportSources(selectedFiles);
+    const importPlan = buildBulkImportPlan(sources, accounts);
+    setPlan({ ...importPlan, issues: [...issues, ...importPlan.issues] });
+    setIsReading(false);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    loadFiles(Array.from(event.target.files || []));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+    loadFiles(Array.from(e.dataTransfer.files || []));
+  };
+
+  const clearFiles = () => {
+    setFiles([]);
+    setPlan(null);
+    setUploadResult(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!plan || plan.summary.matched === 0) return;
+
+    const uploads = toAccountUploads(plan);
+    setIsUploading(true);
+    setProgress({ done: 0, total: uploads.length });
+
+    let uploaded = 0;
+    for (let i = 0; i < uploads.length; i++) {
+      const count = await onUploadAccount(uploads[i].rows, uploads[i].fileName);
+      if (count === 0) {
+        setUploadResult({
+          success: false,
+          message: `Upload stopped at ${uploads[i].account.username} (${i + 1} of ${uploads.length}). ${uploaded} records were saved before the error.`,
+        });
+        setIsUploading(false);
+        return;
+      }
+      await acknowledgeAnomalies(
+        (flaggedByAccount.get(uploads[i].account.id) || []).map(flagged => toAcknowledgement(uploads[i].account.id, flagged))
+      );
+      uploaded += count;
+      setProgress({ done: i + 1, total: uploads.length });
+    }
+
+    setUploadResult({
+      success: true,
+      message: [
+        `Successfully uploaded ${uploaded} records to ${plan.accounts.length} accounts.`,
+        flaggedCount > 0 ? `${flaggedCount} flagged rows were acknowledged.` : '',
+      ].filter(Boolean).join(' '),
+    });
+    setIsUploading(false);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Bulk Upload</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Upload one file with an account_code or username column, or drop many files (or a zip) named after their accounts
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* File Upload Area */}
+          <div
+            className={`border-2 border-dashed rounded-lg p-8 text-center mb-6 transition-colors ${
+              isDragOver
+                ? 'border-purple-400 bg-purple-50'
+                : 'border-gray-300 hover:border-gray-400'
+            }`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            <Layers className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+
+            {files.length === 0 ? (
+              <>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  {isDragOver ? 'Drop your files here' : 'Drop CSV, Excel or zip files here, or click to browse'}
+                </h3>
+                <p className={`mb-4 ${isDragOver ? 'text-purple-600' : 'text-gray-600'}`}>
+                  Multiple files can be selected at once
+                </p>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,.zip"
+                  multiple
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+                >
+                  Choose Files
+                </button>
+              </>
+            ) : (
+              <div className="flex items-center justify-center space-x-2">
+                <FileText className="w-6 h-6 text-green-500" />
+                <span className="font-medium text-gray-900">
+                  {files.length === 1 ? files[0].name : `${files.length} files`}
+                </span>
+                <button
+                  onClick={clearFiles}
+                  disabled={isUploading}
+                  className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {isReading && (
+            <div className="animate-pulse space-y-3 mb-6">
+              <div className="h-16 bg-gray-200 rounded-lg"></div>
+              <div className="h-32 bg-gray-200 rounded-lg"></div>
+            </div>
+          )}
+
+          {plan && (
+            <div className="space-y-6 mb-6">
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-green-600">{plan.summary.matched.toLocaleString()}</div>
+                  <p className="text-sm text-green-800">Matched rows</p>
+                </div>
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-gray-600">{plan.summary.unmatched.toLocaleString()}</div>
+                  <p className="text-sm text-gray-700">Unmatched rows</p>
+                </div>
+                <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-orange-600">{plan.summary.conflicting.toLocaleString()}</div>
+                  <p className="text-sm text-orange-800">Conflicting rows</p>
+                </div>
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <div className="text-2xl font-bold text-red-600">{plan.summary.rejected.toLocaleString()}</div>
+                  <p className="text-sm text-red-800">Rejected rows</p>
+                </div>
+              </div>
+
+              {/* Per-account preview */}
+              {plan.accounts.length > 0 && (
+                <div className="border border-gray-100 rounded-lg overflow-hidden">
+                  <div className="px-4 py-3 bg-gray-50 text-sm font-medium text-gray-700">
+                    {plan.accounts.length} accounts will be updated
+                  </div>
+                  <div className="max-h-64 overflow-y-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Flagged</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date Range</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Files</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {plan.accounts.map(preview => {
+                          const flagged = flaggedByAccount.get(preview.account.id) || [];
+                          return (
+                            <tr key={preview.account.id} className="hover:bg-gray-50">
+                              <td className="px-4 py-2">
+                                <div className="text-sm font-medium text-gray-900">{preview.account.username}</div>
+                                <div className="text-xs text-gray-500">{preview.account.account_code}</div>
+                              </td>
+                              <td className="px-4 py-2 text-sm text-right text-gray-900">{preview.rows.length}</td>
+                              <td className="px-4 py-2 text-sm text-right">
+                                {flagged.length > 0 ? (
+                                  <span
+                                    className="text-red-700 font-medium"
+                                    title={flagged
+                                      .map(item => `${item.row.date}: ${item.issues.map(issue => issue.message).join('; ')}`)
+                                      .join('\n')}
+                                  >
+                                    {flagged.length}
+                                  </span>
+                                ) : (
+                                  <span className="text-gray-400">0</span>
+                                )}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-600">
+                                {formatDate(preview.startDate)} - {formatDate(preview.endDate)}
+                              </td>
+                              <td className="px-4 py-2 text-xs text-gray-500">{preview.sources.join(', ')}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {/* Flagged */}
+              {flaggedCount > 0 && (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4">
+                  <h3 className="font-medium text-red-900 mb-1">
+                    {flaggedCount} {flaggedCount === 1 ? 'row looks' : 'rows look'} wrong
+                  </h3>
+                  <p className="text-sm text-red-700 mb-3">
+                    Hover the flagged count of an account to see why. Check these rows against the source export before uploading.
+                  </p>
+                  <label className="flex items-start space-x-2 text-sm text-red-900 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={anomaliesAcknowledged}
+                      onChange={(e) => setAnomaliesAcknowledged(e.target.checked)}
+                      className="mt-0.5 rounded border-red-300 text-red-600 focus:ring-red-500"
+                    />
+                    <span>I checked these rows and they are correct</span>
+                  </label>
+                </div>
+              )}
+
+              {/* Unmatched */}
+              {plan.unmatched.length > 0 && (
+                <div className="border border-gray-200 bg-gray-50 rounded-lg p-4">
+                  <h3 className="font-medium text-gray-900 mb-2">Not matched to an account</h3>
+                  <ul className="max-h-32 overflow-y-auto space-y-1 text-sm text-gray-700">
+                    {plan.unmatched.map(group => (
+                      <li key={`${group.source}-${group.accountKey}`}>
+                        <span className="font-medium">{group.accountKey}</span> in {group.source}: {group.rowCount} rows
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Conflicts */}
+              {plan.conflicts.length > 0 && (
+                <div className="border border-orange-200 bg-orange-50 rounded-lg p-4">
+                  <div className="flex items-start space-x-3">
+                    <AlertTriangle className="w-5 h-5 text-orange-500 mt-0.5" />
+                    <div className="flex-1">
+                      <h3 className="font-medium text-orange-900">Conflicting dates skipped</h3>
+                      <p className="text-sm text-orange-700 mb-2">
+                        These dates appear more than once with different values and will not be uploaded.
+                      </p>
+                      <ul className="max-h-32 overflow-y-auto space-y-1 text-sm text-orange-800">
+                        {plan.conflicts.map(conflict => (
+                          <li key={`${conflict.account.id}-${conflict.date}`}>
+                            <span className="font-medium">{conflict.account.username} {conflict.date}:</span> {conflict.sources.join(', ')}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Rejected rows and file problems */}
+              {plan.issues.length > 0 && (
+                <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4">
+                  <div className="flex items-start space-x-3">
+                    <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
+                    <div className="flex-1">
+                      <h3 className="font-medium text-yellow-900">{plan.issues.length} problems found</h3>
+                      <ul className="max-h-32 overflow-y-auto space-y-1 text-sm text-yellow-800">
+                        {plan.issues.map((issue, index) => (
+                          <li key={`${issue.source}-${issue.line ?? 'file'}-${index}`}>
+                            <span className="font-medium">
+                              {issue.source}{issue.line !== undefined ? ` line ${issue.line}` : ''}:
+                            </span> {issue.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Upload Result */}
+          {uploadResult && (
+            <div className={`border rounded-lg p-4 mb-6 flex items-start space-x-3 ${
+              uploadResult.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+            }`}>
+              {uploadResult.success ? (
+                <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+              ) : (
+                <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+              )}
+              <div>
+                <h3 className={`font-medium ${
+                  uploadResult.success ? 'text-green-900' : 'text-red-900'
+                }`}>
+                  {uploadResult.success ? 'Upload Successful' : 'Upload Failed'}
+                </h3>
+                <p className={`text-sm ${
+                  uploadResult.success ? 'text-green-700' : 'text-red-700'
+                }`}>
+                  {uploadResult.message}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              disabled={isUploading}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {uploadResult?.success ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleUpload}
+              disabled={isUploading || isReading || !plan || plan.summary.matched === 0 || uploadResult?.success || needsAcknowledgement}
+              className="flex-1 bg-purple-600 text-white py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {isUploading ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  <span>Uploading account {Math.min(progress.done + 1, progress.total)} of {progress.total}...</span>
+                </>
+              ) : (
+                <>
+                  <Upload className="w-4 h-4" />
+                  <span>
+                    {plan && plan.summary.matched > 0
+                      ? `Upload ${plan.summary.matched.toLocaleString()} rows to ${plan.accounts.length} accounts`
+                      : 'Upload Data'}
+                  </span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkUploadModal;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { AlertTriangle, Upload } from 'lucide-react';
+import { Account } from '../types';
+import { useCoverage } from '../hooks/useCoverage';
+import { getCurrentMonth } from '../lib/incentiveEngine';
+import { DEFAULT_STALE_DAYS, isStale } from '../lib/coverage';
+import { navigate } from '../lib/router';
+import { getTabPath } from '../lib/routes';
+
+interface CoverageAlertProps {
+  // The accounts the viewer is responsible for uploading
+  accounts: Account[];
+  salesDataVersion: number;
+}
+
+const MAX_LISTED_ACCOUNTS = 5;
+
+// Missing upload days of this month and stale accounts; renders nothing when all is uploaded
+const CoverageAlert: React.FC<CoverageAlertProps> = ({ accounts, salesDataVersion }) => {
+  const month = getCurrentMonth();
+  const { coverage } = useCoverage(accounts, month, salesDataVersion);
+
+  const incomplete = coverage
+    .filter(row => row.missing_days.length > 0 || isStale(row, DEFAULT_STALE_DAYS))
+    .sort((a, b) => b.missing_days.length - a.missing_days.length);
+  if (incomplete.length === 0) return null;
+
+  const missingTotal = incomplete.reduce((sum, row) => sum + row.missing_days.length, 0);
+  const getUsername = (accountId: string) =>
+    accounts.find(account => account.id === accountId)?.username || 'Unknown Account';
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-xl p-4">
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-orange-600 mt-0.5 flex-shrink-0" />
+          <div>
+            <h3 className="font-semibold text-orange-900">
+              {missingTotal > 0
+                ? `${missingTotal} upload ${missingTotal === 1 ? 'day is' : 'days are'} missing this month`
+                : `${incomplete.length} ${incomplete.length === 1 ? 'account has' : 'accounts have'} no recent data`}
+            </h3>
+            <p className="text-sm text-orange-800">
+              Incentives only count days that are uploaded. Accounts without data for more than {DEFAULT_STALE_DAYS} days are listed too.
+            </p>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {incomplete.slice(0, MAX_LISTED_ACCOUNTS).map(row => (
+                <span key={row.account_id} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-white text-orange-800 border border-orange-200">
+                  {getUsername(row.account_id)}
+                  {row.missing_days.length > 0
+                    ? ` · ${row.missing_days.length} missing`
+                    : ` · ${row.days_since_data === null ? 'never uploaded' : `${row.days_since_data}d since data`}`}
+                </span>
+              ))}
+              {incomplete.length > MAX_LISTED_ACCOUNTS && (
+                <span className="text-xs text-orange-800 self-center">+{incomplete.length - MAX_LISTED_ACCOUNTS} more</span>
+              )}
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={() => navigate(`${getTabPath('upload')}?month=${month}`)}
+          className="flex items-center space-x-2 bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors text-sm flex-shrink-0"
+        >
+          <Upload className="w-4 h-4" />
+          <span>Upload data</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CoverageAlert;
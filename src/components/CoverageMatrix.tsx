@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CalendarCheck, Clock } from 'lucide-react';
+import { Account } from '../types';
+import { useCoverage } from '../hooks/useCoverage';
+import { useQueryParam } from '../hooks/useRouter';
+import { getCurrentMonth } from '../lib/incentiveEngine';
+import { CoverageCell, DEFAULT_STALE_DAYS, isStale } from '../lib/coverage';
+import { parseDateString } from '../lib/salesQuery';
+
+interface CoverageMatrixProps {
+  accounts: Account[];
+  salesDataVersion: number;
+  // Opens the upload modal for an account, e.g. from one of its missing days
+  onUploadAccount: (accountId: string) => void;
+}
+
+const STALE_DAY_OPTIONS = [1, 3, 7, 14, 30];
+
+const cellStyles: Record<CoverageCell, string> = {
+  present: 'bg-green-400',
+  missing: 'bg-red-400 hover:bg-red-500 cursor-pointer',
+  not_expected: 'bg-gray-100',
+};
+
+const cellLabels: Record<CoverageCell, string> = {
+  present: 'Uploaded',
+  missing: 'Missing',
+  not_expected: 'Not expected',
+};
+
+// Accounts × days of a month, showing which days still need an upload
+const CoverageMatrix: React.FC<CoverageMatrixProps> = ({ accounts, salesDataVersion, onUploadAccount }) => {
+  const [month, setMonth] = useQueryParam('month', getCurrentMonth());
+  const [staleParam, setStaleParam] = useQueryParam('stale', String(DEFAULT_STALE_DAYS));
+  const [onlyIncomplete, setOnlyIncomplete] = useState(false);
+  const staleDays = Number(staleParam) > 0 ? Number(staleParam) : DEFAULT_STALE_DAYS;
+
+  const { days, coverage, isLoading } = useCoverage(accounts, month, salesDataVersion);
+
+  const rows = useMemo(() => coverage
+    .map(row => ({
+      ...row,
+      account: accounts.find(account => account.id === row.account_id),
+      isStale: isStale(row, staleDays),
+    }))
+    .filter(row => !onlyIncomplete || row.missing_days.length > 0 || row.isStale)
+    .sort((a, b) =>
+      b.missing_days.length - a.missing_days.length ||
+      Number(b.isStale) - Number(a.isStale) ||
+      (a.account?.username || '').localeCompare(b.account?.username || '')
+    ), [coverage, accounts, staleDays, onlyIncomplete]);
+
+  const missingTotal = coverage.reduce((sum, row) => sum + row.missing_days.length, 0);
+  const incompleteCount = coverage.filter(row => row.missing_days.length > 0).length;
+  const staleCount = coverage.filter(row => isStale(row, staleDays)).length;
+
+  const formatDay = (date: string) =>
+    parseDateString(date).toLocaleDateString('id-ID', { weekday: 'short', day: '2-digit', month: 'short' });
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Data Coverage</h3>
+            <p className="text-sm text-gray-600">Days with uploaded sales data per account</p>
+          </div>
+          <div className="flex items-center flex-wrap gap-3">
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            />
+            <div className="flex items-center space-x-2">
+              <label className="text-sm text-gray-600">Stale after</label>
+              <select
+                value={staleDays}
+                onChange={(e) => setStaleParam(e.target.value)}
+                className="px-3 py-1 border border-gray-300 rounded text-sm"
+              >
+                {STALE_DAY_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option} {option === 1 ? 'day' : 'days'}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={onlyIncomplete}
+                onChange={(e) => setOnlyIncomplete(e.target.checked)}
+                className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+              />
+              <span>Only accounts with gaps</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mt-4">
+          <span className={`inline-flex items-center space-x-1 px-2.5 py-1 rounded-full text-xs font-medium ${
+            missingTotal > 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+          }`}>
+            {missingTotal > 0 ? <AlertTriangle className="w-3 h-3" /> : <CalendarCheck className="w-3 h-3" />}
+            <span>
+              {missingTotal > 0
+                ? `${missingTotal} missing days in ${incompleteCount} ${incompleteCount === 1 ? 'account' : 'accounts'}`
+                : 'No missing days'}
+            </span>
+          </span>
+          {staleCount > 0 && (
+            <span className="inline-flex items-center space-x-1 px-2.5 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+              <Clock className="w-3 h-3" />
+              <span>{staleCount} stale {staleCount === 1 ? 'account' : 'accounts'}</span>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {isLoading && coverage.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 text-sm">Loading coverage...</div>
+      ) : rows.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 text-sm">
+          {onlyIncomplete ? 'Every account is complete for this month' : 'No accounts to show'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="sticky left-0 bg-gray-50 px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                {days.map(day => (
+                  <th key={day} className="px-0.5 py-2 font-medium text-gray-400 text-center w-5" title={formatDay(day)}>
+                    {parseDateString(day).getDate()}
+                  </th>
+                ))}
+                <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Missing</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Last Data</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(row => (
+                <tr key={row.account_id} className="hover:bg-gray-50">
+                  <td className="sticky left-0 bg-white px-4 py-2 whitespace-nowrap font-medium text-gray-900">
+                    {row.account?.username || 'Unknown Account'}
+                  </td>
+                  {row.cells.map((cell, index) => (
+                    <td key={days[index]} className="px-0.5 py-2">
+                      <div
+                        className={`w-4 h-4 rounded-sm mx-auto ${cellStyles[cell]}`}
+                        title={`${formatDay(days[index])}: ${cellLabels[cell]}`}
+                        onClick={cell === 'missing' ? () => onUploadAccount(row.account_id) : undefined}
+                      ></div>
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {row.missing_days.length > 0 ? (
+                      <span className="text-red-700 font-medium">{row.missing_days.length}</span>
+                    ) : (
+                      <span className="text-gray-400">0</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <span className={row.isStale ? 'text-orange-700 font-medium' : 'text-gray-600'}>
+                      {row.last_date
+                        ? `${parseDateString(row.last_date).toLocaleDateString('id-ID')} (${row.days_since_data}d ago)`
+                        : 'Never'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center flex-wrap gap-4 px-6 py-3 border-t border-gray-100 text-xs text-gray-500">
+        {(Object.keys(cellLabels) as CoverageCell[]).map(cell => (
+          <span key={cell} className="flex items-center space-x-1">
+            <span className={`w-3 h-3 rounded-sm ${cellStyles[cell].split(' ')[0]}`}></span>
+            <span>{cellLabels[cell]}</span>
+          </span>
+        ))}
+        <span>Click a missing day to upload data for that account.</span>
+      </div>
+    </div>
+  );
+};
+
+export default CoverageMatrix;
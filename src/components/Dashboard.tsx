@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   DollarSign, 
   ShoppingCart, 
@@ -15,65 +15,126 @@ import {
   Shield
 } from 'lucide-react';
 import MetricCard from './MetricCard';
-import { DashboardMetrics, Account, SalesData, User } from '../types';
-
-interface DateFilter {
-  startDate: string;
-  endDate: string;
-  preset: string;
-}
+import SquadRollupTable from './SquadRollupTable';
+import TimeSeriesChart from './TimeSeriesChart';
+import SalesBreakdownChart from './SalesBreakdownChart';
+import FunnelChart from './FunnelChart';
+import CoverageAlert from './CoverageAlert';
+import { Account, Category, ComparisonPeriod, DailySalesTotals, DateFilter, SalesQuery, SalesTotals, User } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useSquadFilter } from '../hooks/useSquadFilter';
+import { useQueryParam } from '../hooks/useRouter';
+import { getDateFilterRange, getScopedAccountIds, sumSalesTotals } from '../lib/salesQuery';
+import { hasCapability, seesOtherAccounts } from '../lib/permissions';
+import { comparisonLabels, getComparisonRange, getDashboardMetrics, getMetricTrends } from '../lib/trends';
 
 interface DashboardProps {
   accounts: Account[];
-  salesData: SalesData[];
+  categories: Category[];
+  salesDataVersion: number;
   dateFilter: DateFilter;
   onDateFilterChange: (filter: DateFilter) => void;
   currentUser?: User;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter, onDateFilterChange, currentUser }) => {
-  // Filter accounts and sales data based on user role
+const Dashboard: React.FC<DashboardProps> = ({ accounts, categories, salesDataVersion, dateFilter, onDateFilterChange, currentUser }) => {
+  const {
+    isAvailable: canFilterSquads,
+    squads,
+    selectedSquad,
+    setSelectedSquad,
+    squadAccountIds,
+    rollups: squadRollups,
+  } = useSquadFilter(currentUser, getDateFilterRange(dateFilter), salesDataVersion);
+
+  // Filter accounts and sales data based on user permissions
   const filteredAccounts = React.useMemo(() => {
     if (!currentUser) return [];
     
-    if (currentUser.role === 'superadmin') {
-      return accounts;
+    if (seesOtherAccounts(currentUser)) {
+      return squadAccountIds ? accounts.filter(account => squadAccountIds.includes(account.id)) : accounts;
     } else {
       // Regular users can only see accounts they manage
       return accounts.filter(account => 
         currentUser.managed_accounts.includes(account.id)
       );
     }
-  }, [accounts, currentUser]);
+  }, [accounts, currentUser, squadAccountIds]);
 
-  const filteredSalesDataByUser = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return salesData;
-    } else {
-      // Regular users can only see sales data for accounts they manage
-      return salesData.filter(data => 
-        currentUser.managed_accounts.includes(data.account_id)
-      );
+  // Upload gaps are shown to whoever manages the accounts, not to everyone who can see them
+  const responsibleAccounts = React.useMemo(
+    () => currentUser ? accounts.filter(account => currentUser.managed_accounts.includes(account.id)) : [],
+    [accounts, currentUser]
+  );
+
+  const { fetchDailyTotals } = useSupabase();
+  const [dailyTotals, setDailyTotals] = useState<DailySalesTotals[]>([]);
+  const [comparison, setComparison] = useQueryParam('compare', 'previous');
+  const [comparisonTotals, setComparisonTotals] = useState<SalesTotals | null>(null);
+  const comparisonPeriod: ComparisonPeriod = comparison in comparisonLabels ? comparison as ComparisonPeriod : 'previous';
+
+  const salesQuery = useMemo<SalesQuery>(() => ({
+    ...getDateFilterRange(dateFilter),
+    accountIds: squadAccountIds ?? getScopedAccountIds(currentUser),
+  }), [dateFilter, squadAccountIds, currentUser]);
+
+  // Aggregate the selected range per day in the database
+  useEffect(() => {
+    let isCurrent = true;
+    const loadDailyTotals = async () => {
+      const totals = await fetchDailyTotals(salesQuery);
+      if (isCurrent) {
+        setDailyTotals(totals);
+      }
+    };
+
+    loadDailyTotals();
+    return () => {
+      isCurrent = false;
+    };
+  }, [salesQuery, salesDataVersion, fetchDailyTotals]);
+
+  // The same accounts over the comparison range; "All time" has nothing to compare with
+  const comparisonRange = useMemo(
+    () => getComparisonRange(getDateFilterRange(dateFilter), comparisonPeriod),
+    [dateFilter, comparisonPeriod]
+  );
+
+  useEffect(() => {
+    if (!comparisonRange) {
+      setComparisonTotals(null);
+      return;
     }
-  }, [salesData, currentUser]);
+    let isCurrent = true;
+    const loadComparisonTotals = async () => {
+      const totals = await fetchDailyTotals({ ...comparisonRange, accountIds: salesQuery.accountIds });
+      if (isCurrent) {
+        setComparisonTotals(sumSalesTotals(totals));
+      }
+    };
 
-  const [metrics, setMetrics] = useState<DashboardMetrics>({
-    totalCommission: 0,
-    totalRevenue: 0,
-    totalOrders: 0,
-    totalClicks: 0,
-    commissionPercentage: 0,
-    conversionRate: 0,
-  });
+    loadComparisonTotals();
+    return () => {
+      isCurrent = false;
+    };
+  }, [comparisonRange, salesQuery, salesDataVersion, fetchDailyTotals]);
+
+  const rangeTotals = useMemo(() => sumSalesTotals(dailyTotals), [dailyTotals]);
+  const metrics = useMemo(() => getDashboardMetrics(rangeTotals), [rangeTotals]);
+
+  const trends = useMemo(
+    () => comparisonTotals ? getMetricTrends(metrics, getDashboardMetrics(comparisonTotals)) : null,
+    [metrics, comparisonTotals]
+  );
+  const trendLabel = comparisonRange
+    ? `vs ${comparisonLabels[comparisonPeriod].toLowerCase()} (${comparisonRange.startDate} – ${comparisonRange.endDate})`
+    : undefined;
 
-  const [dailyData, setDailyData] = useState<any[]>([]);
-  const [filteredSalesData, setFilteredSalesData] = useState<SalesData[]>([]);
 
-  // Calculate payment status statistics for superadmin
+  // Calculate payment status statistics for whoever handles payment status
+  const canEditPayment = hasCapability(currentUser, 'accounts.edit_payment');
   const paymentStats = React.useMemo(() => {
-    if (currentUser?.role !== 'superadmin') return null;
+    if (!canEditPayment) return null;
     
     const stats = {
       total: filteredAccounts.length,
@@ -85,80 +146,13 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
     };
     
     return stats;
-  }, [filteredAccounts, currentUser]);
+  }, [filteredAccounts, canEditPayment]);
 
   // Get accounts that need immediate attention (utamakan status)
   const priorityAccounts = React.useMemo(() => {
-    if (currentUser?.role !== 'superadmin') return [];
+    if (!canEditPayment) return [];
     return filteredAccounts.filter(acc => acc.payment_data === 'utamakan');
-  }, [filteredAccounts, currentUser]);
-
-  // Filter sales data based on date filter
-  useEffect(() => {
-    let filtered = filteredSalesDataByUser;
-    
-    if (dateFilter.preset === 'custom' && dateFilter.startDate && dateFilter.endDate) {
-      const startDate = new Date(dateFilter.startDate);
-      const endDate = new Date(dateFilter.endDate);
-      filtered = filteredSalesDataByUser.filter(data => {
-        const dataDate = new Date(data.date);
-        return dataDate >= startDate && dataDate <= endDate;
-      });
-    } else if (dateFilter.preset !== 'all') {
-      const daysAgo = parseInt(dateFilter.preset);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-      filtered = filteredSalesDataByUser.filter(data => new Date(data.date) >= cutoffDate);
-    }
-    
-    setFilteredSalesData(filtered);
-  }, [filteredSalesDataByUser, dateFilter]);
-
-  useEffect(() => {
-    // Calculate metrics from sales data
-    const totalCommission = filteredSalesData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const totalRevenue = filteredSalesData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalOrders = filteredSalesData.reduce((sum, data) => sum + data.orders, 0);
-    const totalClicks = filteredSalesData.reduce((sum, data) => sum + data.clicks, 0);
-    
-    const commissionPercentage = totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0;
-    const conversionRate = totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0;
-
-    setMetrics({
-      totalCommission,
-      totalRevenue,
-      totalOrders,
-      totalClicks,
-      commissionPercentage,
-      conversionRate,
-    });
-
-    // Prepare daily data for charts (last 7 days with data)
-    const groupedData = filteredSalesData.reduce((acc, data) => {
-      const date = data.date;
-      if (!acc[date]) {
-        acc[date] = {
-          date,
-          commission: 0,
-          revenue: 0,
-          orders: 0,
-          clicks: 0,
-        };
-      }
-      acc[date].commission += data.gross_commission;
-      acc[date].revenue += data.total_purchases;
-      acc[date].orders += data.orders;
-      acc[date].clicks += data.clicks;
-      return acc;
-    }, {} as any);
-
-    const dailyArray = Object.values(groupedData)
-      .sort((a: any, b: any) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 7)
-      .reverse();
-
-    setDailyData(dailyArray);
-  }, [filteredSalesData]);
+  }, [filteredAccounts, canEditPayment]);
 
   const handleDateFilterChange = (field: string, value: string) => {
     const newFilter = { ...dateFilter, [field]: value };
@@ -192,6 +186,21 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
           <p className="text-gray-600">Detailed overview of your affiliate performance</p>
         </div>
         <div className="flex items-center space-x-3 flex-wrap">
+          {canFilterSquads && squads.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Users className="w-4 h-4 text-gray-400" />
+              <select
+                value={selectedSquad}
+                onChange={(e) => setSelectedSquad(e.target.value)}
+                className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value="all">All squads</option>
+                {squadRollups.map(rollup => (
+                  <option key={rollup.squad_id} value={rollup.squad_id}>{rollup.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="flex items-center space-x-2">
             <Calendar className="w-4 h-4 text-gray-400" />
             <select 
@@ -225,42 +234,83 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
               />
             </div>
           )}
+
+          <div className="flex items-center space-x-2">
+            <TrendingUp className="w-4 h-4 text-gray-400" />
+            <select
+              value={comparisonPeriod}
+              onChange={(e) => setComparison(e.target.value)}
+              disabled={!comparisonRange}
+              title={comparisonRange ? undefined : 'Pick a range with a start date to compare'}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50"
+            >
+              {(Object.keys(comparisonLabels) as ComparisonPeriod[]).map(period => (
+                <option key={period} value={period}>Compare: {comparisonLabels[period]}</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
+      {responsibleAccounts.length > 0 && (
+        <CoverageAlert accounts={responsibleAccounts} salesDataVersion={salesDataVersion} />
+      )}
+
       {/* Metrics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <MetricCard
           title="Total Commission"
           value={formatCurrency(metrics.totalCommission)}
           icon={DollarSign}
-          trend={{ value: 12.1, isPositive: true }}
+          trend={trends?.totalCommission}
+          trendLabel={trendLabel}
           subtitle="Gross commission earned"
         />
         <MetricCard
           title="Total Revenue"
           value={formatCurrency(metrics.totalRevenue)}
           icon={TrendingUp}
-          trend={{ value: 8.5, isPositive: true }}
+          trend={trends?.totalRevenue}
+          trendLabel={trendLabel}
           subtitle="Total purchases generated"
         />
+        <MetricCard
+          title="Total Orders"
+          value={metrics.totalOrders}
+          icon={ShoppingCart}
+          trend={trends?.totalOrders}
+          trendLabel={trendLabel}
+          subtitle="Orders placed"
+        />
+        <MetricCard
+          title="Total Clicks"
+          value={metrics.totalClicks}
+          icon={MousePointer}
+          trend={trends?.totalClicks}
+          trendLabel={trendLabel}
+          subtitle="Affiliate link clicks"
+        />
         <MetricCard
           title="Commission Rate"
           value={formatPercentage(metrics.commissionPercentage)}
           icon={Percent}
-          trend={{ value: 2.4, isPositive: true }}
+          trend={trends?.commissionPercentage}
+          trendLabel={trendLabel}
           subtitle="Average commission percentage"
         />
         <MetricCard
           title="Conversion Rate"
           value={formatPercentage(metrics.conversionRate)}
           icon={MousePointer}
-          trend={{ value: 1.2, isPositive: false }}
+          trend={trends?.conversionRate}
+          trendLabel={trendLabel}
           subtitle="Orders per clicks"
         />
       </div>
 
-      {currentUser?.role === 'superadmin' && paymentStats && (
+      <SquadRollupTable rollups={squadRollups} selectedSquad={selectedSquad} onSelectSquad={setSelectedSquad} />
+
+      {paymentStats && (
         <>
           <div className="flex items-center justify-between">
             <div>
@@ -431,42 +481,9 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
         </>
       )}
 
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Commission Overview Chart */}
-        <div className="bg-white rounded-xl border border-gray-100 p-6">
-          <div className="flex items-center justify-between mb-6">
-            <h3 className="text-lg font-semibold text-gray-900">Commission Overview</h3>
-            <div className="flex items-center space-x-4">
-              <div className="flex items-center space-x-2">
-                <div className="w-3 h-3 bg-purple-500 rounded-full"></div>
-                <span className="text-sm text-gray-600">This period</span>
-              </div>
-            </div>
-          </div>
-          
-          <div className="h-64 flex items-end space-x-2">
-            {dailyData.map((data, index) => {
-              const maxCommission = Math.max(...dailyData.map(d => d.commission));
-              const height = maxCommission > 0 ? (data.commission / maxCommission) * 200 : 0;
-              
-              return (
-                <div key={index} className="flex-1 flex flex-col items-center">
-                  <div className="w-full bg-gray-100 rounded-t-lg relative group cursor-pointer">
-                    <div 
-                      className="bg-gradient-to-t from-purple-600 to-purple-400 rounded-t-lg transition-all duration-300 hover:from-purple-700 hover:to-purple-500"
-                      style={{ height: `${height}px` }}
-                    ></div>
-                    <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 bg-gray-800 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity">
-                      {formatCurrency(data.commission)}
-                    </div>
-                  </div>
-                  <span className="text-xs text-gray-500 mt-2">
-                    {new Date(data.date).toLocaleDateString('id-ID', { day: '2-digit', month: 'short' })}
-                  </span>
-                </div>
-              );
-            })}
-          </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <TimeSeriesChart data={dailyTotals} />
         </div>
 
         {/* Account Statistics */}
@@ -527,6 +544,18 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
           </div>
         </div>
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <SalesBreakdownChart
+            accounts={accounts}
+            categories={categories}
+            query={salesQuery}
+            salesDataVersion={salesDataVersion}
+          />
+        </div>
+        <FunnelChart totals={rangeTotals} />
+      </div>
     </div>
   );
 };
@@ -1,45 +1,53 @@
-import React, { useState, useRef } from 'react';
-import { Upload, FileText, CheckCircle, AlertCircle, X, Search, Trash2, Calendar, User } from 'lucide-react';
-import { Account, SalesData, Category } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, FileText, CheckCircle, AlertCircle, X, Search, Trash2, Calendar, User, Layers } from 'lucide-react';
+import { Account, AccountSalesTotals, Capability, Category, SalesData, UploadBatch, UploadMode, UserRole } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { getScopedAccountIds } from '../lib/salesQuery';
+import { hasCapability } from '../lib/permissions';
+import { navigate } from '../lib/router';
+import { getAccountPath } from '../lib/routes';
+import { CsvImportResult, importSalesCsv, importSalesRecords, ParsedRow, RejectedRow } from '../lib/csvImport';
+import { isXlsxFile, readXlsxSheets, XlsxSheet } from '../lib/xlsxImport';
+import { countDiffs, diffUploadRows, selectRowsForMode } from '../lib/uploadDiff';
+import { anomalyRuleLabels, detectAnomalies, getBaselineStart, toAcknowledgement } from '../lib/anomalies';
+import BulkUploadModal from './BulkUploadModal';
+import UploadHistory from './UploadHistory';
+import CoverageMatrix from './CoverageMatrix';
 
 interface DataUploadProps {
   accounts: Account[];
-  salesData: SalesData[];
+  salesDataVersion: number;
   categories: Category[];
   currentUser?: {
     id: string;
     name: string;
     email: string;
-    role: 'user' | 'superadmin';
+    role: UserRole;
+    capabilities?: Capability[];
     managed_accounts: string[];
   };
-  onUploadData: (accountId: string, data: Omit<SalesData, 'id' | 'account_id' | 'created_at'>[]) => void;
+  onUploadData: (accountId: string, data: ParsedRow[], source: { fileName: string; mode: UploadMode }) => Promise<UploadBatch[]>;
+  onBulkUploadData: (data: Omit<SalesData, 'id' | 'created_at' | 'batch_id'>[], fileName: string) => Promise<number>;
+  onSalesDataChanged: () => void;
   onDeleteSalesData: (accountId: string, dateRange?: { start: string; end: string }) => void;
 }
 
-interface ParsedRow {
-  date: string;
-  clicks: number;
-  orders: number;
-  gross_commission: number;
-  products_sold: number;
-  total_purchases: number;
-  new_buyers: number;
-}
-
 const DataUpload: React.FC<DataUploadProps> = ({ 
   accounts, 
-  salesData, 
+  salesDataVersion, 
   categories, 
   currentUser,
   onUploadData, 
+  onBulkUploadData,
+  onSalesDataChanged,
   onDeleteSalesData 
 }) => {
-  // Filter accounts based on user role
+  // Sales data can be uploaded for the accounts the user may write to, not every account they can see
+  const canManageAccounts = hasCapability(currentUser, 'accounts.manage');
   const filteredAccountsByRole = React.useMemo(() => {
     if (!currentUser) return [];
     
-    if (currentUser.role === 'superadmin') {
+    if (canManageAccounts) {
       return accounts;
     } else {
       // Regular users can only see accounts they manage
@@ -47,7 +55,20 @@ const DataUpload: React.FC<DataUploadProps> = ({
         currentUser.managed_accounts.includes(account.id)
       );
     }
-  }, [accounts, currentUser]);
+  }, [accounts, currentUser, canManageAccounts]);
+
+  const { fetchAccountTotals, fetchSalesData, acknowledgeAnomalies } = useSupabase();
+  const [accountTotals, setAccountTotals] = useState<AccountSalesTotals[]>([]);
+
+  // Row counts and date ranges per account come pre-aggregated from the database
+  useEffect(() => {
+    const loadAccountTotals = async () => {
+      const totals = await fetchAccountTotals({ accountIds: getScopedAccountIds(currentUser) });
+      setAccountTotals(totals);
+    };
+
+    loadAccountTotals();
+  }, [currentUser, salesDataVersion, fetchAccountTotals]);
 
   const [searchTerm, setSearchTerm] = useState('');
   
@@ -56,12 +77,23 @@ const DataUpload: React.FC<DataUploadProps> = ({
   const [selectedAccountForUpload, setSelectedAccountForUpload] = useState('');
   const [file, setFile] = useState<File | null>(null);
   const [parsedData, setParsedData] = useState<ParsedRow[]>([]);
+  const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
+  const [ignoredHeaders, setIgnoredHeaders] = useState<string[]>([]);
+  const [sheets, setSheets] = useState<XlsxSheet[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState('');
+  const [existingRows, setExistingRows] = useState<SalesData[] | null>(null);
+  const [existingRowsFailed, setExistingRowsFailed] = useState(false);
+  const [existingRowsAttempt, setExistingRowsAttempt] = useState(0);
+  const [uploadMode, setUploadMode] = useState<UploadMode>('overwrite');
+  const [anomaliesAcknowledged, setAnomaliesAcknowledged] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<{ success: boolean; message: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Drag and drop states
   const [isDragOver, setIsDragOver] = useState(false);
+
+  const [showBulkUploadModal, setShowBulkUploadModal] = useState(false);
   
   // Delete modal states
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -84,17 +116,16 @@ const DataUpload: React.FC<DataUploadProps> = ({
   );
 
   const getAccountSalesDataCount = (accountId: string) => {
-    return salesData.filter(data => data.account_id === accountId).length;
+    return accountTotals.find(totals => totals.account_id === accountId)?.row_count || 0;
   };
 
   const getAccountDateRange = (accountId: string) => {
-    const accountData = salesData.filter(data => data.account_id === accountId);
-    if (accountData.length === 0) return null;
+    const totals = accountTotals.find(t => t.account_id === accountId);
+    if (!totals || totals.row_count === 0) return null;
     
-    const dates = accountData.map(data => new Date(data.date)).sort((a, b) => a.getTime() - b.getTime());
     return {
-      start: dates[0].toISOString().split('T')[0],
-      end: dates[dates.length - 1].toISOString().split('T')[0]
+      start: totals.first_date,
+      end: totals.last_date
     };
   };
 
@@ -110,6 +141,12 @@ const DataUpload: React.FC<DataUploadProps> = ({
     setSelectedAccountForUpload('');
     setFile(null);
     setParsedData([]);
+    setRejectedRows([]);
+    setIgnoredHeaders([]);
+    setSheets([]);
+    setSelectedSheet('');
+    setUploadMode('overwrite');
+    setAnomaliesAcknowledged(false);
     setUploadResult(null);
     setIsDragOver(false);
     if (fileInputRef.current) {
@@ -117,65 +154,103 @@ const DataUpload: React.FC<DataUploadProps> = ({
     }
   };
 
-  const parseCSV = (csvText: string): ParsedRow[] => {
-    const lines = csvText.trim().split('\n');
-    const headers = lines[0].split(',');
-    
-    // Validate headers
-    const expectedHeaders = [
-      'Tanggal',
-      'Klik', 
-      'Pesanan',
-      'Komisi Kotor(Rp)',
-      'Produk Terjual',
-      'Total Pembelian yang Dibuat(Rp)',
-      'Pembeli Baru'
-    ];
-
-    const data: ParsedRow[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const row = lines[i].split(',');
-      if (row.length === expectedHeaders.length) {
-        data.push({
-          date: row[0],
-          clicks: parseInt(row[1]) || 0,
-          orders: parseInt(row[2]) || 0,
-          gross_commission: parseFloat(row[3]) || 0,
-          products_sold: parseInt(row[4]) || 0,
-          total_purchases: parseFloat(row[5]) || 0,
-          new_buyers: parseInt(row[6]) || 0,
+  const isCsvFile = (candidate: File) =>
+    candidate.type === 'text/csv' || candidate.name.toLowerCase().endsWith('.csv');
+
+  const isSupportedFile = (candidate: File) => isCsvFile(candidate) || isXlsxFile(candidate);
+
+  const applyImportResult = (result: CsvImportResult) => {
+    setParsedData(result.rows);
+    setAnomaliesAcknowledged(false);
+    setRejectedRows(result.rejected);
+    setIgnoredHeaders(result.ignoredHeaders);
+
+    if (result.errors.length > 0) {
+      setUploadResult({
+        success: false,
+        message: result.errors.join('. '),
+      });
+    } else if (result.rows.length === 0) {
+      setUploadResult({
+        success: false,
+        message: 'No valid rows found in the file.',
+      });
+    } else {
+      setUploadResult(null);
+    }
+  };
+
+  const loadXlsxFile = async (selectedFile: File) => {
+    try {
+      const workbookSheets = await readXlsxSheets(await selectedFile.arrayBuffer());
+      if (workbookSheets.length === 0) {
+        setUploadResult({
+          success: false,
+          message: 'The workbook does not contain any sheets.',
         });
+        return;
       }
+
+      // Start with the first sheet that actually holds sales data
+      const initialSheet = workbookSheets.find(sheet =>
+        importSalesRecords(sheet.records).rows.length > 0
+      ) || workbookSheets[0];
+
+      setSheets(workbookSheets);
+      setSelectedSheet(initialSheet.name);
+      applyImportResult(importSalesRecords(initialSheet.records));
+    } catch (error) {
+      console.error('Error reading Excel file:', error);
+      setUploadResult({
+        success: false,
+        message: 'Error reading Excel file. Please check the file format.',
+      });
     }
-    
-    return data;
+  };
+
+  const loadFile = (selectedFile: File) => {
+    setFile(selectedFile);
+    setParsedData([]);
+    setRejectedRows([]);
+    setIgnoredHeaders([]);
+    setSheets([]);
+    setSelectedSheet('');
+    setUploadResult(null);
+
+    if (isXlsxFile(selectedFile)) {
+      loadXlsxFile(selectedFile);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        applyImportResult(importSalesCsv(e.target?.result as string));
+      } catch (error) {
+        setUploadResult({
+          success: false,
+          message: 'Error parsing CSV file. Please check the file format.',
+        });
+      }
+    };
+    reader.readAsText(selectedFile);
+  };
+
+  const handleSheetChange = (sheetName: string) => {
+    const sheet = sheets.find(s => s.name === sheetName);
+    if (!sheet) return;
+    setSelectedSheet(sheetName);
+    applyImportResult(importSalesRecords(sheet.records));
   };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile);
-      setUploadResult(null);
-      
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const csvText = e.target?.result as string;
-          const parsed = parseCSV(csvText);
-          setParsedData(parsed);
-        } catch (error) {
-          setUploadResult({
-            success: false,
-            message: 'Error parsing CSV file. Please check the file format.',
-          });
-        }
-      };
-      reader.readAsText(selectedFile);
+    if (selectedFile && isSupportedFile(selectedFile)) {
+      loadFile(selectedFile);
     } else {
       setUploadResult({
         success: false,
-        message: 'Please select a valid CSV file.',
+        message: 'Please select a valid CSV or Excel (.xlsx) file.',
       });
     }
   };
@@ -201,38 +276,86 @@ const DataUpload: React.FC<DataUploadProps> = ({
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
       const droppedFile = files[0];
-      if (droppedFile.type === 'text/csv' || droppedFile.name.endsWith('.csv')) {
-        setFile(droppedFile);
-        setUploadResult(null);
-        
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          try {
-            const csvText = event.target?.result as string;
-            const parsed = parseCSV(csvText);
-            setParsedData(parsed);
-          } catch (error) {
-            setUploadResult({
-              success: false,
-              message: 'Error parsing CSV file. Please check the file format.',
-            });
-          }
-        };
-        reader.readAsText(droppedFile);
+      if (isSupportedFile(droppedFile)) {
+        loadFile(droppedFile);
       } else {
         setUploadResult({
           success: false,
-          message: 'Please drop a valid CSV file.',
+          message: 'Please drop a valid CSV or Excel (.xlsx) file.',
         });
       }
     }
   };
 
+  const parsedDateRange = React.useMemo(() => {
+    if (parsedData.length === 0) return null;
+    const dates = parsedData.map(row => row.date).sort();
+    return { start: dates[0], end: dates[dates.length - 1] };
+  }, [parsedData]);
+
+  // Load what is already stored for the uploaded dates so the preview can show overwrites,
+  // along with the weeks before them as the baseline for spike detection
+  useEffect(() => {
+    if (!selectedAccountForUpload || !parsedDateRange) {
+      setExistingRows(null);
+      return;
+    }
+
+    let isCurrent = true;
+    const loadExistingRows = async () => {
+      setExistingRows(null);
+      setExistingRowsFailed(false);
+      const rows = await fetchSalesData({
+        startDate: getBaselineStart(parsedDateRange.start),
+        endDate: parsedDateRange.end,
+        accountIds: [selectedAccountForUpload],
+      });
+      if (isCurrent) {
+        // Without the stored rows the overwrite diff and the spike check would be wrong,
+        // so the upload stays disabled until they load
+        setExistingRows(rows);
+        setExistingRowsFailed(rows === null);
+      }
+    };
+
+    loadExistingRows();
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedAccountForUpload, parsedDateRange, existingRowsAttempt, fetchSalesData]);
+
+  const uploadDiffs = React.useMemo(
+    () => (existingRows ? diffUploadRows(parsedData, existingRows) : []),
+    [parsedData, existingRows]
+  );
+  const diffCounts = countDiffs(uploadDiffs);
+  const changedDiffs = uploadDiffs.filter(diff => diff.status === 'changed');
+  const uploadCoverage = React.useMemo(() => {
+    const totals = accountTotals.find(t => t.account_id === selectedAccountForUpload);
+    return totals && totals.row_count > 0 ? { start: totals.first_date, end: totals.last_date } : null;
+  }, [accountTotals, selectedAccountForUpload]);
+  const rowsToUpload = React.useMemo(
+    () => selectRowsForMode(uploadDiffs, uploadMode, uploadCoverage),
+    [uploadDiffs, uploadMode, uploadCoverage]
+  );
+  // Only rows that will actually be written need a second look
+  const flaggedRows = React.useMemo(
+    () => (existingRows ? detectAnomalies(rowsToUpload, existingRows) : []),
+    [rowsToUpload, existingRows]
+  );
+  const needsAcknowledgement = flaggedRows.length > 0 && !anomaliesAcknowledged;
+
+  const uploadModeOptions: { value: UploadMode; label: string; description: string }[] = [
+    { value: 'overwrite', label: 'Overwrite', description: 'Upload new dates and replace changed dates' },
+    { value: 'skip_existing', label: 'Skip existing', description: 'Upload new dates only, keep stored values' },
+    { value: 'fill_gaps', label: 'Only fill gaps', description: 'Upload missing dates inside the range already stored' },
+  ];
+
   const handleUpload = async () => {
     if (!selectedAccountForUpload || !file || parsedData.length === 0) {
       setUploadResult({
         success: false,
-        message: 'Please upload a valid CSV file.',
+        message: 'Please upload a valid CSV or Excel file.',
       });
       return;
     }
@@ -240,10 +363,26 @@ const DataUpload: React.FC<DataUploadProps> = ({
     setIsUploading(true);
     
     try {
-      await onUploadData(selectedAccountForUpload, parsedData);
+      const batches = await onUploadData(selectedAccountForUpload, rowsToUpload, { fileName: file.name, mode: uploadMode });
+      if (batches.length === 0) {
+        // Nothing was saved, so the flagged rows stay unacknowledged and the form stays open to retry
+        setUploadResult({
+          success: false,
+          message: 'Failed to upload data. Please try again.',
+        });
+        setIsUploading(false);
+        return;
+      }
+      await acknowledgeAnomalies(flaggedRows.map(flagged => toAcknowledgement(selectedAccountForUpload, flagged)));
+      const skippedCount = parsedData.length - rowsToUpload.length;
       setUploadResult({
         success: true,
-        message: `Successfully uploaded ${parsedData.length} records.`,
+        message: [
+          `Successfully uploaded ${rowsToUpload.length} records.`,
+          skippedCount > 0 ? `${skippedCount} rows were left unchanged.` : '',
+          rejectedRows.length > 0 ? `${rejectedRows.length} rejected rows were skipped.` : '',
+          flaggedRows.length > 0 ? `${flaggedRows.length} flagged rows were acknowledged.` : '',
+        ].filter(Boolean).join(' '),
       });
       
       // Reset form after successful upload
@@ -263,6 +402,10 @@ const DataUpload: React.FC<DataUploadProps> = ({
   const clearFile = () => {
     setFile(null);
     setParsedData([]);
+    setRejectedRows([]);
+    setIgnoredHeaders([]);
+    setSheets([]);
+    setSelectedSheet('');
     setUploadResult(null);
     setIsDragOver(false);
     if (fileInputRef.current) {
@@ -300,13 +443,24 @@ const DataUpload: React.FC<DataUploadProps> = ({
     <>
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Upload Sales Data</h1>
-          <p className="text-gray-600">
-            {currentUser?.role === 'superadmin' 
-              ? 'Manage sales data for all affiliate accounts'
-              : `Manage sales data for your ${filteredAccountsByRole.length} affiliate accounts`}
-          </p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Upload Sales Data</h1>
+            <p className="text-gray-600">
+              {canManageAccounts
+                ? 'Manage sales data for all affiliate accounts'
+                : `Manage sales data for your ${filteredAccountsByRole.length} affiliate accounts`}
+            </p>
+          </div>
+          {filteredAccountsByRole.length > 0 && (
+            <button
+              onClick={() => setShowBulkUploadModal(true)}
+              className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              <Layers className="w-4 h-4" />
+              <span>Bulk Upload</span>
+            </button>
+          )}
         </div>
 
         {/* Search */}
@@ -346,7 +500,12 @@ const DataUpload: React.FC<DataUploadProps> = ({
                         </div>
                         <div className="flex-1">
                           <div className="flex items-center space-x-2 mb-1">
-                            <h3 className="font-medium text-gray-900">{account.username}</h3>
+                            <button
+                              onClick={() => navigate(getAccountPath(account.id))}
+                              className="font-medium text-gray-900 hover:text-purple-600 hover:underline"
+                            >
+                              {account.username}
+                            </button>
                             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                               {account.account_code}
                             </span>
@@ -433,7 +592,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
               </h3>
               <p className="text-gray-600">
                 {filteredAccountsByRole.length === 0 
-                  ? currentUser?.role === 'superadmin'
+                  ? canManageAccounts
                     ? 'Please add accounts first in the Account Management section'
                     : 'No accounts have been assigned to you yet. Contact your administrator.'
                   : 'Try adjusting your search criteria'
@@ -443,10 +602,29 @@ const DataUpload: React.FC<DataUploadProps> = ({
           )}
         </div>
 
+        {/* Coverage */}
+        {filteredAccountsByRole.length > 0 && (
+          <CoverageMatrix
+            accounts={filteredAccountsByRole}
+            salesDataVersion={salesDataVersion}
+            onUploadAccount={openUploadModal}
+          />
+        )}
+
+        {/* Upload History */}
+        <UploadHistory
+          accounts={filteredAccountsByRole}
+          currentUser={currentUser}
+          salesDataVersion={salesDataVersion}
+          onSalesDataChanged={onSalesDataChanged}
+        />
+
         {/* CSV Format Guide */}
         <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
-          <h3 className="text-lg font-semibold text-blue-900 mb-3">CSV Format Requirements</h3>
-          <p className="text-blue-800 mb-4">Your CSV file should contain the following columns in this exact order:</p>
+          <h3 className="text-lg font-semibold text-blue-900 mb-3">File Format Requirements</h3>
+          <p className="text-blue-800 mb-4">
+            Your CSV or Excel (.xlsx) file should contain the following columns, in any order. Indonesian or English headers are accepted.
+          </p>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
               <p className="font-medium text-blue-900">1. Tanggal (Date)</p>
@@ -460,9 +638,24 @@ const DataUpload: React.FC<DataUploadProps> = ({
               <p className="font-medium text-blue-900">7. Pembeli Baru (New Buyers)</p>
             </div>
           </div>
+          <p className="text-sm text-blue-700 mt-4">
+            Dates may be written as 2024-01-31 or 31/01/2024. Numbers may use Indonesian (1.234.567,00) or English (1,234,567.00) separators.
+          </p>
+          <p className="text-sm text-blue-700 mt-2">
+            For Bulk Upload, add an account_code or username column, or name each file after its account code or username.
+          </p>
         </div>
       </div>
 
+      {/* Bulk Upload Modal */}
+      {showBulkUploadModal && (
+        <BulkUploadModal
+          accounts={filteredAccountsByRole}
+          onClose={() => setShowBulkUploadModal(false)}
+          onUploadAccount={onBulkUploadData}
+        />
+      )}
+
       {/* Upload Modal */}
       {showUploadModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -472,7 +665,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 <div>
                   <h2 className="text-xl font-bold text-gray-900">Upload Sales Data</h2>
                   <p className="text-sm text-gray-600 mt-1">
-                    Upload CSV file for: {accounts.find(acc => acc.id === selectedAccountForUpload)?.username}
+                    Upload CSV or Excel file for: {accounts.find(acc => acc.id === selectedAccountForUpload)?.username}
                   </p>
                 </div>
                 <button
@@ -499,15 +692,15 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 {!file ? (
                   <>
                     <h3 className="text-lg font-medium text-gray-900 mb-2">
-                      {isDragOver ? 'Drop your CSV file here' : 'Drop your CSV file here, or click to browse'}
+                      {isDragOver ? 'Drop your file here' : 'Drop your CSV or Excel file here, or click to browse'}
                     </h3>
                     <p className={`mb-4 ${isDragOver ? 'text-purple-600' : 'text-gray-600'}`}>
-                      CSV files up to 10MB are supported
+                      CSV and .xlsx files up to 10MB are supported
                     </p>
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.xlsx"
                       onChange={handleFileSelect}
                       className="hidden"
                     />
@@ -531,18 +724,195 @@ const DataUpload: React.FC<DataUploadProps> = ({
                       </button>
                     </div>
                     
-                    {parsedData.length > 0 && (
+                    {sheets.length > 1 && (
+                      <div className="flex items-center justify-center space-x-2 text-sm">
+                        <label className="text-gray-600">Sheet:</label>
+                        <select
+                          value={selectedSheet}
+                          onChange={(e) => handleSheetChange(e.target.value)}
+                          className="px-3 py-1 border border-gray-300 rounded text-sm"
+                        >
+                          {sheets.map(sheet => (
+                            <option key={sheet.name} value={sheet.name}>
+                              {sheet.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    {parsedData.length > 0 && parsedDateRange && (
                       <div className="text-sm text-gray-600">
                         <p>{parsedData.length} rows parsed successfully</p>
                         <p className="text-xs mt-1">
-                          Date range: {parsedData[parsedData.length - 1]?.date} to {parsedData[0]?.date}
+                          Date range: {parsedDateRange.start} to {parsedDateRange.end}
                         </p>
+                        {ignoredHeaders.length > 0 && (
+                          <p className="text-xs mt-1 text-gray-500">
+                            Ignored columns: {ignoredHeaders.join(', ')}
+                          </p>
+                        )}
                       </div>
                     )}
                   </div>
                 )}
               </div>
 
+              {/* Upload Preview */}
+              {parsedData.length > 0 && (
+                <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                  <h3 className="font-medium text-gray-900 mb-3">Upload Preview</h3>
+                  {existingRowsFailed ? (
+                    <div className="flex items-start space-x-3 border border-red-200 bg-red-50 rounded-lg p-3">
+                      <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                      <div className="text-sm">
+                        <p className="text-red-900 font-medium">Could not load the stored data for these dates</p>
+                        <p className="text-red-700">Changed dates and spikes cannot be checked, so the upload is disabled until it loads.</p>
+                        <button
+                          onClick={() => setExistingRowsAttempt(prev => prev + 1)}
+                          className="mt-2 text-red-700 font-medium underline hover:text-red-900"
+                        >
+                          Try again
+                        </button>
+                      </div>
+                    </div>
+                  ) : existingRows === null ? (
+                    <div className="animate-pulse space-y-2">
+                      <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+                      <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex flex-wrap gap-2 mb-4 text-xs font-medium">
+                        <span className="px-2.5 py-1 rounded-full bg-green-100 text-green-800">{diffCounts.new} new dates</span>
+                        <span className="px-2.5 py-1 rounded-full bg-orange-100 text-orange-800">{diffCounts.changed} changed dates</span>
+                        <span className="px-2.5 py-1 rounded-full bg-gray-100 text-gray-800">{diffCounts.unchanged} unchanged dates</span>
+                      </div>
+
+                      {changedDiffs.length > 0 && (
+                        <div className="max-h-48 overflow-y-auto border border-gray-100 rounded-lg mb-4">
+                          <table className="w-full">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                              {changedDiffs.flatMap(diff => diff.changes.map((change, index) => (
+                                <tr key={`${diff.date}-${change.field}`} className="text-sm">
+                                  <td className="px-3 py-1.5 text-gray-900">{index === 0 ? diff.date : ''}</td>
+                                  <td className="px-3 py-1.5 text-gray-600">{change.label}</td>
+                                  <td className="px-3 py-1.5 text-right text-red-600 line-through">{change.before.toLocaleString('id-ID')}</td>
+                                  <td className="px-3 py-1.5 text-right text-green-700">{change.after.toLocaleString('id-ID')}</td>
+                                </tr>
+                              )))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+
+                      {/* Modes only differ when some dates already exist */}
+                      {diffCounts.changed + diffCounts.unchanged > 0 && (
+                        <div className="space-y-2">
+                          {uploadModeOptions.map(option => (
+                            <label key={option.value} className="flex items-start space-x-2 text-sm cursor-pointer">
+                              <input
+                                type="radio"
+                                name="uploadMode"
+                                value={option.value}
+                                checked={uploadMode === option.value}
+                                onChange={() => {
+                                  setUploadMode(option.value);
+                                  setAnomaliesAcknowledged(false);
+                                }}
+                                className="mt-0.5 text-purple-600 focus:ring-purple-500"
+                              />
+                              <span>
+                                <span className="font-medium text-gray-900">{option.label}</span>
+                                <span className="text-gray-600"> - {option.description}</span>
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+
+                      <p className="text-sm text-gray-600 mt-3">
+                        {rowsToUpload.length > 0
+                          ? `${rowsToUpload.length} of ${parsedData.length} rows will be uploaded.`
+                          : 'Nothing to upload with the selected option.'}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Flagged Rows */}
+              {flaggedRows.length > 0 && (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4 mb-6">
+                  <div className="flex items-start space-x-3">
+                    <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+                    <div className="flex-1">
+                      <h3 className="font-medium text-red-900">
+                        {flaggedRows.length} {flaggedRows.length === 1 ? 'row looks' : 'rows look'} wrong
+                      </h3>
+                      <p className="text-sm text-red-700 mb-2">
+                        These values feed straight into incentives. Check them against the source export before uploading.
+                      </p>
+                      <ul className="max-h-40 overflow-y-auto space-y-2 text-sm text-red-800 mb-3">
+                        {flaggedRows.map(flagged => (
+                          <li key={flagged.row.date}>
+                            <span className="font-medium">{flagged.row.date}:</span>
+                            <ul className="ml-4 list-disc">
+                              {flagged.issues.map(issue => (
+                                <li key={issue.message}>
+                                  <span className="font-medium">{anomalyRuleLabels[issue.rule]}</span> - {issue.message}
+                                </li>
+                              ))}
+                            </ul>
+                          </li>
+                        ))}
+                      </ul>
+                      <label className="flex items-start space-x-2 text-sm text-red-900 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={anomaliesAcknowledged}
+                          onChange={(e) => setAnomaliesAcknowledged(e.target.checked)}
+                          className="mt-0.5 rounded border-red-300 text-red-600 focus:ring-red-500"
+                        />
+                        <span>I checked these rows and they are correct</span>
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Rejected Rows */}
+              {rejectedRows.length > 0 && (
+                <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 mb-6">
+                  <div className="flex items-start space-x-3">
+                    <AlertCircle className="w-5 h-5 text-yellow-600 mt-0.5" />
+                    <div className="flex-1">
+                      <h3 className="font-medium text-yellow-900">
+                        {rejectedRows.length} rows rejected
+                      </h3>
+                      <p className="text-sm text-yellow-700 mb-2">
+                        These rows will not be uploaded. Fix them in the file and upload again.
+                      </p>
+                      <ul className="max-h-40 overflow-y-auto space-y-1 text-sm text-yellow-800">
+                        {rejectedRows.map(row => (
+                          <li key={row.line}>
+                            <span className="font-medium">Line {row.line}:</span> {row.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Upload Result */}
               {uploadResult && (
                 <div className={`border rounded-lg p-4 mb-6 flex items-start space-x-3 ${
@@ -578,7 +948,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 </button>
                 <button
                   onClick={handleUpload}
-                  disabled={isUploading || !file || parsedData.length === 0}
+                  disabled={isUploading || !file || existingRows === null || rowsToUpload.length === 0 || needsAcknowledgement}
                   className="flex-1 bg-purple-600 text-white py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
                   {isUploading ? (
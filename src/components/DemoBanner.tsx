@@ -0,0 +1,13 @@
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+
+const DemoBanner: React.FC = () => (
+  <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg flex items-center space-x-3 print:hidden">
+    <FlaskConical className="w-5 h-5 text-amber-600 flex-shrink-0" />
+    <p className="text-sm text-amber-800">
+      <span className="font-semibold">Mode demo.</span> Semua data adalah contoh yang disimpan di memori browser dan akan hilang saat halaman dimuat ulang.
+    </p>
+  </div>
+);
+
+export default DemoBanner;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   FileText, 
   Search, 
@@ -20,19 +20,12 @@ import {
   Pin,
   PinOff
 } from 'lucide-react';
-import { Category, User } from '../types';
-
-interface FileData {
-  id: string;
-  name: string;
-  category_id: string;
-  spreadsheet_url: string;
-  created_at: string;
-  updated_at: string;
-  file_size?: number;
-  description?: string;
-  is_pinned?: boolean;
-}
+import { Category, FileData, User } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useQueryParam } from '../hooks/useRouter';
+import { formatFileSize, MAX_ATTACHMENT_SIZE } from '../lib/fileStorage';
+import { hasCapability } from '../lib/permissions';
+import FilePreviewModal from './FilePreviewModal';
 
 interface FileManagementProps {
   categories: Category[];
@@ -40,31 +33,55 @@ interface FileManagementProps {
 }
 
 const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser }) => {
-  // Files state - starts empty, will be populated from database in real implementation
+  const { fetchFiles, addFile, updateFile, deleteFile, replaceFileAttachment, error } = useSupabase();
   const [files, setFiles] = useState<FileData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
 
-  const [searchTerm, setSearchTerm] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('all');
+  // In the URL so other screens can link to a filtered file list
+  const [searchTerm, setSearchTerm] = useQueryParam('q', '');
+  const [categoryFilter, setCategoryFilter] = useQueryParam('category', 'all');
   const [viewMode, setViewMode] = useState<'cards' | 'list'>('cards');
   const [showModal, setShowModal] = useState(false);
   const [editingFile, setEditingFile] = useState<FileData | null>(null);
+  const [previewFile, setPreviewFile] = useState<FileData | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     category_id: '',
+    source: 'link' as 'link' | 'upload',
     spreadsheet_url: '',
     description: '',
   });
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Viewers only see the files of their account categories
+  const canManageFiles = hasCapability(currentUser, 'files.manage');
 
-  // Check if current user is superadmin
-  const isAdmin = currentUser.role === 'superadmin';
+  // Row level security only returns the files a user may see
+  useEffect(() => {
+    let isCurrent = true;
+    const loadFiles = async () => {
+      const data = await fetchFiles();
+      if (isCurrent) {
+        setFiles(data);
+        setIsLoading(false);
+      }
+    };
 
-  const getCategoryName = (categoryId: string) => {
+    loadFiles();
+    return () => {
+      isCurrent = false;
+    };
+  }, [currentUser.id, fetchFiles]);
+
+  const getCategoryName = (categoryId: string | null) => {
     if (!categoryId) return 'Uncategorized';
     const category = categories.find(cat => cat.id === categoryId);
     return category?.name || 'Uncategorized';
   };
 
-  const getCategoryColor = (categoryId: string) => {
+  const getCategoryColor = (categoryId: string | null) => {
     const colors = [
       'bg-blue-100 text-blue-800',
       'bg-green-100 text-green-800',
@@ -105,12 +122,6 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
   const pinnedFiles = sortedFiles.filter(file => file.is_pinned);
   const unpinnedFiles = sortedFiles.filter(file => !file.is_pinned);
 
-  const formatFileSize = (bytes?: number) => {
-    if (!bytes) return 'Unknown';
-    const kb = bytes / 1024;
-    return `${kb.toFixed(1)} KB`;
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('id-ID', {
       year: 'numeric',
@@ -121,29 +132,46 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
     });
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const now = new Date().toISOString();
+    if (attachment && attachment.size > MAX_ATTACHMENT_SIZE) {
+      setFormError(`The file is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`);
+      return;
+    }
+    setFormError(null);
+    
+    const isUpload = formData.source === 'upload';
+    const fileData = {
+      name: formData.name,
+      category_id: formData.category_id || null,
+      spreadsheet_url: isUpload ? null : formData.spreadsheet_url,
+      description: formData.description || null,
+    };
     
+    setIsSaving(true);
+    let savedFile: FileData | null;
     if (editingFile) {
-      setFiles(prev => prev.map(file => 
-        file.id === editingFile.id 
-          ? { ...file, ...formData, updated_at: now }
-          : file
-      ));
+      savedFile = await updateFile(editingFile.id, fileData);
+      // A new upload for an existing attachment becomes its next version
+      if (savedFile && isUpload && attachment) {
+        savedFile = await replaceFileAttachment(savedFile, attachment, currentUser.id);
+      }
     } else {
-      const newFile: FileData = {
-        id: Date.now().toString(),
-        ...formData,
-        created_at: now,
-        updated_at: now,
-        file_size: Math.floor(Math.random() * 4000) + 500, // Random size for demo
-        is_pinned: false,
-      };
-      setFiles(prev => [newFile, ...prev]);
+      savedFile = await addFile(
+        { ...fileData, is_pinned: false, created_by: currentUser.id },
+        isUpload && attachment ? attachment : undefined
+      );
     }
+    setIsSaving(false);
+    
+    // Keep the modal open so the error stays visible
+    if (!savedFile) return;
     
+    setFiles(prev => editingFile
+      ? prev.map(file => file.id === savedFile.id ? savedFile : file)
+      : [savedFile, ...prev]
+    );
     closeModal();
   };
 
@@ -151,10 +179,13 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
     setEditingFile(file);
     setFormData({
       name: file.name,
-      category_id: file.category_id,
-      spreadsheet_url: file.spreadsheet_url,
+      category_id: file.category_id || '',
+      source: file.storage_path ? 'upload' : 'link',
+      spreadsheet_url: file.spreadsheet_url || '',
       description: file.description || '',
     });
+    setAttachment(null);
+    setFormError(null);
     setShowModal(true);
   };
 
@@ -163,24 +194,29 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
     setFormData({
       name: '',
       category_id: categories[0]?.id || '',
+      source: 'link',
       spreadsheet_url: '',
       description: '',
     });
+    setAttachment(null);
+    setFormError(null);
     setShowModal(true);
   };
 
-  const handleDelete = (id: string) => {
+  const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this file?')) {
-      setFiles(prev => prev.filter(file => file.id !== id));
+      const success = await deleteFile(id);
+      if (success) {
+        setFiles(prev => prev.filter(file => file.id !== id));
+      }
     }
   };
 
-  const handleTogglePin = (id: string) => {
-    setFiles(prev => prev.map(file => 
-      file.id === id 
-        ? { ...file, is_pinned: !file.is_pinned, updated_at: new Date().toISOString() }
-        : file
-    ));
+  const handleTogglePin = async (file: FileData) => {
+    const updatedFile = await updateFile(file.id, { is_pinned: !file.is_pinned });
+    if (updatedFile) {
+      setFiles(prev => prev.map(f => f.id === updatedFile.id ? updatedFile : f));
+    }
   };
 
   const closeModal = () => {
@@ -189,13 +225,21 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
     setFormData({
       name: '',
       category_id: '',
+      source: 'link',
       spreadsheet_url: '',
       description: '',
     });
+    setAttachment(null);
+    setFormError(null);
   };
 
-  const openSpreadsheet = (url: string) => {
-    window.open(url, '_blank');
+  // Attachments open in the preview, links in a new tab
+  const openFile = (file: FileData) => {
+    if (file.storage_path) {
+      setPreviewFile(file);
+    } else if (file.spreadsheet_url) {
+      window.open(file.spreadsheet_url, '_blank');
+    }
   };
 
   return (
@@ -206,7 +250,7 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
           <div>
             <h1 className="text-2xl font-bold text-gray-900">File Management</h1>
             <p className="text-gray-600">
-              {isAdmin ? 'Manage your spreadsheets and documents' : 'View available spreadsheets and documents'}
+              {canManageFiles ? 'Manage your spreadsheets and documents' : 'View available spreadsheets and documents'}
             </p>
           </div>
           <div className="flex items-center space-x-3">
@@ -232,7 +276,7 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
                 <ListIcon className="w-4 h-4" />
               </button>
             </div>
-            {isAdmin && (
+            {canManageFiles && (
               <button
                 onClick={handleAdd}
                 className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
@@ -330,6 +374,19 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
           </div>
         </div>
 
+        {error && !showModal && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800">Error: {error}</p>
+          </div>
+        )}
+
+        {isLoading && (
+          <div className="animate-pulse space-y-4">
+            <div className="h-6 bg-gray-200 rounded w-1/4"></div>
+            <div className="h-32 bg-gray-200 rounded-xl"></div>
+          </div>
+        )}
+
         {/* Pinned Files Section */}
         {pinnedFiles.length > 0 && (
           <div>
@@ -376,17 +433,17 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
                   
                   <div className="flex items-center justify-between">
                     <button
-                      onClick={() => openSpreadsheet(file.spreadsheet_url)}
+                      onClick={() => openFile(file)}
                       className="flex items-center space-x-2 text-purple-600 hover:text-purple-700 transition-colors"
                     >
-                      <ExternalLink className="w-4 h-4" />
-                      <span className="text-sm font-medium">Open Sheet</span>
+                      {file.storage_path ? <Eye className="w-4 h-4" /> : <ExternalLink className="w-4 h-4" />}
+                      <span className="text-sm font-medium">{file.storage_path ? 'Preview' : 'Open Sheet'}</span>
                     </button>
                     
-                    {isAdmin && (
+                    {canManageFiles && (
                       <div className="flex items-center space-x-2">
                         <button
-                          onClick={() => handleTogglePin(file.id)}
+                          onClick={() => handleTogglePin(file)}
                           className="p-2 text-yellow-600 hover:text-yellow-700 transition-colors"
                           title="Unpin file"
                         >
@@ -463,16 +520,16 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <div className="flex items-center space-x-3">
                             <button
-                              onClick={() => openSpreadsheet(file.spreadsheet_url)}
+                              onClick={() => openFile(file)}
                               className="text-purple-600 hover:text-purple-700 transition-colors"
-                              title="Open Spreadsheet"
+                              title={file.storage_path ? 'Preview File' : 'Open Spreadsheet'}
                             >
-                              <ExternalLink className="w-4 h-4" />
+                              {file.storage_path ? <Eye className="w-4 h-4" /> : <ExternalLink className="w-4 h-4" />}
                             </button>
-                            {isAdmin && (
+                            {canManageFiles && (
                               <>
                                 <button
-                                  onClick={() => handleTogglePin(file.id)}
+                                  onClick={() => handleTogglePin(file)}
                                   className="text-gray-400 hover:text-yellow-600 transition-colors"
                                   title="Pin File"
                                 >
@@ -506,7 +563,7 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
         )}
 
         {/* No Files State */}
-        {filteredFiles.length === 0 && (
+        {!isLoading && filteredFiles.length === 0 && (
           <div className="text-center py-12">
             <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">
@@ -514,13 +571,13 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
             </h3>
             <p className="text-gray-600 mb-4">
               {files.length === 0 
-                ? isAdmin 
+                ? canManageFiles 
                   ? 'Get started by adding your first file'
                   : 'No files have been added yet'
                 : 'Try adjusting your search or filter criteria'
               }
             </p>
-            {files.length === 0 && isAdmin && (
+            {files.length === 0 && canManageFiles && (
               <button
                 onClick={handleAdd}
                 className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors"
@@ -532,8 +589,15 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
         )}
       </div>
 
+      {previewFile && (
+        <FilePreviewModal
+          file={previewFile}
+          onClose={() => setPreviewFile(null)}
+        />
+      )}
+
       {/* Modal - Only show for admin */}
-      {showModal && isAdmin && (
+      {showModal && canManageFiles && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
             <div className="p-6">
@@ -583,22 +647,71 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
                   </select>
                 </div>
                 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Spreadsheet URL *
-                  </label>
-                  <input
-                    type="url"
-                    value={formData.spreadsheet_url}
-                    onChange={(e) => setFormData({ ...formData, spreadsheet_url: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                    placeholder="https://docs.google.com/spreadsheets/d/..."
-                    required
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Enter the full URL to your Google Sheets or Excel Online document
-                  </p>
-                </div>
+                {/* A file keeps its source once saved; attachments can only be replaced */}
+                {!editingFile && (
+                  <div className="flex items-center bg-gray-100 rounded-lg p-1">
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, source: 'link' })}
+                      className={`flex-1 flex items-center justify-center space-x-2 p-2 rounded-md text-sm transition-colors ${
+                        formData.source === 'link'
+                          ? 'bg-white text-purple-600 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      <span>Spreadsheet Link</span>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, source: 'upload' })}
+                      className={`flex-1 flex items-center justify-center space-x-2 p-2 rounded-md text-sm transition-colors ${
+                        formData.source === 'upload'
+                          ? 'bg-white text-purple-600 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      <Upload className="w-4 h-4" />
+                      <span>Upload File</span>
+                    </button>
+                  </div>
+                )}
+                
+                {formData.source === 'link' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Spreadsheet URL *
+                    </label>
+                    <input
+                      type="url"
+                      value={formData.spreadsheet_url}
+                      onChange={(e) => setFormData({ ...formData, spreadsheet_url: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      placeholder="https://docs.google.com/spreadsheets/d/..."
+                      required
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Enter the full URL to your Google Sheets or Excel Online document
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {editingFile ? 'Replace File' : 'File *'}
+                    </label>
+                    <input
+                      type="file"
+                      onChange={(e) => setAttachment(e.target.files?.[0] || null)}
+                      className="w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-purple-50 file:text-purple-700 hover:file:bg-purple-100"
+                      required={!editingFile}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {editingFile
+                        ? `Currently version ${editingFile.current_version}. Uploading a file keeps the current one in the version history.`
+                        : `PDFs, images, CSV and other documents up to ${formatFileSize(MAX_ATTACHMENT_SIZE)}`}
+                    </p>
+                  </div>
+                )}
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -613,6 +726,12 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
                   />
                 </div>
                 
+                {(formError || error) && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm text-red-800">{formError || error}</p>
+                  </div>
+                )}
+                
                 <div className="flex space-x-3 pt-6 border-t border-gray-100">
                   <button
                     type="button"
@@ -623,10 +742,11 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
                   </button>
                   <button
                     type="submit"
-                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center justify-center space-x-2"
+                    disabled={isSaving}
+                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50"
                   >
                     <Save className="w-4 h-4" />
-                    <span>{editingFile ? 'Update' : 'Add'} File</span>
+                    <span>{isSaving ? 'Saving...' : `${editingFile ? 'Update' : 'Add'} File`}</span>
                   </button>
                 </div>
               </form>
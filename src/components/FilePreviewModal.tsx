@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, History, FileText } from 'lucide-react';
+import { FileData, FileVersion } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { parseCsvRecords } from '../lib/csvImport';
+import { CSV_PREVIEW_ROWS, formatFileSize, getPreviewKind, getStoredFileName } from '../lib/fileStorage';
+
+interface FilePreviewModalProps {
+  file: FileData;
+  onClose: () => void;
+}
+
+const FilePreviewModal: React.FC<FilePreviewModalProps> = ({ file, onClose }) => {
+  const { fetchFileVersions, createFileSignedUrl, error } = useSupabase();
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fileName = file.storage_path ? getStoredFileName(file.storage_path) : file.name;
+  const previewKind = getPreviewKind(file.mime_type, fileName);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadPreview = async () => {
+      setIsLoading(true);
+      setCsvRows(null);
+
+      const [fileVersions, url] = await Promise.all([
+        fetchFileVersions(file.id),
+        file.storage_path && previewKind ? createFileSignedUrl(file.storage_path) : Promise.resolve(null),
+      ]);
+
+      let rows: string[][] | null = null;
+      if (url && previewKind === 'csv') {
+        try {
+          const response = await fetch(url);
+          const text = await response.text();
+          rows = parseCsvRecords(text)
+            .slice(0, CSV_PREVIEW_ROWS)
+            .map(record => record.fields.map(String));
+        } catch (err) {
+          console.error('Error loading CSV preview:', err);
+        }
+      }
+
+      if (isCurrent) {
+        setVersions(fileVersions);
+        setPreviewUrl(url);
+        setCsvRows(rows);
+        setIsLoading(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      isCurrent = false;
+    };
+  }, [file.id, file.storage_path, previewKind, fetchFileVersions, createFileSignedUrl]);
+
+  const handleDownload = async (version: FileVersion) => {
+    const url = await createFileSignedUrl(version.storage_path, version.file_name);
+    if (!url) return;
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = version.file_name;
+    a.click();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const currentVersion = versions.find(version => version.version === file.current_version);
+  const csvColumnCount = Math.max(0, ...(csvRows || []).map(row => row.length));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">{file.name}</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {fileName} · {formatFileSize(file.file_size)} · Version {file.current_version}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {currentVersion && (
+                <button
+                  onClick={() => handleDownload(currentVersion)}
+                  className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download</span>
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="p-1 text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {/* Preview */}
+          <div className="mb-6">
+            {isLoading ? (
+              <div className="animate-pulse h-96 bg-gray-200 rounded-lg"></div>
+            ) : previewUrl && previewKind === 'image' ? (
+              <div className="flex justify-center bg-gray-50 rounded-lg p-4">
+                <img src={previewUrl} alt={file.name} className="max-h-[60vh] object-contain" />
+              </div>
+            ) : previewUrl && previewKind === 'pdf' ? (
+              <iframe src={previewUrl} title={file.name} className="w-full h-[60vh] rounded-lg border border-gray-200" />
+            ) : csvRows ? (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-[60vh]">
+                <table className="w-full text-sm">
+                  <tbody className="divide-y divide-gray-100">
+                    {csvRows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-50 font-medium text-gray-700' : 'text-gray-900'}>
+                        {Array.from({ length: csvColumnCount }, (_, cellIndex) => (
+                          <td key={cellIndex} className="px-3 py-2 whitespace-nowrap">{row[cellIndex] ?? ''}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="px-3 py-2 text-xs text-gray-500 border-t border-gray-100">
+                  Showing the first {CSV_PREVIEW_ROWS} rows. Download the file to see everything.
+                </p>
+              </div>
+            ) : (
+              <div className="text-center py-12 bg-gray-50 rounded-lg">
+                <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                <p className="text-gray-600">No preview available for this file type. Download it to open it.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Version History */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2 mb-3">
+              <History className="w-5 h-5 text-purple-600" />
+              <span>Version History</span>
+            </h3>
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {versions.map(version => (
+                <div key={version.id} className="flex items-center justify-between p-3">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-900">Version {version.version}</span>
+                      {version.version === file.current_version && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          Current
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {version.file_name} · {formatFileSize(version.file_size)} · {formatDate(version.created_at)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDownload(version)}
+                    className="p-2 text-gray-400 hover:text-purple-600 transition-colors"
+                    title="Download this version"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {!isLoading && versions.length === 0 && (
+                <p className="p-3 text-sm text-gray-500">No versions uploaded yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilePreviewModal;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Filter } from 'lucide-react';
+import { SalesTotals } from '../types';
+import { getFunnelSteps } from '../lib/chartData';
+
+interface FunnelChartProps {
+  totals: SalesTotals;
+}
+
+const stepColors = ['from-purple-500 to-purple-400', 'from-blue-500 to-blue-400', 'from-green-500 to-green-400'];
+
+const FunnelChart: React.FC<FunnelChartProps> = ({ totals }) => {
+  const steps = getFunnelSteps(totals);
+  const topValue = steps[0].value;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-6">
+      <div className="flex items-center space-x-2 mb-6">
+        <Filter className="w-5 h-5 text-purple-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Conversion Funnel</h3>
+      </div>
+
+      {topValue === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-12">No clicks in this period</p>
+      ) : (
+        <div className="space-y-4">
+          {steps.map((step, index) => {
+            // Keep every step visible even when it is tiny next to the clicks
+            const width = Math.max((step.value / topValue) * 100, 4);
+            return (
+              <div key={step.label} className="relative group">
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-700">{step.label}</span>
+                  <span className="text-gray-900 font-semibold">{step.value.toLocaleString()}</span>
+                </div>
+                <div className="w-full bg-gray-100 rounded-lg h-8 flex justify-center">
+                  <div
+                    className={`h-8 rounded-lg bg-gradient-to-r ${stepColors[index % stepColors.length]} transition-all duration-300`}
+                    style={{ width: `${width}%` }}
+                  ></div>
+                </div>
+                {step.conversion !== null && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {step.conversion.toFixed(2)}% of {steps[index - 1].label.toLowerCase()}
+                  </div>
+                )}
+                <div className="absolute -top-2 right-0 -translate-y-full bg-gray-800 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                  {((step.value / topValue) * 100).toFixed(2)}% of all clicks
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FunnelChart;
@@ -16,14 +16,27 @@ import {
   Rocket,
   ChevronRight,
   Lock,
-  Unlock,
   Clock,
   AlertTriangle
 } from 'lucide-react';
-import { Account, SalesData, IncentiveRule, User, IncentiveCalculation } from '../types';
+import { Account, AccountAssignment, AssignmentSalesTotals, IncentiveRule, Squad, User } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useQueryParam } from '../hooks/useRouter';
+import {
+  calculateUserIncentive,
+  findApplicableRule,
+  getCurrentMonth,
+  getMonthPeriod,
+  getQualifyingAccountIds,
+  getRulesForSquad,
+  getUserAccounts,
+  isRateInRule,
+} from '../lib/incentiveEngine';
+import { withPeriodAccounts } from '../lib/accountAssignments';
+import { getVisibleTeam, hasCapability } from '../lib/permissions';
 interface IncentiveGameMapProps {
   accounts: Account[];
-  salesData: SalesData[];
+  salesDataVersion: number;
   incentiveRules: IncentiveRule[];
   currentUser: User;
 }
@@ -35,40 +48,36 @@ interface CountdownTime {
 }
 const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({ 
   accounts, 
-  salesData, 
+  salesDataVersion, 
   incentiveRules,
   currentUser 
 }) => {
-  const [selectedMonth, setSelectedMonth] = useState(() => {
-    const now = new Date();
-    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-  });
-  const [selectedUser, setSelectedUser] = useState<string>(currentUser.role === 'user' ? currentUser.id : 'all');
+  const canViewTeam = hasCapability(currentUser, 'incentives.view_team');
+  const [selectedMonth, setSelectedMonth] = useQueryParam('month', getCurrentMonth());
+  const [selectedUser, setSelectedUser] = useQueryParam('user', canViewTeam ? 'all' : currentUser.id);
   const [countdown, setCountdown] = useState<CountdownTime>({ days: 0, hours: 0, minutes: 0, seconds: 0 });
-  // Sample users data - in real app this would come from props or API
-  const users: User[] = useMemo(() => [
-    // Include current user
-    currentUser,
-    // Add other sample users if current user is superadmin
-    ...(currentUser.role === 'superadmin' ? [
-      {
-        id: '1',
-        name: 'John Doe',
-        email: 'john@kimostudio.com',
-        role: 'user' as const,
-        managed_accounts: accounts.length > 0 ? [accounts[0].id] : [], // manages first account if available
-        created_at: new Date().toISOString(),
-      },
-      {
-        id: '2',
-        name: 'Jane Smith',
-        email: 'jane@kimostudio.com',
-        role: 'user' as const,
-        managed_accounts: accounts.length > 1 ? [accounts[1].id] : [], // manages second account if available
-        created_at: new Date().toISOString(),
-      }
-    ] : [])
-  ], [currentUser, accounts]);
+  const { fetchUsers, fetchSquads, fetchAssignmentTotals, fetchAccountAssignments } = useSupabase();
+  const [teamUsers, setTeamUsers] = useState<User[]>([]);
+  const [squads, setSquads] = useState<Squad[]>([]);
+  // Team viewers see the team they cover, everyone else only themselves
+  useEffect(() => {
+    if (!canViewTeam) return;
+    let isCurrent = true;
+    Promise.all([fetchUsers(), fetchSquads()]).then(([users, squadsData]) => {
+      if (!isCurrent) return;
+      setTeamUsers(users ?? []);
+      setSquads(squadsData);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [canViewTeam, fetchUsers, fetchSquads]);
+  const users: User[] = useMemo(
+    () => canViewTeam
+      ? getVisibleTeam(teamUsers, currentUser, squads).filter(user => hasCapability(user, 'incentives.earn'))
+      : [currentUser],
+    [currentUser, canViewTeam, teamUsers, squads]
+  );
   // Countdown timer effect
   useEffect(() => {
     const updateCountdown = () => {
@@ -96,155 +105,45 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
     const interval = setInterval(updateCountdown, 1000);
     return () => clearInterval(interval);
   }, []);
-  // Filter sales data by selected month
-  const filteredSalesData = useMemo(() => {
-    const [year, month] = selectedMonth.split('-');
-    const filtered = salesData.filter(data => {
-      const dataDate = new Date(data.date);
-      return dataDate.getFullYear() === parseInt(year) && 
-             dataDate.getMonth() === parseInt(month) - 1;
-    });
-    
-    console.log('Filtered Sales Data:', {
-      selectedMonth,
-      totalSalesData: salesData.length,
-      filteredCount: filtered.length,
-      sampleData: filtered.slice(0, 3)
-    });
-    
-    return filtered;
-  }, [salesData, selectedMonth]);
-  // Calculate incentives for users
-  const incentiveCalculations = useMemo(() => {
-    const calculations: IncentiveCalculation[] = [];
-    const usersToCalculate = currentUser.role === 'superadmin' 
-      ? users.filter(u => u.role === 'user')
-      : [currentUser];
-    usersToCalculate.forEach(user => {
-      // Get accounts managed by this user
-      let userAccounts: Account[] = [];
-      
-      if (currentUser.role === 'superadmin') {
-        // For superadmin viewing other users, use their managed accounts
-        userAccounts = accounts.filter(acc => user.managed_accounts.includes(acc.id));
-      } else {
-        // For regular users, use their own managed accounts
-        userAccounts = accounts.filter(acc => currentUser.managed_accounts.includes(acc.id));
-      }
-      // Get all sales data for user's accounts
-      const userSalesData = filteredSalesData.filter(data => 
-        userAccounts.some(acc => acc.id === data.account_id)
-      );
-      
-      // Debug logging to verify data connection
-      if (user.id === currentUser.id) {
-        console.log('Debug - Current User Data:', {
-          userId: user.id,
-          userName: user.name,
-          managedAccounts: currentUser.managed_accounts,
-          userAccounts: userAccounts.map(acc => ({ id: acc.id, username: acc.username })),
-          salesDataCount: userSalesData.length,
-          totalSalesData: filteredSalesData.length,
-          selectedMonth,
-          userSalesData: userSalesData.slice(0, 3) // Show first 3 records for debugging
-        });
-      }
-      // Calculate total commission and revenue for all accounts (to determine average commission rate)
-      const allTotalRevenue = userSalesData.reduce((sum, data) => sum + (data.total_purchases || 0), 0);
-      const allTotalCommission = userSalesData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
-      const averageCommissionRate = allTotalRevenue > 0 ? (allTotalCommission / allTotalRevenue) * 100 : 0;
-      
-      // Debug logging for calculations
-      if (user.id === currentUser.id) {
-        console.log('Debug - Calculations:', {
-          allTotalRevenue,
-          allTotalCommission,
-          averageCommissionRate
-        });
-      }
-      // Find applicable incentive rule
-      const applicableRule = incentiveRules.find(rule => 
-        rule.is_active &&
-        averageCommissionRate >= rule.commission_rate_min &&
-        (rule.commission_rate_max === 100 ? averageCommissionRate >= rule.commission_rate_min : averageCommissionRate <= rule.commission_rate_max)
-      );
-      // Filter accounts that meet minimum commission threshold for incentive calculation
-      let qualifyingAccountsData: typeof userSalesData = [];
-      let totalRevenue = 0;
-      let totalCommission = 0;
-      if (applicableRule) {
-        // Group sales data by account and check if each account meets minimum commission threshold
-        const accountGroups = userSalesData.reduce((groups, data) => {
-          if (!groups[data.account_id]) {
-            groups[data.account_id] = [];
-          }
-          groups[data.account_id].push(data);
-          return groups;
-        }, {} as Record<string, typeof userSalesData>);
-        // Check each account's total commission against minimum threshold
-        Object.entries(accountGroups).forEach(([accountId, accountData]) => {
-          const accountTotalCommission = accountData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
-          // Only include accounts that meet minimum commission threshold
-          if (accountTotalCommission >= applicableRule.min_commission_threshold) {
-            qualifyingAccountsData.push(...accountData);
-          }
-        });
-        // Calculate totals from qualifying accounts only
-        totalRevenue = qualifyingAccountsData.reduce((sum, data) => sum + (data.total_purchases || 0), 0);
-        totalCommission = qualifyingAccountsData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
-      } else {
-        // If no applicable rule, use all data for display purposes
-        totalRevenue = allTotalRevenue;
-        totalCommission = allTotalCommission;
-      }
-      let currentTier = null;
-      let nextTier = null;
-      let incentiveAmount = 0;
-      let progressPercentage = 0;
-      let remainingToNextTier = 0;
-      if (applicableRule && totalRevenue >= applicableRule.base_revenue_threshold) {
-        // Find current tier
-        const sortedTiers = [...applicableRule.tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
-        for (let i = sortedTiers.length - 1; i >= 0; i--) {
-          if (totalRevenue >= sortedTiers[i].revenue_threshold) {
-            currentTier = sortedTiers[i];
-            nextTier = sortedTiers[i + 1] || null;
-            break;
-          }
-        }
-        if (currentTier) {
-          incentiveAmount = (totalRevenue * currentTier.incentive_rate) / 100;
-        }
-        if (nextTier) {
-          remainingToNextTier = nextTier.revenue_threshold - totalRevenue;
-          progressPercentage = ((totalRevenue - currentTier.revenue_threshold) / 
-                              (nextTier.revenue_threshold - currentTier.revenue_threshold)) * 100;
-        } else if (currentTier) {
-          progressPercentage = 100;
-        }
-      } else if (applicableRule) {
-        // User has qualifying commission but hasn't reached base threshold
-        remainingToNextTier = applicableRule.base_revenue_threshold - totalRevenue;
-        progressPercentage = (totalRevenue / applicableRule.base_revenue_threshold) * 100;
-        nextTier = applicableRule.tiers[0];
+  const selectedPeriod = useMemo(() => getMonthPeriod(selectedMonth), [selectedMonth]);
+  const [filteredSalesData, setFilteredSalesData] = useState<AssignmentSalesTotals[]>([]);
+  const [periodAssignments, setPeriodAssignments] = useState<AccountAssignment[]>([]);
+  // Per-account totals for the selected month, split between the owners of each day
+  useEffect(() => {
+    let isCurrent = true;
+    const loadPeriodTotals = async () => {
+      const periodQuery = { startDate: selectedPeriod.start, endDate: selectedPeriod.end };
+      const [totals, assignments] = await Promise.all([
+        fetchAssignmentTotals(periodQuery),
+        fetchAccountAssignments(periodQuery),
+      ]);
+      if (isCurrent) {
+        setFilteredSalesData(totals ?? []);
+        setPeriodAssignments(assignments ?? []);
       }
-      calculations.push({
-        user_id: user.id,
-        user_name: user.name,
-        total_revenue: totalRevenue,
-        total_commission: totalCommission,
-        commission_rate: averageCommissionRate,
-        applicable_rule: applicableRule,
-        current_tier: currentTier,
-        next_tier: nextTier,
-        incentive_amount: incentiveAmount,
-        progress_percentage: Math.min(progressPercentage, 100),
-        remaining_to_next_tier: remainingToNextTier,
-        managed_accounts_count: userAccounts.length,
-      });
-    });
-    return calculations;
-  }, [users, accounts, filteredSalesData, incentiveRules, currentUser]);
+    };
+    loadPeriodTotals();
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedPeriod, currentUser, salesDataVersion, fetchAssignmentTotals, fetchAccountAssignments]);
+  // The accounts each user managed during the selected month
+  const periodUsers = useMemo(
+    () => withPeriodAccounts(users, periodAssignments, selectedPeriod),
+    [users, periodAssignments, selectedPeriod]
+  );
+  // Calculate incentives for users with the shared engine
+  const incentiveCalculations = useMemo(() => {
+    const usersToCalculate = canViewTeam
+      ? periodUsers
+      : periodUsers.filter(u => u.id === currentUser.id);
+    return usersToCalculate.map(user =>
+      calculateUserIncentive(user, getUserAccounts(user, accounts), filteredSalesData, incentiveRules)
+    );
+  }, [periodUsers, accounts, filteredSalesData, incentiveRules, currentUser, canViewTeam]);
+  // The rules a user's quest offers: their squad's rules first, then the ones for everyone
+  const getUserRules = (userId: string) =>
+    getRulesForSquad(incentiveRules, users.find(user => user.id === userId)?.squad_id);
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -332,7 +231,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
               className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
             />
           </div>
-          {currentUser.role === 'superadmin' && (
+          {canViewTeam && (
             <div className="flex items-center space-x-2">
               <Filter className="w-5 h-5 text-gray-400" />
               <label className="text-sm font-medium text-gray-700">User:</label>
@@ -342,7 +241,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
                 <option value="all">Semua User</option>
-                {users.filter(u => u.role === 'user').map(user => (
+                {users.map(user => (
                   <option key={user.id} value={user.id}>{user.name}</option>
                 ))}
               </select>
@@ -477,7 +376,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                         </div>
                         <div className="flex items-center space-x-2">
                           <span className="text-sm text-gray-600">
-                            {formatCurrency(calc.total_revenue)} / {formatCurrency(calc.next_tier?.revenue_threshold || calc.applicable_rule.base_revenue_threshold)}
+                            {formatCurrency(calc.qualifying_revenue)} / {formatCurrency(calc.next_tier?.revenue_threshold || calc.applicable_rule.base_revenue_threshold)}
                           </span>
                           <div className="bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full text-xs font-bold">
                             {calc.progress_percentage.toFixed(1)}%
@@ -569,8 +468,8 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                       <div className="absolute top-8 left-8 right-8 h-0.5 bg-gray-200 z-0"></div>
                       {/* Tiers */}
                       <div className="relative z-10 flex justify-between items-start">
-                        {calc.applicable_rule.tiers.map((tier, index) => {
-                          const isUnlocked = calc.total_revenue >= tier.revenue_threshold;
+                        {calc.applicable_rule.tiers.map((tier, index, tiers) => {
+                          const isUnlocked = calc.qualifying_revenue >= tier.revenue_threshold;
                           const isCurrent = calc.current_tier?.id === tier.id;
                           return (
                             <div key={tier.id} className="flex flex-col items-center space-y-3">
@@ -608,7 +507,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                                 </div>
                               </div>
                               {/* Arrow to next tier */}
-                              {index < calc.applicable_rule.tiers.length - 1 && (
+                              {index < tiers.length - 1 && (
                                 <ChevronRight className="w-4 h-4 text-gray-400 absolute top-6 -right-2" />
                               )}
                             </div>
@@ -643,9 +542,8 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                       {/* Rules Recommendation */}
                       <div className="space-y-3">
                         <h4 className="font-semibold text-amber-900">🎯 Rekomendasi Rules untuk Anda:</h4>
-                        {incentiveRules.filter(rule => rule.is_active).map(rule => {
-                          const isRateMatch = calc.commission_rate >= rule.commission_rate_min && 
-                            (rule.commission_rate_max === 100 ? calc.commission_rate >= rule.commission_rate_min : calc.commission_rate <= rule.commission_rate_max);
+                        {getUserRules(calc.user_id).filter(rule => rule.is_active).map(rule => {
+                          const isRateMatch = isRateInRule(calc.commission_rate, rule);
                           return (
                             <div key={rule.id} className={`border-2 rounded-lg p-4 ${
                               isRateMatch 
@@ -682,7 +580,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                                   <ul className="text-sm text-green-800 space-y-1">
                                     <li>• Pastikan setiap akun mencapai komisi minimum {formatCurrency(rule.min_commission_threshold)}</li>
                                     <li>• Target penjualan total: {formatCurrency(rule.base_revenue_threshold)} untuk mulai dapat insentif</li>
-                                    <li>• Insentif maksimal: {Math.max(...rule.tiers.map(t => t.incentive_rate))}% dari total penjualan</li>
+                                    <li>• Insentif maksimal: {Math.max(...rule.tiers.map(t => t.incentive_rate))}% {rule.payout_mode === 'flat' ? 'dari total penjualan' : 'untuk omset di tier tertinggi (progresif)'}</li>
                                     <li>• Fokus pada akun dengan performa terbaik untuk mencapai tier tinggi</li>
                                   </ul>
                                 </div>
@@ -702,11 +600,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                       </div>
                       {/* Action Plan */}
                       {(() => {
-                        const matchingRule = incentiveRules.find(rule => 
-                          rule.is_active &&
-                          calc.commission_rate >= rule.commission_rate_min && 
-                          (rule.commission_rate_max === 100 ? true : calc.commission_rate <= rule.commission_rate_max)
-                        );
+                        const matchingRule = findApplicableRule(getUserRules(calc.user_id), calc.commission_rate);
                         if (matchingRule) {
                           return (
                             <div className="mt-4 bg-gradient-to-r from-green-100 to-emerald-100 border-2 border-green-300 rounded-xl p-4">
@@ -770,35 +664,22 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                     }
                   </p>
                   {/* Show progress to unlock incentives */}
-                  {calc.total_commission > 0 && incentiveRules.filter(rule => rule.is_active).length > 0 && (
+                  {calc.total_commission > 0 && getUserRules(calc.user_id).filter(rule => rule.is_active).length > 0 && (
                     <div className="space-y-4">
-                      {incentiveRules.filter(rule => rule.is_active).map(rule => {
+                      {getUserRules(calc.user_id).filter(rule => rule.is_active).map(rule => {
                         // Check how many accounts meet the minimum commission threshold
-                        const userAccounts = currentUser.role === 'superadmin' 
-                          ? accounts.filter(acc => users.find(u => u.id === calc.user_id)?.managed_accounts.includes(acc.id))
-                          : accounts.filter(acc => currentUser.managed_accounts.includes(acc.id));
-                        const userSalesData = filteredSalesData.filter(data => 
-                          userAccounts.some(acc => acc.id === data.account_id)
+                        const calcUser = periodUsers.find(u => u.id === calc.user_id) || currentUser;
+                        const userAccountIds = new Set(getUserAccounts(calcUser, accounts).map(acc => acc.id));
+                        const userSalesData = filteredSalesData.filter(data =>
+                          userAccountIds.has(data.account_id) && data.user_id === calc.user_id
                         );
-                        // Group by account and check qualifying accounts
-                        const accountGroups = userSalesData.reduce((groups, data) => {
-                          if (!groups[data.account_id]) {
-                            groups[data.account_id] = [];
-                          }
-                          groups[data.account_id].push(data);
-                          return groups;
-                        }, {} as Record<string, typeof userSalesData>);
-                        const qualifyingAccounts = Object.entries(accountGroups).filter(([accountId, accountData]) => {
-                          const accountTotalCommission = accountData.reduce((sum, data) => sum + data.gross_commission, 0);
-                          return accountTotalCommission >= rule.min_commission_threshold;
-                        });
-                        const totalQualifyingCommission = qualifyingAccounts.reduce((sum, [accountId, accountData]) => {
-                          return sum + accountData.reduce((accSum, data) => accSum + data.gross_commission, 0);
-                        }, 0);
-                        const hasQualifyingAccounts = qualifyingAccounts.length > 0;
-                        const isRateQualified = calc.commission_rate >= rule.commission_rate_min && calc.commission_rate <= rule.commission_rate_max;
-                        const isRateQualifiedFixed = calc.commission_rate >= rule.commission_rate_min && 
-                          (rule.commission_rate_max === 100 ? calc.commission_rate >= rule.commission_rate_min : calc.commission_rate <= rule.commission_rate_max);
+                        const accountsWithSales = new Set(userSalesData.map(data => data.account_id));
+                        const qualifyingAccountIds = getQualifyingAccountIds(userSalesData, rule);
+                        const totalQualifyingCommission = userSalesData
+                          .filter(data => qualifyingAccountIds.has(data.account_id))
+                          .reduce((sum, data) => sum + data.gross_commission, 0);
+                        const hasQualifyingAccounts = qualifyingAccountIds.size > 0;
+                        const isRateQualifiedFixed = isRateInRule(calc.commission_rate, rule);
                         return (
                           <div key={rule.id} className={`border-2 rounded-xl p-4 ${
                             hasQualifyingAccounts && isRateQualifiedFixed 
@@ -820,7 +701,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                               <div className="flex justify-between text-sm mb-1">
                                 <span className="text-gray-600">Akun yang Memenuhi Syarat:</span>
                                 <span className="font-semibold">
-                                  {qualifyingAccounts.length} dari {Object.keys(accountGroups).length} akun
+                                  {qualifyingAccountIds.size} dari {accountsWithSales.size} akun
                                 </span>
                               </div>
                               <div className="text-sm mb-2">
@@ -867,11 +748,11 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                       })}
                     </div>
                   )}
-                  {incentiveRules.filter(rule => rule.is_active).length > 0 && calc.total_commission === 0 && (
+                  {getUserRules(calc.user_id).filter(rule => rule.is_active).length > 0 && calc.total_commission === 0 && (
                     <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
                       <h4 className="font-semibold text-blue-900 mb-3">🎯 Quest Tersedia:</h4>
                       <div className="space-y-3">
-                        {incentiveRules.filter(rule => rule.is_active).map(rule => (
+                        {getUserRules(calc.user_id).filter(rule => rule.is_active).map(rule => (
                           <div key={rule.id} className="bg-white rounded-lg p-3 border border-blue-200">
                             <div className="font-semibold text-blue-900">{rule.name}</div>
                             <div className="text-sm text-blue-700">
@@ -899,14 +780,14 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
           </div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">Belum Ada Data Insentif</h3>
           <p className="text-gray-600">
-            {currentUser.role === 'superadmin' 
+            {canViewTeam && selectedUser === 'all'
               ? 'Belum ada user dengan data penjualan untuk bulan ini'
               : currentUser.managed_accounts.length === 0
                 ? 'Anda belum memiliki akun yang dikelola. Hubungi admin untuk mendapatkan akses akun.'
                 : `Belum ada data penjualan untuk bulan ${selectedMonth}. Upload data penjualan untuk melihat perhitungan insentif.`
             }
           </p>
-          {currentUser.role === 'user' && currentUser.managed_accounts.length > 0 && (
+          {!canViewTeam && currentUser.managed_accounts.length > 0 && (
             <div className="mt-4 p-4 bg-blue-50 rounded-lg">
               <p className="text-sm text-blue-800">
                 <strong>Akun yang Anda kelola:</strong>
@@ -8,221 +8,137 @@ import {
   Star,
   BarChart3,
   Calculator,
-  Percent,
   Filter,
+  Calendar,
   ArrowUpDown,
   ArrowUp,
   ArrowDown
 } from 'lucide-react';
-import { Account, SalesData, IncentiveRule, User, IncentiveCalculation } from '../types';
+import { Account, AccountAssignment, AssignmentSalesTotals, IncentiveRule, Squad, User } from '../types';
 import { useSupabase } from '../hooks/useSupabase';
+import { useQueryParam } from '../hooks/useRouter';
+import { calculateIncentives, getCurrentMonth, getMonthPeriod } from '../lib/incentiveEngine';
+import { withPeriodAccounts } from '../lib/accountAssignments';
+import { getVisibleTeam, hasCapability } from '../lib/permissions';
+import { getSquadKey, rollupIncentivesBySquad } from '../lib/squads';
+import PayoutLedger from './PayoutLedger';
 
 interface IncentiveOverviewProps {
   accounts: Account[];
-  salesData: SalesData[];
+  salesDataVersion: number;
   incentiveRules: IncentiveRule[];
   currentUser: User;
 }
 
 const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
   accounts,
-  salesData,
+  salesDataVersion,
   incentiveRules,
   currentUser
 }) => {
-  const { fetchUsers } = useSupabase();
+  const { fetchUsers, fetchSquads, fetchAssignmentTotals, fetchAccountAssignments } = useSupabase();
   const [allUsers, setAllUsers] = React.useState<User[]>([]);
+  const [squads, setSquads] = React.useState<Squad[]>([]);
   const [sortBy, setSortBy] = React.useState<'incentive' | 'revenue' | 'commission' | 'rate'>('incentive');
   const [sortOrder, setSortOrder] = React.useState<'asc' | 'desc'>('desc');
   const [filterBy, setFilterBy] = React.useState<'all' | 'earning' | 'not_earning'>('all');
-
-  // Load all users for name mapping
+  const [selectedMonth, setSelectedMonth] = useQueryParam('month', getCurrentMonth());
+  const [selectedSquad, setSelectedSquad] = useQueryParam('squad', 'all');
+  const [periodTotals, setPeriodTotals] = React.useState<AssignmentSalesTotals[]>([]);
+  const [periodAssignments, setPeriodAssignments] = React.useState<AccountAssignment[]>([]);
+  const [isLoadingTotals, setIsLoadingTotals] = React.useState(true);
+  const [isLoadingUsers, setIsLoadingUsers] = React.useState(true);
+  const [totalsFailed, setTotalsFailed] = React.useState(false);
+  const [usersFailed, setUsersFailed] = React.useState(false);
+  const [loadAttempt, setLoadAttempt] = React.useState(0);
+  const selectedPeriod = useMemo(() => getMonthPeriod(selectedMonth), [selectedMonth]);
+  const canViewTeam = hasCapability(currentUser, 'incentives.view_team');
+
+  // Load all users so every team member gets a calculation, and their squads for the rollups
   React.useEffect(() => {
     const loadUsers = async () => {
-      if (currentUser.role === 'superadmin') {
+      if (canViewTeam) {
+        setIsLoadingUsers(true);
+        setUsersFailed(false);
         try {
-          const users = await fetchUsers();
-          setAllUsers(users);
+          const [users, squadsData] = await Promise.all([fetchUsers(), fetchSquads()]);
+          setAllUsers(users ?? []);
+          setUsersFailed(users === null);
+          setSquads(squadsData);
         } catch (error) {
           console.error('Error loading users:', error);
         }
       }
+      setIsLoadingUsers(false);
     };
     
     loadUsers();
-  }, [currentUser.role, fetchUsers]);
-  const calculateUserIncentive = (
-    userId: string, 
-    userAccounts: Account[], 
-    allSalesData: SalesData[], 
-    rules: IncentiveRule[]
-  ): IncentiveCalculation | null => {
-    if (userAccounts.length === 0) return null;
-
-    // Find the best matching rule for this user
-    const applicableRules = rules.filter(rule => rule.is_active);
-    if (applicableRules.length === 0) return null;
-
-    // Get sales data for user's accounts
-    const userSalesData = allSalesData.filter(data => 
-      userAccounts.some(acc => acc.id === data.account_id)
-    );
-
-    // Calculate totals
-    const totalRevenue = userSalesData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalCommission = userSalesData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const commissionRate = totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0;
-    
-    // Find the best matching rule based on commission rate
-    let bestRule: IncentiveRule | null = null;
-    for (const rule of applicableRules) {
-      if (commissionRate >= rule.commission_rate_min && 
-          (rule.commission_rate_max === 100 || commissionRate <= rule.commission_rate_max)) {
-        bestRule = rule;
-        break;
-      }
-    }
-
-    if (!bestRule) {
-      // Return calculation with no applicable rule
-      return {
-        user_id: userId,
-        user_name: getUserName(userId),
-        total_revenue: totalRevenue,
-        total_commission: totalCommission,
-        commission_rate: commissionRate,
-        applicable_rule: null,
-        current_tier: null,
-        next_tier: null,
-        incentive_amount: 0,
-        progress_percentage: 0,
-        remaining_to_next_tier: 0,
-        managed_accounts_count: userAccounts.length,
-      };
-    }
-
-    // Filter accounts that meet minimum commission threshold for the selected rule
-    const qualifyingAccountIds = new Set<string>();
-    userAccounts.forEach(account => {
-      const accountSalesData = userSalesData.filter(data => data.account_id === account.id);
-      const accountCommission = accountSalesData.reduce((sum, data) => sum + data.gross_commission, 0);
-      
-      if (accountCommission >= bestRule.min_commission_threshold) {
-        qualifyingAccountIds.add(account.id);
-      }
-    });
-
-    // Calculate revenue from qualifying accounts only
-    const qualifyingRevenue = userSalesData
-      .filter(data => qualifyingAccountIds.has(data.account_id))
-      .reduce((sum, data) => sum + data.total_purchases, 0);
-
-    // Find current tier and calculate incentive
-    let incentiveAmount = 0;
-    let currentTier = null;
-    let nextTier = null;
+  }, [canViewTeam, loadAttempt, fetchUsers, fetchSquads]);
 
-    const sortedTiers = [...bestRule.tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
-    
-    for (let i = 0; i < sortedTiers.length; i++) {
-      const tier = sortedTiers[i];
-      if (qualifyingRevenue >= tier.revenue_threshold) {
-        currentTier = tier;
-        
-        // Calculate incentive for this tier
-        const tierRevenue = i === 0 
-          ? Math.min(qualifyingRevenue, sortedTiers[i + 1]?.revenue_threshold || qualifyingRevenue) - tier.revenue_threshold
-          : Math.min(qualifyingRevenue, sortedTiers[i + 1]?.revenue_threshold || qualifyingRevenue) - tier.revenue_threshold;
-        
-        incentiveAmount += tierRevenue * (tier.incentive_rate / 100);
-      } else {
-        nextTier = tier;
-        break;
+  // Per-account totals for the selected month, split between the owners of each day.
+  // Policies limit regular users to their own assignments, including accounts reassigned since.
+  React.useEffect(() => {
+    let isCurrent = true;
+    const loadPeriodTotals = async () => {
+      // Drop the previous month's totals so nothing can be closed or booked with them
+      setPeriodTotals([]);
+      setPeriodAssignments([]);
+      setIsLoadingTotals(true);
+      setTotalsFailed(false);
+      const periodQuery = { startDate: selectedPeriod.start, endDate: selectedPeriod.end };
+      const [totals, assignments] = await Promise.all([
+        fetchAssignmentTotals(periodQuery),
+        fetchAccountAssignments(periodQuery),
+      ]);
+      if (isCurrent) {
+        setPeriodTotals(totals ?? []);
+        setPeriodAssignments(assignments ?? []);
+        setTotalsFailed(totals === null || assignments === null);
+        setIsLoadingTotals(false);
       }
-    }
-
-    // Calculate progress to next tier
-    let progressPercentage = 0;
-    let remainingToNextTier = 0;
-
-    if (nextTier) {
-      const currentThreshold = currentTier?.revenue_threshold || bestRule.base_revenue_threshold;
-      const nextThreshold = nextTier.revenue_threshold;
-      const progress = qualifyingRevenue - currentThreshold;
-      const totalNeeded = nextThreshold - currentThreshold;
-      
-      progressPercentage = Math.min((progress / totalNeeded) * 100, 100);
-      remainingToNextTier = Math.max(nextThreshold - qualifyingRevenue, 0);
-    } else if (currentTier) {
-      progressPercentage = 100;
-    }
-
-    return {
-      user_id: userId,
-      user_name: getUserName(userId),
-      total_revenue: totalRevenue,
-      total_commission: totalCommission,
-      commission_rate: commissionRate,
-      applicable_rule: bestRule,
-      current_tier: currentTier,
-      next_tier: nextTier,
-      incentive_amount: incentiveAmount,
-      progress_percentage: progressPercentage,
-      remaining_to_next_tier: remainingToNextTier,
-      managed_accounts_count: userAccounts.length,
     };
-  };
 
-  const getUserName = (userId: string): string => {
-    if (userId === currentUser.id) return currentUser.name;
-    
-    // Find user from allUsers array
-    const user = allUsers.find(u => u.id === userId);
-    if (user) {
-      return user.name;
-    }
-    
-    // Fallback to user ID if not found
-    return `User ${userId.slice(0, 8)}`;
-  };
-
-  // Calculate incentives for all users
+    loadPeriodTotals();
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedPeriod, currentUser, salesDataVersion, loadAttempt, fetchAssignmentTotals, fetchAccountAssignments]);
+  // Calculate incentives for the selected month with the shared engine
   const incentiveCalculations = useMemo(() => {
     const activeRules = incentiveRules.filter(rule => rule.is_active);
     if (activeRules.length === 0) return [];
 
-    // Get all users who manage accounts
-    const userCalculations: IncentiveCalculation[] = [];
-    
-    // For superadmin view, calculate for all users
-    if (currentUser.role === 'superadmin') {
-      // Get unique user IDs from accounts
-      const userIds = [...new Set(accounts.map(acc => acc.user_id).filter(Boolean))];
-      
-      userIds.forEach(userId => {
-        const userAccounts = accounts.filter(acc => acc.user_id === userId);
-        const calculation = calculateUserIncentive(userId, userAccounts, salesData, activeRules);
-        if (calculation) {
-          userCalculations.push(calculation);
-        }
-      });
-    } else {
-      // For regular users, only show their own calculation
-      const userAccounts = accounts.filter(acc => 
-        currentUser.managed_accounts.includes(acc.id)
-      );
-      const calculation = calculateUserIncentive(currentUser.id, userAccounts, salesData, activeRules);
-      if (calculation) {
-        userCalculations.push(calculation);
-      }
-    }
+    // Team viewers see everyone who earns incentives in their team, everyone else only themselves
+    const users = canViewTeam
+      ? getVisibleTeam(allUsers, currentUser, squads).filter(user => hasCapability(user, 'incentives.earn'))
+      : [currentUser];
+
+    return calculateIncentives({
+      users: withPeriodAccounts(users, periodAssignments, selectedPeriod),
+      accounts,
+      salesData: periodTotals,
+      rules: activeRules,
+      period: selectedPeriod,
+    }).filter(calc => calc.managed_accounts_count > 0);
+  }, [accounts, periodTotals, periodAssignments, incentiveRules, currentUser, canViewTeam, allUsers, squads, selectedPeriod]);
+
+  const squadRollups = useMemo(
+    () => rollupIncentivesBySquad(incentiveCalculations, allUsers, squads),
+    [incentiveCalculations, allUsers, squads]
+  );
 
-    return userCalculations.sort((a, b) => b.incentive_amount - a.incentive_amount);
-  }, [accounts, salesData, incentiveRules, currentUser, allUsers]);
+  // The squad filter narrows the cards and the list; the payout ledger always covers the whole team
+  const squadCalculations = useMemo(() => {
+    if (selectedSquad === 'all') return incentiveCalculations;
+    return incentiveCalculations.filter(calc => {
+      const user = allUsers.find(candidate => candidate.id === calc.user_id);
+      return !!user && getSquadKey(user) === selectedSquad;
+    });
+  }, [incentiveCalculations, allUsers, selectedSquad]);
 
   // Filter and sort calculations
   const filteredAndSortedCalculations = useMemo(() => {
-    let filtered = [...incentiveCalculations];
+    let filtered = [...squadCalculations];
     
     // Apply filter
     if (filterBy === 'earning') {
@@ -261,7 +177,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
     });
     
     return filtered;
-  }, [incentiveCalculations, filterBy, sortBy, sortOrder]);
+  }, [squadCalculations, filterBy, sortBy, sortOrder]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -271,14 +187,13 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
     }).format(amount);
   };
 
-  const totalIncentives = incentiveCalculations.reduce((sum, calc) => sum + calc.incentive_amount, 0);
-  const totalRevenue = incentiveCalculations.reduce((sum, calc) => sum + calc.total_revenue, 0);
-  const totalCommission = incentiveCalculations.reduce((sum, calc) => sum + calc.total_commission, 0);
-  const usersEarningIncentives = incentiveCalculations.filter(calc => calc.incentive_amount > 0).length;
+  const totalIncentives = squadCalculations.reduce((sum, calc) => sum + calc.incentive_amount, 0);
+  const totalRevenue = squadCalculations.reduce((sum, calc) => sum + calc.total_revenue, 0);
+  const totalCommission = squadCalculations.reduce((sum, calc) => sum + calc.total_commission, 0);
+  const usersEarningIncentives = squadCalculations.filter(calc => calc.incentive_amount > 0).length;
   const totalIncentivesToPay = totalIncentives; // Same as totalIncentives but with different semantic meaning
   
   const activeRules = incentiveRules.filter(rule => rule.is_active);
-  const primaryActiveRule = activeRules[0]; // Show the first active rule in the header
 
   return (
     <div className="space-y-6">
@@ -287,7 +202,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Incentive Overview</h1>
           <p className="text-gray-600">
-            {currentUser.role === 'superadmin' 
+            {canViewTeam
               ? 'Monitor incentive performance across all team members'
               : 'Track your incentive progress and earnings'}
           </p>
@@ -301,7 +216,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
             <div>
               <h3 className="text-lg font-semibold text-yellow-900">No Active Incentive Rules</h3>
               <p className="text-yellow-800">
-                {currentUser.role === 'superadmin' 
+                {hasCapability(currentUser, 'incentives.edit_rules')
                   ? 'Please activate incentive rules to start calculating incentives.'
                   : 'Contact your administrator to activate incentive rules.'}
               </p>
@@ -373,6 +288,16 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
           <div className="bg-white rounded-xl border border-gray-100 p-4">
             <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
               <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-2">
+                  <Calendar className="w-5 h-5 text-gray-400" />
+                  <span className="text-sm font-medium text-gray-700">Bulan:</span>
+                  <input
+                    type="month"
+                    value={selectedMonth}
+                    onChange={(e) => setSelectedMonth(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                  />
+                </div>
                 <div className="flex items-center space-x-2">
                   <Filter className="w-5 h-5 text-gray-400" />
                   <span className="text-sm font-medium text-gray-700">Filter:</span>
@@ -386,6 +311,22 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
                     <option value="not_earning">Tidak Mendapat Komisi</option>
                   </select>
                 </div>
+                {canViewTeam && squadRollups.length > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Users className="w-5 h-5 text-gray-400" />
+                    <span className="text-sm font-medium text-gray-700">Squad:</span>
+                    <select
+                      value={selectedSquad}
+                      onChange={(e) => setSelectedSquad(e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                    >
+                      <option value="all">Semua Squad</option>
+                      {squadRollups.map(rollup => (
+                        <option key={rollup.squad_id} value={rollup.squad_id}>{rollup.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
               </div>
               
               <div className="flex items-center space-x-4">
@@ -418,15 +359,55 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
               </div>
             </div>
           </div>
+          {/* Squad Rollups */}
+          {canViewTeam && squadRollups.length > 1 && (
+            <div className="bg-white rounded-xl border border-gray-100 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Per Squad</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {squadRollups.map(rollup => (
+                  <button
+                    key={rollup.squad_id}
+                    onClick={() => setSelectedSquad(selectedSquad === rollup.squad_id ? 'all' : rollup.squad_id)}
+                    className={`text-left rounded-lg p-4 border transition-colors ${
+                      selectedSquad === rollup.squad_id
+                        ? 'border-purple-300 bg-purple-50'
+                        : 'border-gray-100 bg-gray-50 hover:border-purple-200'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium text-gray-900">{rollup.name}</span>
+                      <span className="text-xs text-gray-600">
+                        {rollup.earning_count}/{rollup.member_count} berhak komisi
+                      </span>
+                    </div>
+                    <div className="text-lg font-semibold text-green-600">{formatCurrency(rollup.total_incentive)}</div>
+                    <div className="text-sm text-gray-600">Omset {formatCurrency(rollup.total_revenue)}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Closed periods and payout status */}
+          <PayoutLedger
+            month={selectedMonth}
+            calculations={incentiveCalculations}
+            isCalculating={isLoadingTotals || isLoadingUsers}
+            loadFailed={totalsFailed || usersFailed}
+            onRetry={() => setLoadAttempt(prev => prev + 1)}
+            currentUser={currentUser}
+            onSelectMonth={setSelectedMonth}
+          />
+
           {/* Incentive Calculations */}
           <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
             <div className="p-6 border-b border-gray-100">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold text-gray-900">
-                  {currentUser.role === 'superadmin' ? 'Team Performance' : 'Your Performance'}
+                  {canViewTeam ? 'Team Performance' : 'Your Performance'}
                 </h3>
                 <span className="text-sm text-gray-600">
-                  Menampilkan {filteredAndSortedCalculations.length} dari {incentiveCalculations.length} user
+                  Menampilkan {filteredAndSortedCalculations.length} dari {squadCalculations.length} user
                 </span>
               </div>
             </div>
@@ -448,6 +429,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
                           <h4 className="font-semibold text-gray-900">{calculation.user_name}</h4>
                           <p className="text-sm text-gray-600">
                             {calculation.managed_accounts_count} accounts managed
+                            {calculation.applicable_rule && ` · ${calculation.qualifying_accounts_count} qualifying`}
                           </p>
                           {calculation.applicable_rule && (
                             <p className="text-xs text-purple-600 font-medium">
@@ -533,8 +515,8 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
                         
                         <div className="grid grid-cols-1 gap-2 text-xs text-blue-800">
                           <div className="flex justify-between items-center">
-                            <span className="font-medium">Current Revenue:</span>
-                            <span>{formatCurrency(calculation.total_revenue)}</span>
+                            <span className="font-medium">Qualifying Revenue:</span>
+                            <span>{formatCurrency(calculation.qualifying_revenue)}</span>
                           </div>
                           <div className="flex justify-between items-center">
                             <span className="font-medium">Next Tier Target:</span>
@@ -574,7 +556,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
                 </h3>
                 <p className="text-gray-600">
                   {incentiveCalculations.length === 0 
-                    ? (currentUser.role === 'superadmin' 
+                    ? (canViewTeam
                         ? 'No users have qualifying accounts or sales data yet.'
                         : 'You don\'t have any qualifying accounts or sales data yet.')
                     : 'Coba ubah filter atau kriteria pencarian Anda.'}
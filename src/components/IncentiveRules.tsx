@@ -13,9 +13,14 @@ import {
   TrendingUp,
   Calculator
 } from 'lucide-react';
-import { IncentiveRule, IncentiveTier } from '../types';
+import { IncentiveRule, IncentiveTier, IncentivePayoutMode, Squad } from '../types';
 import { useSupabase } from '../hooks/useSupabase';
 
+const payoutModeLabels: Record<IncentivePayoutMode, string> = {
+  progressive: 'Progressive (marginal per tier)',
+  flat: 'Flat (whole revenue)',
+};
+
 interface IncentiveRulesProps {
   incentiveRules: IncentiveRule[];
   onUpdateRules: (rules: IncentiveRule[]) => void;
@@ -25,12 +30,14 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
   const [rules, setRules] = useState<IncentiveRule[]>(incentiveRules);
   const [showModal, setShowModal] = useState(false);
   const [editingRule, setEditingRule] = useState<IncentiveRule | null>(null);
+  const [squads, setSquads] = useState<Squad[]>([]);
   
   const {
     loading,
     addIncentiveRule,
     updateIncentiveRule,
     deleteIncentiveRule,
+    fetchSquads,
   } = useSupabase();
 
   const [formData, setFormData] = useState({
@@ -40,6 +47,8 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     commission_rate_min: 5,
     commission_rate_max: 7.99,
     base_revenue_threshold: 80000000,
+    payout_mode: 'progressive' as IncentivePayoutMode,
+    squad_id: '',
     is_active: true,
   });
   const [tiers, setTiers] = useState<Omit<IncentiveTier, 'id' | 'created_at'>[]>([
@@ -56,6 +65,18 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     setRules(incentiveRules);
   }, [incentiveRules]);
 
+  useEffect(() => {
+    let isCurrent = true;
+    fetchSquads().then(squadsData => {
+      if (isCurrent) setSquads(squadsData);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [fetchSquads]);
+
+  const getSquadName = (squadId: string) => squads.find(squad => squad.id === squadId)?.name || 'Unknown Squad';
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -76,7 +97,8 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     
     const ruleData = {
       ...formData,
-      tiers: tiers.map((tier, index) => ({
+      squad_id: formData.squad_id || null,
+      tiers: tiers.map(tier => ({
         revenue_threshold: tier.revenue_threshold,
         incentive_rate: tier.incentive_rate,
       })),
@@ -110,6 +132,8 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: rule.commission_rate_min,
       commission_rate_max: rule.commission_rate_max,
       base_revenue_threshold: rule.base_revenue_threshold,
+      payout_mode: rule.payout_mode,
+      squad_id: rule.squad_id || '',
       is_active: rule.is_active,
     });
     setTiers(rule.tiers.map(tier => ({
@@ -128,6 +152,8 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: 5,
       commission_rate_max: 7.99,
       base_revenue_threshold: 80000000,
+      payout_mode: 'progressive',
+      squad_id: '',
       is_active: true,
     });
     setTiers([
@@ -174,6 +200,8 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: 5,
       commission_rate_max: 7.99,
       base_revenue_threshold: 80000000,
+      payout_mode: 'progressive',
+      squad_id: '',
       is_active: true,
     });
     setTiers([]);
@@ -221,7 +249,8 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                 <p>• Only accounts with commission above the minimum threshold will be counted</p>
                 <p>• Calculation is based on total revenue from qualifying accounts</p>
                 <p>• Different commission rate ranges have different revenue thresholds</p>
-                <p>• Incentive rates are applied progressively based on revenue tiers</p>
+                <p>• Progressive rules pay each tier's rate only on the revenue inside that tier</p>
+                <p>• Flat rules pay the highest reached tier's rate on the whole revenue</p>
               </div>
             </div>
           </div>
@@ -243,6 +272,11 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                       }`}>
                         {rule.is_active ? 'Active' : 'Inactive'}
                       </span>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        rule.squad_id ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {rule.squad_id ? getSquadName(rule.squad_id) : 'All squads'}
+                      </span>
                     </div>
                     <p className="text-sm text-gray-600 mb-4">{rule.description}</p>
                     
@@ -268,13 +302,25 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                       </div>
                     </div>
 
-                    <div className="bg-purple-50 rounded-lg p-3 mb-4">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <Target className="w-4 h-4 text-purple-600" />
-                        <span className="text-xs font-medium text-purple-700">Base Threshold</span>
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div className="bg-purple-50 rounded-lg p-3">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <Target className="w-4 h-4 text-purple-600" />
+                          <span className="text-xs font-medium text-purple-700">Base Threshold</span>
+                        </div>
+                        <div className="text-sm font-semibold text-purple-900">
+                          {formatCurrency(rule.base_revenue_threshold)}
+                        </div>
                       </div>
-                      <div className="text-sm font-semibold text-purple-900">
-                        {formatCurrency(rule.base_revenue_threshold)}
+
+                      <div className="bg-purple-50 rounded-lg p-3">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <Calculator className="w-4 h-4 text-purple-600" />
+                          <span className="text-xs font-medium text-purple-700">Payout Mode</span>
+                        </div>
+                        <div className="text-sm font-semibold text-purple-900">
+                          {payoutModeLabels[rule.payout_mode]}
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -458,6 +504,45 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                       required
                     />
                   </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Payout Mode *
+                    </label>
+                    <select
+                      value={formData.payout_mode}
+                      onChange={(e) => setFormData({ ...formData, payout_mode: e.target.value as IncentivePayoutMode })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      required
+                    >
+                      <option value="progressive">{payoutModeLabels.progressive}</option>
+                      <option value="flat">{payoutModeLabels.flat}</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formData.payout_mode === 'progressive'
+                        ? 'Each tier rate applies only to the revenue between that tier and the next one.'
+                        : 'The highest reached tier rate applies to the whole qualifying revenue.'}
+                    </p>
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Squad
+                    </label>
+                    <select
+                      value={formData.squad_id}
+                      onChange={(e) => setFormData({ ...formData, squad_id: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      <option value="">All squads</option>
+                      {squads.map(squad => (
+                        <option key={squad.id} value={squad.id}>{squad.name}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      A squad's members are matched against its own rules before the rules for all squads.
+                    </p>
+                  </div>
                 </div>
 
                 {/* Incentive Tiers */}
@@ -1,9 +1,17 @@
-import React, { useState } from 'react';
-import { Eye, EyeOff, LogIn, Shield, User, AlertCircle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Eye, EyeOff, LogIn, Shield, User, AlertCircle, CheckCircle, Mail } from 'lucide-react';
+import { User as UserType } from '../types';
+import type { Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { loadSessionUser } from '../lib/authSession';
+import { useSupabase } from '../hooks/useSupabase';
+import { isDemoMode } from '../lib/demoMode';
+import { startDemoSession } from '../lib/demoData';
+import { roleLabels } from '../lib/permissions';
+import DemoBanner from './DemoBanner';
 
 interface LoginProps {
-  onLogin: (user: { id: string; name: string; email: string; role: 'user' | 'superadmin'; managed_accounts: string[]; access_token?: string; refresh_token?: string }) => void;
+  onLogin: (user: UserType) => void;
 }
 
 const Login: React.FC<LoginProps> = ({ onLogin }) => {
@@ -14,6 +22,24 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  // Signed in, but the profile failed to load; kept so loading it can be retried
+  const [pendingSession, setPendingSession] = useState<Session | null>(null);
+  const [isResettingPassword, setIsResettingPassword] = useState(false);
+  const [resetEmailSent, setResetEmailSent] = useState(false);
+  const [demoUsers, setDemoUsers] = useState<UserType[]>([]);
+  const { fetchUsers } = useSupabase();
+
+  // Demo mode has no passwords; the sample team is listed to sign in with one click
+  useEffect(() => {
+    if (!isDemoMode) return;
+    let isCurrent = true;
+    fetchUsers().then(users => {
+      if (isCurrent) setDemoUsers(users ?? []);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [fetchUsers]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,117 +54,9 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
       });
 
       if (authError) {
-        // If Supabase auth fails, fall back to demo users for development
-        const demoUsers = [
-          {
-            email: 'admin@kimostudio.com',
-            password: 'admin123',
-            userData: { id: '1', name: 'Super Admin', role: 'superadmin' as const, managed_accounts: [] }
-          },
-          {
-            email: 'john@kimostudio.com', 
-            password: 'user123',
-            userData: { id: '2', name: 'John Doe', role: 'user' as const, managed_accounts: ['1'] }
-          },
-          {
-            email: 'jane@kimostudio.com',
-            password: 'user123', 
-            userData: { id: '3', name: 'Jane Smith', role: 'user' as const, managed_accounts: [] }
-          }
-        ];
-
-        const demoUser = demoUsers.find(u => u.email === formData.email && u.password === formData.password);
-        
-        if (demoUser) {
-          // Create a demo session for development
-          await supabase.auth.setSession({
-            access_token: `demo_token_${demoUser.userData.id}`,
-            refresh_token: `demo_refresh_${demoUser.userData.id}`,
-          });
-          
-          onLogin({
-            ...demoUser.userData,
-            email: formData.email,
-            access_token: `demo_token_${demoUser.userData.id}`,
-            refresh_token: `demo_refresh_${demoUser.userData.id}`,
-          });
-        } else {
-          setError('Email atau password tidak valid');
-        }
-      } else if (authData.user) {
-        // Real Supabase authentication successful
-        try {
-          // Try to fetch user data from the users table
-          let userData = null;
-          try {
-            const { data, error: userError } = await supabase
-              .from('users')
-              .select('*')
-              .eq('email', authData.user.email)
-              .limit(1);
-            
-            if (userError) {
-              throw userError;
-            }
-            userData = data && data.length > 0 ? data[0] : null;
-          } catch (queryError: any) {
-            // If it's just a "no rows found" error, that's expected for new users
-            if (queryError.code !== 'PGRST116') {
-              throw queryError;
-            }
-          }
-
-          // If user doesn't exist in users table, create a default user entry
-          if (!userData) {
-            const newUser = {
-              id: authData.user.id,
-              name: authData.user.email?.split('@')[0] || 'User',
-              email: authData.user.email || '',
-              role: 'user' as const,
-              managed_accounts: [],
-            };
-
-            const { data: insertedUser, error: insertError } = await supabase
-              .from('users')
-              .insert([newUser])
-              .select()
-              .maybeSingle();
-
-            if (insertError) {
-              console.error('Could not create user record:', insertError);
-              // Fall back to basic user info from auth
-              onLogin({
-                ...newUser,
-                access_token: authData.session?.access_token,
-                refresh_token: authData.session?.refresh_token,
-              });
-            } else {
-              onLogin({
-                ...(insertedUser || newUser),
-                access_token: authData.session?.access_token,
-                refresh_token: authData.session?.refresh_token,
-              });
-            }
-          } else {
-            onLogin({
-              ...userData,
-              access_token: authData.session?.access_token,
-              refresh_token: authData.session?.refresh_token,
-            });
-          }
-        } catch (userFetchError) {
-          console.error('Error in user data handling:', userFetchError);
-          // Fall back to basic user info from auth
-          onLogin({
-            id: authData.user.id,
-            name: authData.user.email?.split('@')[0] || 'User',
-            email: authData.user.email || '',
-            role: 'user' as const,
-            managed_accounts: [],
-            access_token: authData.session?.access_token,
-            refresh_token: authData.session?.refresh_token,
-          });
-        }
+        setError('Email atau password tidak valid');
+      } else if (authData.session) {
+        await loadProfile(authData.session);
       }
     } catch (err) {
       console.error('Login error:', err);
@@ -148,16 +66,61 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setIsLoading(false);
   };
 
-  const handleDemoLogin = (userType: 'admin' | 'user') => {    
-    setFormData({
-      email: userType === 'admin' ? 'admin@kimostudio.com' : 'john@kimostudio.com',
-      password: userType === 'admin' ? 'admin123' : 'user123',
+  const loadProfile = async (session: Session) => {
+    try {
+      const user = await loadSessionUser(session);
+      setPendingSession(null);
+      onLogin(user);
+    } catch (err) {
+      console.error('Error loading profile:', err);
+      setPendingSession(session);
+      setError('Login berhasil, tetapi profil Anda gagal dimuat.');
+    }
+  };
+
+  const handleRetryProfile = async () => {
+    if (!pendingSession) return;
+    setIsLoading(true);
+    setError('');
+    await loadProfile(pendingSession);
+    setIsLoading(false);
+  };
+
+  // The emailed link signs the user in and App asks for the new password
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    const { error: resetError } = await supabase.auth.resetPasswordForEmail(formData.email, {
+      redirectTo: window.location.origin,
     });
+
+    if (resetError) {
+      setError(resetError.message);
+    } else {
+      setResetEmailSent(true);
+    }
+
+    setIsLoading(false);
+  };
+
+  const toggleResettingPassword = () => {
+    setIsResettingPassword(!isResettingPassword);
+    setResetEmailSent(false);
+    setError('');
+  };
+
+  const handleDemoLogin = (user: UserType) => {
+    startDemoSession(user.id);
+    onLogin(user);
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
+        {isDemoMode && <DemoBanner />}
+
         {/* Logo and Title */}
         <div className="text-center mb-8">
           <div className="w-16 h-16 bg-gradient-to-br from-purple-600 to-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
@@ -180,11 +143,51 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
               <div>
                 <h3 className="font-medium text-red-900">Login Gagal</h3>
                 <p className="text-sm text-red-700">{error}</p>
+                {pendingSession && (
+                  <button
+                    type="button"
+                    onClick={handleRetryProfile}
+                    disabled={isLoading}
+                    className="mt-2 text-sm text-red-700 font-medium underline hover:text-red-900 disabled:opacity-50"
+                  >
+                    Coba lagi
+                  </button>
+                )}
               </div>
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
+          {isDemoMode ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">Pilih pengguna demo:</p>
+              {demoUsers.map(user => (
+                <button
+                  key={user.id}
+                  type="button"
+                  onClick={() => handleDemoLogin(user)}
+                  className="w-full flex items-center space-x-3 px-4 py-3 border border-gray-200 rounded-lg hover:border-purple-300 hover:bg-purple-50 transition-colors text-left"
+                >
+                  <div className="w-10 h-10 bg-gradient-to-br from-purple-600 to-blue-600 rounded-full flex items-center justify-center">
+                    {user.role === 'superadmin' ? <Shield className="w-5 h-5 text-white" /> : <User className="w-5 h-5 text-white" />}
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{user.name}</p>
+                    <p className="text-sm text-gray-500">{roleLabels[user.role]} · {user.email}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : (
+          <form onSubmit={isResettingPassword ? handleResetPassword : handleSubmit} className="space-y-6">
+            {resetEmailSent && (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-start space-x-3">
+                <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+                <p className="text-sm text-green-700">
+                  Link untuk mengatur ulang password telah dikirim ke {formData.email}. Periksa kotak masuk Anda.
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Email Address
@@ -199,10 +202,20 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
               />
             </div>
 
+            {!isResettingPassword && (
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <button
+                  type="button"
+                  onClick={toggleResettingPassword}
+                  className="text-sm text-purple-600 hover:text-purple-700"
+                >
+                  Lupa password?
+                </button>
+              </div>
               <div className="relative">
                 <input
                   type={showPassword ? "text" : "password"}
@@ -221,6 +234,7 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 </button>
               </div>
             </div>
+            )}
 
             <button
               type="submit"
@@ -232,6 +246,11 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                   <span>Memproses...</span>
                 </>
+              ) : isResettingPassword ? (
+                <>
+                  <Mail className="w-5 h-5" />
+                  <span>Kirim Link Reset</span>
+                </>
               ) : (
                 <>
                   <LogIn className="w-5 h-5" />
@@ -239,8 +258,18 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 </>
               )}
             </button>
-          </form>
 
+            {isResettingPassword && (
+              <button
+                type="button"
+                onClick={toggleResettingPassword}
+                className="w-full text-sm text-gray-600 hover:text-gray-800"
+              >
+                Kembali ke halaman masuk
+              </button>
+            )}
+          </form>
+          )}
         </div>
 
         {/* Footer */}
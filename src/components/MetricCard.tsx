@@ -1,14 +1,14 @@
 import React from 'react';
-import { DivideIcon as LucideIcon, TrendingUp, TrendingDown } from 'lucide-react';
+import { DivideIcon as LucideIcon, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { MetricTrend } from '../types';
 
 interface MetricCardProps {
   title: string;
   value: string | number;
   icon: LucideIcon;
-  trend?: {
-    value: number;
-    isPositive: boolean;
-  };
+  trend?: MetricTrend;
+  // What the trend compares with, e.g. "vs previous period"
+  trendLabel?: string;
   subtitle?: string;
   className?: string;
 }
@@ -18,6 +18,7 @@ const MetricCard: React.FC<MetricCardProps> = ({
   value, 
   icon: Icon, 
   trend, 
+  trendLabel,
   subtitle,
   className = ''
 }) => {
@@ -35,16 +36,20 @@ const MetricCard: React.FC<MetricCardProps> = ({
         </div>
         {trend && (
           <div className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${
-            trend.isPositive 
-              ? 'bg-green-50 text-green-700' 
-              : 'bg-red-50 text-red-700'
+            trend.value === 0
+              ? 'bg-gray-50 text-gray-600'
+              : trend.isPositive 
+                ? 'bg-green-50 text-green-700' 
+                : 'bg-red-50 text-red-700'
           }`}>
-            {trend.isPositive ? (
+            {trend.value === 0 ? (
+              <Minus className="w-3 h-3" />
+            ) : trend.isPositive ? (
               <TrendingUp className="w-3 h-3" />
             ) : (
               <TrendingDown className="w-3 h-3" />
             )}
-            <span>{Math.abs(trend.value)}%</span>
+            <span>{Math.abs(trend.value)}{trend.unit === 'pp' ? ' pp' : '%'}</span>
           </div>
         )}
       </div>
@@ -53,6 +58,7 @@ const MetricCard: React.FC<MetricCardProps> = ({
         <div className="text-2xl font-bold text-gray-900">
           {typeof value === 'number' ? value.toLocaleString() : value}
         </div>
+        {trendLabel && <p className="text-xs text-gray-400">{trendLabel}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,168 @@
+import React from 'react';
+import { Account, Category } from '../types';
+import { MonthlyReport } from '../lib/monthlyReport';
+import { parseDateString, sumSalesTotals } from '../lib/salesQuery';
+import TimeSeriesChart from './TimeSeriesChart';
+import FunnelChart from './FunnelChart';
+
+interface MonthlyReportPageProps {
+  report: MonthlyReport;
+  accounts: Account[];
+  categories: Category[];
+  generatedAt: Date;
+}
+
+// One report laid out for A4; every report after the first starts on a new page
+const MonthlyReportPage: React.FC<MonthlyReportPageProps> = ({ report, accounts, categories, generatedAt }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const getAccount = (accountId: string) => accounts.find(account => account.id === accountId);
+
+  const getCategoryName = (categoryId?: string) =>
+    categories.find(category => category.id === categoryId)?.name || '-';
+
+  const { metrics } = report;
+  const kpis = [
+    { label: 'Commission', value: formatCurrency(metrics.totalCommission) },
+    { label: 'Revenue', value: formatCurrency(metrics.totalRevenue) },
+    { label: 'Orders', value: metrics.totalOrders.toLocaleString() },
+    { label: 'Clicks', value: metrics.totalClicks.toLocaleString() },
+    { label: 'Products Sold', value: metrics.totalProductsSold.toLocaleString() },
+    { label: 'New Buyers', value: metrics.totalNewBuyers.toLocaleString() },
+    { label: 'Commission Rate', value: `${metrics.avgCommissionRate.toFixed(2)}%` },
+    { label: 'Conversion Rate', value: `${metrics.conversionRate.toFixed(2)}%` },
+  ];
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-100 p-8 space-y-6 print:border-0 print:rounded-none print:p-0 break-before-page first:break-before-auto">
+      {/* Report Header */}
+      <div className="flex items-start justify-between border-b border-gray-200 pb-4">
+        <div>
+          <p className="text-sm font-medium text-purple-600">Monthly Report · {parseDateString(report.period.start).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}</p>
+          <h2 className="text-2xl font-bold text-gray-900">{report.title}</h2>
+          {report.user && (
+            <p className="text-sm text-gray-600">{report.user.email} · {report.accounts.length} accounts</p>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 text-right">
+          {report.period.start} to {report.period.end}
+          <br />
+          Generated {generatedAt.toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}
+        </p>
+      </div>
+
+      {/* KPIs */}
+      <div className="grid grid-cols-4 gap-3">
+        {kpis.map(kpi => (
+          <div key={kpi.label} className="border border-gray-200 rounded-lg p-3 break-inside-avoid">
+            <p className="text-xs text-gray-500">{kpi.label}</p>
+            <p className="text-lg font-semibold text-gray-900">{kpi.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-3 gap-4 break-inside-avoid">
+        <div className="col-span-2">
+          <TimeSeriesChart data={report.daily} title="Daily Performance" />
+        </div>
+        <FunnelChart totals={sumSalesTotals(report.accounts)} />
+      </div>
+
+      {/* Incentive Status */}
+      <div className="break-inside-avoid">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Incentive Status</h3>
+        {report.incentives.length === 0 ? (
+          <p className="text-sm text-gray-500">No incentive calculated for this month</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase">
+                <th className="py-2 text-left font-medium">User</th>
+                <th className="py-2 text-right font-medium">Revenue</th>
+                <th className="py-2 text-right font-medium">Rate</th>
+                <th className="py-2 text-right font-medium">Qualifying</th>
+                <th className="py-2 text-left font-medium pl-4">Status</th>
+                <th className="py-2 text-right font-medium">Incentive</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.incentives.map(calc => (
+                <tr key={calc.user_id} className="break-inside-avoid">
+                  <td className="py-2 text-gray-900">{calc.user_name}</td>
+                  <td className="py-2 text-right text-gray-900">{formatCurrency(calc.total_revenue)}</td>
+                  <td className="py-2 text-right text-gray-600">{calc.commission_rate.toFixed(2)}%</td>
+                  <td className="py-2 text-right text-gray-600">{formatCurrency(calc.qualifying_revenue)}</td>
+                  <td className="py-2 pl-4 text-gray-600">
+                    {!calc.applicable_rule
+                      ? 'No matching rule'
+                      : calc.current_tier
+                        ? `Tier ${calc.current_tier.incentive_rate}% reached`
+                        : 'Below base threshold'}
+                    {calc.next_tier && (
+                      <span className="text-xs text-gray-500"> · {formatCurrency(calc.remaining_to_next_tier)} to next tier</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(calc.incentive_amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Accounts */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Accounts</h3>
+        {report.accounts.length === 0 ? (
+          <p className="text-sm text-gray-500">No sales data this month</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-xs text-gray-500 uppercase">
+                <th className="py-2 text-left font-medium">Account</th>
+                <th className="py-2 text-left font-medium">Category</th>
+                <th className="py-2 text-right font-medium">Days</th>
+                <th className="py-2 text-right font-medium">Clicks</th>
+                <th className="py-2 text-right font-medium">Orders</th>
+                <th className="py-2 text-right font-medium">Revenue</th>
+                <th className="py-2 text-right font-medium">Commission</th>
+                <th className="py-2 text-right font-medium">Rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {report.accounts.map(row => {
+                const account = getAccount(row.account_id);
+                return (
+                  <tr key={row.account_id} className="break-inside-avoid">
+                    <td className="py-2">
+                      <div className="text-gray-900">{account?.username || 'Unknown Account'}</div>
+                      <div className="text-xs text-gray-500">{account?.account_code}</div>
+                    </td>
+                    <td className="py-2 text-gray-600">{getCategoryName(account?.category_id)}</td>
+                    <td className="py-2 text-right text-gray-600">{row.row_count}</td>
+                    <td className="py-2 text-right text-gray-900">{row.clicks.toLocaleString()}</td>
+                    <td className="py-2 text-right text-gray-900">{row.orders.toLocaleString()}</td>
+                    <td className="py-2 text-right text-gray-900">{formatCurrency(row.total_purchases)}</td>
+                    <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(row.gross_commission)}</td>
+                    <td className="py-2 text-right text-gray-600">
+                      {row.total_purchases > 0 ? ((row.gross_commission / row.total_purchases) * 100).toFixed(2) : '0.00'}%
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default MonthlyReportPage;
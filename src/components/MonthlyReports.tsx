@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, FileText, Printer } from 'lucide-react';
+import {
+  Account,
+  AccountAssignment,
+  AccountPeriodTotals,
+  AccountSalesTotals,
+  AssignmentSalesTotals,
+  Category,
+  DailySalesTotals,
+  IncentiveRule,
+  Squad,
+  User,
+} from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useQueryParam } from '../hooks/useRouter';
+import { calculateIncentives, getCurrentMonth, getMonthPeriod } from '../lib/incentiveEngine';
+import { withPeriodAccounts } from '../lib/accountAssignments';
+import { getVisibleTeam, hasCapability } from '../lib/permissions';
+import { buildStudioReport, buildUserReport, MonthlyReport, STUDIO_REPORT_KEY } from '../lib/monthlyReport';
+import { navigate } from '../lib/router';
+import { getTabPath } from '../lib/routes';
+import MonthlyReportPage from './MonthlyReportPage';
+
+interface MonthlyReportsProps {
+  accounts: Account[];
+  categories: Category[];
+  salesDataVersion: number;
+  incentiveRules: IncentiveRule[];
+  currentUser: User;
+}
+
+// Every user's report after the studio report, in one document
+const ALL_REPORTS_KEY = 'all';
+
+// Monthly reports for printing or saving as PDF from the browser's print dialog
+const MonthlyReports: React.FC<MonthlyReportsProps> = ({
+  accounts,
+  categories,
+  salesDataVersion,
+  incentiveRules,
+  currentUser,
+}) => {
+  const { fetchUsers, fetchSquads, fetchAccountTotals, fetchDailyTotals, fetchAccountPeriodTotals, fetchAssignmentTotals, fetchAccountAssignments } = useSupabase();
+  const canViewStudio = hasCapability(currentUser, 'accounts.view_all');
+  const canViewTeam = hasCapability(currentUser, 'incentives.view_team');
+  const canGenerateAll = currentUser.role === 'superadmin';
+
+  const [month, setMonth] = useQueryParam('month', getCurrentMonth());
+  const [selectedReport, setSelectedReport] = useQueryParam('report', canViewStudio ? STUDIO_REPORT_KEY : currentUser.id);
+  const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [squads, setSquads] = useState<Squad[]>([]);
+  const [accountTotals, setAccountTotals] = useState<AccountSalesTotals[]>([]);
+  const [studioDaily, setStudioDaily] = useState<DailySalesTotals[]>([]);
+  const [dailyRows, setDailyRows] = useState<AccountPeriodTotals[]>([]);
+  const [assignmentTotals, setAssignmentTotals] = useState<AssignmentSalesTotals[]>([]);
+  const [assignments, setAssignments] = useState<AccountAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [generatedAt, setGeneratedAt] = useState(new Date());
+
+  const period = useMemo(() => getMonthPeriod(month), [month]);
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      if (canViewTeam) {
+        const [users, squadsData] = await Promise.all([fetchUsers(), fetchSquads()]);
+        setAllUsers(users ?? []);
+        setSquads(squadsData);
+      }
+    };
+
+    loadUsers();
+  }, [canViewTeam, fetchUsers, fetchSquads]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const loadReportData = async () => {
+      setIsLoading(true);
+      const periodQuery = { startDate: period.start, endDate: period.end };
+      // The studio's days are summed in the database; user reports sum their accounts' days,
+      // which are read page by page
+      const [totals, studioDays, daily, credited, periodAssignments] = await Promise.all([
+        canViewStudio ? fetchAccountTotals(periodQuery) : Promise.resolve([]),
+        canViewStudio ? fetchDailyTotals(periodQuery) : Promise.resolve([]),
+        fetchAccountPeriodTotals(periodQuery, 'day'),
+        fetchAssignmentTotals(periodQuery),
+        fetchAccountAssignments(periodQuery),
+      ]);
+      if (isCurrent) {
+        setAccountTotals(totals);
+        setStudioDaily(studioDays);
+        setDailyRows(daily);
+        setAssignmentTotals(credited ?? []);
+        setAssignments(periodAssignments ?? []);
+        setGeneratedAt(new Date());
+        setIsLoading(false);
+      }
+    };
+
+    loadReportData();
+    return () => {
+      isCurrent = false;
+    };
+  }, [period, canViewStudio, salesDataVersion, fetchAccountTotals, fetchDailyTotals, fetchAccountPeriodTotals, fetchAssignmentTotals, fetchAccountAssignments]);
+
+  // Everyone in the viewer's team who managed accounts this month, with those accounts
+  const reportUsers = useMemo(() => {
+    const team = canViewTeam ? getVisibleTeam(allUsers, currentUser, squads) : [currentUser];
+    return withPeriodAccounts(team, assignments, period)
+      .filter(user => user.managed_accounts.length > 0)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [allUsers, currentUser, squads, canViewTeam, assignments, period]);
+
+  const incentives = useMemo(() => {
+    const activeRules = incentiveRules.filter(rule => rule.is_active);
+    if (activeRules.length === 0) return [];
+
+    return calculateIncentives({
+      users: reportUsers.filter(user => hasCapability(user, 'incentives.earn')),
+      accounts,
+      salesData: assignmentTotals,
+      rules: activeRules,
+      period,
+    });
+  }, [reportUsers, accounts, assignmentTotals, incentiveRules, period]);
+
+  const reports = useMemo<MonthlyReport[]>(() => {
+    const studioReport = () => buildStudioReport(accountTotals, studioDaily, incentives, period);
+    const userReport = (user: User) => buildUserReport(user, assignmentTotals, dailyRows, incentives, period);
+
+    if (selectedReport === STUDIO_REPORT_KEY) return canViewStudio ? [studioReport()] : [];
+    if (selectedReport === ALL_REPORTS_KEY) {
+      return canGenerateAll ? [studioReport(), ...reportUsers.map(userReport)] : [];
+    }
+    const user = reportUsers.find(candidate => candidate.id === selectedReport);
+    return user ? [userReport(user)] : [];
+  }, [selectedReport, accountTotals, studioDaily, dailyRows, assignmentTotals, incentives, reportUsers, period, canViewStudio, canGenerateAll]);
+
+  // The title becomes the suggested file name when saving as PDF
+  const handlePrint = () => {
+    const previousTitle = document.title;
+    const name = reports.length === 1 ? reports[0].title : 'All Users';
+    document.title = `Monthly Report ${month} - ${name}`;
+    window.print();
+    document.title = previousTitle;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between print:hidden">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => navigate(getTabPath('reports'))}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Monthly Reports</h1>
+            <p className="text-gray-600">KPIs, accounts and incentive status per month, ready to save as PDF</p>
+          </div>
+        </div>
+        <button
+          onClick={handlePrint}
+          disabled={isLoading || reports.length === 0}
+          className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+        >
+          <Printer className="w-4 h-4" />
+          <span>{reports.length > 1 ? `Download ${reports.length} reports as PDF` : 'Download PDF'}</span>
+        </button>
+      </div>
+
+      {/* Options */}
+      <div className="bg-white rounded-xl border border-gray-100 p-6 print:hidden">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Month:</label>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Report:</label>
+            <select
+              value={selectedReport}
+              onChange={(e) => setSelectedReport(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              {canViewStudio && <option value={STUDIO_REPORT_KEY}>Whole studio</option>}
+              {canGenerateAll && <option value={ALL_REPORTS_KEY}>Studio and all users ({reportUsers.length})</option>}
+              {reportUsers.map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500">
+            Choose "Save as PDF" as the printer. Each report starts on a new page.
+          </p>
+        </div>
+      </div>
+
+      {/* Reports */}
+      {isLoading ? (
+        <div className="bg-white rounded-xl border border-gray-100 p-8 text-center text-gray-500 text-sm print:hidden">
+          Loading report data...
+        </div>
+      ) : reports.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-100 p-8 text-center print:hidden">
+          <FileText className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">Nothing to report for this selection</p>
+        </div>
+      ) : (
+        <div className="space-y-6 print:space-y-0">
+          {reports.map(report => (
+            <MonthlyReportPage
+              key={report.key}
+              report={report}
+              accounts={accounts}
+              categories={categories}
+              generatedAt={generatedAt}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MonthlyReports;
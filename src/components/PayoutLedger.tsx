@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Lock, Unlock, CheckCircle, Wallet, RefreshCw, BookOpen, AlertCircle } from 'lucide-react';
+import { IncentiveCalculation, PayoutEntry, PayoutPeriod, PayoutStatus, User } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { calculatePayoutAdjustments, summarizeLedger } from '../lib/payoutLedger';
+import { hasCapability } from '../lib/permissions';
+
+interface PayoutLedgerProps {
+  month: string;
+  calculations: IncentiveCalculation[];
+  isCalculating: boolean; // True while the month's totals load; `calculations` may still be empty or partial
+  loadFailed: boolean; // The totals, assignments or users did not load, so `calculations` can't be trusted
+  onRetry: () => void;
+  currentUser: User;
+  onSelectMonth: (month: string) => void;
+}
+
+const statusStyles: Record<PayoutStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+};
+
+const statusLabels: Record<PayoutStatus, string> = {
+  pending: 'Menunggu',
+  approved: 'Disetujui',
+  paid: 'Dibayar',
+};
+
+// A user's payout is only as far along as their least advanced entry
+const getOverallStatus = (entries: PayoutEntry[]): PayoutStatus => {
+  if (entries.some(entry => entry.status === 'pending')) return 'pending';
+  if (entries.some(entry => entry.status === 'approved')) return 'approved';
+  return 'paid';
+};
+
+const PayoutLedger: React.FC<PayoutLedgerProps> = ({ month, calculations, isCalculating, loadFailed, onRetry, currentUser, onSelectMonth }) => {
+  const [periods, setPeriods] = useState<PayoutPeriod[]>([]);
+  const [entries, setEntries] = useState<PayoutEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const {
+    loading,
+    fetchPayoutPeriods,
+    fetchPayoutEntries,
+    closePayoutPeriod,
+    addPayoutAdjustments,
+    updatePayoutStatus,
+  } = useSupabase();
+
+  const canApprovePayouts = hasCapability(currentUser, 'payouts.approve');
+
+  // Load the whole ledger so the closed period list can show totals
+  useEffect(() => {
+    const loadLedger = async () => {
+      setIsLoading(true);
+      try {
+        const [periodsData, entriesData] = await Promise.all([
+          fetchPayoutPeriods(),
+          fetchPayoutEntries(),
+        ]);
+        setPeriods(periodsData);
+        setEntries(entriesData);
+      } catch (err) {
+        console.error('Error loading payout ledger:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLedger();
+  }, [fetchPayoutPeriods, fetchPayoutEntries]);
+
+  const period = periods.find(p => p.month === month && p.status === 'closed') || null;
+  const periodEntries = useMemo(
+    () => (period ? entries.filter(entry => entry.period_id === period.id) : []),
+    [entries, period]
+  );
+  const summaries = useMemo(() => summarizeLedger(periodEntries), [periodEntries]);
+  // Missing totals would look like every booked user lost their payout, so nothing is compared then
+  const canUseCalculations = !isCalculating && !loadFailed;
+  const pendingAdjustments = useMemo(
+    () => (period && canUseCalculations ? calculatePayoutAdjustments(period.id, periodEntries, calculations) : []),
+    [period, periodEntries, calculations, canUseCalculations]
+  );
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const handleClosePeriod = async () => {
+    if (!confirm(`Tutup periode ${month}? Insentif ${calculations.length} user akan dikunci dan perubahan data setelahnya dicatat sebagai adjustment.`)) {
+      return;
+    }
+
+    const result = await closePayoutPeriod(month, calculations);
+    if (result) {
+      setPeriods(prev => [result.period, ...prev]);
+      setEntries(prev => [...prev, ...result.entries]);
+    }
+  };
+
+  const handleBookAdjustments = async () => {
+    const added = await addPayoutAdjustments(pendingAdjustments);
+    if (added.length > 0) {
+      setEntries(prev => [...prev, ...added]);
+    }
+  };
+
+  const handleUpdateStatus = async (userEntries: PayoutEntry[], status: PayoutStatus) => {
+    const ids = userEntries.filter(entry => entry.status !== 'paid').map(entry => entry.id);
+    if (ids.length === 0) return;
+
+    const updated = await updatePayoutStatus(ids, status, currentUser.id);
+    if (updated.length > 0) {
+      setEntries(prev => prev.map(entry => updated.find(u => u.id === entry.id) || entry));
+    }
+  };
+
+  const closedPeriods = periods.filter(p => p.status === 'closed');
+  const getLiveAmount = (userId: string) =>
+    calculations.find(calc => calc.user_id === userId)?.incentive_amount || 0;
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-gray-200 rounded mb-4 w-1/4"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-green-100 to-emerald-100 rounded-lg flex items-center justify-center">
+              <BookOpen className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Payout Ledger</h3>
+              <p className="text-sm text-gray-600">
+                {period
+                  ? `Periode ${month} ditutup ${period.closed_at ? new Date(period.closed_at).toLocaleDateString('id-ID') : ''}`
+                  : `Periode ${month} belum ditutup, angka di atas masih estimasi live`}
+              </p>
+            </div>
+          </div>
+
+          {canApprovePayouts && !period && (
+            <button
+              onClick={handleClosePeriod}
+              disabled={loading || !canUseCalculations || calculations.length === 0}
+              className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              <Lock className="w-4 h-4" />
+              <span>Tutup Periode</span>
+            </button>
+          )}
+          {canApprovePayouts && period && pendingAdjustments.length > 0 && (
+            <button
+              onClick={handleBookAdjustments}
+              disabled={loading || !canUseCalculations}
+              className="flex items-center space-x-2 bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Catat {pendingAdjustments.length} Adjustment</span>
+            </button>
+          )}
+        </div>
+
+        {loadFailed && (
+          <div className="flex items-start space-x-3 border border-red-200 bg-red-50 rounded-lg p-3 mt-4">
+            <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+            <div className="text-sm">
+              <p className="text-red-900 font-medium">Data insentif {month} gagal dimuat</p>
+              <p className="text-red-700">Periode tidak bisa ditutup dan adjustment tidak dicatat sampai datanya berhasil dimuat.</p>
+              <button
+                onClick={onRetry}
+                className="mt-2 text-red-700 font-medium underline hover:text-red-900"
+              >
+                Coba lagi
+              </button>
+            </div>
+          </div>
+        )}
+
+        {closedPeriods.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {closedPeriods.map(p => {
+              const periodSummaries = summarizeLedger(entries.filter(entry => entry.period_id === p.id));
+              const total = periodSummaries.reduce((sum, summary) => sum + summary.booked_amount, 0);
+              return (
+                <button
+                  key={p.id}
+                  onClick={() => onSelectMonth(p.month)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+                    p.month === month
+                      ? 'bg-purple-50 text-purple-700 border-purple-200'
+                      : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {p.month} · {formatCurrency(total)}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {period ? (
+        summaries.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Snapshot</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adjustment</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total Dibukukan</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Estimasi Live</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  {canApprovePayouts && (
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summaries.map(summary => {
+                  const status = getOverallStatus(summary.entries);
+                  const liveAmount = getLiveAmount(summary.user_id);
+                  const drift = Math.round(liveAmount - summary.booked_amount);
+                  return (
+                    <tr key={summary.user_id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{summary.user_name}</td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-900">{formatCurrency(summary.snapshot_amount)}</td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-600">
+                        {summary.adjustment_amount !== 0 ? formatCurrency(summary.adjustment_amount) : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-right font-semibold text-gray-900">{formatCurrency(summary.booked_amount)}</td>
+                      <td className="px-6 py-4 text-sm text-right">
+                        <span className="text-gray-900">{formatCurrency(liveAmount)}</span>
+                        {drift !== 0 && (
+                          <span className="block text-xs text-orange-600">
+                            selisih {drift > 0 ? '+' : ''}{formatCurrency(drift)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+                          {statusLabels[status]}
+                        </span>
+                      </td>
+                      {canApprovePayouts && (
+                        <td className="px-6 py-4 text-right">
+                          <div className="flex justify-end space-x-2">
+                            {status === 'pending' && (
+                              <button
+                                onClick={() => handleUpdateStatus(summary.entries, 'approved')}
+                                disabled={loading}
+                                className="flex items-center space-x-1 px-3 py-1.5 text-xs text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                              >
+                                <CheckCircle className="w-3 h-3" />
+                                <span>Setujui</span>
+                              </button>
+                            )}
+                            {status === 'approved' && (
+                              <button
+                                onClick={() => handleUpdateStatus(summary.entries, 'paid')}
+                                disabled={loading}
+                                className="flex items-center space-x-1 px-3 py-1.5 text-xs text-green-700 bg-green-50 rounded-lg hover:bg-green-100 transition-colors"
+                              >
+                                <Wallet className="w-3 h-3" />
+                                <span>Tandai Dibayar</span>
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-sm text-gray-600">
+            Tidak ada entri payout untuk periode ini.
+          </div>
+        )
+      ) : (
+        <div className="flex items-center space-x-3 p-6 text-sm text-gray-600">
+          <Unlock className="w-5 h-5 text-gray-400" />
+          <span>
+            {canApprovePayouts
+              ? 'Tutup periode untuk mengunci insentif bulan ini ke ledger. Upload data yang terlambat akan dicatat sebagai adjustment.'
+              : 'Periode ini belum ditutup oleh admin.'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayoutLedger;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { User, Mail, Building, Calendar, Save, Edit2, Lock, Eye, EyeOff, Phone, MapPin, FileText } from 'lucide-react';
 import { useSupabase } from '../hooks/useSupabase';
 import { User as UserType } from '../types';
+import { roleLabels } from '../lib/permissions';
 
 interface ProfileProps {
   currentUser: UserType;
@@ -25,7 +26,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUserUpdate }) => {
     name: currentUser.name,
     email: currentUser.email,
     company: currentUser.company || 'Kimo Studio',
-    role: currentUser.role === 'superadmin' ? 'Super Administrator' : 'User',
+    role: roleLabels[currentUser.role],
     joinDate: new Date(currentUser.created_at).toISOString().split('T')[0],
     phone: currentUser.phone || '',
     address: currentUser.address || '',
@@ -350,7 +351,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUserUpdate }) => {
                       name: currentUser.name,
                       email: currentUser.email,
                       company: currentUser.company || 'Kimo Studio',
-                      role: currentUser.role === 'superadmin' ? 'Super Administrator' : 'User',
+                      role: roleLabels[currentUser.role],
                       joinDate: new Date(currentUser.created_at).toISOString().split('T')[0],
                       phone: currentUser.phone || '',
                       address: currentUser.address || '',
@@ -1,83 +1,110 @@
-import React, { useState, useMemo } from 'react';
-import { BarChart3, Download, Calendar, Filter } from 'lucide-react';
-import { Account, SalesData, Category } from '../types';
-
-interface DateFilter {
-  startDate: string;
-  endDate: string;
-  preset: string;
-}
+import React, { useState, useEffect, useMemo } from 'react';
+import { BarChart3, Download, Calendar, Filter, ChevronLeft, ChevronRight, Users, Printer } from 'lucide-react';
+import { Account, SalesData, SalesQuery, DailySalesTotals, Category, DateFilter, User } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useQueryParam } from '../hooks/useRouter';
+import { useSquadFilter } from '../hooks/useSquadFilter';
+import { getDateFilterRange, getScopedAccountIds, sumSalesTotals } from '../lib/salesQuery';
+import { hasCapability, seesOtherAccounts } from '../lib/permissions';
+import { navigate, pickQueryParams } from '../lib/router';
+import { DATE_FILTER_PARAMS, getAccountPath, getTabPath } from '../lib/routes';
+import { getReportMetrics } from '../lib/monthlyReport';
+import SquadRollupTable from './SquadRollupTable';
+import TimeSeriesChart from './TimeSeriesChart';
+import SalesBreakdownChart from './SalesBreakdownChart';
+import FunnelChart from './FunnelChart';
 
 interface ReportsProps {
   accounts: Account[];
-  salesData: SalesData[];
+  salesDataVersion: number;
   categories: Category[];
   dateFilter: DateFilter;
   onDateFilterChange: (filter: DateFilter) => void;
-  currentUser?: {
-    id: string;
-    name: string;
-    email: string;
-    role: 'user' | 'superadmin';
-    managed_accounts: string[];
-  };
+  currentUser?: User;
 }
 
-const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, dateFilter, onDateFilterChange, currentUser }) => {
-  // Filter accounts and sales data based on user role
+const REPORT_PAGE_SIZE = 50;
+
+const Reports: React.FC<ReportsProps> = ({ accounts, salesDataVersion, categories, dateFilter, onDateFilterChange, currentUser }) => {
+  const {
+    isAvailable: canFilterSquads,
+    squads,
+    selectedSquad,
+    setSelectedSquad,
+    squadAccountIds,
+    rollups: squadRollups,
+  } = useSquadFilter(currentUser, getDateFilterRange(dateFilter), salesDataVersion);
+
+  // Filter accounts and sales data based on user permissions
   const filteredAccountsByRole = React.useMemo(() => {
     if (!currentUser) return [];
     
-    if (currentUser.role === 'superadmin') {
-      return accounts;
+    if (seesOtherAccounts(currentUser)) {
+      return squadAccountIds ? accounts.filter(account => squadAccountIds.includes(account.id)) : accounts;
     } else {
       // Regular users can only see accounts they manage
       return accounts.filter(account => 
         currentUser.managed_accounts.includes(account.id)
       );
     }
-  }, [accounts, currentUser]);
+  }, [accounts, currentUser, squadAccountIds]);
 
-  const filteredSalesDataByUser = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return salesData;
-    } else {
-      // Regular users can only see sales data for accounts they manage
-      return salesData.filter(data => 
-        currentUser.managed_accounts.includes(data.account_id)
-      );
-    }
-  }, [salesData, currentUser]);
+  const { fetchSalesData, fetchSalesDataPage, fetchDailyTotals } = useSupabase();
+  const [selectedAccount, setSelectedAccount] = useQueryParam('account', 'all');
+  const [dailyTotals, setDailyTotals] = useState<DailySalesTotals[]>([]);
+  const [pageData, setPageData] = useState<SalesData[]>([]);
+  const [totalRows, setTotalRows] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
 
-  const [selectedAccount, setSelectedAccount] = useState('all');
-  
-  const filteredData = useMemo(() => {
-    let filtered = filteredSalesDataByUser;
-    
-    // Filter by account
-    if (selectedAccount !== 'all') {
-      filtered = filtered.filter(data => data.account_id === selectedAccount);
-    }
-    
-    // Filter by date range
-    if (dateFilter.preset === 'custom' && dateFilter.startDate && dateFilter.endDate) {
-      const startDate = new Date(dateFilter.startDate);
-      const endDate = new Date(dateFilter.endDate);
-      filtered = filtered.filter(data => {
-        const dataDate = new Date(data.date);
-        return dataDate >= startDate && dataDate <= endDate;
-      });
-    } else if (dateFilter.preset !== 'all') {
-      const daysAgo = parseInt(dateFilter.preset);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-      filtered = filtered.filter(data => new Date(data.date) >= cutoffDate);
-    }
-    
-    return filtered;
-  }, [filteredSalesDataByUser, selectedAccount, dateFilter]);
+  const salesQuery = useMemo<SalesQuery>(() => ({
+    ...getDateFilterRange(dateFilter),
+    accountIds: selectedAccount !== 'all' ? [selectedAccount] : squadAccountIds ?? getScopedAccountIds(currentUser),
+  }), [dateFilter, selectedAccount, squadAccountIds, currentUser]);
+
+  // A chosen account may not belong to the next squad, so picking a squad starts from all of its accounts
+  const handleSquadChange = (squadId: string) => {
+    setSelectedSquad(squadId);
+    setSelectedAccount('all');
+  };
+
+  // Start from the first page whenever the filters change
+  useEffect(() => {
+    setPage(0);
+  }, [salesQuery]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const loadTotals = async () => {
+      const totals = await fetchDailyTotals(salesQuery);
+      if (isCurrent) {
+        setDailyTotals(totals);
+      }
+    };
+
+    loadTotals();
+    return () => {
+      isCurrent = false;
+    };
+  }, [salesQuery, salesDataVersion, fetchDailyTotals]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const loadPage = async () => {
+      const result = await fetchSalesDataPage(salesQuery, page, REPORT_PAGE_SIZE);
+      if (isCurrent) {
+        setPageData(result.data);
+        setTotalRows(result.count);
+      }
+    };
+
+    loadPage();
+    return () => {
+      isCurrent = false;
+    };
+  }, [salesQuery, page, salesDataVersion, fetchSalesDataPage]);
+
+  const totalPages = Math.max(Math.ceil(totalRows / REPORT_PAGE_SIZE), 1);
 
   const handleDateFilterChange = (field: string, value: string) => {
     const newFilter = { ...dateFilter, [field]: value };
@@ -90,25 +117,9 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
     
     onDateFilterChange(newFilter);
   };
-  const reportMetrics = useMemo(() => {
-    const totalCommission = filteredData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const totalRevenue = filteredData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalOrders = filteredData.reduce((sum, data) => sum + data.orders, 0);
-    const totalClicks = filteredData.reduce((sum, data) => sum + data.clicks, 0);
-    const totalProductsSold = filteredData.reduce((sum, data) => sum + data.products_sold, 0);
-    const totalNewBuyers = filteredData.reduce((sum, data) => sum + data.new_buyers, 0);
-    
-    return {
-      totalCommission,
-      totalRevenue,
-      totalOrders,
-      totalClicks,
-      totalProductsSold,
-      totalNewBuyers,
-      avgCommissionRate: totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0,
-      conversionRate: totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0,
-    };
-  }, [filteredData]);
+  const rangeTotals = useMemo(() => sumSalesTotals(dailyTotals), [dailyTotals]);
+
+  const reportMetrics = useMemo(() => getReportMetrics(rangeTotals), [rangeTotals]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -118,7 +129,13 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
     }).format(amount);
   };
 
-  const exportToCSV = () => {
+  const exportToCSV = async () => {
+    setIsExporting(true);
+    // The table only holds one page, so the export reads the whole range
+    const exportData = await fetchSalesData(salesQuery);
+    setIsExporting(false);
+    if (!exportData) return;
+
     const headers = [
       'Date',
       'Account',
@@ -130,7 +147,7 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
       'New Buyers'
     ];
 
-    const csvData = filteredData.map(data => {
+    const csvData = exportData.map(data => {
       const account = accounts.find(acc => acc.id === data.account_id);
       return [
         data.date,
@@ -170,18 +187,28 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
           <p className="text-gray-600">
-            {currentUser?.role === 'superadmin' 
+            {hasCapability(currentUser, 'accounts.view_all')
               ? 'Detailed sales and commission reports for all accounts'
               : `Detailed sales and commission reports for your ${filteredAccountsByRole.length} accounts`}
           </p>
         </div>
-        <button
-          onClick={exportToCSV}
-          className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors"
-        >
-          <Download className="w-4 h-4" />
-          <span>Export CSV</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => navigate(getTabPath('monthly-report'))}
+            className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Printer className="w-4 h-4" />
+            <span>Monthly PDF</span>
+          </button>
+          <button
+            onClick={exportToCSV}
+            disabled={isExporting || totalRows === 0}
+            className="flex items-center space-x-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>{isExporting ? 'Exporting...' : 'Export CSV'}</span>
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -192,6 +219,23 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
             <span className="text-sm font-medium text-gray-700">Filters:</span>
           </div>
           
+          {canFilterSquads && squads.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Users className="w-4 h-4 text-gray-400" />
+              <label className="text-sm text-gray-600">Squad:</label>
+              <select
+                value={selectedSquad}
+                onChange={(e) => handleSquadChange(e.target.value)}
+                className="px-3 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="all">All Squads</option>
+                {squadRollups.map(rollup => (
+                  <option key={rollup.squad_id} value={rollup.squad_id}>{rollup.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="flex items-center space-x-2">
             <label className="text-sm text-gray-600">Account:</label>
             <select
@@ -206,6 +250,14 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
                 </option>
               ))}
             </select>
+            {selectedAccount !== 'all' && (
+              <button
+                onClick={() => navigate(`${getAccountPath(selectedAccount)}${pickQueryParams(window.location.search, DATE_FILTER_PARAMS)}`)}
+                className="text-sm text-purple-600 hover:text-purple-700"
+              >
+                Account details
+              </button>
+            )}
           </div>
           
           <div className="flex items-center space-x-2">
@@ -276,6 +328,24 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
         </div>
       </div>
 
+      <TimeSeriesChart data={dailyTotals} title="Daily Trend" />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <SalesBreakdownChart
+            accounts={filteredAccountsByRole}
+            categories={categories}
+            query={salesQuery}
+            salesDataVersion={salesDataVersion}
+            defaultGroupBy="account"
+            onSelectAccount={setSelectedAccount}
+          />
+        </div>
+        <FunnelChart totals={rangeTotals} />
+      </div>
+
+      <SquadRollupTable rollups={squadRollups} selectedSquad={selectedSquad} onSelectSquad={handleSquadChange} />
+
       {/* Data Table */}
       <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
         <div className="p-6 border-b border-gray-100">
@@ -296,44 +366,41 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredData
-                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-                .slice(0, 50)
-                .map((data, index) => {
-                  const account = filteredAccountsByRole.find(acc => acc.id === data.account_id);
-                  const convRate = data.clicks > 0 ? (data.orders / data.clicks) * 100 : 0;
-                  
-                  return (
-                    <tr key={`${data.account_id}-${data.date}-${index}`} className="hover:bg-gray-50">
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {new Date(data.date).toLocaleDateString('id-ID')}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">{account?.username}</div>
-                        <div className="text-sm text-gray-500">{account?.account_code}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {data.clicks.toLocaleString()}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {data.orders.toLocaleString()}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
-                        {formatCurrency(data.gross_commission)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {formatCurrency(data.total_purchases)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {convRate.toFixed(2)}%
-                      </td>
-                    </tr>
-                  );
-                })}
+              {pageData.map((data, index) => {
+                const account = filteredAccountsByRole.find(acc => acc.id === data.account_id);
+                const convRate = data.clicks > 0 ? (data.orders / data.clicks) * 100 : 0;
+                
+                return (
+                  <tr key={`${data.account_id}-${data.date}-${index}`} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(data.date).toLocaleDateString('id-ID')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{account?.username}</div>
+                      <div className="text-sm text-gray-500">{account?.account_code}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {data.clicks.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {data.orders.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
+                      {formatCurrency(data.gross_commission)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(data.total_purchases)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {convRate.toFixed(2)}%
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
           
-          {filteredData.length === 0 && (
+          {totalRows === 0 && (
             <div className="text-center py-12">
               <BarChart3 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No data found</h3>
@@ -341,6 +408,33 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
             </div>
           )}
         </div>
+
+        {totalRows > 0 && (
+          <div className="flex items-center justify-between px-6 py-4 border-t border-gray-100">
+            <p className="text-sm text-gray-600">
+              {(page * REPORT_PAGE_SIZE + 1).toLocaleString()}-{Math.min((page + 1) * REPORT_PAGE_SIZE, totalRows).toLocaleString()} of {totalRows.toLocaleString()} rows
+            </p>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(prev => Math.max(prev - 1, 0))}
+                disabled={page === 0}
+                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {page + 1} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(prev => Math.min(prev + 1, totalPages - 1))}
+                disabled={page >= totalPages - 1}
+                className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
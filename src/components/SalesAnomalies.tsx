@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Filter } from 'lucide-react';
+import { Account, AnomalyAcknowledgement, AnomalyRule, SalesData } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useQueryParam } from '../hooks/useRouter';
+import { getCurrentMonth, getMonthPeriod } from '../lib/incentiveEngine';
+import { anomalyRuleLabels, detectStoredAnomalies, findAcknowledgement, FlaggedRow, getBaselineStart, toAcknowledgement } from '../lib/anomalies';
+import { parseDateString } from '../lib/salesQuery';
+import { navigate } from '../lib/router';
+import { getAccountPath } from '../lib/routes';
+
+interface SalesAnomaliesProps {
+  accounts: Account[];
+  salesDataVersion: number;
+}
+
+type AnomalyStatus = 'open' | 'acknowledged' | 'all';
+
+const statusLabels: Record<AnomalyStatus, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  all: 'All',
+};
+
+// Stored sales rows that break the consistency rules or spike against the account's usual day
+const SalesAnomalies: React.FC<SalesAnomaliesProps> = ({ accounts, salesDataVersion }) => {
+  const { fetchSalesData, fetchAnomalyAcknowledgements, acknowledgeAnomalies } = useSupabase();
+  const [month, setMonth] = useQueryParam('month', getCurrentMonth());
+  const [status, setStatus] = useQueryParam('status', 'open');
+  const [rule, setRule] = useQueryParam('rule', 'all');
+  const [flaggedRows, setFlaggedRows] = useState<FlaggedRow<SalesData>[]>([]);
+  const [acknowledgements, setAcknowledgements] = useState<AnomalyAcknowledgement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Set when the sales rows or acknowledgements failed to load, so "No anomalies" isn't claimed
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+
+  const period = useMemo(() => getMonthPeriod(month), [month]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const loadAnomalies = async () => {
+      setIsLoading(true);
+      setLoadFailed(false);
+      const [salesRows, acknowledged] = await Promise.all([
+        fetchSalesData({ startDate: getBaselineStart(period.start), endDate: period.end }),
+        fetchAnomalyAcknowledgements({ startDate: period.start, endDate: period.end }),
+      ]);
+      if (isCurrent) {
+        setLoadFailed(salesRows === null || acknowledged === null);
+        setFlaggedRows(detectStoredAnomalies(salesRows ?? [], period));
+        setAcknowledgements(acknowledged ?? []);
+        setIsLoading(false);
+      }
+    };
+
+    loadAnomalies();
+    return () => {
+      isCurrent = false;
+    };
+  }, [period, salesDataVersion, loadAttempt, fetchSalesData, fetchAnomalyAcknowledgements]);
+
+  const rows = useMemo(() => flaggedRows
+    .map(flagged => ({
+      ...flagged,
+      account: accounts.find(account => account.id === flagged.row.account_id),
+      acknowledgement: findAcknowledgement(acknowledgements, flagged.row.account_id, flagged.row),
+    }))
+    .filter(row => status === 'all' || (status === 'open') === !row.acknowledgement)
+    .filter(row => rule === 'all' || row.issues.some(issue => issue.rule === rule))
+    .sort((a, b) => b.row.date.localeCompare(a.row.date)), [flaggedRows, accounts, acknowledgements, status, rule]);
+
+  const openCount = flaggedRows.filter(flagged =>
+    !findAcknowledgement(acknowledgements, flagged.row.account_id, flagged.row)
+  ).length;
+
+  const handleAcknowledge = async (flagged: FlaggedRow<SalesData>) => {
+    const note = prompt('Why are these values correct? (optional)');
+    if (note === null) return;
+
+    setAcknowledgingId(flagged.row.id);
+    await acknowledgeAnomalies([toAcknowledgement(flagged.row.account_id, flagged, note.trim() || null)]);
+    const acknowledged = await fetchAnomalyAcknowledgements({ startDate: period.start, endDate: period.end });
+    if (acknowledged) {
+      setAcknowledgements(acknowledged);
+    } else {
+      setLoadFailed(true);
+    }
+    setAcknowledgingId(null);
+  };
+
+  const formatDate = (date: string) => parseDateString(date).toLocaleDateString('id-ID');
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Sales Anomalies</h1>
+        <p className="text-gray-600">Uploaded days with impossible values or unusual spikes, and who confirmed them</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Filter className="w-5 h-5 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">Filters:</span>
+          </div>
+
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded text-sm"
+          />
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Status:</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              {(Object.keys(statusLabels) as AnomalyStatus[]).map(option => (
+                <option key={option} value={option}>{statusLabels[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Rule:</label>
+            <select
+              value={rule}
+              onChange={(e) => setRule(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="all">All</option>
+              {(Object.keys(anomalyRuleLabels) as AnomalyRule[]).map(option => (
+                <option key={option} value={option}>{anomalyRuleLabels[option]}</option>
+              ))}
+            </select>
+          </div>
+
+          {!loadFailed && (
+            <span className={`inline-flex items-center space-x-1 px-2.5 py-1 rounded-full text-xs font-medium ${
+              openCount > 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+            }`}>
+              {openCount > 0 ? <AlertTriangle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+              <span>{openCount > 0 ? `${openCount} open` : 'Nothing open'}</span>
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Anomalies */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500 text-sm">Checking sales data...</div>
+        ) : loadFailed ? (
+          <div className="p-6">
+            <div className="flex items-start space-x-3 border border-red-200 bg-red-50 rounded-lg p-3">
+              <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+              <div className="text-sm text-red-700">
+                <p className="font-medium text-red-900">Could not check this month's sales data</p>
+                <p>The sales rows or their acknowledgements failed to load, so anomalies can't be listed.</p>
+                <button
+                  onClick={() => setLoadAttempt(prev => prev + 1)}
+                  className="mt-2 text-red-700 font-medium underline hover:text-red-900"
+                >
+                  Try again
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 text-sm">No anomalies for this month</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issues</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map(row => (
+                  <tr key={row.row.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => navigate(getAccountPath(row.row.account_id))}
+                        className="text-sm font-medium text-gray-900 hover:text-purple-600"
+                      >
+                        {row.account?.username || 'Unknown Account'}
+                      </button>
+                      {row.account && <div className="text-xs text-gray-500">{row.account.account_code}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(row.row.date)}</td>
+                    <td className="px-6 py-4">
+                      <ul className="space-y-1 text-sm text-gray-700">
+                        {row.issues.map(issue => (
+                          <li key={issue.message}>
+                            <span className="font-medium text-gray-900">{anomalyRuleLabels[issue.rule]}</span> - {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {row.acknowledgement ? (
+                        <div>
+                          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                            Acknowledged
+                          </span>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {row.acknowledgement.acknowledged_by_name || 'Unknown user'} · {formatDateTime(row.acknowledgement.created_at)}
+                          </div>
+                          {row.acknowledgement.note && (
+                            <div className="text-xs text-gray-600 mt-1">{row.acknowledgement.note}</div>
+                          )}
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => handleAcknowledge(row)}
+                          disabled={acknowledgingId === row.row.id}
+                          className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                        >
+                          {acknowledgingId === row.row.id ? 'Saving...' : 'Acknowledge'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SalesAnomalies;
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Account, AccountPeriodTotals, Category, SalesQuery } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { ChartMetric, chartMetricLabels, getChartBucket, isCurrencyMetric, stackPeriodTotals } from '../lib/chartData';
+import StackedBarChart from './StackedBarChart';
+
+interface SalesBreakdownChartProps {
+  accounts: Account[];
+  categories: Category[];
+  query: SalesQuery;
+  salesDataVersion: number;
+  defaultGroupBy?: 'category' | 'account';
+  // Lets the account bars drill into a single account
+  onSelectAccount?: (accountId: string) => void;
+}
+
+const METRICS: ChartMetric[] = ['gross_commission', 'total_purchases', 'orders', 'clicks'];
+
+// Sales per day, week or month, stacked by category or account
+const SalesBreakdownChart: React.FC<SalesBreakdownChartProps> = ({
+  accounts,
+  categories,
+  query,
+  salesDataVersion,
+  defaultGroupBy = 'category',
+  onSelectAccount,
+}) => {
+  const { fetchAccountPeriodTotals } = useSupabase();
+  const [groupBy, setGroupBy] = useState(defaultGroupBy);
+  const [metric, setMetric] = useState<ChartMetric>('gross_commission');
+  const [rows, setRows] = useState<AccountPeriodTotals[]>([]);
+  const bucket = getChartBucket(query);
+
+  useEffect(() => {
+    let isCurrent = true;
+    const loadRows = async () => {
+      const totals = await fetchAccountPeriodTotals(query, bucket);
+      if (isCurrent) {
+        setRows(totals);
+      }
+    };
+
+    loadRows();
+    return () => {
+      isCurrent = false;
+    };
+  }, [query, bucket, salesDataVersion, fetchAccountPeriodTotals]);
+
+  const chartData = useMemo(() => {
+    const getGroup = (accountId: string) => {
+      const account = accounts.find(acc => acc.id === accountId);
+      if (groupBy === 'account') {
+        return { id: accountId, label: account?.username || 'Unknown Account' };
+      }
+      const category = categories.find(cat => cat.id === account?.category_id);
+      return category ? { id: category.id, label: category.name } : { id: 'uncategorized', label: 'Uncategorized' };
+    };
+    return stackPeriodTotals(rows, getGroup, metric);
+  }, [rows, accounts, categories, groupBy, metric]);
+
+  const formatValue = (value: number) => isCurrencyMetric(metric)
+    ? new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', maximumFractionDigits: 0 }).format(value)
+    : value.toLocaleString();
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          {chartMetricLabels[metric]} by {groupBy === 'account' ? 'Account' : 'Category'}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as ChartMetric)}
+            className="px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white"
+          >
+            {METRICS.map(option => (
+              <option key={option} value={option}>{chartMetricLabels[option]}</option>
+            ))}
+          </select>
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs">
+            {(['category', 'account'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setGroupBy(option)}
+                className={`px-3 py-1 ${groupBy === option ? 'bg-purple-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              >
+                {option === 'account' ? 'Account' : 'Category'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <StackedBarChart
+        data={chartData}
+        bucket={bucket}
+        formatValue={formatValue}
+        onSelectSeries={groupBy === 'account' ? onSelectAccount : undefined}
+      />
+      {groupBy === 'account' && onSelectAccount && (
+        <p className="text-xs text-gray-500 mt-2">Click an account's bar or name to open its report.</p>
+      )}
+    </div>
+  );
+};
+
+export default SalesBreakdownChart;
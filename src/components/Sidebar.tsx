@@ -9,9 +9,13 @@ import {
   FileText,
   Trophy,
   UserPlus,
-  Shield
+  Shield,
+  ScrollText,
+  AlertTriangle
 } from 'lucide-react';
 import { User } from '../types';
+import { AppTab, canAccessTab } from '../lib/routes';
+import { roleLabels } from '../lib/permissions';
 
 interface SidebarProps {
   activeTab: string;
@@ -20,23 +24,22 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }) => {
-  // Filter menu items based on user role
-  const allMenuItems = [
+  const allMenuItems: { id: AppTab; label: string; icon: typeof Home }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'accounts', label: 'Accounts', icon: Users },
     { id: 'upload', label: 'Upload Data', icon: Upload },
+    { id: 'anomalies', label: 'Anomalies', icon: AlertTriangle },
     { id: 'files', label: 'File Management', icon: FileText },
     { id: 'reports', label: 'Reports', icon: FileText },
-    { id: 'incentives', label: 'Incentive Rules', icon: BarChart3, adminOnly: true },
-    { id: 'incentive-game', label: 'Incentive Quest', icon: Trophy, userOnly: true },
-    { id: 'incentive-overview', label: 'Incentive Overview', icon: Trophy, adminOnly: true },
-    { id: 'team', label: 'Team', icon: UserPlus, adminOnly: true },
+    { id: 'incentives', label: 'Incentive Rules', icon: BarChart3 },
+    { id: 'incentive-game', label: 'Incentive Quest', icon: Trophy },
+    { id: 'incentive-overview', label: 'Incentive Overview', icon: Trophy },
+    { id: 'team', label: 'Team', icon: UserPlus },
+    { id: 'audit', label: 'Audit Log', icon: ScrollText },
   ];
   
-  const menuItems = allMenuItems.filter(item => 
-    (!item.adminOnly || currentUser.role === 'superadmin') &&
-    (!item.userOnly || currentUser.role === 'user')
-  );
+  // Filter menu items with the same role rules that guard the routes
+  const menuItems = allMenuItems.filter(item => canAccessTab(item.id, currentUser));
 
   const bottomItems = [
     { id: 'profile', label: 'Profile', icon: UserProfile },
@@ -44,7 +47,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }
   ];
 
   return (
-    <div className="w-64 bg-white shadow-sm border-r border-gray-100 h-screen flex flex-col">
+    <div className="w-64 bg-white shadow-sm border-r border-gray-100 h-screen flex flex-col print:hidden">
       <div className="p-6">
         <div className="flex items-center space-x-3">
           <div className="w-10 h-10 bg-gradient-to-br from-purple-600 to-blue-600 rounded-xl flex items-center justify-center">
@@ -57,7 +60,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }
           <div>
             <h1 className="text-xl font-bold text-gray-900">Kimo Studio</h1>
             <p className="text-xs text-gray-500">
-              {currentUser.role === 'superadmin' ? 'Super Admin' : 'User'}
+              {roleLabels[currentUser.role]}
             </p>
           </div>
         </div>
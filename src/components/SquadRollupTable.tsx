@@ -0,0 +1,67 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { SquadRollup } from '../lib/squads';
+
+interface SquadRollupTableProps {
+  rollups: SquadRollup[];
+  selectedSquad: string;
+  onSelectSquad: (squadId: string) => void;
+}
+
+const SquadRollupTable: React.FC<SquadRollupTableProps> = ({ rollups, selectedSquad, onSelectSquad }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  if (rollups.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Users className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Squads</h3>
+        </div>
+        <span className="text-sm text-gray-600">Sales credited to each squad's members in the range</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Squad</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Leader</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Members</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Accounts</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commission</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rollups.map(rollup => (
+              <tr
+                key={rollup.squad_id}
+                onClick={() => onSelectSquad(selectedSquad === rollup.squad_id ? 'all' : rollup.squad_id)}
+                className={`cursor-pointer ${selectedSquad === rollup.squad_id ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rollup.name}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{rollup.leader_name || '-'}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{rollup.member_count}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{rollup.account_count}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{rollup.orders.toLocaleString()}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">{formatCurrency(rollup.total_purchases)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600 text-right">{formatCurrency(rollup.gross_commission)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SquadRollupTable;
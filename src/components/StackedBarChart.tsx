@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { ChartBucket } from '../types';
+import {
+  formatCompactNumber,
+  formatPeriodLabel,
+  getSeriesColor,
+  OTHER_SERIES_COLOR,
+  OTHER_SERIES_ID,
+  StackedChartData,
+} from '../lib/chartData';
+
+interface StackedBarChartProps {
+  data: StackedChartData;
+  bucket: ChartBucket;
+  formatValue: (value: number) => string;
+  // Called with the series clicked in a bar or the legend; "Other" is not clickable
+  onSelectSeries?: (seriesId: string) => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const MAX_X_LABELS = 8;
+
+const StackedBarChart: React.FC<StackedBarChartProps> = ({ data, bucket, formatValue, onSelectSeries }) => {
+  const [hiddenSeries, setHiddenSeries] = useState<string[]>([]);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const getColor = (seriesId: string, index: number) =>
+    seriesId === OTHER_SERIES_ID ? OTHER_SERIES_COLOR : getSeriesColor(index);
+
+  const visibleSeries = data.series
+    .map((series, index) => ({ ...series, color: getColor(series.id, index) }))
+    .filter(series => !hiddenSeries.includes(series.id));
+
+  const periodTotals = visibleSeries.reduce<number[]>(
+    (sums, series) => sums.map((sum, index) => sum + series.values[index]),
+    data.periods.map(() => 0)
+  );
+  const maxTotal = Math.max(0, ...periodTotals);
+
+  const slotWidth = data.periods.length > 0 ? PLOT_WIDTH / data.periods.length : PLOT_WIDTH;
+  const barWidth = Math.max(Math.min(slotWidth * 0.7, 48), 2);
+  const getHeight = (value: number) => (maxTotal > 0 ? (value / maxTotal) * PLOT_HEIGHT : 0);
+  const labelEvery = Math.ceil(data.periods.length / MAX_X_LABELS);
+
+  const toggleSeries = (seriesId: string) => {
+    setHiddenSeries(prev => prev.includes(seriesId)
+      ? prev.filter(hidden => hidden !== seriesId)
+      : [...prev, seriesId]);
+  };
+
+  const canSelect = (seriesId: string) => !!onSelectSeries && seriesId !== OTHER_SERIES_ID;
+  const activeIndex = hoverIndex !== null && hoverIndex < data.periods.length ? hoverIndex : null;
+
+  if (data.periods.length === 0) {
+    return (
+      <div className="h-60 flex flex-col items-center justify-center text-gray-500">
+        <BarChart3 className="w-10 h-10 text-gray-300 mb-2" />
+        <p className="text-sm">No sales data in this period</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHoverIndex(null)}>
+          {[0, 0.5, 1].map(fraction => {
+            const y = PADDING.top + PLOT_HEIGHT - fraction * PLOT_HEIGHT;
+            return (
+              <g key={fraction}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="#f3f4f6" />
+                <text x={PADDING.left - 6} y={y + 4} textAnchor="end" fontSize="10" fill="#9ca3af">
+                  {formatCompactNumber(maxTotal * fraction)}
+                </text>
+              </g>
+            );
+          })}
+
+          {data.periods.map((period, periodIndex) => {
+            const x = PADDING.left + periodIndex * slotWidth + (slotWidth - barWidth) / 2;
+            let stackedHeight = 0;
+            return (
+              <g key={period} onMouseEnter={() => setHoverIndex(periodIndex)}>
+                {/* Catches the pointer over the whole slot, not only over the bar */}
+                <rect
+                  x={PADDING.left + periodIndex * slotWidth}
+                  y={PADDING.top}
+                  width={slotWidth}
+                  height={PLOT_HEIGHT}
+                  fill={activeIndex === periodIndex ? '#f9fafb' : 'transparent'}
+                />
+                {visibleSeries.map(series => {
+                  const height = getHeight(series.values[periodIndex]);
+                  stackedHeight += height;
+                  return height > 0 && (
+                    <rect
+                      key={series.id}
+                      x={x}
+                      y={PADDING.top + PLOT_HEIGHT - stackedHeight}
+                      width={barWidth}
+                      height={height}
+                      fill={series.color}
+                      className={canSelect(series.id) ? 'cursor-pointer hover:opacity-80' : undefined}
+                      onClick={canSelect(series.id) ? () => onSelectSeries?.(series.id) : undefined}
+                    />
+                  );
+                })}
+                {periodIndex % labelEvery === 0 && (
+                  <text x={x + barWidth / 2} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#9ca3af">
+                    {formatPeriodLabel(period, bucket)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        {activeIndex !== null && (
+          <div
+            className="absolute top-0 pointer-events-none bg-gray-800 text-white text-xs rounded-lg px-3 py-2 shadow-lg"
+            style={{
+              left: `${((PADDING.left + (activeIndex + 0.5) * slotWidth) / WIDTH) * 100}%`,
+              transform: activeIndex > data.periods.length / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)',
+            }}
+          >
+            <div className="font-medium mb-1">
+              {bucket === 'week' ? 'Week of ' : ''}{formatPeriodLabel(data.periods[activeIndex], bucket)}
+            </div>
+            {visibleSeries.filter(series => series.values[activeIndex] > 0).map(series => (
+              <div key={series.id} className="flex items-center justify-between space-x-3">
+                <span className="flex items-center space-x-1 text-gray-300">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: series.color }}></span>
+                  <span>{series.label}</span>
+                </span>
+                <span>{formatValue(series.values[activeIndex])}</span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between space-x-3 border-t border-gray-600 mt-1 pt-1">
+              <span className="text-gray-300">Total</span>
+              <span>{formatValue(periodTotals[activeIndex])}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Legend: toggles a series; the label drills into it where supported */}
+      <div className="flex flex-wrap gap-2 mt-3">
+        {data.series.map((series, index) => {
+          const isHidden = hiddenSeries.includes(series.id);
+          return (
+            <span
+              key={series.id}
+              className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs border ${
+                isHidden ? 'border-gray-100 text-gray-400' : 'border-gray-300 text-gray-800'
+              }`}
+            >
+              <button
+                onClick={() => toggleSeries(series.id)}
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: isHidden ? '#d1d5db' : getColor(series.id, index) }}
+                title={isHidden ? 'Show' : 'Hide'}
+              ></button>
+              {canSelect(series.id) ? (
+                <button onClick={() => onSelectSeries?.(series.id)} className="hover:underline">
+                  {series.label}
+                </button>
+              ) : (
+                <span>{series.label}</span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StackedBarChart;
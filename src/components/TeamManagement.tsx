@@ -12,16 +12,32 @@ import {
   Users,
   Mail,
   Calendar,
-  Eye,
-  EyeOff,
   UserCheck,
   UserX,
   AlertCircle,
   CheckCircle
 } from 'lucide-react';
-import { User as UserType, Account, Category } from '../types';
+import { User as UserType, Account, Capability, Category, RoleCapability, Squad, UserRole } from '../types';
 import { useSupabase } from '../hooks/useSupabase';
-import { supabase } from '../lib/supabase';
+import { toDateString } from '../lib/salesQuery';
+import {
+  capabilityDefinitions,
+  EDITABLE_ROLES,
+  getRoleCapabilities,
+  hasCapability,
+  roleLabels,
+} from '../lib/permissions';
+
+const ROLES: UserRole[] = ['user', 'team_lead', 'finance', 'superadmin'];
+
+const emptySquadForm = { name: '', description: '', leader_id: '' };
+
+const roleBadgeColors: Record<UserRole, string> = {
+  user: 'bg-blue-100 text-blue-800',
+  team_lead: 'bg-green-100 text-green-800',
+  finance: 'bg-orange-100 text-orange-800',
+  superadmin: 'bg-purple-100 text-purple-800',
+};
 
 interface TeamManagementProps {
   accounts: Account[];
@@ -35,31 +51,45 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
   const [editingUser, setEditingUser] = useState<UserType | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState('all');
-  const [showPassword, setShowPassword] = useState(false);
   const [accountSearchTerm, setAccountSearchTerm] = useState('');
   const [isCreatingUser, setIsCreatingUser] = useState(false);
   const [signupResult, setSignupResult] = useState<{ success: boolean; message: string } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [roleCapabilities, setRoleCapabilities] = useState<RoleCapability[]>([]);
+  const [updatingCapability, setUpdatingCapability] = useState<string | null>(null);
+  const [squads, setSquads] = useState<Squad[]>([]);
+  const [editingSquadId, setEditingSquadId] = useState<string | null>(null);
+  const [squadForm, setSquadForm] = useState(emptySquadForm);
+  const [isSavingSquad, setIsSavingSquad] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    password: '',
-    role: 'user' as 'user' | 'superadmin',
+    role: 'user' as UserRole,
+    squad_id: '',
     managed_accounts: [] as string[],
+    effective_from: toDateString(new Date()),
   });
 
   const {
     fetchUsers,
-    addUser,
+    inviteUser,
     updateUser,
     deleteUser,
+    fetchRoleCapabilities,
+    setRoleCapability,
+    fetchSquads,
+    addSquad,
+    updateSquad,
+    deleteSquad,
   } = useSupabase();
 
+  const canManageTeam = hasCapability(currentUser, 'team.manage');
+
   // Load users from Supabase
   useEffect(() => {
     const loadUsers = async () => {
-      if (currentUser.role !== 'superadmin') {
+      if (!canManageTeam) {
         setIsLoading(false);
         return;
       }
@@ -68,8 +98,14 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
       setLoadError(null);
       
       try {
-        const usersData = await fetchUsers();
-        setUsers(usersData);
+        const [usersData, capabilitiesData, squadsData] = await Promise.all([
+          fetchUsers(),
+          fetchRoleCapabilities(),
+          fetchSquads(),
+        ]);
+        setUsers(usersData ?? []);
+        setRoleCapabilities(capabilitiesData);
+        setSquads(squadsData);
       } catch (err) {
         console.error('Error loading users:', err);
         setLoadError(err instanceof Error ? err.message : 'Failed to load users');
@@ -79,10 +115,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     };
 
     loadUsers();
-  }, []);
+  }, [canManageTeam, fetchUsers, fetchRoleCapabilities, fetchSquads]);
 
-  // Check if current user is superadmin
-  if (currentUser.role !== 'superadmin') {
+  if (!canManageTeam) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="text-center">
@@ -199,6 +234,75 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     return category?.name || 'Belum Diatur';
   };
 
+  const roleHas = (role: UserRole, capability: Capability) =>
+    getRoleCapabilities(role, roleCapabilities).includes(capability);
+
+  // Only roles that earn incentives are assigned accounts; squads are led by roles that see them
+  const holdsAccounts = (role: UserRole) => roleHas(role, 'incentives.earn');
+  const squadLeaders = users.filter(user => roleHas(user.role, 'accounts.view_squad'));
+
+  const getUserName = (userId: string) => users.find(user => user.id === userId)?.name || 'Unknown User';
+  const getSquadName = (squadId: string) => squads.find(squad => squad.id === squadId)?.name || 'Unknown Squad';
+
+  const resetSquadForm = () => {
+    setEditingSquadId(null);
+    setSquadForm(emptySquadForm);
+  };
+
+  const handleEditSquad = (squad: Squad) => {
+    setEditingSquadId(squad.id);
+    setSquadForm({ name: squad.name, description: squad.description, leader_id: squad.leader_id || '' });
+  };
+
+  const handleSquadSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingSquad(true);
+    const squadData = {
+      name: squadForm.name.trim(),
+      description: squadForm.description.trim(),
+      leader_id: squadForm.leader_id || null,
+    };
+    const saved = editingSquadId
+      ? await updateSquad(editingSquadId, squadData)
+      : await addSquad(squadData);
+    if (saved) {
+      setSquads(prev => (editingSquadId
+        ? prev.map(squad => squad.id === saved.id ? saved : squad)
+        : [...prev, saved]
+      ).sort((a, b) => a.name.localeCompare(b.name)));
+      resetSquadForm();
+    } else {
+      alert('Failed to save squad. Squad names must be unique.');
+    }
+    setIsSavingSquad(false);
+  };
+
+  const handleDeleteSquad = async (squad: Squad) => {
+    if (!confirm(`Delete ${squad.name}? Its members will have no squad and its incentive rules will be deleted.`)) return;
+    const success = await deleteSquad(squad.id);
+    if (success) {
+      setSquads(prev => prev.filter(existing => existing.id !== squad.id));
+      setUsers(prev => prev.map(user => user.squad_id === squad.id ? { ...user, squad_id: null } : user));
+      if (editingSquadId === squad.id) resetSquadForm();
+    } else {
+      alert('Failed to delete squad. Please try again.');
+    }
+  };
+
+  const handleCapabilityToggle = async (role: UserRole, capability: Capability) => {
+    const enabled = !roleHas(role, capability);
+    setUpdatingCapability(`${role}:${capability}`);
+    const success = await setRoleCapability(role, capability, enabled);
+    if (success) {
+      setRoleCapabilities(prev => enabled
+        ? [...prev, { role, capability, created_at: new Date().toISOString() }]
+        : prev.filter(row => row.role !== role || row.capability !== capability));
+    } else {
+      alert('Failed to update role permissions. Please try again.');
+    }
+    setUpdatingCapability(null);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsCreatingUser(true);
@@ -210,7 +314,8 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
         const updateData: Partial<UserType> = {
           name: formData.name,
           role: formData.role,
-          managed_accounts: formData.managed_accounts,
+          squad_id: formData.squad_id || null,
+          managed_accounts: holdsAccounts(formData.role) ? formData.managed_accounts : [],
         };
         
         // Only include email if it's different (though it shouldn't change)
@@ -218,7 +323,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
           updateData.email = formData.email;
         }
         
-        const updatedUser = await updateUser(editingUser.id, updateData);
+        const updatedUser = await updateUser(editingUser.id, updateData, formData.effective_from);
         if (updatedUser) {
           setUsers(prev => prev.map(user => user.id === editingUser.id ? updatedUser : user));
           setSignupResult({ success: true, message: 'User updated successfully!' });
@@ -229,56 +334,26 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
           throw new Error('Failed to update user - no data returned');
         }
       } else {
-        // Create user with Supabase Auth (same as sign up)
-        const { data: authData, error: authError } = await supabase.auth.signUp({
+        const newUser = await inviteUser({
+          name: formData.name,
           email: formData.email,
-          password: formData.password,
-          options: {
-            emailRedirectTo: undefined, // Disable email confirmation
-            data: {
-              name: formData.name,
-              role: formData.role,
-            }
-          }
-        });
-
-        if (authError) {
-          throw authError;
-        }
-
-        if (authData.user) {
-          // Create user record in users table
-          const newUserData = {
-            id: authData.user.id,
-            name: formData.name,
-            email: formData.email,
-            role: formData.role,
-            managed_accounts: formData.managed_accounts,
-          };
+          role: formData.role,
+          squad_id: formData.squad_id || null,
+          managed_accounts: holdsAccounts(formData.role) ? formData.managed_accounts : [],
+        }, formData.effective_from);
+        if (newUser) {
+          setUsers(prev => [...prev, newUser]);
+          setSignupResult({ 
+            success: true, 
+            message: `Invitation sent to ${formData.email}. They will set their own password from the link in the email.` 
+          });
           
-          const newUser = await addUser(newUserData);
-          if (newUser) {
-            setUsers(prev => [...prev, newUser]);
-            setSignupResult({ 
-              success: true, 
-              message: `User account created successfully! Login credentials have been set up for ${formData.email}` 
-            });
-            
-            // Auto-close modal after success
-            setTimeout(() => {
-              closeModal();
-            }, 3000);
-          } else {
-            // If user creation in database fails, we should clean up the auth user
-            try {
-              await supabase.auth.admin.deleteUser(authData.user.id);
-            } catch (cleanupError) {
-              console.warn('Could not clean up auth user:', cleanupError);
-            }
-            throw new Error('Failed to create user record in database');
-          }
+          // Auto-close modal after success
+          setTimeout(() => {
+            closeModal();
+          }, 3000);
         } else {
-          throw new Error('Failed to create authentication account');
+          throw new Error('Failed to send the invitation');
         }
       }
     } catch (err: any) {
@@ -287,8 +362,6 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
       
       if (err.message?.includes('User already registered') || err.message?.includes('already been registered')) {
         errorMessage = 'A user with this email address already exists.';
-      } else if (err.message?.includes('Password')) {
-        errorMessage = 'Password must be at least 6 characters long.';
       } else if (err.message?.includes('Invalid email')) {
         errorMessage = 'Please enter a valid email address.';
       } else if (err.message?.includes('permission') || err.message?.includes('RLS')) {
@@ -308,9 +381,10 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setFormData({
       name: user.name,
       email: user.email,
-      password: '', // Don't show existing password
       role: user.role,
+      squad_id: user.squad_id || '',
       managed_accounts: user.managed_accounts,
+      effective_from: toDateString(new Date()),
     });
     setSignupResult(null);
     setShowModal(true);
@@ -321,9 +395,10 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setFormData({
       name: '',
       email: '',
-      password: '',
       role: 'user',
+      squad_id: '',
       managed_accounts: [],
+      effective_from: toDateString(new Date()),
     });
     setSignupResult(null);
     setShowModal(true);
@@ -337,17 +412,10 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     
     if (confirm('Are you sure you want to delete this user? This will also delete their authentication account and cannot be undone.')) {
       try {
-        // First delete from our users table
         const success = await deleteUser(id);
         if (success) {
-          // Then delete from Supabase Auth (if it exists)
-          try {
-            await supabase.auth.admin.deleteUser(id);
-          } catch (authError) {
-            console.warn('Could not delete auth user (may not exist):', authError);
-          }
-          
           setUsers(prev => prev.filter(user => user.id !== id));
+          setSquads(prev => prev.map(squad => squad.leader_id === id ? { ...squad, leader_id: null } : squad));
         }
       } catch (err) {
         console.error('Error deleting user:', err);
@@ -365,11 +433,11 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setFormData({
       name: '',
       email: '',
-      password: '',
       role: 'user',
+      squad_id: '',
       managed_accounts: [],
+      effective_from: toDateString(new Date()),
     });
-    setShowPassword(false);
   };
 
   const handleAccountToggle = (accountId: string) => {
@@ -436,9 +504,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {users.filter(u => u.role === 'user').length}
+                  {users.filter(u => u.role === 'user' || u.role === 'team_lead').length}
                 </div>
-                <p className="text-sm text-gray-600">Regular Users</p>
+                <p className="text-sm text-gray-600">Users & Team Leads</p>
               </div>
             </div>
           </div>
@@ -450,9 +518,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {users.filter(u => u.role === 'superadmin').length}
+                  {users.filter(u => u.role === 'finance' || u.role === 'superadmin').length}
                 </div>
-                <p className="text-sm text-gray-600">Super Admins</p>
+                <p className="text-sm text-gray-600">Finance & Super Admins</p>
               </div>
             </div>
           </div>
@@ -481,8 +549,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
                 <option value="all">All Roles</option>
-                <option value="user">Users</option>
-                <option value="superadmin">Super Admins</option>
+                {ROLES.map(role => (
+                  <option key={role} value={role}>{roleLabels[role]}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -521,12 +590,8 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                                 You
                               </span>
                             )}
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              user.role === 'superadmin' 
-                                ? 'bg-purple-100 text-purple-800' 
-                                : 'bg-blue-100 text-blue-800'
-                            }`}>
-                              {user.role === 'superadmin' ? 'Super Admin' : 'User'}
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${roleBadgeColors[user.role]}`}>
+                              {roleLabels[user.role]}
                             </span>
                           </div>
                           <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
@@ -538,14 +603,20 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                               <Calendar className="w-3 h-3" />
                               <span>Joined {stats.joinDate}</span>
                             </span>
-                            {user.role === 'user' && (
+                            {holdsAccounts(user.role) && (
                               <span className="flex items-center space-x-1">
                                 <Users className="w-3 h-3" />
                                 <span>{stats.managedAccounts} accounts</span>
                               </span>
                             )}
+                            {user.squad_id && (
+                              <span className="flex items-center space-x-1">
+                                <UserCheck className="w-3 h-3" />
+                                <span>{getSquadName(user.squad_id)}</span>
+                              </span>
+                            )}
                           </div>
-                          {user.role === 'user' && user.managed_accounts.length > 0 && (
+                          {holdsAccounts(user.role) && user.managed_accounts.length > 0 && (
                             <div className="mt-2">
                               {user.managed_accounts.length <= 5 ? (
                                 <div className="flex flex-wrap gap-1">
@@ -650,6 +721,153 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
             </div>
           )}
         </div>
+
+        {/* Squads */}
+        <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+          <div className="p-6 border-b border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900">Squads ({squads.length})</h3>
+            <p className="text-sm text-gray-600">
+              Leaders see the accounts and incentives of their squad. Incentive rules can target a single squad.
+            </p>
+          </div>
+          <form onSubmit={handleSquadSubmit} className="p-6 border-b border-gray-100 grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              value={squadForm.name}
+              onChange={(e) => setSquadForm({ ...squadForm, name: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="Squad name"
+              required
+              disabled={isSavingSquad}
+            />
+            <input
+              type="text"
+              value={squadForm.description}
+              onChange={(e) => setSquadForm({ ...squadForm, description: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="Description"
+              disabled={isSavingSquad}
+            />
+            <select
+              value={squadForm.leader_id}
+              onChange={(e) => setSquadForm({ ...squadForm, leader_id: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              disabled={isSavingSquad}
+            >
+              <option value="">No leader</option>
+              {squadLeaders.map(leader => (
+                <option key={leader.id} value={leader.id}>{leader.name}</option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-2">
+              <button
+                type="submit"
+                disabled={isSavingSquad}
+                className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                {editingSquadId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                <span>{editingSquadId ? 'Save' : 'Add Squad'}</span>
+              </button>
+              {editingSquadId && (
+                <button
+                  type="button"
+                  onClick={resetSquadForm}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+          {squads.length > 0 ? (
+            <div className="divide-y divide-gray-100">
+              {squads.map(squad => {
+                const memberCount = users.filter(user => user.squad_id === squad.id).length;
+                return (
+                  <div key={squad.id} className="p-6 flex items-center justify-between hover:bg-gray-50">
+                    <div>
+                      <h4 className="font-semibold text-gray-900">{squad.name}</h4>
+                      <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
+                        <span className="flex items-center space-x-1">
+                          <UserCheck className="w-3 h-3" />
+                          <span>{squad.leader_id ? `Led by ${getUserName(squad.leader_id)}` : 'No leader'}</span>
+                        </span>
+                        <span className="flex items-center space-x-1">
+                          <Users className="w-3 h-3" />
+                          <span>{memberCount} members</span>
+                        </span>
+                        {squad.description && <span>{squad.description}</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => handleEditSquad(squad)}
+                        className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                        <span>Edit</span>
+                      </button>
+                      <button
+                        onClick={() => handleDeleteSquad(squad)}
+                        className="flex items-center space-x-2 text-red-600 hover:text-red-700 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        <span>Delete</span>
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-sm text-gray-600">No squads yet</div>
+          )}
+        </div>
+
+        {/* Roles & Permissions */}
+        <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+          <div className="p-6 border-b border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900">Roles & Permissions</h3>
+            <p className="text-sm text-gray-600">
+              The database applies changes right away; menus update the next time a user signs in. Super Admins always have every permission.
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Permission</th>
+                  {ROLES.map(role => (
+                    <th key={role} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {roleLabels[role]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {capabilityDefinitions.map(definition => (
+                  <tr key={definition.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{definition.label}</div>
+                      <div className="text-xs text-gray-500">{definition.description}</div>
+                    </td>
+                    {ROLES.map(role => (
+                      <td key={role} className="px-6 py-4 text-center">
+                        <input
+                          type="checkbox"
+                          checked={roleHas(role, definition.id)}
+                          onChange={() => handleCapabilityToggle(role, definition.id)}
+                          disabled={!EDITABLE_ROLES.includes(role) || updatingCapability === `${role}:${definition.id}`}
+                          className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500 disabled:opacity-50"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
       </div>
 
       {/* Modal */}
@@ -659,7 +877,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
             <div className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-bold text-gray-900">
-                  {editingUser ? 'Edit User' : 'Create New User Account'}
+                  {editingUser ? 'Edit User' : 'Invite Team Member'}
                 </h2>
                 <button
                   onClick={closeModal}
@@ -683,20 +901,15 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     <h3 className={`font-medium ${
                       signupResult.success ? 'text-green-900' : 'text-red-900'
                     }`}>
-                      {signupResult.success ? 'Account Created Successfully!' : 'Account Creation Failed'}
+                      {signupResult.success
+                        ? (editingUser ? 'User Updated' : 'Invitation Sent')
+                        : (editingUser ? 'Update Failed' : 'Invitation Failed')}
                     </h3>
                     <p className={`text-sm ${
                       signupResult.success ? 'text-green-700' : 'text-red-700'
                     }`}>
                       {signupResult.message}
                     </p>
-                    {signupResult.success && !editingUser && (
-                      <div className="mt-2 p-2 bg-green-100 rounded text-xs text-green-800">
-                        <strong>Login Details:</strong><br />
-                        Email: {formData.email}<br />
-                        Password: {formData.password}
-                      </div>
-                    )}
                   </div>
                 </div>
               )}
@@ -732,8 +945,10 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                       required
                       disabled={isCreatingUser || !!editingUser}
                     />
-                    {editingUser && (
+                    {editingUser ? (
                       <p className="text-xs text-gray-500 mt-1">Email cannot be changed after account creation</p>
+                    ) : (
+                      <p className="text-xs text-gray-500 mt-1">An invitation link is sent here; the user sets their own password</p>
                     )}
                   </div>
                 </div>
@@ -741,52 +956,42 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      {editingUser ? 'New Password (leave blank to keep current)' : 'Password *'}
+                      Role *
                     </label>
-                    <div className="relative">
-                      <input
-                        type={showPassword ? "text" : "password"}
-                        value={formData.password}
-                        onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                        className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                        placeholder={editingUser ? "Enter new password" : "Enter password"}
-                        required={!editingUser}
-                        minLength={6}
-                        disabled={isCreatingUser}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        disabled={isCreatingUser}
-                      >
-                        {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                      </button>
-                    </div>
-                    {!editingUser && (
-                      <p className="text-xs text-gray-500 mt-1">Password must be at least 6 characters long</p>
-                    )}
+                    <select
+                      value={formData.role}
+                      onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      required
+                      disabled={isCreatingUser}
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{roleLabels[role]}</option>
+                      ))}
+                    </select>
                   </div>
-                  
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Role *
+                      Squad
                     </label>
                     <select
-                      value={formData.role}
-                      onChange={(e) => setFormData({ ...formData, role: e.target.value as 'user' | 'superadmin' })}
+                      value={formData.squad_id}
+                      onChange={(e) => setFormData({ ...formData, squad_id: e.target.value })}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                      required
                       disabled={isCreatingUser}
                     >
-                      <option value="user">User</option>
-                      <option value="superadmin">Super Admin</option>
+                      <option value="">No squad</option>
+                      {squads.map(squad => (
+                        <option key={squad.id} value={squad.id}>{squad.name}</option>
+                      ))}
                     </select>
+                    <p className="text-xs text-gray-500 mt-1">The squad leader sees this user's accounts and incentives</p>
                   </div>
                 </div>
 
-                {/* Account Management (only for regular users) */}
-                {formData.role === 'user' && (
+                {/* Account Management (only for roles that earn incentives) */}
+                {holdsAccounts(formData.role) && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-3">
                       Managed Accounts
@@ -867,6 +1072,23 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     <p className="text-xs text-gray-500 mt-2">
                       Select which accounts this user can manage. Super admins have access to all accounts.
                     </p>
+
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Assignment Effective From
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.effective_from}
+                        onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        required
+                        disabled={isCreatingUser}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Added accounts are taken over from their previous manager on this date and removed accounts end the day before. Sales are credited to whoever managed the account on each day.
+                      </p>
+                    </div>
                   </div>
                 )}
                 
@@ -887,12 +1109,12 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     {isCreatingUser ? (
                       <>
                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                        <span>{editingUser ? 'Updating...' : 'Creating Account...'}</span>
+                        <span>{editingUser ? 'Updating...' : 'Sending Invitation...'}</span>
                       </>
                     ) : (
                       <>
-                        <Save className="w-4 h-4" />
-                        <span>{editingUser ? 'Update' : 'Create'} User</span>
+                        {editingUser ? <Save className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+                        <span>{editingUser ? 'Update User' : 'Send Invitation'}</span>
                       </>
                     )}
                   </button>
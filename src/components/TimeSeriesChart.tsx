@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { DailySalesTotals } from '../types';
+import {
+  ChartMetric,
+  chartMetricLabels,
+  formatCompactNumber,
+  formatPeriodLabel,
+  getSeriesColor,
+  isCurrencyMetric,
+} from '../lib/chartData';
+import { parseDateString } from '../lib/salesQuery';
+
+interface TimeSeriesChartProps {
+  data: DailySalesTotals[];
+  title?: string;
+}
+
+const METRICS: ChartMetric[] = ['gross_commission', 'total_purchases', 'orders', 'clicks'];
+
+// Drawing area in SVG units; the chart scales to the card's width
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 48, bottom: 28, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const X_LABEL_COUNT = 6;
+
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ data, title = 'Performance Over Time' }) => {
+  const [visibleMetrics, setVisibleMetrics] = useState<ChartMetric[]>(['gross_commission', 'orders']);
+  const [variant, setVariant] = useState<'line' | 'area'>('area');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatValue = (metric: ChartMetric, value: number) =>
+    isCurrencyMetric(metric) ? formatCurrency(value) : value.toLocaleString();
+
+  // Amounts and counts get their own axis so orders don't flatten next to revenue
+  const axisMax = useMemo(() => {
+    const maxOf = (currency: boolean) => Math.max(
+      0,
+      ...visibleMetrics
+        .filter(metric => isCurrencyMetric(metric) === currency)
+        .flatMap(metric => data.map(day => day[metric]))
+    );
+    return { currency: maxOf(true), count: maxOf(false) };
+  }, [data, visibleMetrics]);
+
+  const getX = (index: number) =>
+    PADDING.left + (data.length > 1 ? (index / (data.length - 1)) * PLOT_WIDTH : PLOT_WIDTH / 2);
+
+  const getY = (metric: ChartMetric, value: number) => {
+    const max = isCurrencyMetric(metric) ? axisMax.currency : axisMax.count;
+    return PADDING.top + PLOT_HEIGHT - (max > 0 ? (value / max) * PLOT_HEIGHT : 0);
+  };
+
+  const getLinePath = (metric: ChartMetric) =>
+    data.map((day, index) => `${index === 0 ? 'M' : 'L'}${getX(index)},${getY(metric, day[metric])}`).join(' ');
+
+  const toggleMetric = (metric: ChartMetric) => {
+    setVisibleMetrics(prev => prev.includes(metric)
+      ? prev.filter(visible => visible !== metric)
+      : METRICS.filter(candidate => candidate === metric || prev.includes(candidate)));
+  };
+
+  // Picks the nearest day to the pointer
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientX - bounds.left) / bounds.width;
+    setHoverIndex(Math.min(Math.max(Math.round(ratio * (data.length - 1)), 0), data.length - 1));
+  };
+
+  const xLabelIndexes = data.length <= X_LABEL_COUNT
+    ? [...data.keys()]
+    : [...Array(X_LABEL_COUNT).keys()].map(step => Math.round((step / (X_LABEL_COUNT - 1)) * (data.length - 1)));
+
+  const hasCurrencyAxis = visibleMetrics.some(isCurrencyMetric);
+  const hasCountAxis = visibleMetrics.some(metric => !isCurrencyMetric(metric));
+  // The hovered day may be gone once the range changes
+  const activeIndex = hoverIndex !== null && hoverIndex < data.length ? hoverIndex : null;
+  const hoveredDay = activeIndex !== null ? data[activeIndex] : null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <div className="flex items-center flex-wrap gap-2">
+          {METRICS.map((metric, index) => {
+            const isVisible = visibleMetrics.includes(metric);
+            return (
+              <button
+                key={metric}
+                onClick={() => toggleMetric(metric)}
+                className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  isVisible ? 'border-gray-300 text-gray-800' : 'border-gray-100 text-gray-400'
+                }`}
+              >
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: isVisible ? getSeriesColor(index) : '#d1d5db' }}
+                ></span>
+                <span>{chartMetricLabels[metric]}</span>
+              </button>
+            );
+          })}
+          <select
+            value={variant}
+            onChange={(e) => setVariant(e.target.value as 'line' | 'area')}
+            className="px-2 py-1 border border-gray-200 rounded-lg text-xs bg-white print:hidden"
+          >
+            <option value="area">Area</option>
+            <option value="line">Line</option>
+          </select>
+        </div>
+      </div>
+
+      {data.length === 0 ? (
+        <div className="h-60 flex flex-col items-center justify-center text-gray-500">
+          <TrendingUp className="w-10 h-10 text-gray-300 mb-2" />
+          <p className="text-sm">No sales data in this period</p>
+        </div>
+      ) : (
+        <div className="relative">
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {[0, 0.5, 1].map(fraction => {
+              const y = PADDING.top + PLOT_HEIGHT - fraction * PLOT_HEIGHT;
+              return (
+                <g key={fraction}>
+                  <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="#f3f4f6" />
+                  {hasCurrencyAxis && (
+                    <text x={PADDING.left - 6} y={y + 4} textAnchor="end" fontSize="10" fill="#9ca3af">
+                      {formatCompactNumber(axisMax.currency * fraction)}
+                    </text>
+                  )}
+                  {hasCountAxis && (
+                    <text x={WIDTH - PADDING.right + 6} y={y + 4} fontSize="10" fill="#9ca3af">
+                      {formatCompactNumber(axisMax.count * fraction)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {xLabelIndexes.map(index => (
+              <text key={index} x={getX(index)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#9ca3af">
+                {formatPeriodLabel(data[index].date)}
+              </text>
+            ))}
+
+            {METRICS.map((metric, index) => visibleMetrics.includes(metric) && (
+              <g key={metric}>
+                {variant === 'area' && (
+                  <path
+                    d={`${getLinePath(metric)} L${getX(data.length - 1)},${PADDING.top + PLOT_HEIGHT} L${getX(0)},${PADDING.top + PLOT_HEIGHT} Z`}
+                    fill={getSeriesColor(index)}
+                    fillOpacity={0.12}
+                  />
+                )}
+                <path d={getLinePath(metric)} fill="none" stroke={getSeriesColor(index)} strokeWidth={2} />
+                {activeIndex !== null && (
+                  <circle cx={getX(activeIndex)} cy={getY(metric, data[activeIndex][metric])} r={3.5} fill={getSeriesColor(index)} />
+                )}
+              </g>
+            ))}
+
+            {activeIndex !== null && (
+              <line
+                x1={getX(activeIndex)}
+                x2={getX(activeIndex)}
+                y1={PADDING.top}
+                y2={PADDING.top + PLOT_HEIGHT}
+                stroke="#d1d5db"
+                strokeDasharray="3 3"
+              />
+            )}
+
+            <rect
+              x={PADDING.left}
+              y={PADDING.top}
+              width={PLOT_WIDTH}
+              height={PLOT_HEIGHT}
+              fill="transparent"
+              onMouseMove={handleMouseMove}
+              onMouseLeave={() => setHoverIndex(null)}
+            />
+          </svg>
+
+          {hoveredDay && activeIndex !== null && (
+            <div
+              className="absolute top-0 pointer-events-none bg-gray-800 text-white text-xs rounded-lg px-3 py-2 shadow-lg"
+              style={{
+                left: `${(getX(activeIndex) / WIDTH) * 100}%`,
+                transform: activeIndex > data.length / 2 ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)',
+              }}
+            >
+              <div className="font-medium mb-1">
+                {parseDateString(hoveredDay.date).toLocaleDateString('id-ID', { weekday: 'short', day: '2-digit', month: 'short', year: 'numeric' })}
+              </div>
+              {METRICS.filter(metric => visibleMetrics.includes(metric)).map(metric => (
+                <div key={metric} className="flex items-center justify-between space-x-3">
+                  <span className="text-gray-300">{chartMetricLabels[metric]}</span>
+                  <span>{formatValue(metric, hoveredDay[metric])}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
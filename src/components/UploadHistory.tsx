@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { History, RotateCcw, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Account, UploadBatch, UploadBatchStatus, UploadMode, User } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { getScopedAccountIds } from '../lib/salesQuery';
+
+interface UploadHistoryProps {
+  accounts: Account[];
+  currentUser?: Pick<User, 'role' | 'managed_accounts'>;
+  salesDataVersion: number;
+  onSalesDataChanged: () => void;
+}
+
+const UPLOAD_PAGE_SIZE = 50;
+
+const modeLabels: Record<UploadMode, string> = {
+  overwrite: 'Overwrite',
+  skip_existing: 'Skip existing',
+  fill_gaps: 'Only fill gaps',
+};
+
+const statusStyles: Record<UploadBatchStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  reverted: 'bg-gray-100 text-gray-600',
+};
+
+const UploadHistory: React.FC<UploadHistoryProps> = ({ accounts, currentUser, salesDataVersion, onSalesDataChanged }) => {
+  const [batches, setBatches] = useState<UploadBatch[]>([]);
+  const [totalRows, setTotalRows] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const { fetchUploadBatches, revertUploadBatch, error } = useSupabase();
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    const loadBatches = async () => {
+      setIsLoading(true);
+      const result = await fetchUploadBatches(getScopedAccountIds(currentUser), page, UPLOAD_PAGE_SIZE);
+      if (isCurrent) {
+        setBatches(result?.data ?? []);
+        setTotalRows(result?.count ?? 0);
+        setLoadFailed(result === null);
+        setIsLoading(false);
+      }
+    };
+
+    loadBatches();
+    return () => {
+      isCurrent = false;
+    };
+  }, [currentUser, salesDataVersion, page, loadAttempt, fetchUploadBatches]);
+
+  const totalPages = Math.max(Math.ceil(totalRows / UPLOAD_PAGE_SIZE), 1);
+
+  const handleRevert = async (batch: UploadBatch) => {
+    const account = accounts.find(acc => acc.id === batch.account_id);
+    if (!confirm(`Revert upload "${batch.file_name}" for ${account?.username || 'this account'}? ${batch.row_count} dates will be restored to their previous values.`)) {
+      return;
+    }
+
+    setRevertingId(batch.id);
+    const reverted = await revertUploadBatch(batch.id);
+    setRevertingId(null);
+
+    if (reverted) {
+      setBatches(prev => prev.map(b => (b.id === reverted.id ? reverted : b)));
+      onSalesDataChanged();
+    }
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center space-x-3">
+          <History className="w-5 h-5 text-purple-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Upload History</h3>
+            <p className="text-sm text-gray-600">
+              Every upload is kept as a batch. Reverting a batch restores the values it overwrote.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* The hook reports why a revert was refused, e.g. a later upload changed the same dates */}
+      {error && !loadFailed && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-2">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </div>
+      ) : loadFailed ? (
+        <div className="text-center py-12">
+          <AlertCircle className="w-16 h-16 text-red-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Could not load the upload history</h3>
+          <p className="text-gray-600">{error || 'Something went wrong while loading the uploads.'}</p>
+          <button
+            onClick={() => setLoadAttempt(prev => prev + 1)}
+            className="mt-4 px-4 py-2 text-sm text-purple-700 border border-purple-200 rounded-lg hover:bg-purple-50 transition-colors"
+          >
+            Try again
+          </button>
+        </div>
+      ) : batches.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uploaded</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mode</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {batches.map(batch => {
+                const account = accounts.find(acc => acc.id === batch.account_id);
+
+                return (
+                  <tr key={batch.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatDateTime(batch.created_at)}</div>
+                      <div className="text-sm text-gray-500">{batch.uploaded_by_name || '-'}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{account?.username || '-'}</div>
+                      <div className="text-sm text-gray-500">{account?.account_code}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900 max-w-xs truncate" title={batch.file_name}>
+                      {batch.file_name || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {modeLabels[batch.mode]}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {batch.row_count.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {batch.start_date && batch.end_date
+                        ? `${formatDate(batch.start_date)} - ${formatDate(batch.end_date)}`
+                        : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[batch.status]}`}>
+                        {batch.status === 'active' ? 'Active' : 'Reverted'}
+                      </span>
+                      {batch.reverted_at && (
+                        <div className="text-xs text-gray-500 mt-1">{formatDateTime(batch.reverted_at)}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      {batch.status === 'active' && (
+                        <button
+                          onClick={() => handleRevert(batch)}
+                          disabled={revertingId !== null}
+                          className="flex items-center space-x-1 px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>{revertingId === batch.id ? 'Reverting...' : 'Revert'}</span>
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <History className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No uploads yet</h3>
+          <p className="text-gray-600">Uploads will be listed here so they can be reverted</p>
+        </div>
+      )}
+
+      {!loadFailed && totalRows > 0 && (
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-100">
+          <p className="text-sm text-gray-600">
+            {(page * UPLOAD_PAGE_SIZE + 1).toLocaleString()}-{Math.min((page + 1) * UPLOAD_PAGE_SIZE, totalRows).toLocaleString()} of {totalRows.toLocaleString()} uploads
+          </p>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(prev => Math.max(prev - 1, 0))}
+              disabled={page === 0}
+              className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(prev => Math.min(prev + 1, totalPages - 1))}
+              disabled={page >= totalPages - 1}
+              className="p-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadHistory;
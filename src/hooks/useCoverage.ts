@@ -0,0 +1,58 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Account, AccountPeriodTotals, AccountSalesTotals } from '../types';
+import { useSupabase } from './useSupabase';
+import { getMonthPeriod } from '../lib/incentiveEngine';
+import { AccountCoverage, buildCoverage, getPeriodDays } from '../lib/coverage';
+
+interface Coverage {
+  days: string[];
+  coverage: AccountCoverage[];
+  isLoading: boolean;
+}
+
+// Daily upload coverage of the given accounts over a `YYYY-MM` month
+export const useCoverage = (accounts: Account[], month: string, salesDataVersion: number): Coverage => {
+  const { fetchAccountPeriodTotals, fetchAccountTotals } = useSupabase();
+  const [rows, setRows] = useState<AccountPeriodTotals[]>([]);
+  const [totals, setTotals] = useState<AccountSalesTotals[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const period = useMemo(() => getMonthPeriod(month), [month]);
+  const days = useMemo(() => getPeriodDays(period), [period]);
+  // The account list is often rebuilt on render; refetch only when its members change
+  const accountKey = accounts.map(account => account.id).join(',');
+
+  useEffect(() => {
+    const accountIds = accountKey ? accountKey.split(',') : [];
+    if (accountIds.length === 0) {
+      setRows([]);
+      setTotals([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let isCurrent = true;
+    const loadCoverage = async () => {
+      setIsLoading(true);
+      // A month of days for every account passes the response row cap; both fetches read every page
+      const [periodRows, accountTotals] = await Promise.all([
+        fetchAccountPeriodTotals({ startDate: period.start, endDate: period.end, accountIds }, 'day'),
+        fetchAccountTotals({ accountIds }),
+      ]);
+      if (isCurrent) {
+        setRows(periodRows);
+        setTotals(accountTotals);
+        setIsLoading(false);
+      }
+    };
+
+    loadCoverage();
+    return () => {
+      isCurrent = false;
+    };
+  }, [accountKey, period, salesDataVersion, fetchAccountPeriodTotals, fetchAccountTotals]);
+
+  const coverage = useMemo(() => buildCoverage(accounts, days, rows, totals), [accounts, days, rows, totals]);
+
+  return { days, coverage, isLoading };
+};
@@ -0,0 +1,1062 @@
+import { useRef, useState } from 'react';
+import type { DataApi } from './useSupabase';
+import {
+  Account,
+  AccountAssignment,
+  AccountPeriodTotals,
+  AccountSalesTotals,
+  AnomalyAcknowledgement,
+  AssignmentSalesTotals,
+  AuditLogEntry,
+  AuditQuery,
+  Capability,
+  Category,
+  ChartBucket,
+  DailySalesTotals,
+  FileData,
+  FileVersion,
+  IncentiveCalculation,
+  IncentiveRule,
+  PayoutEntry,
+  PayoutPeriod,
+  PayoutStatus,
+  RoleCapability,
+  SalesData,
+  SalesQuery,
+  Squad,
+  UploadBatch,
+  UploadMode,
+  User,
+  UserRole,
+  UserSalesTotals,
+} from '../types';
+import { NewPayoutEntry, toLedgerEntry } from '../lib/payoutLedger';
+import { auditEntry, diffRecords, NewAuditEntry, toAssignmentAuditEntry, toAuditedRule } from '../lib/auditLog';
+import { getAssignedAccountIds } from '../lib/accountAssignments';
+import { getRoleCapabilities, hasCapability, roleLabels } from '../lib/permissions';
+import { sumSalesTotals, toDateString } from '../lib/salesQuery';
+import { buildStoragePath, getMimeType } from '../lib/fileStorage';
+import { getBucketStart } from '../lib/chartData';
+import { NewAnomalyAcknowledgement } from '../lib/anomalies';
+import { DemoUserRow, demoStore as store, getDemoSessionUserId, shiftDate } from '../lib/demoData';
+
+// In-memory stand-in for useSupabase, used when demo mode is on. It exposes the same API
+// and mimics what the database does for it: policies, triggers, RPCs and the audit log.
+
+const newId = () => crypto.randomUUID();
+const now = () => new Date().toISOString();
+const today = () => toDateString(new Date());
+
+// Callers get copies, so React state never shares objects with the store
+const clone = <T,>(value: T): T => structuredClone(value);
+
+const sessionUser = () => store.users.find(user => user.id === getDemoSessionUserId()) || null;
+
+// Stands in for has_capability()
+const can = (capability: Capability) => {
+  const user = sessionUser();
+  return !!user && hasCapability({ role: user.role, capabilities: getRoleCapabilities(user.role, store.roleCapabilities) }, capability);
+};
+
+// Stands in for leads_user(): the user is in a squad the caller leads
+const leadsUser = (userId: string) =>
+  store.users.some(user =>
+    user.id === userId &&
+    store.squads.some(squad => squad.id === user.squad_id && squad.leader_id === getDemoSessionUserId())
+  );
+
+const ownerOn = (accountId: string, date: string) =>
+  store.assignments.find(assignment =>
+    assignment.account_id === accountId &&
+    assignment.effective_from <= date &&
+    (assignment.effective_to === null || assignment.effective_to >= date)
+  )?.user_id ?? null;
+
+const managesAccount = (accountId: string) => ownerOn(accountId, today()) === getDemoSessionUserId();
+
+// Same rules as the row level security policies on accounts, sales_data and account_assignments
+const canReadAccount = (account: Account) =>
+  can('accounts.manage') ||
+  can('accounts.view_all') ||
+  account.user_id === getDemoSessionUserId() ||
+  store.assignments.some(assignment =>
+    assignment.account_id === account.id &&
+    (assignment.user_id === getDemoSessionUserId() || (can('accounts.view_squad') && leadsUser(assignment.user_id)))
+  );
+
+const canReadSale = (row: SalesData) => {
+  const owner = ownerOn(row.account_id, row.date);
+  return can('accounts.manage') ||
+    can('accounts.view_all') ||
+    managesAccount(row.account_id) ||
+    owner === getDemoSessionUserId() ||
+    (can('accounts.view_squad') && owner !== null && leadsUser(owner));
+};
+
+const canReadAssignmentsOf = (userId: string) =>
+  can('team.manage') ||
+  can('accounts.view_all') ||
+  userId === getDemoSessionUserId() ||
+  (can('accounts.view_squad') && leadsUser(userId));
+
+const canWriteAccount = (accountId: string) => can('accounts.manage') || managesAccount(accountId);
+
+const requireCapability = (capability: Capability) => {
+  if (!can(capability)) {
+    throw new Error('You do not have permission to do this in demo mode');
+  }
+};
+
+const querySales = (query: SalesQuery) =>
+  store.salesData
+    .filter(row =>
+      canReadSale(row) &&
+      (!query.startDate || row.date >= query.startDate) &&
+      (!query.endDate || row.date <= query.endDate) &&
+      (!query.accountIds || query.accountIds.includes(row.account_id))
+    )
+    .sort((a, b) => b.date.localeCompare(a.date) || a.account_id.localeCompare(b.account_id));
+
+const groupBy = <T,>(rows: T[], getKey: (row: T) => string) => {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const key = getKey(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  return groups;
+};
+
+const toAccountTotals = (accountId: string, rows: SalesData[]): AccountSalesTotals => {
+  const dates = rows.map(row => row.date).sort();
+  return {
+    account_id: accountId,
+    row_count: rows.length,
+    first_date: dates[0],
+    last_date: dates[dates.length - 1],
+    ...sumSalesTotals(rows),
+  };
+};
+
+const withManagedAccounts = (user: DemoUserRow): User => ({
+  ...clone(user),
+  managed_accounts: getAssignedAccountIds(store.assignments, user.id, { start: today(), end: today() }),
+  capabilities: getRoleCapabilities(user.role, store.roleCapabilities),
+});
+
+// Mirrors the assign_accounts function
+const assignAccounts = (user: DemoUserRow, accountIds: string[], effectiveFrom = today()) => {
+  const userId = user.id;
+  const listed = new Set(accountIds);
+  const current = store.assignments.filter(assignment =>
+    (assignment.user_id === userId || listed.has(assignment.account_id)) &&
+    assignment.effective_from <= today() &&
+    (assignment.effective_to === null || assignment.effective_to >= today())
+  );
+  const dayBefore = shiftDate(effectiveFrom, -1);
+
+  store.assignments = store.assignments.flatMap(assignment => {
+    const runsFromDate = assignment.effective_to === null || assignment.effective_to >= effectiveFrom;
+
+    if (!listed.has(assignment.account_id)) {
+      if (assignment.user_id !== userId) return [assignment];
+      if (assignment.effective_from >= effectiveFrom) return [];
+      return [runsFromDate ? { ...assignment, effective_to: dayBefore } : assignment];
+    }
+
+    if (assignment.effective_from > effectiveFrom) return [];
+    if (assignment.user_id !== userId) {
+      if (assignment.effective_from === effectiveFrom) return [];
+      return [runsFromDate ? { ...assignment, effective_to: dayBefore } : assignment];
+    }
+    return [runsFromDate ? { ...assignment, effective_to: null } : assignment];
+  });
+
+  accountIds.forEach(accountId => {
+    const isRunning = store.assignments.some(assignment =>
+      assignment.account_id === accountId && assignment.user_id === userId && assignment.effective_to === null
+    );
+    if (!isRunning) {
+      store.assignments.push({
+        id: newId(),
+        account_id: accountId,
+        user_id: userId,
+        effective_from: effectiveFrom,
+        effective_to: null,
+        created_by: getDemoSessionUserId(),
+        created_at: now(),
+      });
+    }
+  });
+
+  recordAudit([toAssignmentAuditEntry(user, current, accountIds, effectiveFrom)]);
+};
+
+const recordAudit = (entries: NewAuditEntry[]) => {
+  const actor = sessionUser();
+  entries
+    .filter(entry => entry.action !== 'update' || Object.keys(entry.changes).length > 0)
+    .forEach(entry => {
+      store.auditLog.push({
+        ...entry,
+        id: newId(),
+        actor_id: actor?.id ?? null,
+        actor_name: actor?.name ?? null,
+        metadata: entry.metadata || {},
+        created_at: now(),
+      });
+    });
+};
+
+const findRule = (id: string) => store.incentiveRules.find(rule => rule.id === id) || null;
+
+export const useDemoData = (): DataApi => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Same loading/error contract as useSupabase: failures set `error` and return the fallback
+  const run = async <T,>(fallback: T, failureMessage: string, action: () => T): Promise<T> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      return action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failureMessage);
+      return fallback;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Categories
+  const fetchCategories = () =>
+    run<Category[]>([], 'Failed to fetch categories', () =>
+      clone([...store.categories].sort((a, b) => a.name.localeCompare(b.name)))
+    );
+
+  const addCategory = (category: Omit<Category, 'id' | 'created_at'>) =>
+    run<Category | null>(null, 'Failed to add category', () => {
+      requireCapability('accounts.manage');
+      const created: Category = { ...category, id: newId(), created_at: now() };
+      store.categories.push(created);
+      recordAudit([auditEntry('category', 'create', { id: created.id, label: created.name }, diffRecords(null, created))]);
+      return clone(created);
+    });
+
+  const updateCategory = (id: string, updates: Partial<Category>) =>
+    run<Category | null>(null, 'Failed to update category', () => {
+      requireCapability('accounts.manage');
+      const before = store.categories.find(category => category.id === id);
+      if (!before) return null;
+      const updated = { ...before, ...updates, id };
+      store.categories = store.categories.map(category => category.id === id ? updated : category);
+      recordAudit([auditEntry('category', 'update', { id, label: updated.name }, diffRecords(before, updated))]);
+      return clone(updated);
+    });
+
+  const deleteCategory = (id: string) =>
+    run(false, 'Failed to delete category', () => {
+      requireCapability('accounts.manage');
+      const before = store.categories.find(category => category.id === id) || null;
+      store.categories = store.categories.filter(category => category.id !== id);
+      recordAudit([auditEntry('category', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      return true;
+    });
+
+  // Accounts
+  const fetchAccounts = () =>
+    run<Account[]>([], 'Failed to fetch accounts', () =>
+      clone(store.accounts.filter(canReadAccount).sort((a, b) => b.created_at.localeCompare(a.created_at)))
+    );
+
+  const addAccount = (account: Omit<Account, 'id' | 'created_at'>) =>
+    run<Account | null>(null, 'Failed to add account', () => {
+      const created: Account = { ...account, id: newId(), created_at: now() };
+      store.accounts.push(created);
+      // Like the claim_created_account trigger, regular users manage what they create
+      if (!can('accounts.manage') && getDemoSessionUserId()) {
+        store.assignments.push({
+          id: newId(),
+          account_id: created.id,
+          user_id: getDemoSessionUserId() as string,
+          effective_from: today(),
+          effective_to: null,
+          created_by: getDemoSessionUserId(),
+          created_at: now(),
+        });
+      }
+      recordAudit([auditEntry('account', 'create', { id: created.id, label: created.username }, diffRecords(null, created))]);
+      return clone(created);
+    });
+
+  const updateAccount = (id: string, updates: Partial<Account>) =>
+    run<Account | null>(null, 'Failed to update account', () => {
+      const before = store.accounts.find(account => account.id === id);
+      if (!before) return null;
+      const updated = { ...before, ...updates, id };
+      // Like guard_payment_only_update, payment editors may change nothing but the payment status
+      if (!canWriteAccount(id)) {
+        const changesOtherFields = Object.keys(diffRecords(before, updated)).some(field => field !== 'payment_data');
+        if (!can('accounts.edit_payment') || !canReadAccount(before) || changesOtherFields) {
+          throw new Error('You do not manage this account');
+        }
+      }
+      store.accounts = store.accounts.map(account => account.id === id ? updated : account);
+      recordAudit([auditEntry('account', 'update', { id, label: updated.username }, diffRecords(before, updated))]);
+      return clone(updated);
+    });
+
+  const deleteAccount = (id: string) =>
+    run(false, 'Failed to delete account', () => {
+      requireCapability('accounts.manage');
+      const before = store.accounts.find(account => account.id === id) || null;
+      store.accounts = store.accounts.filter(account => account.id !== id);
+      store.salesData = store.salesData.filter(row => row.account_id !== id);
+      store.assignments = store.assignments.filter(assignment => assignment.account_id !== id);
+      store.uploadBatches = store.uploadBatches.filter(batch => batch.account_id !== id);
+      store.uploadBatchRows = store.uploadBatchRows.filter(row => row.account_id !== id);
+      recordAudit([auditEntry('account', 'delete', { id, label: before?.username }, diffRecords(before, null))]);
+      return true;
+    });
+
+  // Sales Data
+  const fetchSalesData = (query: SalesQuery = {}) =>
+    run<SalesData[] | null>(null, 'Failed to fetch sales data', () => clone(querySales(query)));
+
+  const fetchSalesDataPage = (query: SalesQuery, page: number, pageSize: number) =>
+    run({ data: [] as SalesData[], count: 0 }, 'Failed to fetch sales data', () => {
+      const rows = querySales(query);
+      return { data: clone(rows.slice(page * pageSize, (page + 1) * pageSize)), count: rows.length };
+    });
+
+  const fetchDailyTotals = (query: SalesQuery = {}) =>
+    run<DailySalesTotals[]>([], 'Failed to fetch daily totals', () =>
+      [...groupBy(querySales(query), row => row.date)]
+        .map(([date, rows]) => ({
+          date,
+          ...sumSalesTotals(rows),
+          account_count: new Set(rows.map(row => row.account_id)).size,
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    );
+
+  const fetchAccountTotals = (query: SalesQuery = {}) =>
+    run<AccountSalesTotals[]>([], 'Failed to fetch account totals', () =>
+      [...groupBy(querySales(query), row => row.account_id)]
+        .map(([accountId, rows]) => toAccountTotals(accountId, rows))
+    );
+
+  const fetchAccountPeriodTotals = (query: SalesQuery = {}, bucket: ChartBucket = 'day') =>
+    run<AccountPeriodTotals[]>([], 'Failed to fetch account period totals', () =>
+      [...groupBy(querySales(query), row => `${getBucketStart(row.date, bucket)}|${row.account_id}`)]
+        .map(([key, rows]) => {
+          const [period, accountId] = key.split('|');
+          return { period, account_id: accountId, ...sumSalesTotals(rows) };
+        })
+        .sort((a, b) => a.period.localeCompare(b.period))
+    );
+
+  const fetchAssignmentTotals = (query: SalesQuery = {}) =>
+    run<AssignmentSalesTotals[] | null>(null, 'Failed to fetch assignment totals', () => {
+      const credited = querySales(query)
+        .map(row => ({ row, userId: ownerOn(row.account_id, row.date) }))
+        .filter(({ userId }) => userId && canReadAssignmentsOf(userId));
+      return [...groupBy(credited, ({ row, userId }) => `${row.account_id}|${userId}`)]
+        .map(([, rows]) => ({
+          ...toAccountTotals(rows[0].row.account_id, rows.map(({ row }) => row)),
+          user_id: rows[0].userId as string,
+        }));
+    });
+
+  const fetchUserTotals = (query: Omit<SalesQuery, 'accountIds'> = {}) =>
+    run<UserSalesTotals[]>([], 'Failed to fetch user totals', () => {
+      const credited = querySales(query)
+        .map(row => ({ row, userId: ownerOn(row.account_id, row.date) }))
+        .filter(({ userId }) => userId !== null);
+      return [...groupBy(credited, ({ userId }) => userId as string)]
+        .map(([userId, rows]) => ({
+          user_id: userId,
+          account_count: new Set(rows.map(({ row }) => row.account_id)).size,
+          ...sumSalesTotals(rows.map(({ row }) => row)),
+        }));
+    });
+
+  const toBatchMetadata = (batch: UploadBatch) => ({
+    batch_id: batch.id,
+    file_name: batch.file_name,
+    mode: batch.mode,
+    row_count: batch.row_count,
+    start_date: batch.start_date,
+    end_date: batch.end_date,
+  });
+
+  // Mirrors import_sales_batches: one batch per account, remembering what each date held before
+  const addSalesData = (
+    salesData: Omit<SalesData, 'id' | 'created_at' | 'batch_id'>[],
+    source: { fileName: string; mode?: UploadMode }
+  ) =>
+    run<UploadBatch[]>([], 'Failed to add sales data', () => {
+      const uploader = sessionUser();
+      const batches = [...groupBy(salesData, row => row.account_id)].map(([accountId, rows]) => {
+        if (!canWriteAccount(accountId)) throw new Error('You do not manage one of the uploaded accounts');
+
+        const dates = rows.map(row => row.date).sort();
+        const batch: UploadBatch = {
+          id: newId(),
+          account_id: accountId,
+          uploaded_by: uploader?.id ?? null,
+          uploaded_by_name: uploader?.name ?? null,
+          file_name: source.fileName,
+          mode: source.mode || 'overwrite',
+          row_count: rows.length,
+          start_date: dates[0] ?? null,
+          end_date: dates[dates.length - 1] ?? null,
+          status: 'active',
+          reverted_at: null,
+          reverted_by: null,
+          created_at: now(),
+        };
+        store.uploadBatches.push(batch);
+
+        rows.forEach(row => {
+          const existing = store.salesData.find(sale => sale.account_id === accountId && sale.date === row.date);
+          store.uploadBatchRows.push({
+            batch_id: batch.id,
+            account_id: accountId,
+            date: row.date,
+            previous: existing ? {
+              clicks: existing.clicks,
+              orders: existing.orders,
+              gross_commission: existing.gross_commission,
+              products_sold: existing.products_sold,
+              total_purchases: existing.total_purchases,
+              new_buyers: existing.new_buyers,
+            } : null,
+            previous_batch_id: existing?.batch_id ?? null,
+          });
+          if (existing) {
+            Object.assign(existing, row, { batch_id: batch.id });
+          } else {
+            store.salesData.push({ ...row, id: newId(), batch_id: batch.id, created_at: now() });
+          }
+        });
+        return batch;
+      });
+
+      recordAudit(batches.map(batch =>
+        auditEntry('sales_data', 'import', { id: batch.account_id }, {}, toBatchMetadata(batch))
+      ));
+      return clone(batches);
+    });
+
+  const deleteSalesData = (accountId: string, dateRange?: { start: string; end: string }) =>
+    run(false, 'Failed to delete sales data', () => {
+      if (!canWriteAccount(accountId)) throw new Error('You do not manage this account');
+      const isDeleted = (row: SalesData) =>
+        row.account_id === accountId && (!dateRange || (row.date >= dateRange.start && row.date <= dateRange.end));
+      const deletedRows = store.salesData.filter(isDeleted).length;
+      store.salesData = store.salesData.filter(row => !isDeleted(row));
+      recordAudit([auditEntry('sales_data', 'delete', { id: accountId }, {}, {
+        date_range: dateRange ?? null,
+        deleted_rows: deletedRows,
+      })]);
+      return true;
+    });
+
+  // Upload Batches
+  const fetchUploadBatches = (accountIds: string[] | undefined, page: number, pageSize: number) =>
+    run<{ data: UploadBatch[]; count: number } | null>(null, 'Failed to fetch upload history', () => {
+      const batches = store.uploadBatches
+        .filter(batch => canWriteAccount(batch.account_id) && (!accountIds || accountIds.includes(batch.account_id)))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return { data: clone(batches.slice(page * pageSize, (page + 1) * pageSize)), count: batches.length };
+    });
+
+  // Mirrors revert_upload_batch
+  const revertUploadBatch = (batchId: string) =>
+    run<UploadBatch | null>(null, 'Failed to revert upload', () => {
+      const batch = store.uploadBatches.find(candidate => candidate.id === batchId);
+      if (!batch) throw new Error(`Upload batch ${batchId} not found`);
+      if (batch.status === 'reverted') throw new Error(`Upload batch ${batchId} was already reverted`);
+
+      const batchRows = store.uploadBatchRows.filter(row => row.batch_id === batchId);
+      const overwritten = batchRows.filter(row =>
+        store.salesData.some(sale => sale.account_id === row.account_id && sale.date === row.date && sale.batch_id !== batchId)
+      ).length;
+      if (overwritten > 0) {
+        throw new Error(`${overwritten} dates of this batch were changed by a later upload. Revert that upload first.`);
+      }
+
+      batchRows.forEach(row => {
+        const sale = store.salesData.find(candidate => candidate.account_id === row.account_id && candidate.date === row.date);
+        if (!row.previous) {
+          store.salesData = store.salesData.filter(candidate => candidate !== sale);
+        } else if (sale) {
+          Object.assign(sale, row.previous, { batch_id: row.previous_batch_id });
+        } else {
+          store.salesData.push({
+            ...row.previous,
+            id: newId(),
+            account_id: row.account_id,
+            date: row.date,
+            batch_id: row.previous_batch_id,
+            created_at: now(),
+          });
+        }
+      });
+
+      Object.assign(batch, { status: 'reverted', reverted_at: now(), reverted_by: getDemoSessionUserId() });
+      recordAudit([auditEntry('sales_data', 'revert', { id: batch.account_id }, {}, toBatchMetadata(batch))]);
+      return clone(batch);
+    });
+
+  // Sales Anomalies
+  const fetchAnomalyAcknowledgements = (query: SalesQuery = {}) =>
+    run<AnomalyAcknowledgement[] | null>(null, 'Failed to fetch anomaly acknowledgements', () =>
+      clone(store.anomalyAcknowledgements
+        .filter(ack => {
+          const account = store.accounts.find(candidate => candidate.id === ack.account_id);
+          return !!account && canReadAccount(account) &&
+            (!query.startDate || ack.date >= query.startDate) &&
+            (!query.endDate || ack.date <= query.endDate) &&
+            (!query.accountIds || query.accountIds.includes(ack.account_id));
+        })
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)))
+    );
+
+  // Mirrors the insert policy, the acknowledger trigger and ON CONFLICT DO NOTHING
+  const acknowledgeAnomalies = (acknowledgements: NewAnomalyAcknowledgement[]) =>
+    run<AnomalyAcknowledgement[]>([], 'Failed to acknowledge anomalies', () => {
+      if (acknowledgements.some(ack => !canWriteAccount(ack.account_id))) {
+        throw new Error('You do not have permission to do this in demo mode');
+      }
+      const created = acknowledgements
+        .filter(ack => !store.anomalyAcknowledgements.some(existing =>
+          existing.account_id === ack.account_id && existing.date === ack.date && existing.fingerprint === ack.fingerprint
+        ))
+        .map(ack => ({
+          ...ack,
+          id: newId(),
+          acknowledged_by: getDemoSessionUserId(),
+          acknowledged_by_name: sessionUser()?.name ?? null,
+          created_at: now(),
+        }));
+      store.anomalyAcknowledgements.push(...created);
+      recordAudit(created.map(ack =>
+        auditEntry('anomaly_acknowledgement', 'create', { id: ack.id, label: ack.date }, diffRecords(null, ack))
+      ));
+      return clone(created);
+    });
+
+  // Account Assignments
+  const fetchAccountAssignments = (query: SalesQuery = {}) =>
+    run<AccountAssignment[] | null>(null, 'Failed to fetch account assignments', () =>
+      clone(store.assignments
+        .filter(assignment =>
+          canReadAssignmentsOf(assignment.user_id) &&
+          (!query.endDate || assignment.effective_from <= query.endDate) &&
+          (!query.startDate || assignment.effective_to === null || assignment.effective_to >= query.startDate) &&
+          (!query.accountIds || query.accountIds.includes(assignment.account_id))
+        )
+        .sort((a, b) => a.effective_from.localeCompare(b.effective_from)))
+    );
+
+  // Users
+  const fetchUsers = () =>
+    run<User[] | null>(null, 'Failed to fetch users', () =>
+      [...store.users]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(withManagedAccounts)
+    );
+
+  const addUser = (user: Omit<User, 'id' | 'created_at'> & { id?: string }, effectiveFrom?: string) =>
+    run<User | null>(null, 'Failed to add user', () => {
+      requireCapability('team.manage');
+      if (store.users.some(existing => existing.email === user.email)) {
+        throw new Error('User already registered');
+      }
+      const { managed_accounts, ...userRow } = user;
+      const row: DemoUserRow = { ...userRow, id: user.id || newId(), created_at: now() };
+      store.users.push(row);
+      if (managed_accounts.length > 0) {
+        assignAccounts(row, managed_accounts, effectiveFrom);
+      }
+      const created = withManagedAccounts(row);
+      recordAudit([auditEntry('user', 'create', { id: row.id, label: row.name }, diffRecords(null, created), {
+        effective_from: effectiveFrom ?? null,
+      })]);
+      return created;
+    });
+
+  // There is no mail in the demo; the invited user shows up in the login picker right away
+  const inviteUser = (user: Omit<User, 'id' | 'created_at'>, effectiveFrom?: string) =>
+    addUser(user, effectiveFrom);
+
+  const updateUser = (id: string, updates: Partial<User>, effectiveFrom?: string) =>
+    run<User | null>(null, 'Failed to update user', () => {
+      requireCapability('team.manage');
+      const beforeRow = store.users.find(user => user.id === id);
+      if (!beforeRow) return null;
+      const before = withManagedAccounts(beforeRow);
+      const { managed_accounts, ...userUpdates } = updates;
+      const row = { ...beforeRow, ...userUpdates, id };
+      store.users = store.users.map(user => user.id === id ? row : user);
+      if (managed_accounts) {
+        assignAccounts(row, managed_accounts, effectiveFrom);
+      }
+      const updated = withManagedAccounts(row);
+      recordAudit([auditEntry('user', 'update', { id, label: row.name }, diffRecords(before, updated), {
+        effective_from: managed_accounts ? effectiveFrom ?? null : null,
+      })]);
+      return updated;
+    });
+
+  const deleteUser = (id: string) =>
+    run(false, 'Failed to delete user', () => {
+      requireCapability('team.manage');
+      const beforeRow = store.users.find(user => user.id === id);
+      const before = beforeRow ? withManagedAccounts(beforeRow) : null;
+      store.users = store.users.filter(user => user.id !== id);
+      store.assignments = store.assignments.filter(assignment => assignment.user_id !== id);
+      store.squads = store.squads.map(squad => squad.leader_id === id ? { ...squad, leader_id: null } : squad);
+      recordAudit([auditEntry('user', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      return true;
+    });
+
+  // Role Capabilities
+  const fetchRoleCapabilities = () =>
+    run<RoleCapability[]>([], 'Failed to fetch role permissions', () =>
+      clone([...store.roleCapabilities].sort((a, b) => a.role.localeCompare(b.role)))
+    );
+
+  const setRoleCapability = (role: UserRole, capability: Capability, enabled: boolean) =>
+    run(false, 'Failed to update role permissions', () => {
+      requireCapability('team.manage');
+      const row = { role, capability };
+      const exists = store.roleCapabilities.some(candidate => candidate.role === role && candidate.capability === capability);
+      if (enabled && !exists) {
+        store.roleCapabilities.push({ ...row, created_at: now() });
+      } else if (!enabled) {
+        store.roleCapabilities = store.roleCapabilities.filter(candidate =>
+          candidate.role !== role || candidate.capability !== capability
+        );
+      }
+      recordAudit([auditEntry(
+        'role_capability',
+        enabled ? 'create' : 'delete',
+        { id: `${role}:${capability}`, label: `${roleLabels[role]}: ${capability}` },
+        diffRecords(enabled ? null : row, enabled ? row : null)
+      )]);
+      return true;
+    });
+
+  // Squads
+  const fetchSquads = () =>
+    run<Squad[]>([], 'Failed to fetch squads', () =>
+      clone([...store.squads].sort((a, b) => a.name.localeCompare(b.name)))
+    );
+
+  const addSquad = (squad: Omit<Squad, 'id' | 'created_at'>) =>
+    run<Squad | null>(null, 'Failed to add squad', () => {
+      requireCapability('team.manage');
+      if (store.squads.some(existing => existing.name === squad.name)) {
+        throw new Error('duplicate key value violates unique constraint "squads_name_key"');
+      }
+      const created: Squad = { ...squad, id: newId(), created_at: now() };
+      store.squads.push(created);
+      recordAudit([auditEntry('squad', 'create', { id: created.id, label: created.name }, diffRecords(null, created))]);
+      return clone(created);
+    });
+
+  const updateSquad = (id: string, updates: Partial<Squad>) =>
+    run<Squad | null>(null, 'Failed to update squad', () => {
+      requireCapability('team.manage');
+      const before = store.squads.find(squad => squad.id === id);
+      if (!before) return null;
+      const updated = { ...before, ...updates, id };
+      store.squads = store.squads.map(squad => squad.id === id ? updated : squad);
+      recordAudit([auditEntry('squad', 'update', { id, label: updated.name }, diffRecords(before, updated))]);
+      return clone(updated);
+    });
+
+  // Like the foreign keys: members lose their squad, the squad's rules are deleted
+  const deleteSquad = (id: string) =>
+    run(false, 'Failed to delete squad', () => {
+      requireCapability('team.manage');
+      const before = store.squads.find(squad => squad.id === id) || null;
+      store.squads = store.squads.filter(squad => squad.id !== id);
+      store.users = store.users.map(user => user.squad_id === id ? { ...user, squad_id: null } : user);
+      store.incentiveRules = store.incentiveRules.filter(rule => rule.squad_id !== id);
+      recordAudit([auditEntry('squad', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      return true;
+    });
+
+  // Incentive Rules
+  const fetchIncentiveRules = () =>
+    run<IncentiveRule[]>([], 'Failed to fetch incentive rules', () =>
+      clone([...store.incentiveRules].sort((a, b) => b.created_at.localeCompare(a.created_at)))
+    );
+
+  const toStoredTiers = (tiers: IncentiveRule['tiers']) =>
+    [...tiers]
+      .sort((a, b) => a.revenue_threshold - b.revenue_threshold)
+      .map(tier => ({
+        id: newId(),
+        revenue_threshold: tier.revenue_threshold,
+        incentive_rate: tier.incentive_rate,
+        created_at: now(),
+      }));
+
+  const addIncentiveRule = (rule: Omit<IncentiveRule, 'id' | 'created_at'>) =>
+    run<IncentiveRule | null>(null, 'Failed to add incentive rule', () => {
+      requireCapability('incentives.edit_rules');
+      const created: IncentiveRule = { ...rule, id: newId(), tiers: toStoredTiers(rule.tiers || []), created_at: now() };
+      store.incentiveRules.push(created);
+      recordAudit([
+        auditEntry('incentive_rule', 'create', { id: created.id, label: created.name }, diffRecords(null, toAuditedRule(created))),
+      ]);
+      return clone(created);
+    });
+
+  const updateIncentiveRule = (id: string, updates: Partial<IncentiveRule>) =>
+    run<IncentiveRule | null>(null, 'Failed to update incentive rule', () => {
+      requireCapability('incentives.edit_rules');
+      const before = findRule(id);
+      if (!before) return null;
+      const updated: IncentiveRule = {
+        ...before,
+        ...updates,
+        id,
+        tiers: updates.tiers ? toStoredTiers(updates.tiers) : before.tiers,
+      };
+      store.incentiveRules = store.incentiveRules.map(rule => rule.id === id ? updated : rule);
+      recordAudit([
+        auditEntry('incentive_rule', 'update', { id, label: updated.name }, diffRecords(toAuditedRule(before), toAuditedRule(updated))),
+      ]);
+      return clone(updated);
+    });
+
+  const deleteIncentiveRule = (id: string) =>
+    run(false, 'Failed to delete incentive rule', () => {
+      requireCapability('incentives.edit_rules');
+      const before = toAuditedRule(findRule(id));
+      store.incentiveRules = store.incentiveRules.filter(rule => rule.id !== id);
+      recordAudit([auditEntry('incentive_rule', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      return true;
+    });
+
+  // Payout Ledger
+  const canReadPayout = (entry: PayoutEntry) =>
+    can('payouts.view') || can('payouts.approve') || entry.user_id === getDemoSessionUserId();
+
+  const toPayoutEntry = (entry: NewPayoutEntry): PayoutEntry => ({
+    ...entry,
+    id: newId(),
+    status: 'pending',
+    approved_at: null,
+    approved_by: null,
+    paid_at: null,
+    paid_by: null,
+    created_at: now(),
+  });
+
+  const fetchPayoutPeriods = () =>
+    run<PayoutPeriod[]>([], 'Failed to fetch payout periods', () =>
+      clone([...store.payoutPeriods].sort((a, b) => b.month.localeCompare(a.month)))
+    );
+
+  const fetchPayoutEntries = (periodId?: string) =>
+    run<PayoutEntry[]>([], 'Failed to fetch payout entries', () =>
+      clone(store.payoutEntries
+        .filter(entry => canReadPayout(entry) && (!periodId || entry.period_id === periodId))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)))
+    );
+
+  const closePayoutPeriod = (month: string, calculations: IncentiveCalculation[]) =>
+    run<{ period: PayoutPeriod; entries: PayoutEntry[] } | null>(null, 'Failed to close payout period', () => {
+      requireCapability('payouts.approve');
+      if (store.payoutPeriods.some(period => period.month === month)) {
+        throw new Error(`Payout period ${month} is already closed`);
+      }
+      const period: PayoutPeriod = {
+        id: newId(),
+        month,
+        status: 'closed',
+        closed_at: now(),
+        closed_by: getDemoSessionUserId(),
+        created_at: now(),
+      };
+      const entries = calculations.map(calculation => toPayoutEntry(toLedgerEntry(calculation, period.id)));
+      store.payoutPeriods.push(period);
+      store.payoutEntries.push(...entries);
+      recordAudit([
+        auditEntry('payout_period', 'create', { id: period.id, label: month }, diffRecords(null, period), {
+          entries: entries.length,
+        }),
+      ]);
+      return clone({ period, entries });
+    });
+
+  const addPayoutAdjustments = (adjustments: NewPayoutEntry[]) =>
+    run<PayoutEntry[]>([], 'Failed to add payout adjustments', () => {
+      requireCapability('payouts.approve');
+      const added = adjustments.map(toPayoutEntry);
+      store.payoutEntries.push(...added);
+      recordAudit(added.map(entry =>
+        auditEntry('payout_entry', 'create', { id: entry.id, label: entry.user_name }, diffRecords(null, entry))
+      ));
+      return clone(added);
+    });
+
+  const updatePayoutStatus = (ids: string[], status: PayoutStatus, actorId: string) =>
+    run<PayoutEntry[]>([], 'Failed to update payout status', () => {
+      requireCapability('payouts.approve');
+      const changedAt = now();
+      const updates = status === 'approved'
+        ? { status, approved_at: changedAt, approved_by: actorId }
+        : status === 'paid'
+          ? { status, paid_at: changedAt, paid_by: actorId }
+          : { status, approved_at: null, approved_by: null };
+
+      const updated: PayoutEntry[] = [];
+      store.payoutEntries = store.payoutEntries.map(entry => {
+        if (!ids.includes(entry.id)) return entry;
+        const next = { ...entry, ...updates };
+        recordAudit([auditEntry('payout_entry', 'update', { id: entry.id, label: entry.user_name }, diffRecords(entry, next))]);
+        updated.push(next);
+        return next;
+      });
+      return clone(updated);
+    });
+
+  // Files
+  // Attachments are kept as object URLs for the lifetime of the page
+  const storeAttachment = (fileId: string, version: number, attachment: File, uploadedBy: string | null): FileVersion => {
+    const storagePath = buildStoragePath(fileId, version, attachment.name);
+    store.fileObjects[storagePath] = URL.createObjectURL(attachment);
+    const fileVersion: FileVersion = {
+      id: newId(),
+      file_id: fileId,
+      version,
+      storage_path: storagePath,
+      file_name: attachment.name,
+      file_size: attachment.size,
+      mime_type: getMimeType(attachment),
+      uploaded_by: uploadedBy,
+      created_at: now(),
+    };
+    store.fileVersions.push(fileVersion);
+    return fileVersion;
+  };
+
+  const fetchFiles = () =>
+    run<FileData[]>([], 'Failed to fetch files', () =>
+      clone([...store.files].sort((a, b) =>
+        Number(b.is_pinned) - Number(a.is_pinned) || b.updated_at.localeCompare(a.updated_at)
+      ))
+    );
+
+  const addFile = (
+    file: Omit<FileData, 'id' | 'created_at' | 'updated_at' | 'storage_path' | 'file_size' | 'mime_type' | 'current_version'>,
+    attachment?: File
+  ) =>
+    run<FileData | null>(null, 'Failed to add file', () => {
+      requireCapability('files.manage');
+      const id = newId();
+      const fileVersion = attachment ? storeAttachment(id, 1, attachment, file.created_by) : null;
+      const created: FileData = {
+        ...file,
+        id,
+        storage_path: fileVersion?.storage_path ?? null,
+        file_size: fileVersion?.file_size ?? null,
+        mime_type: fileVersion?.mime_type ?? null,
+        current_version: fileVersion ? 1 : 0,
+        created_at: now(),
+        updated_at: now(),
+      };
+      store.files.push(created);
+      recordAudit([auditEntry('file', 'create', { id, label: created.name }, diffRecords(null, created))]);
+      return clone(created);
+    });
+
+  const updateFile = (id: string, updates: Partial<Omit<FileData, 'id' | 'created_at' | 'updated_at'>>) =>
+    run<FileData | null>(null, 'Failed to update file', () => {
+      requireCapability('files.manage');
+      const before = store.files.find(file => file.id === id);
+      if (!before) return null;
+      const updated = { ...before, ...updates, updated_at: now() };
+      store.files = store.files.map(file => file.id === id ? updated : file);
+      recordAudit([auditEntry('file', 'update', { id, label: updated.name }, diffRecords(before, updated))]);
+      return clone(updated);
+    });
+
+  const deleteFile = (id: string) =>
+    run(false, 'Failed to delete file', () => {
+      requireCapability('files.manage');
+      const before = store.files.find(file => file.id === id) || null;
+      store.fileVersions
+        .filter(version => version.file_id === id)
+        .forEach(version => {
+          URL.revokeObjectURL(store.fileObjects[version.storage_path]);
+          delete store.fileObjects[version.storage_path];
+        });
+      store.fileVersions = store.fileVersions.filter(version => version.file_id !== id);
+      store.files = store.files.filter(file => file.id !== id);
+      recordAudit([auditEntry('file', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      return true;
+    });
+
+  const replaceFileAttachment = (file: FileData, attachment: File, uploadedBy: string) =>
+    run<FileData | null>(null, 'Failed to replace file', () => {
+      requireCapability('files.manage');
+      const version = file.current_version + 1;
+      const fileVersion = storeAttachment(file.id, version, attachment, uploadedBy);
+      const updated: FileData = {
+        ...file,
+        storage_path: fileVersion.storage_path,
+        file_size: fileVersion.file_size,
+        mime_type: fileVersion.mime_type,
+        current_version: version,
+        updated_at: now(),
+      };
+      store.files = store.files.map(candidate => candidate.id === file.id ? updated : candidate);
+      recordAudit([auditEntry('file', 'update', { id: file.id, label: updated.name }, diffRecords(file, updated), {
+        file_name: attachment.name,
+      })]);
+      return clone(updated);
+    });
+
+  const fetchFileVersions = (fileId: string) =>
+    run<FileVersion[]>([], 'Failed to fetch file versions', () =>
+      clone(store.fileVersions
+        .filter(version => version.file_id === fileId)
+        .sort((a, b) => b.version - a.version))
+    );
+
+  // Object URLs need no signing; the download name is set by the caller's link
+  const createFileSignedUrl = async (storagePath: string): Promise<string | null> => {
+    setError(null);
+    const url = store.fileObjects[storagePath];
+    if (!url) {
+      setError('File not found');
+      return null;
+    }
+    return url;
+  };
+
+  // Audit Log
+  const fetchAuditLog = (query: AuditQuery, page: number, pageSize: number) =>
+    run({ data: [] as AuditLogEntry[], count: 0 }, 'Failed to fetch audit log', () => {
+      // Without audit.view, only the history of readable accounts is visible
+      const canReadEntry = (entry: AuditLogEntry) =>
+        can('audit.view') ||
+        (entry.entity_type === 'account' && store.accounts.some(account => account.id === entry.entity_id && canReadAccount(account)));
+      const startAt = query.startDate ? new Date(`${query.startDate}T00:00:00`).toISOString() : null;
+      const endAt = query.endDate ? new Date(`${query.endDate}T23:59:59.999`).toISOString() : null;
+      const entries = store.auditLog
+        .filter(entry =>
+          canReadEntry(entry) &&
+          (!query.entityType || entry.entity_type === query.entityType) &&
+          (!query.action || entry.action === query.action) &&
+          (!query.actorId || entry.actor_id === query.actorId) &&
+          (!query.entityId || entry.entity_id === query.entityId) &&
+          (!startAt || entry.created_at >= startAt) &&
+          (!endAt || entry.created_at <= endAt)
+        )
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return { data: clone(entries.slice(page * pageSize, (page + 1) * pageSize)), count: entries.length };
+    });
+
+  // Profile Management
+  const updateProfile = (userId: string, profileData: {
+    name?: string;
+    phone?: string;
+    address?: string;
+    bio?: string;
+  }) =>
+    run<User | null>(null, 'Failed to update profile', () => {
+      const beforeRow = store.users.find(user => user.id === userId);
+      if (!beforeRow) return null;
+      const row = { ...beforeRow, ...profileData };
+      store.users = store.users.map(user => user.id === userId ? row : user);
+      recordAudit([auditEntry('user', 'update', { id: userId, label: row.name }, diffRecords(beforeRow, row))]);
+      return withManagedAccounts(row);
+    });
+
+  const changePassword = () =>
+    run(false, 'Failed to change password', () => {
+      throw new Error('Demo accounts have no password to change');
+    });
+
+  // Kept from the first render like useSupabase's, so effects that depend on them don't rerun
+  const api = useRef({
+    // Categories
+    fetchCategories,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    // Accounts
+    fetchAccounts,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    // Sales Data
+    fetchSalesData,
+    fetchSalesDataPage,
+    fetchDailyTotals,
+    fetchAccountTotals,
+    fetchAccountPeriodTotals,
+    fetchAssignmentTotals,
+    fetchUserTotals,
+    addSalesData,
+    deleteSalesData,
+    // Upload Batches
+    fetchUploadBatches,
+    revertUploadBatch,
+    // Sales Anomalies
+    fetchAnomalyAcknowledgements,
+    acknowledgeAnomalies,
+    // Account Assignments
+    fetchAccountAssignments,
+    // Users
+    fetchUsers,
+    addUser,
+    inviteUser,
+    updateUser,
+    deleteUser,
+    // Role Capabilities
+    fetchRoleCapabilities,
+    setRoleCapability,
+    // Squads
+    fetchSquads,
+    addSquad,
+    updateSquad,
+    deleteSquad,
+    // Incentive Rules
+    fetchIncentiveRules,
+    addIncentiveRule,
+    updateIncentiveRule,
+    deleteIncentiveRule,
+    // Payout Ledger
+    fetchPayoutPeriods,
+    fetchPayoutEntries,
+    closePayoutPeriod,
+    addPayoutAdjustments,
+    updatePayoutStatus,
+    // Files
+    fetchFiles,
+    addFile,
+    updateFile,
+    deleteFile,
+    replaceFileAttachment,
+    fetchFileVersions,
+    createFileSignedUrl,
+    // Audit Log
+    fetchAuditLog,
+    // Profile
+    updateProfile,
+    changePassword,
+  }).current;
+
+  return { loading, error, ...api };
+};
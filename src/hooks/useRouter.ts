@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { AppLocation, LOCATION_CHANGE_EVENT, readLocation, setQueryParams } from '../lib/router';
+
+// The current path and query string, updated on navigation and on back/forward
+export const useLocation = (): AppLocation => {
+  const [location, setLocation] = useState(readLocation);
+
+  useEffect(() => {
+    const updateLocation = () => setLocation(readLocation());
+    window.addEventListener('popstate', updateLocation);
+    window.addEventListener(LOCATION_CHANGE_EVENT, updateLocation);
+    return () => {
+      window.removeEventListener('popstate', updateLocation);
+      window.removeEventListener(LOCATION_CHANGE_EVENT, updateLocation);
+    };
+  }, []);
+
+  return location;
+};
+
+// A query parameter used like state. The default value is left out of the URL.
+export const useQueryParam = (key: string, defaultValue: string): [string, (value: string) => void] => {
+  const { search } = useLocation();
+  const value = new URLSearchParams(search).get(key) ?? defaultValue;
+
+  const setValue = (next: string) => {
+    setQueryParams({ [key]: next === defaultValue ? null : next });
+  };
+
+  return [value, setValue];
+};
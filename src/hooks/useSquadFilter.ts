@@ -0,0 +1,89 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AccountAssignment, SalesQuery, Squad, User, UserSalesTotals } from '../types';
+import { useSupabase } from './useSupabase';
+import { useQueryParam } from './useRouter';
+import { getVisibleTeam, hasCapability, seesOtherAccounts } from '../lib/permissions';
+import { getSquadAccountIds, rollupSalesBySquad, SquadRollup } from '../lib/squads';
+
+interface SquadFilter {
+  // Whether the viewer sees more than their own accounts, so squads mean something to them
+  isAvailable: boolean;
+  squads: Squad[];
+  selectedSquad: string;
+  setSelectedSquad: (squadId: string) => void;
+  // The accounts of the selected squad's members in the range; undefined when no squad is selected
+  squadAccountIds?: string[];
+  rollups: SquadRollup[];
+}
+
+// The `squad` query parameter of the sales views, with the per-squad totals for the range
+export const useSquadFilter = (
+  currentUser: User | undefined,
+  range: Omit<SalesQuery, 'accountIds'>,
+  salesDataVersion: number
+): SquadFilter => {
+  const { fetchUsers, fetchSquads, fetchAccountAssignments, fetchUserTotals } = useSupabase();
+  const [selectedSquad, setSelectedSquad] = useQueryParam('squad', 'all');
+  const [users, setUsers] = useState<User[]>([]);
+  const [squads, setSquads] = useState<Squad[]>([]);
+  const [assignments, setAssignments] = useState<AccountAssignment[] | null>(null);
+  const [userTotals, setUserTotals] = useState<UserSalesTotals[]>([]);
+  const isAvailable = seesOtherAccounts(currentUser);
+  // Callers build the range on every render, so the effect follows its dates
+  const { startDate, endDate } = range;
+
+  useEffect(() => {
+    if (!isAvailable) return;
+    let isCurrent = true;
+    Promise.all([fetchUsers(), fetchSquads()]).then(([usersData, squadsData]) => {
+      if (!isCurrent) return;
+      setUsers(usersData ?? []);
+      setSquads(squadsData);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [isAvailable, fetchUsers, fetchSquads]);
+
+  useEffect(() => {
+    if (!isAvailable) return;
+    let isCurrent = true;
+    const loadRangeData = async () => {
+      const rangeQuery = { startDate, endDate };
+      const [assignmentsData, totals] = await Promise.all([
+        fetchAccountAssignments(rangeQuery),
+        fetchUserTotals(rangeQuery),
+      ]);
+      if (isCurrent) {
+        setAssignments(assignmentsData);
+        setUserTotals(totals);
+      }
+    };
+
+    loadRangeData();
+    return () => {
+      isCurrent = false;
+    };
+  }, [isAvailable, startDate, endDate, salesDataVersion, fetchAccountAssignments, fetchUserTotals]);
+
+  // Squad leaders only get the squads they lead to choose from
+  const visibleSquads = useMemo(
+    () => hasCapability(currentUser, 'accounts.view_all')
+      ? squads
+      : squads.filter(squad => squad.leader_id === currentUser?.id),
+    [currentUser, squads]
+  );
+
+  // Until the assignments arrive a selected squad matches no accounts rather than all of them
+  const squadAccountIds = useMemo(() => {
+    if (!isAvailable || selectedSquad === 'all') return undefined;
+    return assignments ? getSquadAccountIds(assignments, users, selectedSquad) : [];
+  }, [isAvailable, selectedSquad, assignments, users]);
+
+  const rollups = useMemo(() => {
+    if (!currentUser || !isAvailable) return [];
+    return rollupSalesBySquad(userTotals, getVisibleTeam(users, currentUser, squads), visibleSquads);
+  }, [currentUser, isAvailable, userTotals, users, squads, visibleSquads]);
+
+  return { isAvailable, squads: visibleSquads, selectedSquad, setSelectedSquad, squadAccountIds, rollups };
+};
@@ -1,11 +1,49 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { Account, Category, SalesData, User, IncentiveRule } from '../types';
+import { Account, Category, SalesData, SalesQuery, DailySalesTotals, AccountSalesTotals, AccountPeriodTotals, ChartBucket, AssignmentSalesTotals, UserSalesTotals, User, AccountAssignment, IncentiveRule, IncentiveTier, IncentiveCalculation, PayoutPeriod, PayoutEntry, PayoutStatus, UploadBatch, UploadMode, AnomalyAcknowledgement, AuditLogEntry, AuditQuery, FileData, FileVersion, RoleCapability, UserRole, Capability, Squad } from '../types';
+import { NewPayoutEntry, toLedgerEntry } from '../lib/payoutLedger';
+import { auditEntry, diffRecords, NewAuditEntry, toAssignmentAuditEntry, toAuditedRule } from '../lib/auditLog';
+import { getAssignedAccountIds } from '../lib/accountAssignments';
+import { NewAnomalyAcknowledgement } from '../lib/anomalies';
+import { roleLabels, withCapabilities } from '../lib/permissions';
+import { toDateString } from '../lib/salesQuery';
+import { buildStoragePath, FILE_BUCKET, getMimeType, SIGNED_URL_TTL_SECONDS } from '../lib/fileStorage';
+import { isDemoMode } from '../lib/demoMode';
+import { useDemoData } from './useDemoData';
 
-export const useSupabase = () => {
+const useSupabaseClient = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Audit trail
+  // Entries are written after a mutation succeeded. A failed audit write never fails the
+  // mutation, which has already been committed by then, but it is reported through `error`.
+  const recordAudit = async (entries: NewAuditEntry[]) => {
+    const meaningful = entries.filter(entry => entry.action !== 'update' || Object.keys(entry.changes).length > 0);
+    if (meaningful.length === 0) return;
+    
+    const { error } = await supabase
+      .from('audit_log')
+      .insert(meaningful);
+    
+    if (error) {
+      console.error('Failed to write audit log:', error);
+      setError(`The change was saved, but its audit log entry could not be written: ${error.message}`);
+    }
+  };
+
+  // Reads a row as it is before an update or delete, for the audit diff
+  const fetchRecord = async (table: string, id: string) => {
+    const { data } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    return data;
+  };
+
   // Categories
   const fetchCategories = async (): Promise<Category[]> => {
     setLoading(true);
@@ -41,6 +79,10 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
+      if (data) {
+        await recordAudit([auditEntry('category', 'create', { id: data.id, label: data.name }, diffRecords(null, data))]);
+      }
+      
       return data;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add category');
@@ -55,6 +97,7 @@ export const useSupabase = () => {
     setError(null);
     
     try {
+      const before = await fetchRecord('categories', id);
       const { data, error } = await supabase
         .from('categories')
         .update(updates)
@@ -64,6 +107,10 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
+      if (data) {
+        await recordAudit([auditEntry('category', 'update', { id, label: data.name }, diffRecords(before, data))]);
+      }
+      
       return data;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update category');
@@ -78,6 +125,7 @@ export const useSupabase = () => {
     setError(null);
     
     try {
+      const before = await fetchRecord('categories', id);
       const { error } = await supabase
         .from('categories')
         .delete()
@@ -85,6 +133,8 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
+      await recordAudit([auditEntry('category', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      
       return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete category');
@@ -135,6 +185,10 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
+      if (data) {
+        await recordAudit([auditEntry('account', 'create', { id: data.id, label: data.username }, diffRecords(null, data))]);
+      }
+      
       return data;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add account');
@@ -149,6 +203,7 @@ export const useSupabase = () => {
     setError(null);
     
     try {
+      const before = await fetchRecord('accounts', id);
       const { data, error } = await supabase
         .from('accounts')
         .update(updates)
@@ -158,6 +213,10 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
+      if (data) {
+        await recordAudit([auditEntry('account', 'update', { id, label: data.username }, diffRecords(before, data))]);
+      }
+      
       return data;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update account');
@@ -172,6 +231,7 @@ export const useSupabase = () => {
     setError(null);
     
     try {
+      const before = await fetchRecord('accounts', id);
       const { error } = await supabase
         .from('accounts')
         .delete()
@@ -179,6 +239,8 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
+      await recordAudit([auditEntry('account', 'delete', { id, label: before?.username }, diffRecords(before, null))]);
+      
       return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete account');
@@ -189,43 +251,233 @@ export const useSupabase = () => {
   };
 
   // Sales Data
-  const fetchSalesData = async (): Promise<SalesData[]> => {
+  // PostgREST caps responses at 1000 rows, so larger ranges are read page by page
+  const SALES_PAGE_SIZE = 1000;
+
+  const buildSalesQuery = (query: SalesQuery, options?: { count?: 'exact' }) => {
+    let builder = supabase
+      .from('sales_data')
+      .select('*', options)
+      .order('date', { ascending: false })
+      .order('account_id');
+    
+    if (query.startDate) {
+      builder = builder.gte('date', query.startDate);
+    }
+    if (query.endDate) {
+      builder = builder.lte('date', query.endDate);
+    }
+    if (query.accountIds) {
+      builder = builder.in('account_id', query.accountIds);
+    }
+    
+    return builder;
+  };
+
+  const toRpcArgs = (query: SalesQuery) => ({
+    p_start_date: query.startDate || null,
+    p_end_date: query.endDate || null,
+    p_account_ids: query.accountIds ?? null,
+  });
+
+  // Resolves to null when the fetch fails, so callers can tell a failure from an empty range
+  const fetchSalesData = async (query: SalesQuery = {}): Promise<SalesData[] | null> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error } = await supabase
-        .from('sales_data')
-        .select('*')
-        .order('date', { ascending: false });
+      const rows: SalesData[] = [];
+      for (let from = 0; ; from += SALES_PAGE_SIZE) {
+        const { data, error } = await buildSalesQuery(query)
+          .range(from, from + SALES_PAGE_SIZE - 1);
+        
+        if (error) throw error;
+        
+        rows.push(...(data || []));
+        if (!data || data.length < SALES_PAGE_SIZE) break;
+      }
+      
+      return rows;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sales data');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSalesDataPage = async (
+    query: SalesQuery,
+    page: number,
+    pageSize: number
+  ): Promise<{ data: SalesData[]; count: number }> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const from = page * pageSize;
+      const { data, error, count } = await buildSalesQuery(query, { count: 'exact' })
+        .range(from, from + pageSize - 1);
       
       if (error) throw error;
       
-      return data || [];
+      return { data: data || [], count: count || 0 };
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch sales data');
+      return { data: [], count: 0 };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDailyTotals = async (query: SalesQuery = {}): Promise<DailySalesTotals[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.rpc('sales_daily_totals', toRpcArgs(query));
+      
+      if (error) throw error;
+      
+      return data || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch daily totals');
       return [];
     } finally {
       setLoading(false);
     }
   };
 
-  const addSalesData = async (salesData: Omit<SalesData, 'id' | 'created_at'>[]): Promise<SalesData[]> => {
+  const fetchAccountTotals = async (query: SalesQuery = {}): Promise<AccountSalesTotals[]> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error } = await supabase
-        .from('sales_data')
-        .upsert(salesData, { 
-          onConflict: 'account_id,date',
-          ignoreDuplicates: false 
-        })
-        .select();
+      // One row per account; coverage reads them for every account in view
+      const rows: AccountSalesTotals[] = [];
+      for (let from = 0; ; from += SALES_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .rpc('sales_account_totals', toRpcArgs(query))
+          .order('account_id')
+          .range(from, from + SALES_PAGE_SIZE - 1);
+        
+        if (error) throw error;
+        
+        rows.push(...(data || []));
+        if (!data || data.length < SALES_PAGE_SIZE) break;
+      }
+      
+      return rows;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch account totals');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAccountPeriodTotals = async (query: SalesQuery = {}, bucket: ChartBucket = 'day'): Promise<AccountPeriodTotals[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      // One row per account and period, so a long range of days can pass the row cap
+      const rows: AccountPeriodTotals[] = [];
+      for (let from = 0; ; from += SALES_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .rpc('sales_account_period_totals', { ...toRpcArgs(query), p_bucket: bucket })
+          .order('period')
+          .order('account_id')
+          .range(from, from + SALES_PAGE_SIZE - 1);
+        
+        if (error) throw error;
+        
+        rows.push(...(data || []));
+        if (!data || data.length < SALES_PAGE_SIZE) break;
+      }
+      
+      return rows;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch account period totals');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Per account and owner, each day credited to whoever managed the account that day.
+  // Resolves to null when the fetch fails, so payouts are never worked out from missing totals.
+  const fetchAssignmentTotals = async (query: SalesQuery = {}): Promise<AssignmentSalesTotals[] | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.rpc('sales_assignment_totals', toRpcArgs(query));
+      
+      if (error) throw error;
+      
+      return data || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch assignment totals');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUserTotals = async (query: Omit<SalesQuery, 'accountIds'> = {}): Promise<UserSalesTotals[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.rpc('sales_user_totals', {
+        p_start_date: query.startDate || null,
+        p_end_date: query.endDate || null,
+      });
       
       if (error) throw error;
       
       return data || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch user totals');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toBatchMetadata = (batch: UploadBatch) => ({
+    batch_id: batch.id,
+    file_name: batch.file_name,
+    mode: batch.mode,
+    row_count: batch.row_count,
+    start_date: batch.start_date,
+    end_date: batch.end_date,
+  });
+
+  // Every upload is recorded as one batch per account so it can be reverted later
+  const addSalesData = async (
+    salesData: Omit<SalesData, 'id' | 'created_at' | 'batch_id'>[],
+    source: { fileName: string; mode?: UploadMode }
+  ): Promise<UploadBatch[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.rpc('import_sales_batches', {
+        p_file_name: source.fileName,
+        p_mode: source.mode || 'overwrite',
+        p_rows: salesData,
+      });
+      
+      if (error) throw error;
+      
+      const batches: UploadBatch[] = data || [];
+      await recordAudit(batches.map(batch =>
+        auditEntry('sales_data', 'import', { id: batch.account_id }, {}, toBatchMetadata(batch))
+      ));
+      
+      return batches;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add sales data');
       return [];
@@ -241,7 +493,7 @@ export const useSupabase = () => {
     try {
       let query = supabase
         .from('sales_data')
-        .delete()
+        .delete({ count: 'exact' })
         .eq('account_id', accountId);
       
       if (dateRange) {
@@ -250,10 +502,15 @@ export const useSupabase = () => {
           .lte('date', dateRange.end);
       }
       
-      const { error } = await query;
+      const { error, count } = await query;
       
       if (error) throw error;
       
+      await recordAudit([auditEntry('sales_data', 'delete', { id: accountId }, {}, {
+        date_range: dateRange ?? null,
+        deleted_rows: count ?? 0,
+      })]);
+      
       return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete sales data');
@@ -263,167 +520,635 @@ export const useSupabase = () => {
     }
   };
 
-  // Users
-  const fetchUsers = async (): Promise<User[]> => {
+  // Upload Batches
+  // One page of batches, newest first; null when the fetch fails, so an error isn't shown as no uploads
+  const fetchUploadBatches = async (
+    accountIds: string[] | undefined,
+    page: number,
+    pageSize: number
+  ): Promise<{ data: UploadBatch[]; count: number } | null> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .order('created_at', { ascending: false });
+      let query = supabase
+        .from('upload_batches')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .order('id');
+      
+      if (accountIds) {
+        query = query.in('account_id', accountIds);
+      }
+      
+      const from = page * pageSize;
+      const { data, error, count } = await query.range(from, from + pageSize - 1);
       
       if (error) throw error;
       
-      return data || [];
+      return { data: data || [], count: count || 0 };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch users');
-      return [];
+      setError(err instanceof Error ? err.message : 'Failed to fetch upload history');
+      return null;
     } finally {
       setLoading(false);
     }
   };
 
-  const addUser = async (user: Omit<User, 'id' | 'created_at'>): Promise<User | null> => {
+  const revertUploadBatch = async (batchId: string): Promise<UploadBatch | null> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .insert([user])
-        .select()
-        .maybeSingle();
+      const { data, error } = await supabase.rpc('revert_upload_batch', {
+        p_batch_id: batchId,
+      });
       
       if (error) throw error;
       
+      if (data) {
+        await recordAudit([auditEntry('sales_data', 'revert', { id: data.account_id }, {}, toBatchMetadata(data))]);
+      }
+      
       return data;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add user');
+      setError(err instanceof Error ? err.message : 'Failed to revert upload');
       return null;
     } finally {
       setLoading(false);
     }
   };
 
-  const updateUser = async (id: string, updates: Partial<User>): Promise<User | null> => {
+  // Sales Anomalies
+  // Resolves to null when the fetch fails, so confirmed rows aren't shown as open again
+  const fetchAnomalyAcknowledgements = async (query: SalesQuery = {}): Promise<AnomalyAcknowledgement[] | null> => {
     setLoading(true);
     setError(null);
     
     try {
-      // For superadmin operations, we need to ensure proper permissions
-      const { data: currentUser } = await supabase.auth.getUser();
+      let builder = supabase
+        .from('sales_anomaly_acknowledgements')
+        .select('*')
+        .order('created_at', { ascending: false });
       
-      const { data, error } = await supabase
-        .from('users')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .maybeSingle();
+      if (query.startDate) {
+        builder = builder.gte('date', query.startDate);
+      }
+      if (query.endDate) {
+        builder = builder.lte('date', query.endDate);
+      }
+      if (query.accountIds) {
+        builder = builder.in('account_id', query.accountIds);
+      }
+      
+      const { data, error } = await builder;
       
       if (error) throw error;
       
-      return data;
+      return data || [];
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update user');
+      setError(err instanceof Error ? err.message : 'Failed to fetch anomaly acknowledgements');
       return null;
     } finally {
       setLoading(false);
     }
   };
 
-  const deleteUser = async (id: string): Promise<boolean> => {
+  // Rows acknowledged before with the same values are left as they are
+  const acknowledgeAnomalies = async (acknowledgements: NewAnomalyAcknowledgement[]): Promise<AnomalyAcknowledgement[]> => {
+    if (acknowledgements.length === 0) return [];
     setLoading(true);
     setError(null);
     
     try {
-      const { error } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', id);
+      const { data, error } = await supabase
+        .from('sales_anomaly_acknowledgements')
+        .upsert(acknowledgements, { onConflict: 'account_id,date,fingerprint', ignoreDuplicates: true })
+        .select();
       
       if (error) throw error;
       
-      return true;
+      const created: AnomalyAcknowledgement[] = data || [];
+      await recordAudit(created.map(acknowledgement =>
+        auditEntry('anomaly_acknowledgement', 'create', { id: acknowledgement.id, label: acknowledgement.date }, diffRecords(null, acknowledgement))
+      ));
+      
+      return created;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete user');
-      return false;
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge anomalies');
+      return [];
     } finally {
       setLoading(false);
     }
   };
 
-  // Incentive Rules
-  const fetchIncentiveRules = async (): Promise<IncentiveRule[]> => {
+  // Account Assignments
+  // Assignments running today, for filling in `User.managed_accounts`
+  const fetchCurrentAssignments = async (userIds?: string[]): Promise<AccountAssignment[]> => {
+    let query = supabase
+      .from('current_account_assignments')
+      .select('*');
+    
+    if (userIds) {
+      query = query.in('user_id', userIds);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) throw error;
+    
+    return data || [];
+  };
+
+  const withManagedAccounts = <T extends { id: string }>(users: T[], assignments: AccountAssignment[]) =>
+    users.map(user => ({ ...user, managed_accounts: getAssignedAccountIds(assignments, user.id) }));
+
+  // Throws so the user mutations report a failed reassignment
+  const assignAccounts = async (user: { id: string; name: string }, accountIds: string[], effectiveFrom?: string) => {
+    const from = effectiveFrom || toDateString(new Date());
+    
+    // What the user and the listed accounts have now, for the audit entry
+    let currentQuery = supabase
+      .from('current_account_assignments')
+      .select('*');
+    currentQuery = accountIds.length > 0
+      ? currentQuery.or(`user_id.eq.${user.id},account_id.in.(${accountIds.join(',')})`)
+      : currentQuery.eq('user_id', user.id);
+    const { data: current, error: currentError } = await currentQuery;
+    
+    if (currentError) throw currentError;
+    
+    const { error } = await supabase.rpc('assign_accounts', {
+      p_user_id: user.id,
+      p_account_ids: accountIds,
+      p_effective_from: from,
+    });
+    
+    if (error) throw error;
+    
+    await recordAudit([toAssignmentAuditEntry(user, current || [], accountIds, from)]);
+  };
+
+  // Assignments overlapping the date range, optionally limited to some accounts; null when the fetch fails
+  const fetchAccountAssignments = async (query: SalesQuery = {}): Promise<AccountAssignment[] | null> => {
     setLoading(true);
     setError(null);
     
     try {
-      const { data: rulesData, error: rulesError } = await supabase
-        .from('incentive_rules')
+      let request = supabase
+        .from('account_assignments')
         .select('*')
-        .order('created_at', { ascending: false });
+        .order('effective_from');
       
-      if (rulesError) throw rulesError;
+      if (query.endDate) {
+        request = request.lte('effective_from', query.endDate);
+      }
       
-      const { data: tiersData, error: tiersError } = await supabase
-        .from('incentive_tiers')
-        .select('*')
-        .order('revenue_threshold');
+      if (query.startDate) {
+        request = request.or(`effective_to.is.null,effective_to.gte.${query.startDate}`);
+      }
       
-      if (tiersError) throw tiersError;
+      if (query.accountIds) {
+        request = request.in('account_id', query.accountIds);
+      }
       
-      // Combine rules with their tiers
-      const rules: IncentiveRule[] = (rulesData || []).map(rule => ({
-        ...rule,
-        tiers: (tiersData || [])
-          .filter(tier => tier.rule_id === rule.id)
-          .map(tier => ({
-            id: tier.id,
-            revenue_threshold: tier.revenue_threshold,
-            incentive_rate: tier.incentive_rate,
-            created_at: tier.created_at,
-          }))
-      }));
+      const { data, error } = await request;
       
-      return rules;
+      if (error) throw error;
+      
+      return data || [];
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch incentive rules');
-      return [];
+      setError(err instanceof Error ? err.message : 'Failed to fetch account assignments');
+      return null;
     } finally {
       setLoading(false);
     }
   };
 
-  const addIncentiveRule = async (rule: Omit<IncentiveRule, 'id' | 'created_at'>): Promise<IncentiveRule | null> => {
+  // Users
+  // Resolves to null when the fetch fails, so callers can tell a failure from an empty team
+  const fetchUsers = async (): Promise<User[] | null> => {
     setLoading(true);
     setError(null);
     
     try {
-      // Insert the rule first
-      const { data: ruleData, error: ruleError } = await supabase
-        .from('incentive_rules')
-        .insert([{
-          name: rule.name,
-          description: rule.description,
-          min_commission_threshold: rule.min_commission_threshold,
-          commission_rate_min: rule.commission_rate_min,
-          commission_rate_max: rule.commission_rate_max,
-          base_revenue_threshold: rule.base_revenue_threshold,
-          is_active: rule.is_active,
-        }])
-        .select()
-        .maybeSingle();
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .order('created_at', { ascending: false });
       
-      if (ruleError) throw ruleError;
+      if (error) throw error;
       
-      // Insert the tiers
-      if (rule.tiers && rule.tiers.length > 0) {
-        const tiersToInsert = rule.tiers.map(tier => ({
-          rule_id: ruleData.id,
-          revenue_threshold: tier.revenue_threshold,
-          incentive_rate: tier.incentive_rate,
+      const users = withManagedAccounts(data || [], await fetchCurrentAssignments());
+      return withCapabilities(users, await queryRoleCapabilities());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch users');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // `managed_accounts` is written to account_assignments, starting at `effectiveFrom` (default today)
+  const addUser = async (user: Omit<User, 'id' | 'created_at'> & { id?: string }, effectiveFrom?: string): Promise<User | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { managed_accounts, ...userRow } = user;
+      const { data, error } = await supabase
+        .from('users')
+        .insert([userRow])
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      if (!data) return null;
+      
+      if (managed_accounts.length > 0) {
+        await assignAccounts(data, managed_accounts, effectiveFrom);
+      }
+      
+      const [created] = withManagedAccounts([data], await fetchCurrentAssignments([data.id]));
+      await recordAudit([auditEntry('user', 'create', { id: data.id, label: data.name }, diffRecords(null, created), {
+        effective_from: effectiveFrom ?? null,
+      })]);
+      
+      return created;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add user');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Auth accounts can only be created and removed with the service role, by the admin-users edge function
+  const invokeAdminUsers = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('admin-users', { body });
+    
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    if (error) throw error;
+    
+    return data;
+  };
+
+  // Emails an invitation; the invitee sets their own password from the link
+  const inviteUser = async (user: Omit<User, 'id' | 'created_at'>, effectiveFrom?: string): Promise<User | null> => {
+    setLoading(true);
+    setError(null);
+    
+    let userId: string;
+    try {
+      const data = await invokeAdminUsers({
+        action: 'invite',
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        redirect_to: window.location.origin,
+      });
+      userId = data.user_id;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to invite user');
+      setLoading(false);
+      return null;
+    }
+    
+    const created = await addUser({ ...user, id: userId }, effectiveFrom);
+    if (!created) {
+      // Without a users row the invitation leads nowhere, so remove the auth account again
+      try {
+        await invokeAdminUsers({ action: 'delete', user_id: userId });
+      } catch (cleanupError) {
+        console.warn('Could not clean up invited auth user:', cleanupError);
+      }
+    }
+    
+    return created;
+  };
+
+  // A changed `managed_accounts` list reassigns accounts from `effectiveFrom` (default today)
+  const updateUser = async (id: string, updates: Partial<User>, effectiveFrom?: string): Promise<User | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      // For superadmin operations, we need to ensure proper permissions
+      const { data: currentUser } = await supabase.auth.getUser();
+      
+      const beforeRow = await fetchRecord('users', id);
+      const before = beforeRow && withManagedAccounts([beforeRow], await fetchCurrentAssignments([id]))[0];
+      const { managed_accounts, ...userUpdates } = updates;
+      const { data, error } = await supabase
+        .from('users')
+        .update(userUpdates)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      if (!data) return null;
+      
+      if (managed_accounts) {
+        await assignAccounts(data, managed_accounts, effectiveFrom);
+      }
+      
+      const [updated] = withManagedAccounts([data], await fetchCurrentAssignments([id]));
+      await recordAudit([auditEntry('user', 'update', { id, label: data.name }, diffRecords(before, updated), {
+        effective_from: managed_accounts ? effectiveFrom ?? null : null,
+      })]);
+      
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update user');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteUser = async (id: string): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const before = await fetchRecord('users', id);
+      const { error } = await supabase
+        .from('users')
+        .delete()
+        .eq('id', id);
+      
+      if (error) throw error;
+      
+      await recordAudit([auditEntry('user', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      
+      // The users row is gone either way; a leftover auth account can't sign in to anything
+      try {
+        await invokeAdminUsers({ action: 'delete', user_id: id });
+      } catch (authError) {
+        console.warn('Could not delete auth user:', authError);
+      }
+      
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete user');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Role Capabilities
+  // Throws, so fetchUsers can attach capabilities in the same request
+  const queryRoleCapabilities = async (): Promise<RoleCapability[]> => {
+    const { data, error } = await supabase
+      .from('role_capabilities')
+      .select('*')
+      .order('role');
+    
+    if (error) throw error;
+    
+    return data || [];
+  };
+
+  const fetchRoleCapabilities = async (): Promise<RoleCapability[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      return await queryRoleCapabilities();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch role permissions');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Grants or revokes one capability; superadmins have every capability and have no rows
+  const setRoleCapability = async (role: UserRole, capability: Capability, enabled: boolean): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const row = { role, capability };
+      const { error } = enabled
+        ? await supabase.from('role_capabilities').upsert([row], { ignoreDuplicates: true })
+        : await supabase.from('role_capabilities').delete().eq('role', role).eq('capability', capability);
+      
+      if (error) throw error;
+      
+      await recordAudit([auditEntry(
+        'role_capability',
+        enabled ? 'create' : 'delete',
+        { id: `${role}:${capability}`, label: `${roleLabels[role]}: ${capability}` },
+        diffRecords(enabled ? null : row, enabled ? row : null)
+      )]);
+      
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update role permissions');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Squads
+  const fetchSquads = async (): Promise<Squad[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase
+        .from('squads')
+        .select('*')
+        .order('name');
+      
+      if (error) throw error;
+      
+      return data || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch squads');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addSquad = async (squad: Omit<Squad, 'id' | 'created_at'>): Promise<Squad | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase
+        .from('squads')
+        .insert([squad])
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      
+      if (data) {
+        await recordAudit([auditEntry('squad', 'create', { id: data.id, label: data.name }, diffRecords(null, data))]);
+      }
+      
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add squad');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSquad = async (id: string, updates: Partial<Squad>): Promise<Squad | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const before = await fetchRecord('squads', id);
+      const { data, error } = await supabase
+        .from('squads')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      
+      if (data) {
+        await recordAudit([auditEntry('squad', 'update', { id, label: data.name }, diffRecords(before, data))]);
+      }
+      
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update squad');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Members stay, without a squad; rules scoped to the squad are deleted with it
+  const deleteSquad = async (id: string): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const before = await fetchRecord('squads', id);
+      const { error } = await supabase
+        .from('squads')
+        .delete()
+        .eq('id', id);
+      
+      if (error) throw error;
+      
+      await recordAudit([auditEntry('squad', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete squad');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Incentive Rules
+  const fetchIncentiveRules = async (): Promise<IncentiveRule[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data: rulesData, error: rulesError } = await supabase
+        .from('incentive_rules')
+        .select('*')
+        .order('created_at', { ascending: false });
+      
+      if (rulesError) throw rulesError;
+      
+      const { data: tiersData, error: tiersError } = await supabase
+        .from('incentive_tiers')
+        .select('*')
+        .order('revenue_threshold');
+      
+      if (tiersError) throw tiersError;
+      
+      // Combine rules with their tiers
+      const rules: IncentiveRule[] = (rulesData || []).map(rule => ({
+        ...rule,
+        tiers: (tiersData || [])
+          .filter(tier => tier.rule_id === rule.id)
+          .map(tier => ({
+            id: tier.id,
+            revenue_threshold: tier.revenue_threshold,
+            incentive_rate: tier.incentive_rate,
+            created_at: tier.created_at,
+          }))
+      }));
+      
+      return rules;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch incentive rules');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Rule and tiers as one record, so a tier edit shows up in the audit diff
+  const fetchRuleSnapshot = async (id: string) => {
+    const { data: ruleData } = await supabase
+      .from('incentive_rules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (!ruleData) return null;
+    
+    const { data: tiersData } = await supabase
+      .from('incentive_tiers')
+      .select('*')
+      .eq('rule_id', id);
+    
+    return toAuditedRule({ ...ruleData, tiers: tiersData || [] });
+  };
+
+  const addIncentiveRule = async (rule: Omit<IncentiveRule, 'id' | 'created_at'>): Promise<IncentiveRule | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      // Insert the rule first
+      const { data: ruleData, error: ruleError } = await supabase
+        .from('incentive_rules')
+        .insert([{
+          name: rule.name,
+          description: rule.description,
+          min_commission_threshold: rule.min_commission_threshold,
+          commission_rate_min: rule.commission_rate_min,
+          commission_rate_max: rule.commission_rate_max,
+          base_revenue_threshold: rule.base_revenue_threshold,
+          payout_mode: rule.payout_mode,
+          is_active: rule.is_active,
+          squad_id: rule.squad_id ?? null,
+        }])
+        .select()
+        .maybeSingle();
+      
+      if (ruleError) throw ruleError;
+      
+      // Insert the tiers
+      let tiers: IncentiveTier[] = [];
+      if (rule.tiers && rule.tiers.length > 0) {
+        const tiersToInsert = rule.tiers.map(tier => ({
+          rule_id: ruleData.id,
+          revenue_threshold: tier.revenue_threshold,
+          incentive_rate: tier.incentive_rate,
         }));
         
         const { data: tiersData, error: tiersError } = await supabase
@@ -433,130 +1158,607 @@ export const useSupabase = () => {
         
         if (tiersError) throw tiersError;
         
-        // Return the complete rule with tiers
-        return {
-          ...ruleData,
-          tiers: (tiersData || []).map(tier => ({
-            id: tier.id,
+        tiers = (tiersData || []).map(tier => ({
+          id: tier.id,
+          revenue_threshold: tier.revenue_threshold,
+          incentive_rate: tier.incentive_rate,
+          created_at: tier.created_at,
+        }));
+      }
+      
+      // Return the complete rule with tiers
+      const created: IncentiveRule = { ...ruleData, tiers };
+      await recordAudit([
+        auditEntry('incentive_rule', 'create', { id: created.id, label: created.name }, diffRecords(null, toAuditedRule(created))),
+      ]);
+      
+      return created;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add incentive rule');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateIncentiveRule = async (id: string, updates: Partial<IncentiveRule>): Promise<IncentiveRule | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const before = await fetchRuleSnapshot(id);
+      
+      // Update the rule
+      const { data: ruleData, error: ruleError } = await supabase
+        .from('incentive_rules')
+        .update({
+          name: updates.name,
+          description: updates.description,
+          min_commission_threshold: updates.min_commission_threshold,
+          commission_rate_min: updates.commission_rate_min,
+          commission_rate_max: updates.commission_rate_max,
+          base_revenue_threshold: updates.base_revenue_threshold,
+          payout_mode: updates.payout_mode,
+          is_active: updates.is_active,
+          squad_id: updates.squad_id,
+        })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      
+      if (ruleError) throw ruleError;
+      
+      // Update tiers if provided
+      if (updates.tiers) {
+        // Delete existing tiers
+        await supabase
+          .from('incentive_tiers')
+          .delete()
+          .eq('rule_id', id);
+        
+        // Insert new tiers
+        if (updates.tiers.length > 0) {
+          const tiersToInsert = updates.tiers.map(tier => ({
+            rule_id: id,
             revenue_threshold: tier.revenue_threshold,
             incentive_rate: tier.incentive_rate,
-            created_at: tier.created_at,
-          }))
-        };
+          }));
+          
+          const { error: tiersError } = await supabase
+            .from('incentive_tiers')
+            .insert(tiersToInsert);
+          
+          if (tiersError) throw tiersError;
+        }
+      }
+      
+      // Read the tiers back, whether they were replaced or left as they were
+      const { data: tiersData } = await supabase
+        .from('incentive_tiers')
+        .select('*')
+        .eq('rule_id', id)
+        .order('revenue_threshold');
+      
+      const updated: IncentiveRule = {
+        ...ruleData,
+        tiers: (tiersData || []).map(tier => ({
+          id: tier.id,
+          revenue_threshold: tier.revenue_threshold,
+          incentive_rate: tier.incentive_rate,
+          created_at: tier.created_at,
+        }))
+      };
+      
+      await recordAudit([
+        auditEntry('incentive_rule', 'update', { id, label: updated.name }, diffRecords(before, toAuditedRule(updated))),
+      ]);
+      
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update incentive rule');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteIncentiveRule = async (id: string): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const before = await fetchRuleSnapshot(id);
+      const { error } = await supabase
+        .from('incentive_rules')
+        .delete()
+        .eq('id', id);
+      
+      if (error) throw error;
+      
+      await recordAudit([auditEntry('incentive_rule', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete incentive rule');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Payout Ledger
+  const fetchPayoutPeriods = async (): Promise<PayoutPeriod[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase
+        .from('payout_periods')
+        .select('*')
+        .order('month', { ascending: false });
+      
+      if (error) throw error;
+      
+      return data || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch payout periods');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPayoutEntries = async (periodId?: string): Promise<PayoutEntry[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      let query = supabase
+        .from('payout_entries')
+        .select('*')
+        .order('created_at');
+      
+      if (periodId) {
+        query = query.eq('period_id', periodId);
       }
       
-      return { ...ruleData, tiers: [] };
+      const { data, error } = await query;
+      
+      if (error) throw error;
+      
+      return data || [];
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add incentive rule');
+      setError(err instanceof Error ? err.message : 'Failed to fetch payout entries');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // One RPC creates the period and its snapshot entries, so a failed snapshot never leaves the month closed
+  const closePayoutPeriod = async (
+    month: string,
+    calculations: IncentiveCalculation[]
+  ): Promise<{ period: PayoutPeriod; entries: PayoutEntry[] } | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data: periodData, error: periodError } = await supabase.rpc('close_payout_period', {
+        p_month: month,
+        // The RPC links the entries to the period it creates
+        p_entries: calculations.map(calculation => toLedgerEntry(calculation, '')),
+      });
+      
+      if (periodError) throw periodError;
+      if (!periodData) throw new Error('Failed to create payout period');
+      
+      const { data: entriesData, error: entriesError } = await supabase
+        .from('payout_entries')
+        .select('*')
+        .eq('period_id', periodData.id);
+      
+      if (entriesError) throw entriesError;
+      
+      await recordAudit([
+        auditEntry('payout_period', 'create', { id: periodData.id, label: month }, diffRecords(null, periodData), {
+          entries: entriesData?.length || 0,
+        }),
+      ]);
+      
+      return { period: periodData, entries: entriesData || [] };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close payout period');
       return null;
     } finally {
       setLoading(false);
     }
   };
 
-  const updateIncentiveRule = async (id: string, updates: Partial<IncentiveRule>): Promise<IncentiveRule | null> => {
+  const addPayoutAdjustments = async (adjustments: NewPayoutEntry[]): Promise<PayoutEntry[]> => {
     setLoading(true);
     setError(null);
     
     try {
-      // Update the rule
-      const { data: ruleData, error: ruleError } = await supabase
-        .from('incentive_rules')
-        .update({
-          name: updates.name,
-          description: updates.description,
-          min_commission_threshold: updates.min_commission_threshold,
-          commission_rate_min: updates.commission_rate_min,
-          commission_rate_max: updates.commission_rate_max,
-          base_revenue_threshold: updates.base_revenue_threshold,
-          is_active: updates.is_active,
-        })
-        .eq('id', id)
+      const { data, error } = await supabase
+        .from('payout_entries')
+        .insert(adjustments)
+        .select();
+      
+      if (error) throw error;
+      
+      const added: PayoutEntry[] = data || [];
+      await recordAudit(added.map(entry =>
+        auditEntry('payout_entry', 'create', { id: entry.id, label: entry.user_name }, diffRecords(null, entry))
+      ));
+      
+      return added;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add payout adjustments');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updatePayoutStatus = async (ids: string[], status: PayoutStatus, actorId: string): Promise<PayoutEntry[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const now = new Date().toISOString();
+      const updates = status === 'approved'
+        ? { status, approved_at: now, approved_by: actorId }
+        : status === 'paid'
+          ? { status, paid_at: now, paid_by: actorId }
+          : { status, approved_at: null, approved_by: null };
+      
+      const { data: beforeData } = await supabase
+        .from('payout_entries')
+        .select('*')
+        .in('id', ids);
+      
+      const { data, error } = await supabase
+        .from('payout_entries')
+        .update(updates)
+        .in('id', ids)
+        .select();
+      
+      if (error) throw error;
+      
+      const updated: PayoutEntry[] = data || [];
+      await recordAudit(updated.map(entry => auditEntry(
+        'payout_entry',
+        'update',
+        { id: entry.id, label: entry.user_name },
+        diffRecords((beforeData || []).find(before => before.id === entry.id) || null, entry)
+      )));
+      
+      return updated;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update payout status');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Files
+  const fetchFiles = async (): Promise<FileData[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase
+        .from('files')
+        .select('*')
+        .order('is_pinned', { ascending: false })
+        .order('updated_at', { ascending: false });
+      
+      if (error) throw error;
+      
+      return data || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch files');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Uploads one version of an attachment. The object is removed again when its
+  // version row cannot be written, so Storage holds no orphans.
+  const uploadFileVersion = async (
+    fileId: string,
+    version: number,
+    attachment: File,
+    uploadedBy: string | null,
+    beforeVersionInsert?: (storagePath: string) => Promise<void>
+  ): Promise<FileVersion> => {
+    const storagePath = buildStoragePath(fileId, version, attachment.name);
+    const mimeType = getMimeType(attachment);
+    
+    const { error: uploadError } = await supabase.storage
+      .from(FILE_BUCKET)
+      .upload(storagePath, attachment, { contentType: mimeType });
+    
+    if (uploadError) throw uploadError;
+    
+    try {
+      await beforeVersionInsert?.(storagePath);
+      
+      const { data, error } = await supabase
+        .from('file_versions')
+        .insert([{
+          file_id: fileId,
+          version,
+          storage_path: storagePath,
+          file_name: attachment.name,
+          file_size: attachment.size,
+          mime_type: mimeType,
+          uploaded_by: uploadedBy,
+        }])
         .select()
         .maybeSingle();
       
-      if (ruleError) throw ruleError;
+      if (error) throw error;
+      if (!data) throw new Error('Failed to record file version');
       
-      // Update tiers if provided
-      if (updates.tiers) {
-        // Delete existing tiers
-        await supabase
-          .from('incentive_tiers')
-          .delete()
-          .eq('rule_id', id);
-        
-        // Insert new tiers
-        if (updates.tiers.length > 0) {
-          const tiersToInsert = updates.tiers.map(tier => ({
-            rule_id: id,
-            revenue_threshold: tier.revenue_threshold,
-            incentive_rate: tier.incentive_rate,
-          }));
-          
-          const { data: tiersData, error: tiersError } = await supabase
-            .from('incentive_tiers')
-            .insert(tiersToInsert)
-            .select();
-          
-          if (tiersError) throw tiersError;
+      return data;
+    } catch (err) {
+      await supabase.storage.from(FILE_BUCKET).remove([storagePath]);
+      throw err;
+    }
+  };
+
+  const addFile = async (
+    file: Omit<FileData, 'id' | 'created_at' | 'updated_at' | 'storage_path' | 'file_size' | 'mime_type' | 'current_version'>,
+    attachment?: File
+  ): Promise<FileData | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      let data: FileData | null = null;
+      
+      if (attachment) {
+        // The id is chosen up front because it is part of the storage path
+        const id = crypto.randomUUID();
+        await uploadFileVersion(id, 1, attachment, file.created_by, async storagePath => {
+          const { data: fileData, error } = await supabase
+            .from('files')
+            .insert([{
+              ...file,
+              id,
+              storage_path: storagePath,
+              file_size: attachment.size,
+              mime_type: getMimeType(attachment),
+              current_version: 1,
+            }])
+            .select()
+            .maybeSingle();
           
-          return {
-            ...ruleData,
-            tiers: (tiersData || []).map(tier => ({
-              id: tier.id,
-              revenue_threshold: tier.revenue_threshold,
-              incentive_rate: tier.incentive_rate,
-              created_at: tier.created_at,
-            }))
-          };
-        }
+          if (error) throw error;
+          data = fileData;
+        });
+      } else {
+        const { data: fileData, error } = await supabase
+          .from('files')
+          .insert([file])
+          .select()
+          .maybeSingle();
+        
+        if (error) throw error;
+        data = fileData;
       }
       
-      // Fetch existing tiers if not updating them
-      const { data: tiersData } = await supabase
-        .from('incentive_tiers')
-        .select('*')
-        .eq('rule_id', id)
-        .order('revenue_threshold');
+      if (data) {
+        await recordAudit([auditEntry('file', 'create', { id: data.id, label: data.name }, diffRecords(null, data))]);
+      }
       
-      return {
-        ...ruleData,
-        tiers: (tiersData || []).map(tier => ({
-          id: tier.id,
-          revenue_threshold: tier.revenue_threshold,
-          incentive_rate: tier.incentive_rate,
-          created_at: tier.created_at,
-        }))
-      };
+      return data;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update incentive rule');
+      setError(err instanceof Error ? err.message : 'Failed to add file');
       return null;
     } finally {
       setLoading(false);
     }
   };
 
-  const deleteIncentiveRule = async (id: string): Promise<boolean> => {
+  // Also used for pinning, which only changes `is_pinned`
+  const updateFile = async (id: string, updates: Partial<Omit<FileData, 'id' | 'created_at' | 'updated_at'>>): Promise<FileData | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const before = await fetchRecord('files', id);
+      const { data, error } = await supabase
+        .from('files')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      
+      if (data) {
+        await recordAudit([auditEntry('file', 'update', { id, label: data.name }, diffRecords(before, data))]);
+      }
+      
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update file');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteFile = async (id: string): Promise<boolean> => {
     setLoading(true);
     setError(null);
     
     try {
+      const before = await fetchRecord('files', id);
+      const { data: versions } = await supabase
+        .from('file_versions')
+        .select('storage_path')
+        .eq('file_id', id);
+      
       const { error } = await supabase
-        .from('incentive_rules')
+        .from('files')
         .delete()
         .eq('id', id);
       
       if (error) throw error;
       
+      // The version rows are gone with the file, the stored objects have to be removed separately
+      const storagePaths = (versions || []).map(version => version.storage_path);
+      if (storagePaths.length > 0) {
+        const { error: storageError } = await supabase.storage.from(FILE_BUCKET).remove(storagePaths);
+        if (storageError) {
+          console.error('Failed to remove file attachments:', storageError);
+        }
+      }
+      
+      await recordAudit([auditEntry('file', 'delete', { id, label: before?.name }, diffRecords(before, null))]);
+      
       return true;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete incentive rule');
+      setError(err instanceof Error ? err.message : 'Failed to delete file');
       return false;
     } finally {
       setLoading(false);
     }
   };
 
+  // Replacing an attachment adds a version; older versions stay downloadable
+  const replaceFileAttachment = async (file: FileData, attachment: File, uploadedBy: string): Promise<FileData | null> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const version = file.current_version + 1;
+      const fileVersion = await uploadFileVersion(file.id, version, attachment, uploadedBy);
+      
+      const { data, error } = await supabase
+        .from('files')
+        .update({
+          storage_path: fileVersion.storage_path,
+          file_size: fileVersion.file_size,
+          mime_type: fileVersion.mime_type,
+          current_version: version,
+        })
+        .eq('id', file.id)
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      
+      if (data) {
+        await recordAudit([auditEntry('file', 'update', { id: file.id, label: data.name }, diffRecords(file, data), {
+          file_name: attachment.name,
+        })]);
+      }
+      
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replace file');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchFileVersions = async (fileId: string): Promise<FileVersion[]> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase
+        .from('file_versions')
+        .select('*')
+        .eq('file_id', fileId)
+        .order('version', { ascending: false });
+      
+      if (error) throw error;
+      
+      return data || [];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch file versions');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Pass `downloadAs` to make the browser save the file instead of showing it
+  const createFileSignedUrl = async (storagePath: string, downloadAs?: string): Promise<string | null> => {
+    setError(null);
+    
+    try {
+      const { data, error } = await supabase.storage
+        .from(FILE_BUCKET)
+        .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS, downloadAs ? { download: downloadAs } : undefined);
+      
+      if (error) throw error;
+      
+      return data.signedUrl;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create download link');
+      return null;
+    }
+  };
+
+  // Audit Log
+  const fetchAuditLog = async (
+    query: AuditQuery,
+    page: number,
+    pageSize: number
+  ): Promise<{ data: AuditLogEntry[]; count: number }> => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      let builder = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false });
+      
+      if (query.entityType) {
+        builder = builder.eq('entity_type', query.entityType);
+      }
+      if (query.action) {
+        builder = builder.eq('action', query.action);
+      }
+      if (query.actorId) {
+        builder = builder.eq('actor_id', query.actorId);
+      }
+      if (query.entityId) {
+        builder = builder.eq('entity_id', query.entityId);
+      }
+      // Dates are days in the viewer's timezone
+      if (query.startDate) {
+        builder = builder.gte('created_at', new Date(`${query.startDate}T00:00:00`).toISOString());
+      }
+      if (query.endDate) {
+        builder = builder.lte('created_at', new Date(`${query.endDate}T23:59:59.999`).toISOString());
+      }
+      
+      const from = page * pageSize;
+      const { data, error, count } = await builder.range(from, from + pageSize - 1);
+      
+      if (error) throw error;
+      
+      return { data: data || [], count: count || 0 };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch audit log');
+      return { data: [], count: 0 };
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Profile Management
   const updateProfile = async (userId: string, profileData: {
     name?: string;
@@ -568,6 +1770,7 @@ export const useSupabase = () => {
     setError(null);
     
     try {
+      const before = await fetchRecord('users', userId);
       const { data, error } = await supabase
         .from('users')
         .update(profileData)
@@ -577,6 +1780,10 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
+      if (data) {
+        await recordAudit([auditEntry('user', 'update', { id: userId, label: data.name }, diffRecords(before, data))]);
+      }
+      
       return data;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update profile');
@@ -614,6 +1821,14 @@ export const useSupabase = () => {
 
       if (updateError) throw updateError;
       
+      // Both values are redacted, the entry only records that the password changed
+      await recordAudit([auditEntry(
+        'user',
+        'update',
+        { id: currentUser.user.id, label: currentUser.user.email },
+        diffRecords({ password: currentPassword }, { password: newPassword })
+      )]);
+      
       return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to change password');
@@ -623,9 +1838,9 @@ export const useSupabase = () => {
     }
   };
 
-  return {
-    loading,
-    error,
+  // Every function above only uses the state setters and the shared client, so the ones from the
+  // first render stay valid. Keeping them lets screens list them as effect dependencies.
+  const api = useRef({
     // Categories
     fetchCategories,
     addCategory,
@@ -638,20 +1853,66 @@ export const useSupabase = () => {
     deleteAccount,
     // Sales Data
     fetchSalesData,
+    fetchSalesDataPage,
+    fetchDailyTotals,
+    fetchAccountTotals,
+    fetchAccountPeriodTotals,
+    fetchAssignmentTotals,
+    fetchUserTotals,
     addSalesData,
     deleteSalesData,
+    // Upload Batches
+    fetchUploadBatches,
+    revertUploadBatch,
+    // Sales Anomalies
+    fetchAnomalyAcknowledgements,
+    acknowledgeAnomalies,
+    // Account Assignments
+    fetchAccountAssignments,
     // Users
     fetchUsers,
     addUser,
+    inviteUser,
     updateUser,
     deleteUser,
+    // Role Capabilities
+    fetchRoleCapabilities,
+    setRoleCapability,
+    // Squads
+    fetchSquads,
+    addSquad,
+    updateSquad,
+    deleteSquad,
     // Incentive Rules
     fetchIncentiveRules,
     addIncentiveRule,
     updateIncentiveRule,
     deleteIncentiveRule,
+    // Payout Ledger
+    fetchPayoutPeriods,
+    fetchPayoutEntries,
+    closePayoutPeriod,
+    addPayoutAdjustments,
+    updatePayoutStatus,
+    // Files
+    fetchFiles,
+    addFile,
+    updateFile,
+    deleteFile,
+    replaceFileAttachment,
+    fetchFileVersions,
+    createFileSignedUrl,
+    // Audit Log
+    fetchAuditLog,
     // Profile
     updateProfile,
     changePassword,
-  };
-};
\ No newline at end of file
+  }).current;
+
+  return { loading, error, ...api };
+};
+
+export type DataApi = ReturnType<typeof useSupabaseClient>;
+
+// Demo mode swaps in the in-memory adapter; screens keep calling useSupabase either way
+export const useSupabase: () => DataApi = isDemoMode ? useDemoData : useSupabaseClient;
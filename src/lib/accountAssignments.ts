@@ -0,0 +1,34 @@
+import { AccountAssignment, IncentivePeriod, User } from '../types';
+
+// Account ownership lives in account_assignments. These helpers turn assignment rows into
+// the account id lists the screens work with.
+
+// Dates are YYYY-MM-DD strings, so string comparison is enough
+export const isAssignmentInPeriod = (
+  assignment: Pick<AccountAssignment, 'effective_from' | 'effective_to'>,
+  period: IncentivePeriod
+): boolean =>
+  assignment.effective_from <= period.end &&
+  (assignment.effective_to === null || assignment.effective_to >= period.start);
+
+// Accounts the user managed on at least one day of the period; without a period every given assignment counts
+export const getAssignedAccountIds = (
+  assignments: Pick<AccountAssignment, 'account_id' | 'user_id' | 'effective_from' | 'effective_to'>[],
+  userId: string,
+  period?: IncentivePeriod
+): string[] => {
+  const accountIds = assignments
+    .filter(assignment =>
+      assignment.user_id === userId && (!period || isAssignmentInPeriod(assignment, period))
+    )
+    .map(assignment => assignment.account_id);
+  return [...new Set(accountIds)];
+};
+
+// Replaces each user's current accounts with the ones they managed during the period
+export const withPeriodAccounts = <T extends Pick<User, 'id' | 'managed_accounts'>>(
+  users: T[],
+  assignments: AccountAssignment[],
+  period: IncentivePeriod
+): T[] =>
+  users.map(user => ({ ...user, managed_accounts: getAssignedAccountIds(assignments, user.id, period) }));
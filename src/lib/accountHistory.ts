@@ -0,0 +1,96 @@
+import { Account, AuditLogEntry, DailySalesTotals, FileData } from '../types';
+import { ChartMetric } from './chartData';
+import { parseDateString, toDateString } from './salesQuery';
+
+// Derived views for the account detail page: missing days, standout days, status changes from
+// the audit log and the files that belong with an account.
+
+export const accountStatusLabels: Record<Account['status'], string> = {
+  active: 'Aktif',
+  violation: 'Pelanggaran',
+  inactive: 'Non-Aktif',
+};
+
+export const paymentStatusLabels: Record<Account['payment_data'], string> = {
+  'belum diatur': 'Belum Diatur',
+  utamakan: 'Utamakan',
+  dimasukkan: 'Dimasukkan',
+  disetujui: 'Disetujui',
+  sah: 'Sah',
+};
+
+export interface DateGap {
+  start: string;
+  end: string;
+  days: number;
+}
+
+// Runs of consecutive days between `start` and `end` (both inclusive) that have no sales row
+export const findDataGaps = (dates: string[], start: string, end: string): DateGap[] => {
+  const present = new Set(dates);
+  const gaps: DateGap[] = [];
+  const last = parseDateString(end);
+  let gap: DateGap | null = null;
+
+  for (let day = parseDateString(start); day <= last; day.setDate(day.getDate() + 1)) {
+    const date = toDateString(day);
+    if (present.has(date)) {
+      gap = null;
+    } else if (gap) {
+      gap.end = date;
+      gap.days += 1;
+    } else {
+      gap = { start: date, end: date, days: 1 };
+      gaps.push(gap);
+    }
+  }
+
+  return gaps;
+};
+
+// The strongest and weakest days with data; a day is never in both lists
+export const getBestAndWorstDays = (days: DailySalesTotals[], metric: ChartMetric, count = 3) => {
+  const ranked = [...days].sort((a, b) => b[metric] - a[metric] || a.date.localeCompare(b.date));
+  return {
+    best: ranked.slice(0, count),
+    worst: ranked.slice(Math.max(count, ranked.length - count)).reverse(),
+  };
+};
+
+export interface AccountStatusChange {
+  id: string;
+  field: 'status' | 'payment_data';
+  before: string | null; // null when the account was created
+  after: string;
+  actor_name: string | null;
+  changed_at: string;
+}
+
+// Status and payment status changes of one account, newest first, from its audit entries
+export const getStatusChanges = (entries: AuditLogEntry[]): AccountStatusChange[] =>
+  entries
+    .filter(entry => entry.entity_type === 'account' && entry.action !== 'delete')
+    .flatMap(entry => (['status', 'payment_data'] as const)
+      .filter(field => entry.changes[field]?.after != null)
+      .map(field => ({
+        id: `${entry.id}-${field}`,
+        field,
+        before: (entry.changes[field].before as string | null) ?? null,
+        after: entry.changes[field].after as string,
+        actor_name: entry.actor_name,
+        changed_at: entry.created_at,
+      })))
+    .sort((a, b) => b.changed_at.localeCompare(a.changed_at));
+
+// Files don't reference accounts, so related means filed under the account's category or
+// mentioning its username or account code
+export const getRelatedFiles = (files: FileData[], account: Account): FileData[] => {
+  const mentions = [account.username, account.account_code]
+    .filter(Boolean)
+    .map(term => term.toLowerCase());
+  return files.filter(file => {
+    const text = `${file.name} ${file.description ?? ''}`.toLowerCase();
+    return (!!account.category_id && file.category_id === account.category_id) ||
+      mentions.some(term => text.includes(term));
+  });
+};
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { AnomalyAcknowledgement, SalesData } from '../types';
+import { ParsedRow } from './csvImport';
+import {
+  detectAnomalies,
+  detectStoredAnomalies,
+  findAcknowledgement,
+  findConsistencyIssues,
+  findSpikes,
+  getBaseline,
+  getRowFingerprint,
+  MIN_BASELINE_DAYS,
+  SPIKE_RATIO,
+  toAcknowledgement,
+} from './anomalies';
+import { getMonthPeriod } from './incentiveEngine';
+
+const makeRow = (overrides: Partial<ParsedRow> = {}): ParsedRow => ({
+  date: '2026-09-01',
+  clicks: 100,
+  orders: 10,
+  gross_commission: 50,
+  products_sold: 12,
+  total_purchases: 1000,
+  new_buyers: 3,
+  ...overrides,
+});
+
+// `count` days with the same values from September 1 on
+const makeHistory = (count: number, overrides: Partial<ParsedRow> = {}): ParsedRow[] =>
+  Array.from({ length: count }, (_, index) => makeRow({ date: `2026-09-${String(index + 1).padStart(2, '0')}`, ...overrides }));
+
+const rulesOf = (row: ParsedRow) => findConsistencyIssues(row).map(issue => issue.rule);
+
+describe('findConsistencyIssues', () => {
+  it('passes a row that could come from a real export', () => {
+    expect(findConsistencyIssues(makeRow())).toEqual([]);
+  });
+
+  it('flags each impossible combination with its own rule', () => {
+    expect(rulesOf(makeRow({ gross_commission: 1500 }))).toEqual(['commission_exceeds_purchases']);
+    expect(rulesOf(makeRow({ orders: 101, products_sold: 101, new_buyers: 0 }))).toEqual(['orders_exceed_clicks']);
+    expect(rulesOf(makeRow({ new_buyers: 11 }))).toEqual(['buyers_exceed_orders']);
+    expect(rulesOf(makeRow({ products_sold: 9 }))).toEqual(['products_below_orders']);
+  });
+
+  it('reports every broken rule of a row', () => {
+    expect(rulesOf(makeRow({ clicks: 5, new_buyers: 20, products_sold: 1 }))).toEqual([
+      'orders_exceed_clicks',
+      'buyers_exceed_orders',
+      'products_below_orders',
+    ]);
+  });
+
+  // Commission is stored with two decimals, so rounding can put it a fraction above purchases
+  it('allows commission up to half a cent above purchases', () => {
+    expect(rulesOf(makeRow({ gross_commission: 1000.004 }))).toEqual([]);
+    expect(rulesOf(makeRow({ gross_commission: 1000.01 }))).toEqual(['commission_exceeds_purchases']);
+  });
+});
+
+describe('getBaseline', () => {
+  it('has no baseline with fewer than the minimum days', () => {
+    expect(getBaseline(makeHistory(MIN_BASELINE_DAYS - 1))).toBeNull();
+    expect(getBaseline([])).toBeNull();
+  });
+
+  it('takes the median of each metric', () => {
+    const rows = [...makeHistory(MIN_BASELINE_DAYS), makeRow({ clicks: 100000, orders: 0 })];
+    expect(getBaseline(rows)).toEqual({ clicks: 100, orders: 10, gross_commission: 50, total_purchases: 1000 });
+  });
+
+  it('averages the two middle days of an even count', () => {
+    const rows = [...makeHistory(4, { clicks: 100 }), ...makeHistory(4, { clicks: 200 })];
+    expect(getBaseline(rows)?.clicks).toBe(150);
+  });
+});
+
+describe('findSpikes', () => {
+  const baseline = { clicks: 100, orders: 10, gross_commission: 50, total_purchases: 1000 };
+
+  it('flags a metric from the spike ratio on', () => {
+    expect(findSpikes(makeRow({ clicks: 100 * SPIKE_RATIO }), baseline).map(issue => issue.message)).toEqual([
+      expect.stringMatching(/^Clicks .* is 10x the usual 100$/),
+    ]);
+    expect(findSpikes(makeRow({ clicks: 100 * SPIKE_RATIO - 1 }), baseline)).toEqual([]);
+  });
+
+  it('skips metrics that are zero on a typical day', () => {
+    const quietBaseline = { ...baseline, orders: 0, gross_commission: 0 };
+    expect(findSpikes(makeRow({ orders: 500, gross_commission: 900 }), quietBaseline)).toEqual([]);
+  });
+
+  it('flags nothing without a baseline', () => {
+    expect(findSpikes(makeRow({ clicks: 1000000 }), null)).toEqual([]);
+  });
+});
+
+describe('detectAnomalies', () => {
+  it('compares uploaded rows with the stored days around them', () => {
+    const flagged = detectAnomalies([makeRow({ date: '2026-09-20', total_purchases: 20000 })], makeHistory(MIN_BASELINE_DAYS));
+    expect(flagged).toHaveLength(1);
+    expect(flagged[0].issues.map(issue => issue.rule)).toEqual(['metric_spike']);
+  });
+
+  it('uses the uploaded values instead of the stored ones for the same date', () => {
+    // Counting the stored days as well would put the usual day at 1000 clicks
+    const history = makeHistory(MIN_BASELINE_DAYS, { clicks: 1000 });
+    const rows = [...makeHistory(MIN_BASELINE_DAYS), makeRow({ date: '2026-09-20', clicks: 1000 })];
+    expect(detectAnomalies(rows, history).map(({ row }) => row.date)).toEqual(['2026-09-20']);
+  });
+});
+
+describe('detectStoredAnomalies', () => {
+  const toStored = (accountId: string) => (row: ParsedRow, index: number): SalesData => ({
+    ...row,
+    id: `${accountId}-${index}`,
+    account_id: accountId,
+    created_at: '',
+  });
+
+  it('only flags rows in the period and judges each account against its own days', () => {
+    const august = Array.from({ length: MIN_BASELINE_DAYS }, (_, index) => makeRow({ date: `2026-08-${10 + index}`, clicks: 10, orders: 1, products_sold: 1, new_buyers: 0 }));
+    const rows = [
+      ...[...august, makeRow({ date: '2026-08-30', clicks: 900, orders: 1, products_sold: 1, new_buyers: 0 }), makeRow({ date: '2026-09-02' })].map(toStored('quiet')),
+      ...[...makeHistory(MIN_BASELINE_DAYS), makeRow({ date: '2026-09-20' })].map(toStored('busy')),
+    ];
+
+    const flagged = detectStoredAnomalies(rows, getMonthPeriod('2026-09'));
+    expect(flagged.map(({ row }) => [row.account_id, row.date])).toEqual([['quiet', '2026-09-02']]);
+  });
+});
+
+describe('findAcknowledgement', () => {
+  const flaggedRow = makeRow({ date: '2026-09-05', gross_commission: 1500 });
+  const acknowledgement: AnomalyAcknowledgement = {
+    ...toAcknowledgement('account-1', { row: flaggedRow, issues: findConsistencyIssues(flaggedRow) }),
+    id: 'ack-1',
+    acknowledged_by: null,
+    acknowledged_by_name: null,
+    created_at: '',
+  };
+
+  it('finds the acknowledgement for the same account, date and values', () => {
+    expect(acknowledgement.fingerprint).toBe(getRowFingerprint(flaggedRow));
+    expect(findAcknowledgement([acknowledgement], 'account-1', flaggedRow)).toBe(acknowledgement);
+    expect(findAcknowledgement([acknowledgement], 'account-1', { ...flaggedRow, date: '2026-09-05T00:00:00Z' })).toBe(acknowledgement);
+  });
+
+  it('needs a new acknowledgement once any value changes', () => {
+    expect(findAcknowledgement([acknowledgement], 'account-1', { ...flaggedRow, gross_commission: 1600 })).toBeUndefined();
+    expect(findAcknowledgement([acknowledgement], 'account-1', { ...flaggedRow, new_buyers: 4 })).toBeUndefined();
+  });
+
+  it('does not match another account or date', () => {
+    expect(findAcknowledgement([acknowledgement], 'account-2', flaggedRow)).toBeUndefined();
+    expect(findAcknowledgement([acknowledgement], 'account-1', { ...flaggedRow, date: '2026-09-06' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+import { AnomalyAcknowledgement, AnomalyRule, IncentivePeriod, SalesData } from '../types';
+import { ParsedRow } from './csvImport';
+import { parseDateString, toDateString } from './salesQuery';
+
+// Flags sales rows that are probably mistyped or corrupted before they reach incentives. Consistency
+// rules catch values no real export can have; spike detection compares a day with the account's
+// typical day. The same checks run on parsed upload rows and on stored sales data.
+
+type SalesValues = Omit<ParsedRow, 'date'>;
+type SpikeMetric = 'clicks' | 'orders' | 'gross_commission' | 'total_purchases';
+
+export interface AnomalyIssue {
+  rule: AnomalyRule;
+  message: string;
+}
+
+export type NewAnomalyAcknowledgement = Omit<AnomalyAcknowledgement, 'id' | 'acknowledged_by' | 'acknowledged_by_name' | 'created_at'>;
+
+export interface FlaggedRow<T extends ParsedRow> {
+  row: T;
+  issues: AnomalyIssue[];
+}
+
+export const anomalyRuleLabels: Record<AnomalyRule, string> = {
+  commission_exceeds_purchases: 'Commission above purchases',
+  orders_exceed_clicks: 'More orders than clicks',
+  buyers_exceed_orders: 'More new buyers than orders',
+  products_below_orders: 'Fewer products than orders',
+  metric_spike: 'Unusual spike',
+};
+
+// A day this many times the account's median day counts as a spike
+export const SPIKE_RATIO = 10;
+// Medians from fewer days say too little about what is normal for the account
+export const MIN_BASELINE_DAYS = 7;
+// How far back stored data is read to learn an account's typical day
+export const BASELINE_LOOKBACK_DAYS = 60;
+
+// Commission is stored with two decimals
+const AMOUNT_TOLERANCE = 0.005;
+
+const SPIKE_METRICS: { field: SpikeMetric; label: string }[] = [
+  { field: 'clicks', label: 'Clicks' },
+  { field: 'orders', label: 'Orders' },
+  { field: 'gross_commission', label: 'Commission' },
+  { field: 'total_purchases', label: 'Purchases' },
+];
+
+const CONSISTENCY_RULES: { rule: AnomalyRule; isBroken: (row: SalesValues) => boolean; describe: (row: SalesValues) => string }[] = [
+  {
+    rule: 'commission_exceeds_purchases',
+    isBroken: row => row.gross_commission > row.total_purchases + AMOUNT_TOLERANCE,
+    describe: row => `Commission ${row.gross_commission.toLocaleString('id-ID')} is higher than purchases ${row.total_purchases.toLocaleString('id-ID')}`,
+  },
+  {
+    rule: 'orders_exceed_clicks',
+    isBroken: row => row.orders > row.clicks,
+    describe: row => `${row.orders} orders from ${row.clicks} clicks`,
+  },
+  {
+    rule: 'buyers_exceed_orders',
+    isBroken: row => row.new_buyers > row.orders,
+    describe: row => `${row.new_buyers} new buyers from ${row.orders} orders`,
+  },
+  {
+    rule: 'products_below_orders',
+    isBroken: row => row.products_sold < row.orders,
+    describe: row => `${row.products_sold} products sold in ${row.orders} orders`,
+  },
+];
+
+export const findConsistencyIssues = (row: SalesValues): AnomalyIssue[] =>
+  CONSISTENCY_RULES
+    .filter(check => check.isBroken(row))
+    .map(check => ({ rule: check.rule, message: check.describe(row) }));
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export type Baseline = Record<SpikeMetric, number>;
+
+// The account's median day; null without enough history to judge
+export const getBaseline = (rows: SalesValues[]): Baseline | null => {
+  if (rows.length < MIN_BASELINE_DAYS) return null;
+  return {
+    clicks: median(rows.map(row => row.clicks)),
+    orders: median(rows.map(row => row.orders)),
+    gross_commission: median(rows.map(row => row.gross_commission)),
+    total_purchases: median(rows.map(row => row.total_purchases)),
+  };
+};
+
+// A metric that is zero on a typical day has no ratio to spike against
+export const findSpikes = (row: SalesValues, baseline: Baseline | null): AnomalyIssue[] => {
+  if (!baseline) return [];
+  return SPIKE_METRICS
+    .filter(({ field }) => baseline[field] > 0 && row[field] >= baseline[field] * SPIKE_RATIO)
+    .map(({ field, label }) => ({
+      rule: 'metric_spike' as const,
+      message: `${label} ${row[field].toLocaleString('id-ID')} is ${Math.round(row[field] / baseline[field])}x the usual ${baseline[field].toLocaleString('id-ID')}`,
+    }));
+};
+
+// Checks one account's rows. `history` is what is stored around them; dates in `rows` replace
+// the stored values, since that is what the account will hold afterwards.
+export const detectAnomalies = <T extends ParsedRow>(rows: T[], history: ParsedRow[] = []): FlaggedRow<T>[] => {
+  const rowDates = new Set(rows.map(row => row.date));
+  const baseline = getBaseline([
+    ...history.filter(row => !rowDates.has(row.date.slice(0, 10))),
+    ...rows,
+  ]);
+
+  return rows
+    .map(row => ({ row, issues: [...findConsistencyIssues(row), ...findSpikes(row, baseline)] }))
+    .filter(flagged => flagged.issues.length > 0);
+};
+
+// Stored rows of any number of accounts; rows before the period only serve as each account's baseline
+export const detectStoredAnomalies = (rows: SalesData[], period: IncentivePeriod): FlaggedRow<SalesData>[] => {
+  const byAccount = new Map<string, SalesData[]>();
+  rows.forEach(row => {
+    const accountRows = byAccount.get(row.account_id) || [];
+    accountRows.push(row);
+    byAccount.set(row.account_id, accountRows);
+  });
+
+  return [...byAccount.values()].flatMap(accountRows => {
+    const inPeriod = accountRows.filter(row => row.date >= period.start && row.date <= period.end);
+    return detectAnomalies(inPeriod, accountRows);
+  });
+};
+
+export const getBaselineStart = (date: string): string => {
+  const day = parseDateString(date);
+  return toDateString(new Date(day.getFullYear(), day.getMonth(), day.getDate() - BASELINE_LOOKBACK_DAYS));
+};
+
+// The values an acknowledgement vouches for; a later upload with other numbers needs a new one
+export const getRowFingerprint = (row: SalesValues): string =>
+  [row.clicks, row.orders, row.gross_commission, row.products_sold, row.total_purchases, row.new_buyers]
+    .map(value => Number(value).toString())
+    .join('|');
+
+export const toAcknowledgement = (
+  accountId: string,
+  flagged: FlaggedRow<ParsedRow>,
+  note: string | null = null
+): NewAnomalyAcknowledgement => ({
+  account_id: accountId,
+  date: flagged.row.date.slice(0, 10),
+  fingerprint: getRowFingerprint(flagged.row),
+  rules: [...new Set(flagged.issues.map(issue => issue.rule))],
+  note,
+});
+
+export const findAcknowledgement = (
+  acknowledgements: AnomalyAcknowledgement[],
+  accountId: string,
+  row: ParsedRow
+): AnomalyAcknowledgement | undefined => {
+  const fingerprint = getRowFingerprint(row);
+  return acknowledgements.find(ack =>
+    ack.account_id === accountId && ack.date === row.date.slice(0, 10) && ack.fingerprint === fingerprint
+  );
+};
@@ -0,0 +1,105 @@
+import { AccountAssignment, AuditAction, AuditChanges, AuditEntityType, AuditLogEntry, IncentiveRule } from '../types';
+
+// Builds audit entries for the mutations in useSupabase. Only fields that actually
+// changed are stored, with their value before and after the mutation.
+
+export type NewAuditEntry = Omit<AuditLogEntry, 'id' | 'actor_id' | 'actor_name' | 'created_at' | 'metadata'> & {
+  metadata?: Record<string, unknown>;
+};
+
+// Bookkeeping columns that change on every write or never at all
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+// Session tokens must never end up in the log
+const REDACTED_FIELDS = new Set(['access_token', 'refresh_token', 'password']);
+const REDACTED_VALUE = '[redacted]';
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const diffRecords = (before: object | null, after: object | null): AuditChanges => {
+  const beforeValues = (before || {}) as Record<string, unknown>;
+  const afterValues = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]);
+  const changes: AuditChanges = {};
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    if (isSameValue(beforeValues[field], afterValues[field])) return;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: REDACTED_VALUE, after: REDACTED_VALUE }
+      : { before: beforeValues[field] ?? null, after: afterValues[field] ?? null };
+  });
+
+  return changes;
+};
+
+// Tiers are replaced on every save, so compare them by value rather than by id
+export const toAuditedRule = (rule: IncentiveRule | null) =>
+  rule && {
+    ...rule,
+    tiers: [...rule.tiers]
+      .sort((a, b) => a.revenue_threshold - b.revenue_threshold)
+      .map(tier => ({ revenue_threshold: tier.revenue_threshold, incentive_rate: tier.incentive_rate })),
+  };
+
+export const auditEntry = (
+  entityType: AuditEntityType,
+  action: AuditAction,
+  entity: { id: string | null; label?: string | null },
+  changes: AuditChanges = {},
+  metadata: Record<string, unknown> = {}
+): NewAuditEntry => ({
+  entity_type: entityType,
+  entity_id: entity.id,
+  entity_label: entity.label ?? null,
+  action,
+  changes,
+  metadata,
+});
+
+// A reassignment as one entry for the user: the accounts they manage before and after, and the
+// previous owners of accounts taken over. `current` holds the assignments running before the change.
+export const toAssignmentAuditEntry = (
+  user: { id: string; name?: string | null },
+  current: AccountAssignment[],
+  accountIds: string[],
+  effectiveFrom: string
+): NewAuditEntry => {
+  const managed = current.filter(assignment => assignment.user_id === user.id).map(assignment => assignment.account_id);
+  const takenOver = current.filter(assignment => assignment.user_id !== user.id && accountIds.includes(assignment.account_id));
+
+  return auditEntry(
+    'account_assignment',
+    'update',
+    { id: user.id, label: user.name },
+    diffRecords({ account_ids: [...new Set(managed)].sort() }, { account_ids: [...new Set(accountIds)].sort() }),
+    {
+      effective_from: effectiveFrom,
+      taken_over_from: Object.fromEntries(takenOver.map(assignment => [assignment.account_id, assignment.user_id])),
+    }
+  );
+};
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  category: 'Category',
+  account: 'Account',
+  user: 'User',
+  incentive_rule: 'Incentive Rule',
+  sales_data: 'Sales Data',
+  payout_period: 'Payout Period',
+  payout_entry: 'Payout Entry',
+  file: 'File',
+  role_capability: 'Role Permission',
+  squad: 'Squad',
+  account_assignment: 'Account Assignment',
+  anomaly_acknowledgement: 'Anomaly Acknowledgement',
+};
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  import: 'Imported',
+  revert: 'Reverted',
+};
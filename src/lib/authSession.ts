@@ -0,0 +1,84 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { User } from '../types';
+import { getRoleCapabilities } from './permissions';
+
+export type PasswordSetupReason = 'invite' | 'recovery';
+
+// Invitation and password reset links open the app with `type=invite|recovery` in the URL hash.
+// It is read at load, before the Supabase client consumes the hash and signs the user in.
+const linkType = new URLSearchParams(window.location.hash.slice(1)).get('type');
+export const initialPasswordSetup: PasswordSetupReason | null =
+  linkType === 'invite' || linkType === 'recovery' ? linkType : null;
+
+const withSessionTokens = (user: Omit<User, 'access_token' | 'refresh_token'>, session: Session): User => ({
+  ...user,
+  access_token: session.access_token,
+  refresh_token: session.refresh_token,
+});
+
+// Turns a Supabase auth session into the app's user: the matching `users` row plus the
+// accounts assigned to it today and what its role may do. Used after sign-in and when a
+// stored session is restored. Throws when the profile can't be read, rather than signing
+// the user in with a role they may not have; callers offer a retry.
+export const loadSessionUser = async (session: Session): Promise<User> => {
+  const authUser = session.user;
+
+  const fetchCapabilities = async (role: User['role']) => {
+    const { data: roleCapabilities, error: capabilitiesError } = await supabase
+      .from('role_capabilities')
+      .select('role, capability')
+      .eq('role', role);
+
+    if (capabilitiesError) throw capabilitiesError;
+
+    return getRoleCapabilities(role, roleCapabilities || []);
+  };
+
+  const { data: userRows, error: userError } = await supabase
+    .from('users')
+    .select('*')
+    .eq('email', authUser.email)
+    .limit(1);
+
+  if (userError) throw userError;
+
+  const userData = userRows && userRows.length > 0 ? userRows[0] : null;
+
+  if (userData) {
+    // Managed accounts come from the assignments running today
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('current_account_assignments')
+      .select('account_id')
+      .eq('user_id', userData.id);
+
+    if (assignmentsError) throw assignmentsError;
+
+    return withSessionTokens({
+      ...userData,
+      managed_accounts: (assignments || []).map((assignment: { account_id: string }) => assignment.account_id),
+      capabilities: await fetchCapabilities(userData.role),
+    }, session);
+  }
+
+  // A signed-in user without a users row gets one with the default role
+  const { data: insertedUser, error: insertError } = await supabase
+    .from('users')
+    .insert([{
+      id: authUser.id,
+      name: authUser.email?.split('@')[0] || 'User',
+      email: authUser.email || '',
+      role: 'user',
+    }])
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  // A new row has no assignments yet; its capabilities are the ones configured for its role
+  return withSessionTokens({
+    ...insertedUser,
+    managed_accounts: [],
+    capabilities: await fetchCapabilities(insertedUser.role),
+  }, session);
+};
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { Account } from '../types';
+import { parseCsvRecords } from './csvImport';
+import { buildBulkImportPlan, findAccountByFileName, findAccountByKey, readImportSources, toAccountUploads } from './bulkImport';
+import { buildZip } from './testZip';
+
+const makeAccount = (id: string, accountCode: string, username: string): Account => ({
+  id,
+  username,
+  email: '',
+  phone: '',
+  status: 'active',
+  payment_data: 'belum diatur',
+  account_code: accountCode,
+  category_id: '',
+  user_id: null,
+  created_at: '',
+});
+
+const accounts = [
+  makeAccount('a', 'AC001', 'kimo_fashion'),
+  makeAccount('b', 'AC002', 'kimo_home'),
+  makeAccount('c', 'AC0021', 'kimo'),
+];
+
+const HEADER = 'Tanggal,Klik,Pesanan,Komisi Kotor(Rp),Produk Terjual,Total Pembelian yang Dibuat(Rp),Pembeli Baru';
+const ACCOUNT_HEADER = `Account Code,${HEADER}`;
+
+const source = (name: string, lines: string[]) => ({ name, records: parseCsvRecords(lines.join('\n')) });
+
+describe('findAccountByKey', () => {
+  it('matches the account code first, then the username with or without @', () => {
+    expect(findAccountByKey(' ac001 ', accounts)?.id).toBe('a');
+    expect(findAccountByKey('@Kimo_Home', accounts)?.id).toBe('b');
+    expect(findAccountByKey('unknown', accounts)).toBeNull();
+  });
+});
+
+describe('findAccountByFileName', () => {
+  it('matches a file named after the account', () => {
+    expect(findAccountByFileName('exports/AC001.csv', accounts)?.id).toBe('a');
+    expect(findAccountByFileName('@kimo_home.xlsx', accounts)?.id).toBe('b');
+  });
+
+  it('finds the code or username as a separate word in a longer name', () => {
+    expect(findAccountByFileName('AC002 - Januari 2025.xlsx', accounts)?.id).toBe('b');
+    expect(findAccountByFileName('Laporan kimo_fashion Sept.csv', accounts)?.id).toBe('a');
+  });
+
+  it('prefers the longest match and ignores codes inside other words', () => {
+    expect(findAccountByFileName('AC0021 september.csv', accounts)?.id).toBe('c');
+    expect(findAccountByFileName('AC00210.csv', accounts)).toBeNull();
+  });
+
+  it('leaves a file unmatched when two accounts match equally well', () => {
+    expect(findAccountByFileName('AC001 and AC002.csv', accounts)).toBeNull();
+  });
+});
+
+describe('buildBulkImportPlan', () => {
+  it('maps rows to accounts by the account column, whatever the file is called', () => {
+    const plan = buildBulkImportPlan([
+      source('AC001.csv', [
+        ACCOUNT_HEADER,
+        'AC002,2026-09-01,10,1,500,1,10000,0',
+        '@kimo_fashion,2026-09-01,20,2,900,2,20000,1',
+        'AC999,2026-09-01,30,3,900,3,30000,1',
+      ]),
+    ], accounts);
+
+    expect(plan.accounts.map(preview => [preview.account.id, preview.rows.map(row => row.clicks)])).toEqual([
+      ['a', [20]],
+      ['b', [10]],
+    ]);
+    expect(plan.unmatched).toEqual([{ source: 'AC001.csv', accountKey: 'AC999', rowCount: 1 }]);
+  });
+
+  it('maps files without an account column by their name', () => {
+    const plan = buildBulkImportPlan([
+      source('AC001 september.csv', [HEADER, '2026-09-02,10,1,500,1,10000,0', '2026-09-01,11,1,500,1,10000,0']),
+      source('unknown shop.csv', [HEADER, '2026-09-01,10,1,500,1,10000,0']),
+    ], accounts);
+
+    expect(plan.accounts).toEqual([expect.objectContaining({
+      account: accounts[0],
+      sources: ['AC001 september.csv'],
+      startDate: '2026-09-01',
+      endDate: '2026-09-02',
+    })]);
+    expect(plan.unmatched).toEqual([{ source: 'unknown shop.csv', accountKey: 'unknown shop.csv', rowCount: 1 }]);
+    expect(plan.summary).toEqual({ matched: 2, unmatched: 1, conflicting: 0, rejected: 0 });
+  });
+
+  it('uploads identical rows from overlapping files once and leaves out dates that differ', () => {
+    const plan = buildBulkImportPlan([
+      source('AC001 week 1.csv', [HEADER, '2026-09-01,10,1,500,1,10000,0', '2026-09-02,10,1,500,1,10000,0']),
+      source('AC001 week 2.csv', [HEADER, '2026-09-01,10,1,500,1,10000,0', '2026-09-02,99,1,500,1,10000,0']),
+    ], accounts);
+
+    expect(plan.accounts[0].rows.map(row => row.date)).toEqual(['2026-09-01']);
+    expect(plan.accounts[0].sources).toEqual(['AC001 week 1.csv', 'AC001 week 2.csv']);
+    expect(plan.conflicts).toEqual([{
+      account: accounts[0],
+      date: '2026-09-02',
+      sources: ['AC001 week 1.csv:3', 'AC001 week 2.csv:3'],
+      rowCount: 2,
+    }]);
+  });
+
+  it('reports header errors and rejected rows per file and keeps the other files', () => {
+    const plan = buildBulkImportPlan([
+      source('AC001.csv', ['Tanggal,Klik', '2026-09-01,10']),
+      source('AC002.csv', [HEADER, '2026-09-31,10,1,500,1,10000,0', '2026-09-01,10,1,500,1,10000,0']),
+      source('mixed.csv', [ACCOUNT_HEADER, ',2026-09-01,10,1,500,1,10000,0']),
+    ], accounts);
+
+    expect(plan.issues).toEqual([
+      { source: 'AC001.csv', reason: expect.stringMatching(/^Missing required columns: Pesanan/) },
+      { source: 'AC002.csv', line: 2, reason: 'Invalid date "2026-09-31"' },
+      { source: 'mixed.csv', line: 2, reason: 'Missing account code or username' },
+    ]);
+    expect(plan.accounts.map(preview => preview.account.id)).toEqual(['b']);
+    expect(plan.summary.rejected).toBe(2);
+  });
+});
+
+describe('toAccountUploads', () => {
+  it('makes one upload per account with its rows and source files', () => {
+    const plan = buildBulkImportPlan([source('AC002.csv', [HEADER, '2026-09-01,10,1,500,1,10000,0'])], accounts);
+    expect(toAccountUploads(plan)).toEqual([{
+      account: accounts[1],
+      fileName: 'AC002.csv',
+      rows: [expect.objectContaining({ account_id: 'b', date: '2026-09-01', clicks: 10 })],
+    }]);
+  });
+});
+
+describe('readImportSources', () => {
+  it('expands zip archives and skips macOS metadata', async () => {
+    const zip = await buildZip([
+      { name: 'september/AC001.csv', content: `${HEADER}\n2026-09-01,10,1,500,1,10000,0`, deflate: true },
+      { name: '__MACOSX/september/._AC001.csv', content: 'junk' },
+      { name: 'september/.DS_Store', content: 'junk' },
+      { name: 'september/notes.txt', content: 'read me' },
+    ]);
+    const { sources, issues } = await readImportSources([new File([zip], 'exports.zip', { type: 'application/zip' })]);
+
+    expect(sources.map(source => [source.name, source.records.length])).toEqual([['AC001.csv', 2]]);
+    expect(issues).toEqual([{ source: 'exports.zip/september/notes.txt', reason: 'Unsupported file type, expected .csv or .xlsx' }]);
+  });
+
+  it('reports a file it cannot read and goes on with the rest', async () => {
+    const { sources, issues } = await readImportSources([
+      new File(['not a zip'], 'broken.zip'),
+      new File(['%PDF'], 'report.pdf', { type: 'application/pdf' }),
+      new File([`${HEADER}\n2026-09-01,10,1,500,1,10000,0`], 'AC002.csv', { type: 'text/csv' }),
+    ]);
+
+    expect(sources.map(source => source.name)).toEqual(['AC002.csv']);
+    expect(issues).toEqual([
+      { source: 'broken.zip', reason: 'Not a valid ZIP file' },
+      { source: 'report.pdf', reason: 'Unsupported file type, expected .csv, .xlsx or .zip' },
+    ]);
+  });
+});
@@ -0,0 +1,253 @@
+import { Account, SalesData } from '../types';
+import { ImportRecord, parseCsvRecords, ParsedRow, readSalesRecords, SALES_COLUMNS } from './csvImport';
+import { isXlsxFile, readXlsxSheets } from './xlsxImport';
+import { readZipEntries } from './zipReader';
+
+// Bulk upload: many accounts from one file with an account column, or from many
+// files (dropped together or inside a zip) whose names identify the account.
+
+export interface ImportSource {
+  name: string;
+  records: ImportRecord[];
+}
+
+export interface SourceIssue {
+  source: string;
+  line?: number;
+  reason: string;
+}
+
+export interface BulkAccountPreview {
+  account: Account;
+  rows: ParsedRow[];
+  sources: string[];
+  startDate: string;
+  endDate: string;
+}
+
+export interface UnmatchedGroup {
+  source: string;
+  accountKey: string;
+  rowCount: number;
+}
+
+export interface DateConflict {
+  account: Account;
+  date: string;
+  sources: string[];
+  rowCount: number;
+}
+
+export interface BulkImportPlan {
+  accounts: BulkAccountPreview[];
+  unmatched: UnmatchedGroup[];
+  conflicts: DateConflict[];
+  issues: SourceIssue[];
+  summary: {
+    matched: number;
+    unmatched: number;
+    conflicting: number;
+    rejected: number;
+  };
+}
+
+interface Candidate {
+  source: string;
+  line: number;
+  row: ParsedRow;
+}
+
+const isCsvName = (name: string) => name.toLowerCase().endsWith('.csv');
+const isXlsxName = (name: string) => name.toLowerCase().endsWith('.xlsx');
+const isZipFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.zip') || ['application/zip', 'application/x-zip-compressed'].includes(file.type);
+
+const baseName = (path: string) => path.replace(/^.*[\\/]/, '');
+
+// A workbook may hold several sheets; bulk mode uses the first one with a valid header
+const pickSheetRecords = async (buffer: ArrayBuffer): Promise<ImportRecord[]> => {
+  const sheets = await readXlsxSheets(buffer);
+  const sheet = sheets.find(s => readSalesRecords(s.records).errors.length === 0) || sheets[0];
+  return sheet?.records || [];
+};
+
+/**
+ * Reads dropped files into import sources. Zip archives are expanded; files other
+ * than CSV and XLSX (and macOS metadata entries) are reported as issues.
+ */
+export const readImportSources = async (files: File[]): Promise<{ sources: ImportSource[]; issues: SourceIssue[] }> => {
+  const sources: ImportSource[] = [];
+  const issues: SourceIssue[] = [];
+
+  for (const file of files) {
+    try {
+      if (isZipFile(file)) {
+        const entries = readZipEntries(await file.arrayBuffer())
+          .filter(entry => !entry.name.startsWith('__MACOSX/') && !baseName(entry.name).startsWith('.'));
+
+        for (const entry of entries) {
+          const name = baseName(entry.name);
+          if (isCsvName(name)) {
+            sources.push({ name, records: parseCsvRecords(new TextDecoder().decode(await entry.read())) });
+          } else if (isXlsxName(name)) {
+            sources.push({ name, records: await pickSheetRecords((await entry.read()).slice().buffer) });
+          } else {
+            issues.push({ source: `${file.name}/${entry.name}`, reason: 'Unsupported file type, expected .csv or .xlsx' });
+          }
+        }
+      } else if (isXlsxFile(file)) {
+        sources.push({ name: file.name, records: await pickSheetRecords(await file.arrayBuffer()) });
+      } else if (file.type === 'text/csv' || isCsvName(file.name)) {
+        sources.push({ name: file.name, records: parseCsvRecords(await file.text()) });
+      } else {
+        issues.push({ source: file.name, reason: 'Unsupported file type, expected .csv, .xlsx or .zip' });
+      }
+    } catch (error) {
+      issues.push({ source: file.name, reason: error instanceof Error ? error.message : 'Could not read file' });
+    }
+  }
+
+  return { sources, issues };
+};
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/^@/, '');
+
+// Matches an account_code first, then a username (with or without a leading @)
+export const findAccountByKey = (key: string, accounts: Account[]): Account | null => {
+  const normalized = normalizeKey(key);
+  return accounts.find(account => account.account_code.toLowerCase() === normalized)
+    || accounts.find(account => normalizeKey(account.username) === normalized)
+    || null;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Maps a file name such as "AC001.csv" or "AC001 - Januari 2025.xlsx" to an account.
+ * The code or username has to appear as a separate word; when several accounts match,
+ * the longest match wins and a tie leaves the file unmatched.
+ */
+export const findAccountByFileName = (fileName: string, accounts: Account[]): Account | null => {
+  const name = baseName(fileName).replace(/\.[^.]+$/, '');
+  const exact = findAccountByKey(name, accounts);
+  if (exact) return exact;
+
+  const lowerName = name.toLowerCase();
+  const matches = accounts
+    .map(account => {
+      const keys = [account.account_code, normalizeKey(account.username)]
+        .map(key => key.toLowerCase())
+        .filter(key => key !== '' && new RegExp(`(^|[^a-z0-9])@?${escapeRegExp(key)}($|[^a-z0-9])`).test(lowerName));
+      return { account, length: Math.max(0, ...keys.map(key => key.length)) };
+    })
+    .filter(match => match.length > 0);
+
+  const longest = Math.max(0, ...matches.map(match => match.length));
+  const best = matches.filter(match => match.length === longest);
+  return best.length === 1 ? best[0].account : null;
+};
+
+const isSameRow = (a: ParsedRow, b: ParsedRow) =>
+  SALES_COLUMNS.every(column => a[column.field] === b[column.field]);
+
+/**
+ * Resolves every row to an account and groups them per account. Rows for an
+ * account and date that appear more than once with different values conflict and
+ * are left out; identical duplicates (e.g. overlapping exports) are uploaded once.
+ */
+export const buildBulkImportPlan = (sources: ImportSource[], accounts: Account[]): BulkImportPlan => {
+  const issues: SourceIssue[] = [];
+  const unmatched = new Map<string, UnmatchedGroup>();
+  const candidates = new Map<string, Map<string, Candidate[]>>();
+
+  sources.forEach(source => {
+    const result = readSalesRecords(source.records);
+    result.errors.forEach(reason => issues.push({ source: source.name, reason }));
+    result.rejected.forEach(rejected => issues.push({ source: source.name, ...rejected }));
+
+    const fileAccount = result.hasAccountColumn ? null : findAccountByFileName(source.name, accounts);
+
+    result.rows.forEach(({ line, row, accountKey }) => {
+      const account = accountKey !== null ? findAccountByKey(accountKey, accounts) : fileAccount;
+
+      if (!account) {
+        const key = accountKey ?? baseName(source.name);
+        const groupKey = `${source.name}|${key}`;
+        const group = unmatched.get(groupKey) || { source: source.name, accountKey: key, rowCount: 0 };
+        group.rowCount++;
+        unmatched.set(groupKey, group);
+        return;
+      }
+
+      const byDate = candidates.get(account.id) || new Map<string, Candidate[]>();
+      byDate.set(row.date, [...(byDate.get(row.date) || []), { source: source.name, line, row }]);
+      candidates.set(account.id, byDate);
+    });
+  });
+
+  const previews: BulkAccountPreview[] = [];
+  const conflicts: DateConflict[] = [];
+
+  candidates.forEach((byDate, accountId) => {
+    const account = accounts.find(acc => acc.id === accountId) as Account;
+    const rows: ParsedRow[] = [];
+    const sourceNames = new Set<string>();
+
+    byDate.forEach((dateCandidates, date) => {
+      const [first, ...rest] = dateCandidates;
+      if (rest.some(candidate => !isSameRow(candidate.row, first.row))) {
+        conflicts.push({
+          account,
+          date,
+          sources: [...new Set(dateCandidates.map(candidate => `${candidate.source}:${candidate.line}`))],
+          rowCount: dateCandidates.length,
+        });
+        return;
+      }
+      rows.push(first.row);
+      dateCandidates.forEach(candidate => sourceNames.add(candidate.source));
+    });
+
+    if (rows.length === 0) return;
+
+    const dates = rows.map(row => row.date).sort();
+    previews.push({
+      account,
+      rows,
+      sources: [...sourceNames],
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+    });
+  });
+
+  previews.sort((a, b) => a.account.username.localeCompare(b.account.username));
+  conflicts.sort((a, b) => a.account.username.localeCompare(b.account.username) || a.date.localeCompare(b.date));
+
+  const unmatchedGroups = [...unmatched.values()];
+  return {
+    accounts: previews,
+    unmatched: unmatchedGroups,
+    conflicts,
+    issues,
+    summary: {
+      matched: previews.reduce((sum, preview) => sum + preview.rows.length, 0),
+      unmatched: unmatchedGroups.reduce((sum, group) => sum + group.rowCount, 0),
+      conflicting: conflicts.reduce((sum, conflict) => sum + conflict.rowCount, 0),
+      rejected: issues.filter(issue => issue.line !== undefined).length,
+    },
+  };
+};
+
+export interface AccountUpload {
+  account: Account;
+  fileName: string;
+  rows: Omit<SalesData, 'id' | 'created_at' | 'batch_id'>[];
+}
+
+// One upload per account, so every account gets its own upload batch to revert
+export const toAccountUploads = (plan: BulkImportPlan): AccountUpload[] =>
+  plan.accounts.map(preview => ({
+    account: preview.account,
+    fileName: preview.sources.join(', '),
+    rows: preview.rows.map(row => ({ ...row, account_id: preview.account.id })),
+  }));
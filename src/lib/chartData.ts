@@ -0,0 +1,117 @@
+import { AccountPeriodTotals, ChartBucket, SalesQuery, SalesTotals } from '../types';
+import { parseDateString, toDateString } from './salesQuery';
+
+// Shapes sales totals for the charts: which metrics can be plotted, how days are grouped into
+// buckets, and the stacked and funnel series.
+
+export type ChartMetric = 'gross_commission' | 'total_purchases' | 'orders' | 'clicks';
+
+export const chartMetricLabels: Record<ChartMetric, string> = {
+  gross_commission: 'Commission',
+  total_purchases: 'Revenue',
+  orders: 'Orders',
+  clicks: 'Clicks',
+};
+
+// Amounts in rupiah share the left axis; counts use the right one
+export const isCurrencyMetric = (metric: ChartMetric): boolean =>
+  metric === 'gross_commission' || metric === 'total_purchases';
+
+// Tailwind's purple, blue, green, orange, pink, cyan and yellow 500s; gray for "Other"
+export const chartColors = ['#a855f7', '#3b82f6', '#22c55e', '#f97316', '#ec4899', '#06b6d4', '#eab308'];
+export const OTHER_SERIES_COLOR = '#9ca3af';
+
+export const getSeriesColor = (index: number): string => chartColors[index % chartColors.length];
+
+// Days for up to two months, weeks for up to a year and months beyond that or without a start date
+export const getChartBucket = (range: Pick<SalesQuery, 'startDate' | 'endDate'>, today = new Date()): ChartBucket => {
+  if (!range.startDate) return 'month';
+  const endDate = range.endDate || toDateString(today);
+  const days = Math.round((parseDateString(endDate).getTime() - parseDateString(range.startDate).getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  if (days <= 62) return 'day';
+  return days <= 366 ? 'week' : 'month';
+};
+
+// The first day of the bucket a date falls in, like date_trunc() in sales_account_period_totals
+export const getBucketStart = (date: string, bucket: ChartBucket): string => {
+  if (bucket === 'day') return date;
+  const day = parseDateString(date);
+  if (bucket === 'month') return toDateString(new Date(day.getFullYear(), day.getMonth(), 1));
+  const daysSinceMonday = (day.getDay() + 6) % 7;
+  return toDateString(new Date(day.getFullYear(), day.getMonth(), day.getDate() - daysSinceMonday));
+};
+
+export const formatPeriodLabel = (period: string, bucket: ChartBucket = 'day'): string =>
+  parseDateString(period).toLocaleDateString('id-ID', bucket === 'month'
+    ? { month: 'short', year: '2-digit' }
+    : { day: '2-digit', month: 'short' });
+
+// Short axis labels: 1,2 jt, 350 rb
+export const formatCompactNumber = (value: number): string =>
+  new Intl.NumberFormat('id-ID', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+export interface StackedSeries {
+  id: string;
+  label: string;
+  values: number[]; // One per period
+}
+
+export interface StackedChartData {
+  periods: string[];
+  series: StackedSeries[];
+}
+
+export const OTHER_SERIES_ID = 'other';
+
+const sumValues = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+// Sums a metric per group (an account or its category) and period. The largest groups keep their
+// own series; the rest are added up as "Other" so the bars stay readable.
+export const stackPeriodTotals = (
+  rows: AccountPeriodTotals[],
+  getGroup: (accountId: string) => { id: string; label: string },
+  metric: ChartMetric,
+  maxSeries = 6
+): StackedChartData => {
+  const periods = [...new Set(rows.map(row => row.period))].sort();
+  const groups = new Map<string, StackedSeries>();
+  rows.forEach(row => {
+    const group = getGroup(row.account_id);
+    const series = groups.get(group.id) || { ...group, values: periods.map(() => 0) };
+    series.values[periods.indexOf(row.period)] += row[metric];
+    groups.set(group.id, series);
+  });
+
+  const ranked = [...groups.values()].sort((a, b) => sumValues(b.values) - sumValues(a.values));
+  if (ranked.length <= maxSeries) return { periods, series: ranked };
+
+  const rest = ranked.slice(maxSeries - 1);
+  const other: StackedSeries = {
+    id: OTHER_SERIES_ID,
+    label: `Other (${rest.length})`,
+    values: rest.reduce<number[]>(
+      (sums, series) => sums.map((sum, index) => sum + series.values[index]),
+      periods.map(() => 0)
+    ),
+  };
+  return { periods, series: [...ranked.slice(0, maxSeries - 1), other] };
+};
+
+export interface FunnelStep {
+  label: string;
+  value: number;
+  // Share of the previous step in percent; null for the first step or when it was zero
+  conversion: number | null;
+}
+
+export const getFunnelSteps = (totals: SalesTotals): FunnelStep[] => {
+  const steps = [
+    { label: 'Clicks', value: totals.clicks },
+    { label: 'Orders', value: totals.orders },
+    { label: 'New buyers', value: totals.new_buyers },
+  ];
+  return steps.map((step, index) => {
+    const previous = index > 0 ? steps[index - 1].value : 0;
+    return { ...step, conversion: previous > 0 ? (step.value / previous) * 100 : null };
+  });
+};
@@ -0,0 +1,66 @@
+import { Account, AccountPeriodTotals, AccountSalesTotals, IncentivePeriod } from '../types';
+import { parseDateString, toDateString } from './salesQuery';
+
+// Which account/day pairs have sales data. Uploads are exports of finished days, so a day is only
+// missing once it is over. Days before an account was created and inactive accounts are not
+// expected to have data.
+
+export const DEFAULT_STALE_DAYS = 3;
+
+export type CoverageCell = 'present' | 'missing' | 'not_expected';
+
+export interface AccountCoverage {
+  account_id: string;
+  cells: CoverageCell[]; // One per day of the period
+  missing_days: string[];
+  last_date: string | null; // Latest day with data in any period; null when nothing was uploaded
+  days_since_data: number | null;
+  is_tracked: boolean; // Inactive accounts are shown but never missing or stale
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getPeriodDays = (period: IncentivePeriod): string[] => {
+  const days: string[] = [];
+  const last = parseDateString(period.end);
+  for (let day = parseDateString(period.start); day <= last; day.setDate(day.getDate() + 1)) {
+    days.push(toDateString(day));
+  }
+  return days;
+};
+
+export const buildCoverage = (
+  accounts: Pick<Account, 'id' | 'status' | 'created_at'>[],
+  days: string[],
+  rows: Pick<AccountPeriodTotals, 'account_id' | 'period'>[],
+  totals: Pick<AccountSalesTotals, 'account_id' | 'last_date'>[],
+  today = new Date()
+): AccountCoverage[] => {
+  const todayString = toDateString(today);
+  const present = new Set(rows.map(row => `${row.account_id}|${row.period}`));
+
+  return accounts.map(account => {
+    const isTracked = account.status !== 'inactive';
+    const createdOn = toDateString(new Date(account.created_at));
+    const cells = days.map<CoverageCell>(day => {
+      if (present.has(`${account.id}|${day}`)) return 'present';
+      return isTracked && day >= createdOn && day < todayString ? 'missing' : 'not_expected';
+    });
+    const lastDate = totals.find(row => row.account_id === account.id)?.last_date ?? null;
+
+    return {
+      account_id: account.id,
+      cells,
+      missing_days: cells.flatMap((cell, index) => cell === 'missing' ? [days[index]] : []),
+      last_date: lastDate,
+      days_since_data: lastDate
+        ? Math.round((parseDateString(todayString).getTime() - parseDateString(lastDate).getTime()) / DAY_MS)
+        : null,
+      is_tracked: isTracked,
+    };
+  });
+};
+
+// No data for more than `staleDays` days, or none at all
+export const isStale = (coverage: AccountCoverage, staleDays: number): boolean =>
+  coverage.is_tracked && (coverage.days_since_data === null || coverage.days_since_data > staleDays);
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { importSalesCsv, parseCsvRecords, parseLocaleNumber, parseSalesDate } from './csvImport';
+
+const HEADER = 'Tanggal,Klik,Pesanan,Komisi Kotor(Rp),Produk Terjual,Total Pembelian yang Dibuat(Rp),Pembeli Baru';
+
+describe('parseCsvRecords', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    const records = parseCsvRecords('name,note\n"Shop, Jakarta","say ""hi""\nthen leave"\n');
+    expect(records.map(record => record.fields)).toEqual([
+      ['name', 'note'],
+      ['Shop, Jakarta', 'say "hi"\nthen leave'],
+    ]);
+  });
+
+  it('reads CRLF line endings like LF and skips blank lines', () => {
+    const records = parseCsvRecords('a,b\r\n1,2\r\n\r\n3,4\r\n');
+    expect(records).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['1', '2'] },
+      { line: 4, fields: ['3', '4'] },
+    ]);
+  });
+
+  it('counts the lines of a multi-line field for the records after it', () => {
+    const records = parseCsvRecords('a,b\r\n"one\r\ntwo\r\nthree",x\r\nlast,y');
+    expect(records.map(record => record.line)).toEqual([1, 2, 5]);
+  });
+
+  it('picks up semicolons and tabs as the delimiter and drops a byte order mark', () => {
+    expect(parseCsvRecords('\uFEFFa;b\n1,5;2')[1].fields).toEqual(['1,5', '2']);
+    expect(parseCsvRecords('a\tb\n1\t2')[1].fields).toEqual(['1', '2']);
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  it('reads Indonesian notation', () => {
+    expect(parseLocaleNumber('1.234,5')).toBe(1234.5);
+    expect(parseLocaleNumber('1.234.567,89')).toBe(1234567.89);
+    expect(parseLocaleNumber('Rp 12.500')).toBe(12500);
+  });
+
+  it('reads English notation', () => {
+    expect(parseLocaleNumber('1,234.5')).toBe(1234.5);
+    expect(parseLocaleNumber('1,234,567.89')).toBe(1234567.89);
+  });
+
+  it('reads one separator before three digits as thousands and otherwise as decimals', () => {
+    expect(parseLocaleNumber('1.234')).toBe(1234);
+    expect(parseLocaleNumber('1,234')).toBe(1234);
+    expect(parseLocaleNumber('12,5')).toBe(12.5);
+    expect(parseLocaleNumber('0.125')).toBe(0.125);
+  });
+
+  it('reads empty cells as zero and brackets as negative', () => {
+    expect(parseLocaleNumber('')).toBe(0);
+    expect(parseLocaleNumber('-')).toBe(0);
+    expect(parseLocaleNumber('(1.000)')).toBe(-1000);
+  });
+
+  it('rejects values that are not numbers or have misplaced separators', () => {
+    expect(parseLocaleNumber('abc')).toBeNull();
+    expect(parseLocaleNumber('1.23.4')).toBeNull();
+    expect(parseLocaleNumber('1,2345.6')).toBeNull();
+  });
+});
+
+describe('parseSalesDate', () => {
+  it('reads ISO and day-first dates and ignores a trailing time', () => {
+    expect(parseSalesDate('2026-09-01')).toBe('2026-09-01');
+    expect(parseSalesDate('1/9/2026')).toBe('2026-09-01');
+    expect(parseSalesDate('01.09.2026')).toBe('2026-09-01');
+    expect(parseSalesDate('2026-09-01T08:00:00')).toBe('2026-09-01');
+  });
+
+  it('rejects dates that are not on the calendar', () => {
+    expect(parseSalesDate('2026-02-30')).toBeNull();
+    expect(parseSalesDate('31/04/2026')).toBeNull();
+    expect(parseSalesDate('2026-13-01')).toBeNull();
+  });
+
+  it('rejects other formats', () => {
+    expect(parseSalesDate('09/2026')).toBeNull();
+    expect(parseSalesDate('1 September 2026')).toBeNull();
+    expect(parseSalesDate('')).toBeNull();
+  });
+});
+
+describe('importSalesCsv', () => {
+  it('imports rows with headers in any order and locale numbers', () => {
+    const result = importSalesCsv('Pesanan;Tanggal;Klik;Komisi Kotor(Rp);Produk Terjual;Total Pembelian yang Dibuat(Rp);Pembeli Baru\n3;01/09/2026;120;"45.000,50";4;900.000;1');
+    expect(result.errors).toEqual([]);
+    expect(result.rows).toEqual([{
+      date: '2026-09-01',
+      clicks: 120,
+      orders: 3,
+      gross_commission: 45000.5,
+      products_sold: 4,
+      total_purchases: 900000,
+      new_buyers: 1,
+    }]);
+  });
+
+  it('reports rejected rows with the line they start on', () => {
+    const csv = [
+      'Sales export September',
+      HEADER,
+      '2026-09-01,10,1,500,1,10000,0',
+      '2026-02-30,10,1,500,1,10000,0',
+      '"2026-09-02",10,"1,5",500,1,10000,0',
+      '2026-09-01,10,1,500,1,10000,0',
+      '2026-09-03,10,1,500,1,10000,0,extra',
+    ].join('\r\n');
+
+    const result = importSalesCsv(csv);
+    expect(result.rows.map(row => row.date)).toEqual(['2026-09-01']);
+    expect(result.rejected).toEqual([
+      { line: 4, reason: 'Invalid date "2026-02-30"' },
+      { line: 5, reason: 'Pesanan must be a whole number: "1,5"' },
+      { line: 6, reason: 'Duplicate date 2026-09-01 (first seen on line 3)' },
+      { line: 7, reason: 'Expected 7 columns, found 8' },
+    ]);
+  });
+
+  it('imports nothing when a required column is missing', () => {
+    const result = importSalesCsv('Tanggal,Klik\n2026-09-01,10');
+    expect(result.rows).toEqual([]);
+    expect(result.errors).toEqual([
+      'Missing required columns: Pesanan, Komisi Kotor(Rp), Produk Terjual, Total Pembelian yang Dibuat(Rp), Pembeli Baru',
+    ]);
+  });
+});
@@ -0,0 +1,401 @@
+import { SalesData } from '../types';
+
+// Parses sales exports into rows ready for upload. Handles quoted fields (RFC 4180),
+// CRLF line endings, Indonesian and English headers in any column order and
+// locale number formats such as "1.234.567,00" or "1,234,567.00".
+// Spreadsheet imports reuse the same validation through `importSalesRecords`.
+
+export type ParsedRow = Omit<SalesData, 'id' | 'account_id' | 'created_at' | 'batch_id'>;
+
+export type ParsedRowField = keyof ParsedRow;
+
+// CSV cells are always text; spreadsheet cells may already be numbers
+export type ImportCell = string | number;
+
+export interface ImportRecord {
+  line: number;
+  fields: ImportCell[];
+}
+
+export interface CsvRecord extends ImportRecord {
+  fields: string[];
+}
+
+export interface RejectedRow {
+  line: number;
+  reason: string;
+}
+
+export interface CsvImportResult {
+  rows: ParsedRow[];
+  rejected: RejectedRow[];
+  // Problems with the header itself; when present no rows are imported
+  errors: string[];
+  ignoredHeaders: string[];
+}
+
+export interface ImportedRow {
+  line: number;
+  row: ParsedRow;
+  // Value of the account_code/username column, when the file has one
+  accountKey: string | null;
+}
+
+export interface SalesRecordsResult extends Omit<CsvImportResult, 'rows'> {
+  rows: ImportedRow[];
+  hasAccountColumn: boolean;
+}
+
+interface ColumnDefinition {
+  field: ParsedRowField;
+  label: string;
+  aliases: string[];
+  kind: 'date' | 'integer' | 'amount';
+}
+
+export const SALES_COLUMNS: ColumnDefinition[] = [
+  { field: 'date', label: 'Tanggal', aliases: ['tanggal', 'date', 'day'], kind: 'date' },
+  { field: 'clicks', label: 'Klik', aliases: ['klik', 'clicks', 'click'], kind: 'integer' },
+  { field: 'orders', label: 'Pesanan', aliases: ['pesanan', 'orders', 'order'], kind: 'integer' },
+  {
+    field: 'gross_commission',
+    label: 'Komisi Kotor(Rp)',
+    aliases: ['komisikotor', 'komisi', 'grosscommission', 'commission'],
+    kind: 'amount',
+  },
+  {
+    field: 'products_sold',
+    label: 'Produk Terjual',
+    aliases: ['produkterjual', 'productssold', 'itemssold'],
+    kind: 'integer',
+  },
+  {
+    field: 'total_purchases',
+    label: 'Total Pembelian yang Dibuat(Rp)',
+    aliases: ['totalpembelianyangdibuat', 'totalpembelian', 'totalpurchases', 'purchases', 'revenue'],
+    kind: 'amount',
+  },
+  { field: 'new_buyers', label: 'Pembeli Baru', aliases: ['pembelibaru', 'newbuyers'], kind: 'integer' },
+];
+
+// Optional column naming the account a row belongs to, used by bulk uploads
+export const ACCOUNT_COLUMN_ALIASES = ['accountcode', 'kodeakun', 'username', 'account', 'akun'];
+
+// "Komisi Kotor(Rp)", "Gross Commission (IDR)" and "gross_commission" all normalise to the same key
+export const normalizeHeader = (header: string): string =>
+  header
+    .toLowerCase()
+    .replace(/\((rp|idr)\)/g, '')
+    .replace(/[^a-z0-9]/g, '');
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|\r|$/));
+  const counts = [',', ';', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  return best.count > 0 ? best.delimiter : ',';
+};
+
+/**
+ * Splits CSV text into records following RFC 4180: fields may be quoted, quoted
+ * fields may contain delimiters, doubled quotes and line breaks. Each record keeps
+ * the physical line it started on so rejected rows can be reported accurately.
+ */
+export const parseCsvRecords = (text: string, delimiter = detectDelimiter(text)): CsvRecord[] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Skip blank lines instead of turning them into empty records
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+/**
+ * Parses a number written in either Indonesian ("1.234.567,89") or English
+ * ("1,234,567.89") notation. A single separator followed by exactly three digits
+ * is read as a thousands separator, since sales figures are never fractional to
+ * the thousandth. Returns null when the value is not a number.
+ */
+export const parseLocaleNumber = (raw: string): number | null => {
+  let value = raw.replace(/\s/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.startsWith('-')) {
+    negative = true;
+    value = value.slice(1);
+  }
+  value = value.replace(/^(rp|idr)\.?/i, '');
+
+  // Exports use an empty cell or a dash for zero
+  if (value === '') return 0;
+  if (!/^\d[\d.,]*$/.test(value)) return null;
+
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  let thousands: string | null = null;
+  let decimal: string | null = null;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Both present: whichever comes last is the decimal separator
+    decimal = lastComma > lastDot ? ',' : '.';
+    thousands = decimal === ',' ? '.' : ',';
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = value.split(separator);
+    const isThousands = parts.length > 2 || (parts[1].length === 3 && parts[0] !== '0');
+    if (isThousands) {
+      thousands = separator;
+    } else {
+      decimal = separator;
+    }
+  }
+
+  const escape = (separator: string | null) => (separator === '.' ? '\\.' : separator);
+  const pattern = new RegExp(
+    `^${thousands ? `\\d{1,3}(${escape(thousands)}\\d{3})*` : '\\d+'}${decimal ? `(${escape(decimal)}\\d+)?` : ''}$`
+  );
+  if (!pattern.test(value)) return null;
+
+  let normalized = thousands ? value.split(thousands).join('') : value;
+  if (decimal) normalized = normalized.replace(decimal, '.');
+
+  const number = parseFloat(normalized);
+  return negative ? -number : number;
+};
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+/**
+ * Parses ISO dates (2024-01-31) and day-first dates as used in Indonesian exports
+ * (31/01/2024, 31-01-2024, 31.01.2024). A trailing time is ignored.
+ * Returns YYYY-MM-DD, or null when the value is not a real calendar date.
+ */
+export const parseSalesDate = (raw: string): string | null => {
+  const value = raw.trim().split(/[ T]/)[0];
+  let year: number, month: number, day: number;
+
+  const isoMatch = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  const dayFirstMatch = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+
+  if (isoMatch) {
+    [year, month, day] = isoMatch.slice(1).map(Number);
+  } else if (dayFirstMatch) {
+    [day, month, year] = dayFirstMatch.slice(1).map(Number);
+  } else {
+    return null;
+  }
+
+  if (!isValidDate(year, month, day)) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Maps each known column to its index in the header row
+export const mapHeaders = (headers: ImportCell[]) => {
+  const columnIndexes = new Map<ParsedRowField, number>();
+  const errors: string[] = [];
+  const ignoredHeaders: string[] = [];
+  const accountColumns: number[] = [];
+
+  headers.forEach((cell, index) => {
+    const header = String(cell).trim();
+    const key = normalizeHeader(header);
+    const column = SALES_COLUMNS.find(col => col.aliases.includes(key));
+
+    if (!column) {
+      if (ACCOUNT_COLUMN_ALIASES.includes(key)) accountColumns.push(index);
+      if (header !== '') ignoredHeaders.push(header);
+      return;
+    }
+    if (columnIndexes.has(column.field)) {
+      errors.push(`Column "${column.label}" appears more than once (column ${index + 1})`);
+      return;
+    }
+    columnIndexes.set(column.field, index);
+  });
+
+  const missing = SALES_COLUMNS.filter(col => !columnIndexes.has(col.field));
+  if (missing.length > 0) {
+    errors.push(`Missing required columns: ${missing.map(col => col.label).join(', ')}`);
+  }
+
+  // Prefer account_code over username when a file has both
+  const aliasRank = (index: number) => ACCOUNT_COLUMN_ALIASES.indexOf(normalizeHeader(String(headers[index])));
+  const accountColumn = accountColumns.sort((a, b) => aliasRank(a) - aliasRank(b))[0] ?? null;
+
+  return { columnIndexes, accountColumn, errors, ignoredHeaders };
+};
+
+const parseRecord = (
+  record: ImportRecord,
+  columnIndexes: Map<ParsedRowField, number>
+): { row: ParsedRow } | { reason: string } => {
+  const values: Partial<Record<ParsedRowField, string | number>> = {};
+
+  for (const column of SALES_COLUMNS) {
+    const index = columnIndexes.get(column.field) as number;
+    const raw = record.fields[index];
+
+    if (raw === undefined) {
+      return { reason: `Missing value for ${column.label} (found ${record.fields.length} columns)` };
+    }
+
+    const text = String(raw).trim();
+
+    if (column.kind === 'date') {
+      const date = typeof raw === 'string' ? parseSalesDate(raw) : null;
+      if (!date) return { reason: `Invalid date "${text}"` };
+      values.date = date;
+      continue;
+    }
+
+    const number = typeof raw === 'number' ? raw : parseLocaleNumber(raw);
+    if (number === null) return { reason: `${column.label} is not a number: "${text}"` };
+    if (number < 0) return { reason: `${column.label} cannot be negative` };
+    if (column.kind === 'integer' && !Number.isInteger(number)) {
+      return { reason: `${column.label} must be a whole number: "${text}"` };
+    }
+    values[column.field] = number;
+  }
+
+  return { row: values as ParsedRow };
+};
+
+// Exports sometimes start with a title or date range above the real header row
+const HEADER_SEARCH_LIMIT = 10;
+
+/**
+ * Validates parsed records (from a CSV file or a spreadsheet) into sales rows.
+ * Rows that cannot be read are returned in `rejected` with their line number
+ * instead of being dropped silently. Dates must be unique per account.
+ */
+export const readSalesRecords = (records: ImportRecord[]): SalesRecordsResult => {
+  if (records.length === 0) {
+    return { rows: [], rejected: [], errors: ['The file is empty'], ignoredHeaders: [], hasAccountColumn: false };
+  }
+
+  const candidates = records.slice(0, HEADER_SEARCH_LIMIT).map(record => mapHeaders(record.fields));
+  const headerIndex = Math.max(candidates.findIndex(candidate => candidate.errors.length === 0), 0);
+  const { columnIndexes, accountColumn, errors, ignoredHeaders } = candidates[headerIndex];
+  const hasAccountColumn = accountColumn !== null;
+  if (errors.length > 0) {
+    return { rows: [], rejected: [], errors, ignoredHeaders, hasAccountColumn };
+  }
+
+  const headerRecord = records[headerIndex];
+  const dataRecords = records.slice(headerIndex + 1);
+  const rows: ImportedRow[] = [];
+  const rejected: RejectedRow[] = [];
+  const seenDates = new Map<string, number>();
+
+  dataRecords.forEach(record => {
+    const extraFields = record.fields.slice(headerRecord.fields.length);
+    if (extraFields.some(field => String(field).trim() !== '')) {
+      rejected.push({
+        line: record.line,
+        reason: `Expected ${headerRecord.fields.length} columns, found ${record.fields.length}`,
+      });
+      return;
+    }
+
+    const accountKey = accountColumn !== null ? String(record.fields[accountColumn] ?? '').trim() : null;
+    if (accountKey === '') {
+      rejected.push({ line: record.line, reason: 'Missing account code or username' });
+      return;
+    }
+
+    const result = parseRecord(record, columnIndexes);
+    if ('reason' in result) {
+      rejected.push({ line: record.line, reason: result.reason });
+      return;
+    }
+
+    const dateKey = `${accountKey ?? ''}|${result.row.date}`;
+    const firstLine = seenDates.get(dateKey);
+    if (firstLine !== undefined) {
+      rejected.push({ line: record.line, reason: `Duplicate date ${result.row.date} (first seen on line ${firstLine})` });
+      return;
+    }
+
+    seenDates.set(dateKey, record.line);
+    rows.push({ line: record.line, row: result.row, accountKey });
+  });
+
+  return { rows, rejected, errors: [], ignoredHeaders, hasAccountColumn };
+};
+
+// Single-account import: an account column is ignored as long as it names one account
+export const importSalesRecords = (records: ImportRecord[]): CsvImportResult => {
+  const { rows, rejected, errors, ignoredHeaders } = readSalesRecords(records);
+  const accountKeys = new Set(rows.map(imported => imported.accountKey?.toLowerCase()));
+  if (accountKeys.size > 1) {
+    return {
+      rows: [],
+      rejected,
+      errors: [`The file contains rows for ${accountKeys.size} accounts. Use Bulk Upload instead.`],
+      ignoredHeaders,
+    };
+  }
+  return { rows: rows.map(imported => imported.row), rejected, errors, ignoredHeaders };
+};
+
+export const importSalesCsv = (text: string): CsvImportResult => importSalesRecords(parseCsvRecords(text));
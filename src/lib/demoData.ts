@@ -0,0 +1,247 @@
+import {
+  Account,
+  AccountAssignment,
+  AnomalyAcknowledgement,
+  AuditLogEntry,
+  Category,
+  FileData,
+  FileVersion,
+  IncentiveRule,
+  PayoutEntry,
+  PayoutPeriod,
+  RoleCapability,
+  SalesData,
+  Squad,
+  UploadBatch,
+  User,
+} from '../types';
+import { toDateString } from './salesQuery';
+import { DEFAULT_ROLE_CAPABILITIES, EDITABLE_ROLES } from './permissions';
+
+// Seeded sample data for demo mode. The store lives in memory only: every change made
+// in the demo is gone after a reload, and nothing is ever sent to Supabase.
+
+export type DemoUserRow = Omit<User, 'managed_accounts' | 'access_token' | 'refresh_token'>;
+
+export interface DemoBatchRow {
+  batch_id: string;
+  account_id: string;
+  date: string;
+  previous: Pick<SalesData, 'clicks' | 'orders' | 'gross_commission' | 'products_sold' | 'total_purchases' | 'new_buyers'> | null;
+  previous_batch_id: string | null;
+}
+
+export interface DemoStore {
+  categories: Category[];
+  accounts: Account[];
+  users: DemoUserRow[];
+  squads: Squad[];
+  roleCapabilities: RoleCapability[];
+  assignments: AccountAssignment[];
+  salesData: SalesData[];
+  incentiveRules: IncentiveRule[];
+  payoutPeriods: PayoutPeriod[];
+  payoutEntries: PayoutEntry[];
+  uploadBatches: UploadBatch[];
+  uploadBatchRows: DemoBatchRow[];
+  anomalyAcknowledgements: AnomalyAcknowledgement[];
+  files: FileData[];
+  fileVersions: FileVersion[];
+  fileObjects: Record<string, string>; // Storage path -> object URL of the uploaded file
+  auditLog: AuditLogEntry[];
+}
+
+// Days of sales history generated per account
+const DEMO_HISTORY_DAYS = 120;
+
+export const DEMO_ADMIN_ID = 'demo-user-admin';
+
+// Shifts a YYYY-MM-DD string by whole days in local time
+export const shiftDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
+// Small deterministic generator (mulberry32) so every demo starts with the same numbers
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const createDemoStore = (): DemoStore => {
+  const today = toDateString(new Date());
+  const historyStart = shiftDate(today, -(DEMO_HISTORY_DAYS - 1));
+  const createdAt = new Date(`${historyStart}T08:00:00`).toISOString();
+
+  const categories: Category[] = [
+    { id: 'demo-category-fashion', name: 'Fashion', description: 'Pakaian dan aksesoris', created_at: createdAt },
+    { id: 'demo-category-beauty', name: 'Beauty', description: 'Kosmetik dan perawatan', created_at: createdAt },
+    { id: 'demo-category-home', name: 'Home Living', description: 'Perlengkapan rumah', created_at: createdAt },
+  ];
+
+  const accountSeeds: { username: string; category_id: string; status: Account['status']; payment_data: Account['payment_data'] }[] = [
+    { username: 'kimo.fashion', category_id: 'demo-category-fashion', status: 'active', payment_data: 'sah' },
+    { username: 'kimo.style', category_id: 'demo-category-fashion', status: 'active', payment_data: 'disetujui' },
+    { username: 'kimo.glow', category_id: 'demo-category-beauty', status: 'active', payment_data: 'sah' },
+    { username: 'kimo.skin', category_id: 'demo-category-beauty', status: 'violation', payment_data: 'dimasukkan' },
+    { username: 'kimo.home', category_id: 'demo-category-home', status: 'active', payment_data: 'utamakan' },
+    { username: 'kimo.living', category_id: 'demo-category-home', status: 'inactive', payment_data: 'belum diatur' },
+  ];
+
+  const accounts: Account[] = accountSeeds.map((seed, index) => ({
+    id: `demo-account-${index + 1}`,
+    username: seed.username,
+    email: `${seed.username.replace('.', '')}@example.com`,
+    phone: `0812000000${index + 1}`,
+    status: seed.status,
+    payment_data: seed.payment_data,
+    account_code: `ACC00000${index + 1}`,
+    category_id: seed.category_id,
+    user_id: DEMO_ADMIN_ID,
+    created_at: createdAt,
+  }));
+
+  const users: DemoUserRow[] = [
+    { id: DEMO_ADMIN_ID, name: 'Demo Admin', email: 'admin@demo.local', role: 'superadmin', created_at: createdAt },
+    { id: 'demo-user-sari', name: 'Sari Lestari', email: 'sari@demo.local', role: 'team_lead', squad_id: 'demo-squad-fashion', created_at: createdAt },
+    { id: 'demo-user-rina', name: 'Rina Putri', email: 'rina@demo.local', role: 'user', squad_id: 'demo-squad-fashion', created_at: createdAt },
+    { id: 'demo-user-budi', name: 'Budi Santoso', email: 'budi@demo.local', role: 'user', squad_id: 'demo-squad-home', created_at: createdAt },
+    { id: 'demo-user-dewi', name: 'Dewi Anggraini', email: 'dewi@demo.local', role: 'finance', created_at: createdAt },
+  ];
+
+  const squads: Squad[] = [
+    { id: 'demo-squad-fashion', name: 'Squad Fashion', description: 'Akun fashion dan beauty', leader_id: 'demo-user-sari', created_at: createdAt },
+    { id: 'demo-squad-home', name: 'Squad Home', description: 'Akun home living', leader_id: null, created_at: createdAt },
+  ];
+
+  const roleCapabilities: RoleCapability[] = EDITABLE_ROLES.flatMap(role =>
+    DEFAULT_ROLE_CAPABILITIES[role].map(capability => ({ role, capability, created_at: createdAt }))
+  );
+
+  // The last account changed hands mid-month, so the demo shows split incentive credit
+  const handoverDate = shiftDate(today, -14);
+  const assignment = (id: number, accountIndex: number, userId: string, from: string, to: string | null): AccountAssignment => ({
+    id: `demo-assignment-${id}`,
+    account_id: accounts[accountIndex].id,
+    user_id: userId,
+    effective_from: from,
+    effective_to: to,
+    created_by: DEMO_ADMIN_ID,
+    created_at: createdAt,
+  });
+  const assignments: AccountAssignment[] = [
+    assignment(1, 0, 'demo-user-rina', historyStart, null),
+    assignment(2, 1, 'demo-user-rina', historyStart, null),
+    assignment(3, 2, 'demo-user-rina', historyStart, null),
+    assignment(4, 3, 'demo-user-budi', historyStart, null),
+    assignment(5, 4, 'demo-user-budi', historyStart, null),
+    assignment(6, 5, 'demo-user-rina', historyStart, shiftDate(handoverDate, -1)),
+    assignment(7, 5, 'demo-user-budi', handoverDate, null),
+  ];
+
+  const random = createRandom(20261019);
+  const salesData: SalesData[] = [];
+  accounts.forEach((account, accountIndex) => {
+    const scale = 1 + accountIndex * 0.35;
+    for (let day = 0; day < DEMO_HISTORY_DAYS; day++) {
+      const date = shiftDate(historyStart, day);
+      const clicks = Math.round((180 + random() * 420) * scale);
+      const orders = Math.round(clicks * (0.02 + random() * 0.04));
+      const totalPurchases = Math.round(orders * (85000 + random() * 120000));
+      salesData.push({
+        id: `demo-sale-${account.id}-${date}`,
+        account_id: account.id,
+        date,
+        clicks,
+        orders,
+        gross_commission: Math.round(totalPurchases * (0.04 + random() * 0.06)),
+        products_sold: orders + Math.round(random() * orders * 0.5),
+        total_purchases: totalPurchases,
+        new_buyers: Math.round(orders * (0.3 + random() * 0.4)),
+        batch_id: null,
+        created_at: new Date(`${date}T23:00:00`).toISOString(),
+      });
+    }
+  });
+
+  // One upload with the purchases and commission columns swapped, for the anomaly checks to catch
+  const swappedRow = salesData.find(row => row.account_id === accounts[0].id && row.date === shiftDate(historyStart, DEMO_HISTORY_DAYS - 4));
+  if (swappedRow) {
+    [swappedRow.gross_commission, swappedRow.total_purchases] = [swappedRow.total_purchases, swappedRow.gross_commission];
+  }
+
+  const incentiveRules: IncentiveRule[] = [
+    {
+      id: 'demo-rule-standard',
+      name: 'Insentif Standar',
+      description: 'Insentif bulanan untuk akun dengan komisi 4% ke atas',
+      min_commission_threshold: 500000,
+      commission_rate_min: 4,
+      commission_rate_max: 100,
+      base_revenue_threshold: 50000000,
+      payout_mode: 'progressive',
+      tiers: [
+        { id: 'demo-tier-1', revenue_threshold: 50000000, incentive_rate: 1, created_at: createdAt },
+        { id: 'demo-tier-2', revenue_threshold: 150000000, incentive_rate: 1.5, created_at: createdAt },
+        { id: 'demo-tier-3', revenue_threshold: 300000000, incentive_rate: 2, created_at: createdAt },
+      ],
+      is_active: true,
+      created_at: createdAt,
+    },
+  ];
+
+  const files: FileData[] = [
+    {
+      id: 'demo-file-pricelist',
+      name: 'Daftar Harga Fashion',
+      category_id: 'demo-category-fashion',
+      spreadsheet_url: 'https://docs.google.com/spreadsheets/',
+      description: 'Contoh tautan spreadsheet',
+      storage_path: null,
+      file_size: null,
+      mime_type: null,
+      current_version: 0,
+      is_pinned: true,
+      created_by: DEMO_ADMIN_ID,
+      created_at: createdAt,
+      updated_at: createdAt,
+    },
+  ];
+
+  return {
+    categories,
+    accounts,
+    users,
+    squads,
+    roleCapabilities,
+    assignments,
+    salesData,
+    incentiveRules,
+    payoutPeriods: [],
+    payoutEntries: [],
+    uploadBatches: [],
+    uploadBatchRows: [],
+    anomalyAcknowledgements: [],
+    files,
+    fileVersions: [],
+    fileObjects: {},
+    auditLog: [],
+  };
+};
+
+export const demoStore: DemoStore = createDemoStore();
+
+// Who is signed in to the demo; stands in for auth.uid()
+let demoSessionUserId: string | null = null;
+
+export const getDemoSessionUserId = () => demoSessionUserId;
+
+export const startDemoSession = (userId: string) => {
+  demoSessionUserId = userId;
+};
+
+export const endDemoSession = () => {
+  demoSessionUserId = null;
+};
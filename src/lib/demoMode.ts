@@ -0,0 +1,3 @@
+// Demo mode runs the whole app on in-memory sample data instead of Supabase.
+// It is only ever enabled explicitly, with `VITE_DEMO_MODE=true` in the environment.
+export const isDemoMode = import.meta.env.VITE_DEMO_MODE === 'true';
@@ -0,0 +1,58 @@
+// Helpers for file attachments kept in the private `file-attachments` Storage bucket.
+// Objects are addressed per version, so replacing a file never overwrites an older upload.
+
+export const FILE_BUCKET = 'file-attachments';
+
+// Signed URLs are created on demand, right before a preview or download
+export const SIGNED_URL_TTL_SECONDS = 60;
+
+// Supabase Storage rejects larger uploads by default
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+// CSV previews only show the top of the file
+export const CSV_PREVIEW_ROWS = 50;
+
+export type PreviewKind = 'image' | 'pdf' | 'csv';
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel',
+  txt: 'text/plain',
+  zip: 'application/zip',
+};
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+// Browsers leave `type` empty for extensions they do not know, e.g. CSV on some Windows setups
+export const getMimeType = (file: File) =>
+  file.type || MIME_TYPES_BY_EXTENSION[getExtension(file.name)] || 'application/octet-stream';
+
+export const getPreviewKind = (mimeType: string | null, fileName: string): PreviewKind | null => {
+  const type = mimeType || MIME_TYPES_BY_EXTENSION[getExtension(fileName)] || '';
+  // SVG can carry scripts, so it is downloaded rather than rendered
+  if (type.startsWith('image/') && type !== 'image/svg+xml') return 'image';
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'text/csv' || getExtension(fileName) === 'csv') return 'csv';
+  return null;
+};
+
+export const buildStoragePath = (fileId: string, version: number, fileName: string) =>
+  `${fileId}/v${version}-${fileName.replace(/[^A-Za-z0-9._-]+/g, '_')}`;
+
+// "v3-price_list.pdf" -> "price_list.pdf"
+export const getStoredFileName = (storagePath: string) =>
+  storagePath.replace(/^.*\//, '').replace(/^v\d+-/, '');
+
+export const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return 'Unknown';
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import { Account, IncentiveRule } from '../types';
+import {
+  calculateIncentives,
+  calculateTierPayout,
+  calculateUserIncentive,
+  findApplicableRule,
+  getMonthPeriod,
+  getRulesForSquad,
+  isInPeriod,
+  IncentiveUser,
+} from './incentiveEngine';
+
+const makeRule = (overrides: Partial<IncentiveRule> = {}): IncentiveRule => ({
+  id: 'rule',
+  name: 'Rule',
+  description: '',
+  min_commission_threshold: 0,
+  commission_rate_min: 0,
+  commission_rate_max: 100,
+  base_revenue_threshold: 0,
+  payout_mode: 'progressive',
+  tiers: [
+    { id: 'tier-2', revenue_threshold: 2000, incentive_rate: 2, created_at: '' },
+    { id: 'tier-1', revenue_threshold: 1000, incentive_rate: 1, created_at: '' },
+  ],
+  is_active: true,
+  squad_id: null,
+  created_at: '',
+  ...overrides,
+});
+
+const makeAccount = (id: string): Account => ({
+  id,
+  username: id,
+  email: '',
+  phone: '',
+  status: 'active',
+  payment_data: 'belum diatur',
+  account_code: id,
+  category_id: 'category',
+  user_id: null,
+  created_at: '',
+});
+
+const user: IncentiveUser = { id: 'user-1', name: 'User One', managed_accounts: ['a', 'b'], squad_id: null };
+const september = getMonthPeriod('2026-09');
+
+describe('calculateTierPayout', () => {
+  it('applies each tier rate to its own revenue band in progressive mode', () => {
+    expect(calculateTierPayout(3000, makeRule())).toBe(30);
+  });
+
+  it('applies the highest reached tier rate to all revenue in flat mode', () => {
+    expect(calculateTierPayout(3000, makeRule({ payout_mode: 'flat' }))).toBe(60);
+  });
+
+  it('pays nothing below the first tier', () => {
+    expect(calculateTierPayout(999, makeRule())).toBe(0);
+    expect(calculateTierPayout(999, makeRule({ payout_mode: 'flat' }))).toBe(0);
+  });
+
+  it('pays from the base revenue threshold on, not just above it', () => {
+    const rule = makeRule({ base_revenue_threshold: 1500 });
+    expect(calculateTierPayout(1499, rule)).toBe(0);
+    expect(calculateTierPayout(1500, rule)).toBe(5);
+    expect(calculateTierPayout(1500, { ...rule, payout_mode: 'flat' })).toBe(15);
+  });
+});
+
+describe('rule selection', () => {
+  const everyone = makeRule({ id: 'everyone', commission_rate_min: 5, commission_rate_max: 100 });
+  const squadRule = makeRule({ id: 'squad', squad_id: 'squad-a', commission_rate_min: 5, commission_rate_max: 20 });
+  const otherSquad = makeRule({ id: 'other', squad_id: 'squad-b' });
+
+  it('puts the squad rules before the rules for everyone and drops other squads', () => {
+    expect(getRulesForSquad([everyone, squadRule, otherSquad], 'squad-a').map(rule => rule.id)).toEqual(['squad', 'everyone']);
+  });
+
+  it('only keeps rules for everyone when the user has no squad', () => {
+    expect(getRulesForSquad([everyone, squadRule, otherSquad], null).map(rule => rule.id)).toEqual(['everyone']);
+  });
+
+  it('picks the first active rule whose rate range contains the rate', () => {
+    const rules = getRulesForSquad([everyone, squadRule], 'squad-a');
+    expect(findApplicableRule(rules, 10)?.id).toBe('squad');
+    expect(findApplicableRule(rules, 30)?.id).toBe('everyone');
+    expect(findApplicableRule(rules, 4)).toBeNull();
+    expect(findApplicableRule([{ ...squadRule, is_active: false }, everyone], 10)?.id).toBe('everyone');
+  });
+
+  it('uses the squad rule when calculating for a squad member', () => {
+    const member = { ...user, squad_id: 'squad-a' };
+    const calculation = calculateUserIncentive(
+      member,
+      [makeAccount('a')],
+      [{ account_id: 'a', gross_commission: 300, total_purchases: 3000, date: '2026-09-10' }],
+      [everyone, squadRule],
+      september
+    );
+    expect(calculation.applicable_rule?.id).toBe('squad');
+  });
+});
+
+describe('isInPeriod', () => {
+  it('compares the date part of sales dates with the period bounds', () => {
+    expect(isInPeriod('2026-09-01', september)).toBe(true);
+    expect(isInPeriod('2026-09-30T23:59:59Z', september)).toBe(true);
+    expect(isInPeriod('2026-10-01', september)).toBe(false);
+    expect(isInPeriod('2026-08-31', september)).toBe(false);
+  });
+
+  // Per-account totals have no date and are already limited to the period by their query
+  it('treats rows without a date as inside the period', () => {
+    expect(isInPeriod(undefined, september)).toBe(true);
+  });
+});
+
+describe('calculateIncentives', () => {
+  const rule = makeRule({ min_commission_threshold: 100 });
+
+  it('only counts revenue from accounts reaching the minimum commission', () => {
+    const [calculation] = calculateIncentives({
+      users: [user],
+      accounts: [makeAccount('a'), makeAccount('b')],
+      salesData: [
+        { account_id: 'a', gross_commission: 150, total_purchases: 3000, date: '2026-09-05' },
+        { account_id: 'b', gross_commission: 50, total_purchases: 5000, date: '2026-09-05' },
+      ],
+      rules: [rule],
+      period: september,
+    });
+
+    expect(calculation.total_revenue).toBe(8000);
+    expect(calculation.qualifying_revenue).toBe(3000);
+    expect(calculation.qualifying_accounts_count).toBe(1);
+    expect(calculation.incentive_amount).toBe(30);
+  });
+
+  it('sums commission over the period before checking the minimum', () => {
+    const [calculation] = calculateIncentives({
+      users: [user],
+      accounts: [makeAccount('a')],
+      salesData: [
+        { account_id: 'a', gross_commission: 60, total_purchases: 1500, date: '2026-09-01' },
+        { account_id: 'a', gross_commission: 60, total_purchases: 1500, date: '2026-09-02' },
+      ],
+      rules: [rule],
+      period: september,
+    });
+
+    expect(calculation.qualifying_accounts_count).toBe(1);
+    expect(calculation.qualifying_revenue).toBe(3000);
+  });
+
+  it('leaves out dated rows outside the period but keeps rows without a date', () => {
+    const [calculation] = calculateIncentives({
+      users: [user],
+      accounts: [makeAccount('a'), makeAccount('b')],
+      salesData: [
+        { account_id: 'a', gross_commission: 500, total_purchases: 10000, date: '2026-08-31' },
+        { account_id: 'a', gross_commission: 150, total_purchases: 3000, date: '2026-09-15' },
+        { account_id: 'b', gross_commission: 100, total_purchases: 1000 },
+      ],
+      rules: [rule],
+      period: september,
+    });
+
+    expect(calculation.total_revenue).toBe(4000);
+    expect(calculation.qualifying_revenue).toBe(4000);
+    expect(calculation.qualifying_accounts_count).toBe(2);
+  });
+
+  it('only credits rows assigned to the user or to nobody', () => {
+    const [calculation] = calculateIncentives({
+      users: [user],
+      accounts: [makeAccount('a')],
+      salesData: [
+        { account_id: 'a', gross_commission: 150, total_purchases: 3000, user_id: 'user-1' },
+        { account_id: 'a', gross_commission: 150, total_purchases: 3000, user_id: 'user-2' },
+      ],
+      rules: [rule],
+      period: september,
+    });
+
+    expect(calculation.total_revenue).toBe(3000);
+  });
+
+  it('ignores accounts the user does not manage and sorts by payout', () => {
+    const other: IncentiveUser = { id: 'user-2', name: 'User Two', managed_accounts: ['c'], squad_id: null };
+    const calculations = calculateIncentives({
+      users: [user, other],
+      accounts: [makeAccount('a'), makeAccount('c')],
+      salesData: [
+        { account_id: 'a', gross_commission: 150, total_purchases: 1500 },
+        { account_id: 'c', gross_commission: 300, total_purchases: 3000 },
+      ],
+      rules: [rule],
+      period: september,
+    });
+
+    expect(calculations.map(calc => [calc.user_id, calc.total_revenue])).toEqual([['user-2', 3000], ['user-1', 1500]]);
+  });
+
+  it('earns nothing without a rule for the commission rate', () => {
+    const [calculation] = calculateIncentives({
+      users: [user],
+      accounts: [makeAccount('a')],
+      salesData: [{ account_id: 'a', gross_commission: 150, total_purchases: 3000 }],
+      rules: [makeRule({ commission_rate_min: 50 })],
+      period: september,
+    });
+
+    expect(calculation.applicable_rule).toBeNull();
+    expect(calculation.incentive_amount).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+import { Account, SalesData, IncentiveRule, IncentiveTier, IncentiveCalculation, IncentivePeriod, User } from '../types';
+
+// Pure incentive calculation shared by Incentive Quest and Incentive Overview.
+// Nothing in here touches React or Supabase so both screens always agree on the numbers.
+
+export type IncentiveUser = Pick<User, 'id' | 'name' | 'managed_accounts' | 'squad_id'>;
+
+// Daily rows or per-account totals both work; rows without a date are assumed to be inside the period.
+// Rows with a user_id were credited by account assignment and only count for that user.
+export type IncentiveSalesRow = Pick<SalesData, 'account_id' | 'gross_commission' | 'total_purchases'> & {
+  date?: string;
+  user_id?: string;
+};
+
+export interface IncentiveEngineInput {
+  users: IncentiveUser[];
+  accounts: Account[];
+  salesData: IncentiveSalesRow[];
+  rules: IncentiveRule[];
+  period?: IncentivePeriod;
+}
+
+// Returns the first and last day (YYYY-MM-DD) of a `YYYY-MM` month string
+export const getMonthPeriod = (month: string): IncentivePeriod => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(year, monthIndex, 0).getDate();
+  return {
+    start: `${month}-01`,
+    end: `${month}-${String(lastDay).padStart(2, '0')}`,
+  };
+};
+
+export const getCurrentMonth = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const isInPeriod = (date: string | undefined, period?: IncentivePeriod): boolean => {
+  if (!period || !date) return true;
+  // Sales dates are stored as YYYY-MM-DD, so string comparison avoids timezone shifts
+  const day = date.slice(0, 10);
+  return day >= period.start && day <= period.end;
+};
+
+export const sortTiers = (tiers: IncentiveTier[]): IncentiveTier[] =>
+  [...tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
+
+// A max rate of 100 means the rule has no upper bound
+export const isRateInRule = (commissionRate: number, rule: IncentiveRule): boolean =>
+  commissionRate >= rule.commission_rate_min &&
+  (rule.commission_rate_max === 100 || commissionRate <= rule.commission_rate_max);
+
+// The rules a squad's members earn under. Rules for the squad come first, so they win over
+// rules for everyone when rate ranges overlap.
+export const getRulesForSquad = (rules: IncentiveRule[], squadId?: string | null): IncentiveRule[] => [
+  ...rules.filter(rule => !!squadId && rule.squad_id === squadId),
+  ...rules.filter(rule => !rule.squad_id),
+];
+
+// Picks the first active rule whose commission rate range contains the given rate
+export const findApplicableRule = (rules: IncentiveRule[], commissionRate: number): IncentiveRule | null =>
+  rules.find(rule => rule.is_active && isRateInRule(commissionRate, rule)) || null;
+
+// Sums commission per account and keeps the accounts reaching the rule's minimum commission
+export const getQualifyingAccountIds = (salesData: IncentiveSalesRow[], rule: IncentiveRule): Set<string> => {
+  const commissionByAccount = new Map<string, number>();
+  salesData.forEach(data => {
+    commissionByAccount.set(
+      data.account_id,
+      (commissionByAccount.get(data.account_id) || 0) + (data.gross_commission || 0)
+    );
+  });
+
+  const qualifying = new Set<string>();
+  commissionByAccount.forEach((commission, accountId) => {
+    if (commission >= rule.min_commission_threshold) {
+      qualifying.add(accountId);
+    }
+  });
+  return qualifying;
+};
+
+/**
+ * Calculates the payout for a revenue figure under a rule.
+ * - `progressive`: each tier's rate applies only to the revenue between its threshold and the next one.
+ * - `flat`: the rate of the highest tier reached applies to the whole revenue.
+ * Revenue below the rule's base threshold earns nothing in either mode.
+ */
+export const calculateTierPayout = (revenue: number, rule: IncentiveRule): number => {
+  if (revenue < rule.base_revenue_threshold) return 0;
+
+  const tiers = sortTiers(rule.tiers);
+
+  if (rule.payout_mode === 'flat') {
+    const reached = tiers.filter(tier => revenue >= tier.revenue_threshold);
+    const currentTier = reached[reached.length - 1];
+    return currentTier ? (revenue * currentTier.incentive_rate) / 100 : 0;
+  }
+
+  return tiers.reduce((sum, tier, index) => {
+    if (revenue < tier.revenue_threshold) return sum;
+    const upperBound = tiers[index + 1]?.revenue_threshold ?? Infinity;
+    const tierRevenue = Math.min(revenue, upperBound) - tier.revenue_threshold;
+    return sum + (tierRevenue * tier.incentive_rate) / 100;
+  }, 0);
+};
+
+export const getUserAccounts = (user: IncentiveUser, accounts: Account[]): Account[] =>
+  accounts.filter(acc => user.managed_accounts.includes(acc.id));
+
+export const calculateUserIncentive = (
+  user: IncentiveUser,
+  userAccounts: Account[],
+  salesData: IncentiveSalesRow[],
+  rules: IncentiveRule[],
+  period?: IncentivePeriod
+): IncentiveCalculation => {
+  const accountIds = new Set(userAccounts.map(acc => acc.id));
+  const userSalesData = salesData.filter(data =>
+    accountIds.has(data.account_id) &&
+    (!data.user_id || data.user_id === user.id) &&
+    isInPeriod(data.date, period)
+  );
+
+  const totalRevenue = userSalesData.reduce((sum, data) => sum + (data.total_purchases || 0), 0);
+  const totalCommission = userSalesData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
+  const commissionRate = totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0;
+
+  const rule = findApplicableRule(getRulesForSquad(rules, user.squad_id), commissionRate);
+
+  const calculation: IncentiveCalculation = {
+    user_id: user.id,
+    user_name: user.name,
+    total_revenue: totalRevenue,
+    total_commission: totalCommission,
+    commission_rate: commissionRate,
+    qualifying_revenue: 0,
+    qualifying_accounts_count: 0,
+    applicable_rule: rule,
+    current_tier: null,
+    next_tier: null,
+    incentive_amount: 0,
+    progress_percentage: 0,
+    remaining_to_next_tier: 0,
+    managed_accounts_count: userAccounts.length,
+  };
+
+  if (!rule) return calculation;
+
+  const qualifyingAccountIds = getQualifyingAccountIds(userSalesData, rule);
+  const qualifyingRevenue = userSalesData
+    .filter(data => qualifyingAccountIds.has(data.account_id))
+    .reduce((sum, data) => sum + (data.total_purchases || 0), 0);
+
+  const tiers = sortTiers(rule.tiers);
+  const reachedBase = qualifyingRevenue >= rule.base_revenue_threshold;
+  const currentTier = reachedBase
+    ? [...tiers].reverse().find(tier => qualifyingRevenue >= tier.revenue_threshold) || null
+    : null;
+  const nextTier = tiers.find(tier => tier.revenue_threshold > qualifyingRevenue) || null;
+
+  let progressPercentage = 0;
+  let remainingToNextTier = 0;
+  if (nextTier) {
+    const startThreshold = currentTier?.revenue_threshold ?? 0;
+    const span = nextTier.revenue_threshold - startThreshold;
+    progressPercentage = span > 0 ? ((qualifyingRevenue - startThreshold) / span) * 100 : 0;
+    remainingToNextTier = Math.max(nextTier.revenue_threshold - qualifyingRevenue, 0);
+  } else if (currentTier) {
+    progressPercentage = 100;
+  }
+
+  return {
+    ...calculation,
+    qualifying_revenue: qualifyingRevenue,
+    qualifying_accounts_count: qualifyingAccountIds.size,
+    current_tier: currentTier,
+    next_tier: nextTier,
+    incentive_amount: calculateTierPayout(qualifyingRevenue, rule),
+    progress_percentage: Math.min(Math.max(progressPercentage, 0), 100),
+    remaining_to_next_tier: remainingToNextTier,
+  };
+};
+
+// Calculates every user's incentive for the period, highest payout first
+export const calculateIncentives = ({
+  users,
+  accounts,
+  salesData,
+  rules,
+  period,
+}: IncentiveEngineInput): IncentiveCalculation[] =>
+  users
+    .map(user => calculateUserIncentive(user, getUserAccounts(user, accounts), salesData, rules, period))
+    .sort((a, b) => b.incentive_amount - a.incentive_amount);
@@ -0,0 +1,131 @@
+import {
+  AccountPeriodTotals,
+  AccountSalesTotals,
+  DailySalesTotals,
+  IncentiveCalculation,
+  IncentivePeriod,
+  SalesTotals,
+  User,
+} from '../types';
+import { getPeriodDays } from './coverage';
+import { emptySalesTotals, sumSalesTotals, toDateString } from './salesQuery';
+
+// Monthly reports for the whole studio and for each user, built from the same totals and metrics
+// as the Reports screen. They are laid out for printing, so the browser can save them as PDF.
+
+export interface ReportMetrics {
+  totalCommission: number;
+  totalRevenue: number;
+  totalOrders: number;
+  totalClicks: number;
+  totalProductsSold: number;
+  totalNewBuyers: number;
+  avgCommissionRate: number;
+  conversionRate: number;
+}
+
+export interface MonthlyReport {
+  key: string; // 'studio' or the user's id
+  title: string;
+  user: User | null;
+  period: IncentivePeriod;
+  metrics: ReportMetrics;
+  accounts: AccountSalesTotals[]; // Highest commission first
+  daily: DailySalesTotals[];
+  incentives: IncentiveCalculation[]; // Everyone's on the studio report, the user's own otherwise
+}
+
+export const STUDIO_REPORT_KEY = 'studio';
+
+export const getReportMetrics = (totals: SalesTotals): ReportMetrics => ({
+  totalCommission: totals.gross_commission,
+  totalRevenue: totals.total_purchases,
+  totalOrders: totals.orders,
+  totalClicks: totals.clicks,
+  totalProductsSold: totals.products_sold,
+  totalNewBuyers: totals.new_buyers,
+  avgCommissionRate: totals.total_purchases > 0 ? (totals.gross_commission / totals.total_purchases) * 100 : 0,
+  conversionRate: totals.clicks > 0 ? (totals.orders / totals.clicks) * 100 : 0,
+});
+
+// One entry per day of the period up to today, so the chart shows quiet days as zero
+const fillReportDays = (
+  byDay: Map<string, DailySalesTotals>,
+  period: IncentivePeriod,
+  today: Date
+): DailySalesTotals[] => {
+  const todayString = toDateString(today);
+  return getPeriodDays(period)
+    .filter(day => day <= todayString)
+    .map(day => byDay.get(day) || { ...emptySalesTotals(), date: day, account_count: 0 });
+};
+
+// The studio's days come summed per day from the database
+export const getStudioDailyTotals = (
+  daily: DailySalesTotals[],
+  period: IncentivePeriod,
+  today = new Date()
+): DailySalesTotals[] => fillReportDays(new Map(daily.map(day => [day.date, day])), period, today);
+
+// A user's days are summed here from their accounts' rows
+export const getReportDailyTotals = (
+  rows: AccountPeriodTotals[],
+  accountIds: Set<string>,
+  period: IncentivePeriod,
+  today = new Date()
+): DailySalesTotals[] => {
+  const rowsByDay = new Map<string, AccountPeriodTotals[]>();
+  rows
+    .filter(row => accountIds.has(row.account_id))
+    .forEach(row => {
+      const dayRows = rowsByDay.get(row.period) || [];
+      dayRows.push(row);
+      rowsByDay.set(row.period, dayRows);
+    });
+
+  const byDay = new Map<string, DailySalesTotals>();
+  rowsByDay.forEach((dayRows, day) => {
+    byDay.set(day, { ...sumSalesTotals(dayRows), date: day, account_count: dayRows.length });
+  });
+  return fillReportDays(byDay, period, today);
+};
+
+const byCommission = (a: AccountSalesTotals, b: AccountSalesTotals) => b.gross_commission - a.gross_commission;
+
+export const buildStudioReport = (
+  accountTotals: AccountSalesTotals[],
+  daily: DailySalesTotals[],
+  incentives: IncentiveCalculation[],
+  period: IncentivePeriod
+): MonthlyReport => ({
+  key: STUDIO_REPORT_KEY,
+  title: 'Studio Report',
+  user: null,
+  period,
+  metrics: getReportMetrics(sumSalesTotals(accountTotals)),
+  accounts: [...accountTotals].sort(byCommission),
+  daily: getStudioDailyTotals(daily, period),
+  incentives,
+});
+
+// Account totals are the days credited to the user, matching their incentive. The chart covers
+// their accounts' whole days, since daily rows are not split by assignment.
+export const buildUserReport = (
+  user: User,
+  assignmentTotals: (AccountSalesTotals & { user_id: string })[],
+  dailyRows: AccountPeriodTotals[],
+  incentives: IncentiveCalculation[],
+  period: IncentivePeriod
+): MonthlyReport => {
+  const accountTotals = assignmentTotals.filter(row => row.user_id === user.id);
+  return {
+    key: user.id,
+    title: user.name,
+    user,
+    period,
+    metrics: getReportMetrics(sumSalesTotals(accountTotals)),
+    accounts: [...accountTotals].sort(byCommission),
+    daily: getReportDailyTotals(dailyRows, new Set(accountTotals.map(row => row.account_id)), period),
+    incentives: incentives.filter(calc => calc.user_id === user.id),
+  };
+};
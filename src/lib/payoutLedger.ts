@@ -0,0 +1,131 @@
+import { IncentiveCalculation, PayoutEntry } from '../types';
+
+// Pure helpers for the payout ledger: closing a period books a snapshot per user,
+// anything that changes afterwards is booked as an adjustment for the difference.
+
+export type NewPayoutEntry = Omit<
+  PayoutEntry,
+  'id' | 'created_at' | 'status' | 'approved_at' | 'approved_by' | 'paid_at' | 'paid_by'
+>;
+
+export interface UserLedgerSummary {
+  user_id: string;
+  user_name: string;
+  snapshot_amount: number;
+  adjustment_amount: number;
+  booked_amount: number;
+  entries: PayoutEntry[];
+}
+
+// Amounts are in rupiah; anything below one cent is rounding noise, not an adjustment
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export const toLedgerEntry = (
+  calculation: IncentiveCalculation,
+  periodId: string,
+  entryType: PayoutEntry['entry_type'] = 'snapshot'
+): NewPayoutEntry => ({
+  period_id: periodId,
+  user_id: calculation.user_id,
+  user_name: calculation.user_name,
+  entry_type: entryType,
+  rule_id: calculation.applicable_rule?.id ?? null,
+  rule_name: calculation.applicable_rule?.name ?? null,
+  tier_id: calculation.current_tier?.id ?? null,
+  total_revenue: calculation.total_revenue,
+  total_commission: calculation.total_commission,
+  commission_rate: calculation.commission_rate,
+  qualifying_revenue: calculation.qualifying_revenue,
+  incentive_amount: roundAmount(calculation.incentive_amount),
+  note: null,
+});
+
+// Groups ledger entries per user and totals what has been booked so far
+export const summarizeLedger = (entries: PayoutEntry[]): UserLedgerSummary[] => {
+  const summaries = new Map<string, UserLedgerSummary>();
+
+  entries.forEach(entry => {
+    const summary = summaries.get(entry.user_id) || {
+      user_id: entry.user_id,
+      user_name: entry.user_name,
+      snapshot_amount: 0,
+      adjustment_amount: 0,
+      booked_amount: 0,
+      entries: [],
+    };
+
+    if (entry.entry_type === 'snapshot') {
+      summary.snapshot_amount += entry.incentive_amount;
+    } else {
+      summary.adjustment_amount += entry.incentive_amount;
+    }
+    summary.booked_amount = roundAmount(summary.snapshot_amount + summary.adjustment_amount);
+    summary.entries.push(entry);
+    summaries.set(entry.user_id, summary);
+  });
+
+  return [...summaries.values()].sort((a, b) => b.booked_amount - a.booked_amount);
+};
+
+/**
+ * Compares the live calculations of a closed period with what the ledger already holds
+ * and returns one adjustment entry per user whose payout changed. Figures on the
+ * adjustment are deltas, so summing a user's entries always gives the current result.
+ */
+export const calculatePayoutAdjustments = (
+  periodId: string,
+  entries: PayoutEntry[],
+  calculations: IncentiveCalculation[]
+): NewPayoutEntry[] => {
+  const summaries = new Map(summarizeLedger(entries).map(summary => [summary.user_id, summary]));
+  const bookedTotals = (userId: string) => {
+    const userEntries = summaries.get(userId)?.entries || [];
+    return {
+      total_revenue: userEntries.reduce((sum, entry) => sum + entry.total_revenue, 0),
+      total_commission: userEntries.reduce((sum, entry) => sum + entry.total_commission, 0),
+      qualifying_revenue: userEntries.reduce((sum, entry) => sum + entry.qualifying_revenue, 0),
+    };
+  };
+
+  // Users booked on close but no longer calculated (e.g. accounts moved away) now earn nothing
+  const calculatedUserIds = new Set(calculations.map(calculation => calculation.user_id));
+  const reversals: NewPayoutEntry[] = [...summaries.values()]
+    .filter(summary => !calculatedUserIds.has(summary.user_id) && summary.booked_amount !== 0)
+    .map(summary => {
+      const booked = bookedTotals(summary.user_id);
+      return {
+        period_id: periodId,
+        user_id: summary.user_id,
+        user_name: summary.user_name,
+        entry_type: 'adjustment',
+        rule_id: null,
+        rule_name: null,
+        tier_id: null,
+        total_revenue: -booked.total_revenue,
+        total_commission: -booked.total_commission,
+        commission_rate: 0,
+        qualifying_revenue: -booked.qualifying_revenue,
+        incentive_amount: -summary.booked_amount,
+        note: `No longer eligible, reversing booked ${summary.booked_amount}`,
+      };
+    });
+
+  return calculations
+    .map((calculation): NewPayoutEntry | null => {
+      const bookedAmount = summaries.get(calculation.user_id)?.booked_amount || 0;
+      const delta = roundAmount(calculation.incentive_amount - bookedAmount);
+      if (delta === 0) return null;
+
+      const booked = bookedTotals(calculation.user_id);
+      return {
+        ...toLedgerEntry(calculation, periodId, 'adjustment'),
+        total_revenue: calculation.total_revenue - booked.total_revenue,
+        total_commission: calculation.total_commission - booked.total_commission,
+        qualifying_revenue: calculation.qualifying_revenue - booked.qualifying_revenue,
+        incentive_amount: delta,
+        note: `Recalculated payout ${roundAmount(calculation.incentive_amount)} vs booked ${bookedAmount}`,
+      };
+    })
+    .filter((entry): entry is NewPayoutEntry => entry !== null)
+    .concat(reversals);
+};
@@ -0,0 +1,75 @@
+import { Capability, RoleCapability, Squad, User, UserRole } from '../types';
+
+// Access is checked by capability, never by role name. Roles only bundle capabilities, and
+// superadmins can change the bundles from Team Management. The policies check the same names
+// with `has_capability()`.
+
+export const roleLabels: Record<UserRole, string> = {
+  user: 'User',
+  team_lead: 'Team Lead',
+  finance: 'Finance',
+  superadmin: 'Super Admin',
+};
+
+// Roles whose capabilities can be edited; superadmins always have all of them
+export const EDITABLE_ROLES: UserRole[] = ['user', 'team_lead', 'finance'];
+
+export const capabilityDefinitions: { id: Capability; label: string; description: string }[] = [
+  { id: 'accounts.view_all', label: 'View all accounts', description: 'Read every account and its sales data' },
+  { id: 'accounts.view_squad', label: 'View squad accounts', description: 'Read the accounts and sales data of the squads they lead' },
+  { id: 'accounts.manage', label: 'Manage accounts', description: 'Create, edit and delete any account and the categories' },
+  { id: 'accounts.edit_payment', label: 'Edit payment status', description: 'Change the payment status of accounts they can see' },
+  { id: 'incentives.earn', label: 'Earn incentives', description: 'Included in incentive calculations and has an Incentive Quest' },
+  { id: 'incentives.view_team', label: 'View team incentives', description: 'Open Incentive Overview for the users they can see' },
+  { id: 'incentives.edit_rules', label: 'Edit incentive rules', description: 'Create, change and delete incentive rules' },
+  { id: 'payouts.view', label: 'View payouts', description: 'Read the payout ledger of every user' },
+  { id: 'payouts.approve', label: 'Approve payouts', description: 'Close payout periods, add adjustments, approve and mark payouts paid' },
+  { id: 'files.manage', label: 'Manage files', description: 'Add, replace and delete files in File Management' },
+  { id: 'team.manage', label: 'Manage team', description: 'Invite users, set roles and permissions, manage squads and assign accounts' },
+  { id: 'audit.view', label: 'View audit log', description: 'Read the audit log' },
+];
+
+// Mirrors the rows the role_capabilities migration seeds; used until the live ones are loaded
+export const DEFAULT_ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  user: ['incentives.earn'],
+  team_lead: ['accounts.view_squad', 'incentives.earn', 'incentives.view_team'],
+  finance: ['accounts.view_all', 'accounts.edit_payment', 'incentives.view_team', 'payouts.view', 'payouts.approve'],
+  // Superadmins may do everything, but run the team rather than earn incentives themselves
+  superadmin: capabilityDefinitions.map(definition => definition.id).filter(id => id !== 'incentives.earn'),
+};
+
+export const getRoleCapabilities = (role: UserRole, rows: Pick<RoleCapability, 'role' | 'capability'>[]): Capability[] =>
+  role === 'superadmin'
+    ? DEFAULT_ROLE_CAPABILITIES.superadmin
+    : rows.filter(row => row.role === role).map(row => row.capability);
+
+// Attaches each user's capabilities, the same way managed_accounts is attached
+export const withCapabilities = <T extends Pick<User, 'role'>>(
+  users: T[],
+  rows: Pick<RoleCapability, 'role' | 'capability'>[]
+): (T & { capabilities: Capability[] })[] =>
+  users.map(user => ({ ...user, capabilities: getRoleCapabilities(user.role, rows) }));
+
+export const hasCapability = (user: Pick<User, 'role' | 'capabilities'> | null | undefined, capability: Capability): boolean => {
+  if (!user) return false;
+  if (user.role === 'superadmin') return DEFAULT_ROLE_CAPABILITIES.superadmin.includes(capability);
+  return (user.capabilities ?? DEFAULT_ROLE_CAPABILITIES[user.role]).includes(capability);
+};
+
+// Whether the user reads accounts beyond the ones assigned to them; the policies decide which
+export const seesOtherAccounts = (user: Pick<User, 'role' | 'capabilities'> | null | undefined): boolean =>
+  hasCapability(user, 'accounts.view_all') || hasCapability(user, 'accounts.view_squad');
+
+// The users a team view covers: everyone, the squads they lead, or only themselves
+export const getVisibleTeam = <T extends Pick<User, 'id' | 'squad_id'>>(
+  users: T[],
+  viewer: Pick<User, 'id' | 'role' | 'capabilities'>,
+  squads: Pick<Squad, 'id' | 'leader_id'>[]
+): T[] => {
+  if (hasCapability(viewer, 'accounts.view_all')) return users;
+  if (hasCapability(viewer, 'accounts.view_squad')) {
+    const ledSquadIds = new Set(squads.filter(squad => squad.leader_id === viewer.id).map(squad => squad.id));
+    return users.filter(user => user.id === viewer.id || (!!user.squad_id && ledSquadIds.has(user.squad_id)));
+  }
+  return users.filter(user => user.id === viewer.id);
+};
@@ -0,0 +1,51 @@
+// Client-side routing on the browser History API. Paths pick the screen, query parameters
+// hold filter state, so any view can be bookmarked, shared and reached with the back button.
+
+// pushState and replaceState don't fire popstate, so navigation announces itself with this event
+export const LOCATION_CHANGE_EVENT = 'locationchange';
+
+export interface AppLocation {
+  pathname: string;
+  search: string;
+}
+
+export const readLocation = (): AppLocation => ({
+  pathname: window.location.pathname,
+  search: window.location.search,
+});
+
+export const navigate = (to: string, options: { replace?: boolean } = {}) => {
+  if (options.replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+  }
+  window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+};
+
+// Merges into the current query string; null removes a parameter. Filter changes replace the
+// history entry, so the back button steps between screens rather than between filter tweaks.
+export const setQueryParams = (updates: Record<string, string | null>) => {
+  const params = new URLSearchParams(window.location.search);
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value === null) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+  });
+  const search = params.toString();
+  navigate(`${window.location.pathname}${search ? `?${search}` : ''}`, { replace: true });
+};
+
+// Keeps only the listed parameters of a query string, for links that carry shared filters along
+export const pickQueryParams = (search: string, keys: string[]): string => {
+  const source = new URLSearchParams(search);
+  const picked = new URLSearchParams();
+  keys.forEach(key => {
+    const value = source.get(key);
+    if (value !== null) picked.set(key, value);
+  });
+  const result = picked.toString();
+  return result ? `?${result}` : '';
+};
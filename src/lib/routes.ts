@@ -0,0 +1,113 @@
+import { Capability, DateFilter, User } from '../types';
+import { hasCapability } from './permissions';
+
+// One route per sidebar item, plus detail screens that open from one. `capability` limits a route to users
+// who have it; routes without it are open to everyone.
+
+export type AppTab =
+  | 'dashboard'
+  | 'accounts'
+  | 'account-detail'
+  | 'upload'
+  | 'anomalies'
+  | 'files'
+  | 'reports'
+  | 'monthly-report'
+  | 'incentives'
+  | 'incentive-game'
+  | 'incentive-overview'
+  | 'team'
+  | 'audit'
+  | 'profile';
+
+export interface AppRoute {
+  tab: AppTab;
+  path: string; // `:name` segments match any single path segment
+  capability?: Capability;
+  parent?: AppTab; // Sidebar item to highlight for detail screens
+}
+
+export const appRoutes: AppRoute[] = [
+  { tab: 'dashboard', path: '/' },
+  { tab: 'accounts', path: '/accounts' },
+  { tab: 'account-detail', path: '/accounts/:accountId', parent: 'accounts' },
+  { tab: 'upload', path: '/upload' },
+  { tab: 'anomalies', path: '/anomalies', capability: 'accounts.manage' },
+  { tab: 'files', path: '/files' },
+  { tab: 'reports', path: '/reports' },
+  { tab: 'monthly-report', path: '/reports/monthly', parent: 'reports' },
+  { tab: 'incentives', path: '/incentives/rules', capability: 'incentives.edit_rules' },
+  { tab: 'incentive-game', path: '/incentives/quest', capability: 'incentives.earn' },
+  { tab: 'incentive-overview', path: '/incentives/overview', capability: 'incentives.view_team' },
+  { tab: 'team', path: '/team', capability: 'team.manage' },
+  { tab: 'audit', path: '/audit', capability: 'audit.view' },
+  { tab: 'profile', path: '/profile' },
+];
+
+// A malformed escape in a pasted link should not break the whole app
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+// Trailing slashes are ignored, so `/reports/` opens Reports too
+const matchPath = (pattern: string, pathname: string): Record<string, string> | null => {
+  const normalized = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+  const patternSegments = pattern.split('/');
+  const pathSegments = normalized.split('/');
+  if (patternSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  const matches = patternSegments.every((segment, index) => {
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = decodeSegment(pathSegments[index]);
+      return pathSegments[index] !== '';
+    }
+    return segment === pathSegments[index];
+  });
+  return matches ? params : null;
+};
+
+export const getRouteByPath = (pathname: string): AppRoute | undefined =>
+  appRoutes.find(route => matchPath(route.path, pathname) !== null);
+
+export const getRouteParams = (pathname: string): Record<string, string> => {
+  const route = getRouteByPath(pathname);
+  return (route && matchPath(route.path, pathname)) || {};
+};
+
+export const getTabPath = (tab: AppTab): string =>
+  appRoutes.find(route => route.tab === tab)?.path ?? '/';
+
+export const getAccountPath = (accountId: string): string => `/accounts/${encodeURIComponent(accountId)}`;
+
+export const canAccessRoute = (route: AppRoute, user: Pick<User, 'role' | 'capabilities'>): boolean =>
+  !route.capability || hasCapability(user, route.capability);
+
+export const canAccessTab = (tab: AppTab, user: Pick<User, 'role' | 'capabilities'>): boolean => {
+  const route = appRoutes.find(candidate => candidate.tab === tab);
+  return !!route && canAccessRoute(route, user);
+};
+
+// The date filter is shared by Dashboard and Reports, so its parameters follow sidebar navigation
+export const DATE_FILTER_PARAMS = ['preset', 'start', 'end'];
+
+const DEFAULT_DATE_PRESET = '30';
+
+export const readDateFilter = (search: string): DateFilter => {
+  const params = new URLSearchParams(search);
+  return {
+    preset: params.get('preset') ?? DEFAULT_DATE_PRESET,
+    startDate: params.get('start') ?? '',
+    endDate: params.get('end') ?? '',
+  };
+};
+
+export const toDateFilterParams = (filter: DateFilter): Record<string, string | null> => ({
+  preset: filter.preset === DEFAULT_DATE_PRESET ? null : filter.preset,
+  start: filter.preset === 'custom' && filter.startDate ? filter.startDate : null,
+  end: filter.preset === 'custom' && filter.endDate ? filter.endDate : null,
+});
@@ -0,0 +1,56 @@
+import { DateFilter, SalesQuery, SalesTotals, User } from '../types';
+import { seesOtherAccounts } from './permissions';
+
+// Formats a Date as a local YYYY-MM-DD string, matching how sales_data.date is stored
+export const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Reads a YYYY-MM-DD string as a local date, the counterpart of toDateString
+export const parseDateString = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Turns the shared date filter (preset or custom range) into query bounds
+export const getDateFilterRange = (filter: DateFilter): Pick<SalesQuery, 'startDate' | 'endDate'> => {
+  if (filter.preset === 'custom') {
+    return {
+      startDate: filter.startDate || undefined,
+      endDate: filter.endDate || undefined,
+    };
+  }
+
+  if (filter.preset === 'all') return {};
+
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - parseInt(filter.preset));
+  return { startDate: toDateString(cutoff) };
+};
+
+// Users who see other accounts leave the scoping to the policies; everyone else reads only
+// the accounts they manage
+export const getScopedAccountIds = (
+  user?: Pick<User, 'role' | 'capabilities' | 'managed_accounts'> | null
+): string[] | undefined => {
+  if (!user) return [];
+  return seesOtherAccounts(user) ? undefined : user.managed_accounts;
+};
+
+export const emptySalesTotals = (): SalesTotals => ({
+  clicks: 0,
+  orders: 0,
+  gross_commission: 0,
+  products_sold: 0,
+  total_purchases: 0,
+  new_buyers: 0,
+});
+
+export const sumSalesTotals = (rows: SalesTotals[]): SalesTotals =>
+  rows.reduce((sum, row) => ({
+    clicks: sum.clicks + row.clicks,
+    orders: sum.orders + row.orders,
+    gross_commission: sum.gross_commission + row.gross_commission,
+    products_sold: sum.products_sold + row.products_sold,
+    total_purchases: sum.total_purchases + row.total_purchases,
+    new_buyers: sum.new_buyers + row.new_buyers,
+  }), emptySalesTotals());
@@ -0,0 +1,96 @@
+import { AccountAssignment, IncentiveCalculation, SalesTotals, Squad, User, UserSalesTotals } from '../types';
+import { sumSalesTotals } from './salesQuery';
+
+// Squads group users under a leader. These helpers roll per-user figures up to squads and
+// turn a squad into the accounts its members managed.
+
+// Users without a squad are rolled up under this id
+export const NO_SQUAD = 'none';
+
+export interface SquadRollup extends SalesTotals {
+  squad_id: string;
+  name: string;
+  leader_name: string | null;
+  member_count: number;
+  account_count: number;
+}
+
+export interface SquadIncentiveRollup {
+  squad_id: string;
+  name: string;
+  member_count: number;
+  earning_count: number;
+  total_revenue: number;
+  total_incentive: number;
+}
+
+export const getSquadKey = (user: Pick<User, 'squad_id'>): string => user.squad_id || NO_SQUAD;
+
+export const getSquadName = (squads: Pick<Squad, 'id' | 'name'>[], squadId: string): string =>
+  squadId === NO_SQUAD ? 'No squad' : squads.find(squad => squad.id === squadId)?.name || 'Unknown squad';
+
+export const getSquadMemberIds = (users: Pick<User, 'id' | 'squad_id'>[], squadId: string): string[] =>
+  users.filter(user => getSquadKey(user) === squadId).map(user => user.id);
+
+// Accounts any member managed during the assignments' range, for filtering account-level data by squad
+export const getSquadAccountIds = (
+  assignments: Pick<AccountAssignment, 'account_id' | 'user_id'>[],
+  users: Pick<User, 'id' | 'squad_id'>[],
+  squadId: string
+): string[] => {
+  const memberIds = new Set(getSquadMemberIds(users, squadId));
+  const accountIds = assignments
+    .filter(assignment => memberIds.has(assignment.user_id))
+    .map(assignment => assignment.account_id);
+  return [...new Set(accountIds)];
+};
+
+// Sales credited to each user, summed per squad. Squads without sales are listed with zeros;
+// users outside the list (e.g. deleted ones) are left out.
+export const rollupSalesBySquad = (
+  userTotals: UserSalesTotals[],
+  users: Pick<User, 'id' | 'name' | 'squad_id'>[],
+  squads: Squad[]
+): SquadRollup[] => {
+  const squadIds = [...squads.map(squad => squad.id), NO_SQUAD];
+  return squadIds
+    .map(squadId => {
+      const memberIds = new Set(getSquadMemberIds(users, squadId));
+      const memberTotals = userTotals.filter(totals => memberIds.has(totals.user_id));
+      const leaderId = squads.find(squad => squad.id === squadId)?.leader_id;
+      return {
+        squad_id: squadId,
+        name: getSquadName(squads, squadId),
+        leader_name: users.find(user => user.id === leaderId)?.name ?? null,
+        member_count: memberIds.size,
+        account_count: memberTotals.reduce((sum, totals) => sum + totals.account_count, 0),
+        ...sumSalesTotals(memberTotals),
+      };
+    })
+    .filter(rollup => rollup.squad_id !== NO_SQUAD || rollup.member_count > 0)
+    .sort((a, b) => b.total_purchases - a.total_purchases);
+};
+
+export const rollupIncentivesBySquad = (
+  calculations: IncentiveCalculation[],
+  users: Pick<User, 'id' | 'squad_id'>[],
+  squads: Pick<Squad, 'id' | 'name'>[]
+): SquadIncentiveRollup[] => {
+  const groups = new Map<string, IncentiveCalculation[]>();
+  calculations.forEach(calc => {
+    const user = users.find(candidate => candidate.id === calc.user_id);
+    const squadId = user ? getSquadKey(user) : NO_SQUAD;
+    groups.set(squadId, [...(groups.get(squadId) || []), calc]);
+  });
+
+  return [...groups]
+    .map(([squadId, squadCalculations]) => ({
+      squad_id: squadId,
+      name: getSquadName(squads, squadId),
+      member_count: squadCalculations.length,
+      earning_count: squadCalculations.filter(calc => calc.incentive_amount > 0).length,
+      total_revenue: squadCalculations.reduce((sum, calc) => sum + calc.total_revenue, 0),
+      total_incentive: squadCalculations.reduce((sum, calc) => sum + calc.incentive_amount, 0),
+    }))
+    .sort((a, b) => b.total_incentive - a.total_incentive);
+};
@@ -1,13 +1,15 @@
 import { createClient } from '@supabase/supabase-js'
+import { isDemoMode } from './demoMode'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
+// Demo mode never talks to Supabase, so it may run without a project configured
+if (!isDemoMode && (!supabaseUrl || !supabaseAnonKey)) {
   throw new Error('Missing Supabase environment variables')
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+export const supabase = createClient(supabaseUrl || 'http://localhost:54321', supabaseAnonKey || 'demo-anon-key')
 
 // Database types
 export interface Database {
@@ -82,6 +84,7 @@ export interface Database {
           products_sold: number
           total_purchases: number
           new_buyers: number
+          batch_id: string | null
           created_at: string
         }
         Insert: {
@@ -94,6 +97,7 @@ export interface Database {
           products_sold?: number
           total_purchases?: number
           new_buyers?: number
+          batch_id?: string | null
           created_at?: string
         }
         Update: {
@@ -106,6 +110,7 @@ export interface Database {
           products_sold?: number
           total_purchases?: number
           new_buyers?: number
+          batch_id?: string | null
           created_at?: string
         }
       }
@@ -114,8 +119,8 @@ export interface Database {
           id: string
           name: string
           email: string
-          role: 'user' | 'superadmin'
-          managed_accounts: string[]
+          role: 'user' | 'team_lead' | 'finance' | 'superadmin'
+          squad_id: string | null
           created_at: string
           phone: string | null
           address: string | null
@@ -127,8 +132,8 @@ export interface Database {
           id?: string
           name: string
           email: string
-          role?: 'user' | 'superadmin'
-          managed_accounts?: string[]
+          role?: 'user' | 'team_lead' | 'finance' | 'superadmin'
+          squad_id?: string | null
           created_at?: string
           phone?: string | null
           address?: string | null
@@ -140,8 +145,8 @@ export interface Database {
           id?: string
           name?: string
           email?: string
-          role?: 'user' | 'superadmin'
-          managed_accounts?: string[]
+          role?: 'user' | 'team_lead' | 'finance' | 'superadmin'
+          squad_id?: string | null
           created_at?: string
           phone?: string | null
           address?: string | null
@@ -150,6 +155,75 @@ export interface Database {
           avatar_url?: string | null
         }
       }
+      squads: {
+        Row: {
+          id: string
+          name: string
+          description: string
+          leader_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string
+          leader_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string
+          leader_id?: string | null
+          created_at?: string
+        }
+      }
+      role_capabilities: {
+        Row: {
+          role: 'user' | 'team_lead' | 'finance' | 'superadmin'
+          capability: string
+          created_at: string
+        }
+        Insert: {
+          role: 'user' | 'team_lead' | 'finance' | 'superadmin'
+          capability: string
+          created_at?: string
+        }
+        Update: {
+          role?: 'user' | 'team_lead' | 'finance' | 'superadmin'
+          capability?: string
+          created_at?: string
+        }
+      }
+      account_assignments: {
+        Row: {
+          id: string
+          account_id: string
+          user_id: string
+          effective_from: string
+          effective_to: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          account_id: string
+          user_id: string
+          effective_from?: string
+          effective_to?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          account_id?: string
+          user_id?: string
+          effective_from?: string
+          effective_to?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
       incentive_rules: {
         Row: {
           id: string
@@ -159,7 +233,9 @@ export interface Database {
           commission_rate_min: number
           commission_rate_max: number
           base_revenue_threshold: number
+          payout_mode: 'progressive' | 'flat'
           is_active: boolean
+          squad_id: string | null
           created_at: string
         }
         Insert: {
@@ -170,7 +246,9 @@ export interface Database {
           commission_rate_min: number
           commission_rate_max: number
           base_revenue_threshold: number
+          payout_mode?: 'progressive' | 'flat'
           is_active?: boolean
+          squad_id?: string | null
           created_at?: string
         }
         Update: {
@@ -181,7 +259,9 @@ export interface Database {
           commission_rate_min?: number
           commission_rate_max?: number
           base_revenue_threshold?: number
+          payout_mode?: 'progressive' | 'flat'
           is_active?: boolean
+          squad_id?: string | null
           created_at?: string
         }
       }
@@ -208,17 +288,413 @@ export interface Database {
           created_at?: string
         }
       }
+      payout_periods: {
+        Row: {
+          id: string
+          month: string
+          status: 'open' | 'closed'
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          month: string
+          status?: 'open' | 'closed'
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          month?: string
+          status?: 'open' | 'closed'
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+        }
+      }
+      payout_entries: {
+        Row: {
+          id: string
+          period_id: string
+          user_id: string
+          user_name: string
+          entry_type: 'snapshot' | 'adjustment'
+          rule_id: string | null
+          rule_name: string | null
+          tier_id: string | null
+          total_revenue: number
+          total_commission: number
+          commission_rate: number
+          qualifying_revenue: number
+          incentive_amount: number
+          note: string | null
+          status: 'pending' | 'approved' | 'paid'
+          approved_at: string | null
+          approved_by: string | null
+          paid_at: string | null
+          paid_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          period_id: string
+          user_id: string
+          user_name: string
+          entry_type?: 'snapshot' | 'adjustment'
+          rule_id?: string | null
+          rule_name?: string | null
+          tier_id?: string | null
+          total_revenue?: number
+          total_commission?: number
+          commission_rate?: number
+          qualifying_revenue?: number
+          incentive_amount?: number
+          note?: string | null
+          status?: 'pending' | 'approved' | 'paid'
+          approved_at?: string | null
+          approved_by?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: 'pending' | 'approved' | 'paid'
+          approved_at?: string | null
+          approved_by?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+        }
+      }
+      upload_batches: {
+        Row: {
+          id: string
+          account_id: string
+          uploaded_by: string | null
+          uploaded_by_name: string | null
+          file_name: string
+          mode: 'overwrite' | 'skip_existing' | 'fill_gaps'
+          row_count: number
+          start_date: string | null
+          end_date: string | null
+          status: 'active' | 'reverted'
+          reverted_at: string | null
+          reverted_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          account_id: string
+          uploaded_by?: string | null
+          uploaded_by_name?: string | null
+          file_name?: string
+          mode?: 'overwrite' | 'skip_existing' | 'fill_gaps'
+          row_count?: number
+          start_date?: string | null
+          end_date?: string | null
+          status?: 'active' | 'reverted'
+          reverted_at?: string | null
+          reverted_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: 'active' | 'reverted'
+          reverted_at?: string | null
+          reverted_by?: string | null
+        }
+      }
+      upload_batch_rows: {
+        Row: {
+          batch_id: string
+          account_id: string
+          date: string
+          previous: Record<string, number> | null
+          previous_batch_id: string | null
+        }
+        Insert: {
+          batch_id: string
+          account_id: string
+          date: string
+          previous?: Record<string, number> | null
+          previous_batch_id?: string | null
+        }
+        Update: {
+          previous?: Record<string, number> | null
+          previous_batch_id?: string | null
+        }
+      }
+      files: {
+        Row: {
+          id: string
+          name: string
+          category_id: string | null
+          spreadsheet_url: string | null
+          description: string | null
+          storage_path: string | null
+          file_size: number | null
+          mime_type: string | null
+          current_version: number
+          is_pinned: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          category_id?: string | null
+          spreadsheet_url?: string | null
+          description?: string | null
+          storage_path?: string | null
+          file_size?: number | null
+          mime_type?: string | null
+          current_version?: number
+          is_pinned?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          category_id?: string | null
+          spreadsheet_url?: string | null
+          description?: string | null
+          storage_path?: string | null
+          file_size?: number | null
+          mime_type?: string | null
+          current_version?: number
+          is_pinned?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      file_versions: {
+        Row: {
+          id: string
+          file_id: string
+          version: number
+          storage_path: string
+          file_name: string
+          file_size: number
+          mime_type: string
+          uploaded_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          file_id: string
+          version: number
+          storage_path: string
+          file_name: string
+          file_size: number
+          mime_type?: string
+          uploaded_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      audit_log: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_name: string | null
+          entity_type: 'category' | 'account' | 'user' | 'incentive_rule' | 'sales_data' | 'payout_period' | 'payout_entry' | 'file'
+          entity_id: string | null
+          entity_label: string | null
+          action: 'create' | 'update' | 'delete' | 'import' | 'revert'
+          changes: Record<string, { before: unknown; after: unknown }>
+          metadata: Record<string, unknown>
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          entity_type: 'category' | 'account' | 'user' | 'incentive_rule' | 'sales_data' | 'payout_period' | 'payout_entry' | 'file'
+          entity_id?: string | null
+          entity_label?: string | null
+          action: 'create' | 'update' | 'delete' | 'import' | 'revert'
+          changes?: Record<string, { before: unknown; after: unknown }>
+          metadata?: Record<string, unknown>
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      sales_anomaly_acknowledgements: {
+        Row: {
+          id: string
+          account_id: string
+          date: string
+          fingerprint: string
+          rules: ('commission_exceeds_purchases' | 'orders_exceed_clicks' | 'buyers_exceed_orders' | 'products_below_orders' | 'metric_spike')[]
+          note: string | null
+          acknowledged_by: string | null
+          acknowledged_by_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          account_id: string
+          date: string
+          fingerprint: string
+          rules?: ('commission_exceeds_purchases' | 'orders_exceed_clicks' | 'buyers_exceed_orders' | 'products_below_orders' | 'metric_spike')[]
+          note?: string | null
+          acknowledged_by?: string | null
+          acknowledged_by_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
     }
     Views: {
-      [_ in never]: never
+      current_account_assignments: {
+        Row: Database['public']['Tables']['account_assignments']['Row']
+      }
     }
     Functions: {
-      [_ in never]: never
+      sales_daily_totals: {
+        Args: {
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_account_ids?: string[] | null
+        }
+        Returns: {
+          date: string
+          clicks: number
+          orders: number
+          gross_commission: number
+          products_sold: number
+          total_purchases: number
+          new_buyers: number
+          account_count: number
+        }[]
+      }
+      sales_account_period_totals: {
+        Args: {
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_account_ids?: string[] | null
+          p_bucket?: string
+        }
+        Returns: {
+          period: string
+          account_id: string
+          clicks: number
+          orders: number
+          gross_commission: number
+          products_sold: number
+          total_purchases: number
+          new_buyers: number
+        }[]
+      }
+      sales_account_totals: {
+        Args: {
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_account_ids?: string[] | null
+        }
+        Returns: {
+          account_id: string
+          row_count: number
+          first_date: string
+          last_date: string
+          clicks: number
+          orders: number
+          gross_commission: number
+          products_sold: number
+          total_purchases: number
+          new_buyers: number
+        }[]
+      }
+      sales_user_totals: {
+        Args: {
+          p_start_date?: string | null
+          p_end_date?: string | null
+        }
+        Returns: {
+          user_id: string
+          account_count: number
+          clicks: number
+          orders: number
+          gross_commission: number
+          products_sold: number
+          total_purchases: number
+          new_buyers: number
+        }[]
+      }
+      sales_assignment_totals: {
+        Args: {
+          p_start_date?: string | null
+          p_end_date?: string | null
+          p_account_ids?: string[] | null
+        }
+        Returns: {
+          account_id: string
+          user_id: string
+          row_count: number
+          first_date: string
+          last_date: string
+          clicks: number
+          orders: number
+          gross_commission: number
+          products_sold: number
+          total_purchases: number
+          new_buyers: number
+        }[]
+      }
+      import_sales_batches: {
+        Args: {
+          p_file_name: string
+          p_mode: 'overwrite' | 'skip_existing' | 'fill_gaps'
+          p_rows: {
+            account_id: string
+            date: string
+            clicks: number
+            orders: number
+            gross_commission: number
+            products_sold: number
+            total_purchases: number
+            new_buyers: number
+          }[]
+        }
+        Returns: Database['public']['Tables']['upload_batches']['Row'][]
+      }
+      revert_upload_batch: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: Database['public']['Tables']['upload_batches']['Row']
+      }
+      close_payout_period: {
+        Args: {
+          p_month: string
+          p_entries: Omit<Database['public']['Tables']['payout_entries']['Insert'], 'entry_type'>[]
+        }
+        Returns: Database['public']['Tables']['payout_periods']['Row']
+      }
+      assign_accounts: {
+        Args: {
+          p_user_id: string
+          p_account_ids: string[]
+          p_effective_from?: string
+        }
+        Returns: Database['public']['Tables']['account_assignments']['Row'][]
+      }
     }
     Enums: {
       account_status: 'active' | 'violation' | 'inactive'
       payment_status: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
-      user_role: 'user' | 'superadmin'
+      user_role: 'user' | 'team_lead' | 'finance' | 'superadmin'
+      incentive_payout_mode: 'progressive' | 'flat'
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { ComparisonPeriod, DashboardMetrics, MetricTrend, SalesQuery, SalesTotals } from '../types';
+import { parseDateString, toDateString } from './salesQuery';
+
+// Period-over-period comparisons for the dashboard: which dates to compare the selected range
+// with, and how much each metric moved.
+
+export const comparisonLabels: Record<ComparisonPeriod, string> = {
+  previous: 'Previous period',
+  last_month: 'Same period last month',
+  last_year: 'Same period last year',
+};
+
+// Clamps to the end of the target month, so 31 March maps to the last day of February
+const shiftMonths = (date: string, months: number): string => {
+  const source = parseDateString(date);
+  const lastDay = new Date(source.getFullYear(), source.getMonth() + months + 1, 0).getDate();
+  return toDateString(new Date(source.getFullYear(), source.getMonth() + months, Math.min(source.getDate(), lastDay)));
+};
+
+// The range to compare with. Open-ended ranges run through today; ranges without a start
+// ("All time") have nothing before them to compare with.
+export const getComparisonRange = (
+  range: Pick<SalesQuery, 'startDate' | 'endDate'>,
+  comparison: ComparisonPeriod,
+  today = new Date()
+): Required<Pick<SalesQuery, 'startDate' | 'endDate'>> | null => {
+  if (!range.startDate) return null;
+  const endDate = range.endDate || toDateString(today);
+  if (endDate < range.startDate) return null;
+
+  if (comparison === 'last_month' || comparison === 'last_year') {
+    const months = comparison === 'last_month' ? -1 : -12;
+    return { startDate: shiftMonths(range.startDate, months), endDate: shiftMonths(endDate, months) };
+  }
+
+  // The same number of days, ending the day before the range starts
+  const start = parseDateString(range.startDate);
+  const days = Math.round((parseDateString(endDate).getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  return {
+    startDate: toDateString(new Date(start.getFullYear(), start.getMonth(), start.getDate() - days)),
+    endDate: toDateString(new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1)),
+  };
+};
+
+export const getDashboardMetrics = (totals: SalesTotals): DashboardMetrics => ({
+  totalCommission: totals.gross_commission,
+  totalRevenue: totals.total_purchases,
+  totalOrders: totals.orders,
+  totalClicks: totals.clicks,
+  commissionPercentage: totals.total_purchases > 0 ? (totals.gross_commission / totals.total_purchases) * 100 : 0,
+  conversionRate: totals.clicks > 0 ? (totals.orders / totals.clicks) * 100 : 0,
+});
+
+const roundTrend = (value: number) => Math.round(value * 10) / 10;
+
+// Relative change; none when the comparison range had nothing to grow from
+const getRelativeTrend = (current: number, previous: number): MetricTrend | undefined =>
+  previous > 0
+    ? { value: roundTrend(((current - previous) / previous) * 100), isPositive: current >= previous, unit: '%' }
+    : undefined;
+
+// Rates move in percentage points; none when the comparison range had no rate
+const getPointTrend = (current: number, previous: number, hadRate: boolean): MetricTrend | undefined =>
+  hadRate
+    ? { value: roundTrend(current - previous), isPositive: current >= previous, unit: 'pp' }
+    : undefined;
+
+export const getMetricTrends = (
+  current: DashboardMetrics,
+  previous: DashboardMetrics
+): Record<keyof DashboardMetrics, MetricTrend | undefined> => ({
+  totalCommission: getRelativeTrend(current.totalCommission, previous.totalCommission),
+  totalRevenue: getRelativeTrend(current.totalRevenue, previous.totalRevenue),
+  totalOrders: getRelativeTrend(current.totalOrders, previous.totalOrders),
+  totalClicks: getRelativeTrend(current.totalClicks, previous.totalClicks),
+  commissionPercentage: getPointTrend(current.commissionPercentage, previous.commissionPercentage, previous.totalRevenue > 0),
+  conversionRate: getPointTrend(current.conversionRate, previous.conversionRate, previous.totalClicks > 0),
+});
@@ -0,0 +1,86 @@
+import { SalesData, UploadMode } from '../types';
+import { ParsedRow, ParsedRowField, SALES_COLUMNS } from './csvImport';
+
+// Compares parsed upload rows with what is already stored for the account, so the
+// upload modal can show which days an upsert would overwrite before it happens.
+
+export type DiffStatus = 'new' | 'unchanged' | 'changed';
+
+export interface FieldChange {
+  field: ParsedRowField;
+  label: string;
+  before: number;
+  after: number;
+}
+
+export interface RowDiff {
+  date: string;
+  status: DiffStatus;
+  row: ParsedRow;
+  existing: SalesData | null;
+  changes: FieldChange[];
+}
+
+export interface DateSpan {
+  start: string;
+  end: string;
+}
+
+// Commission is stored with two decimals, so smaller differences are rounding only
+const VALUE_TOLERANCE = 0.005;
+
+export const diffUploadRows = (rows: ParsedRow[], existing: SalesData[]): RowDiff[] => {
+  const existingByDate = new Map(existing.map(data => [data.date.slice(0, 10), data]));
+
+  return rows
+    .map(row => {
+      const current = existingByDate.get(row.date) || null;
+      if (!current) {
+        return { date: row.date, status: 'new' as const, row, existing: null, changes: [] };
+      }
+
+      const changes = SALES_COLUMNS
+        .filter(column => column.field !== 'date')
+        .map(column => ({
+          field: column.field,
+          label: column.label,
+          before: Number(current[column.field]),
+          after: Number(row[column.field]),
+        }))
+        .filter(change => Math.abs(change.before - change.after) > VALUE_TOLERANCE);
+
+      return {
+        date: row.date,
+        status: changes.length > 0 ? 'changed' as const : 'unchanged' as const,
+        row,
+        existing: current,
+        changes,
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Picks the rows to upsert for a mode:
+ * - `overwrite`: new dates and changed dates (unchanged dates need no write)
+ * - `skip_existing`: only dates the account has no data for yet
+ * - `fill_gaps`: only missing dates inside the span the account already covers;
+ *   without existing data every date is a gap
+ */
+export const selectRowsForMode = (diffs: RowDiff[], mode: UploadMode, coverage: DateSpan | null): ParsedRow[] =>
+  diffs
+    .filter(diff => {
+      if (mode === 'overwrite') return diff.status !== 'unchanged';
+      if (diff.status !== 'new') return false;
+      if (mode === 'fill_gaps' && coverage) {
+        return diff.date >= coverage.start && diff.date <= coverage.end;
+      }
+      return true;
+    })
+    .map(diff => diff.row);
+
+export const countDiffs = (diffs: RowDiff[]): Record<DiffStatus, number> => ({
+  new: diffs.filter(diff => diff.status === 'new').length,
+  unchanged: diffs.filter(diff => diff.status === 'unchanged').length,
+  changed: diffs.filter(diff => diff.status === 'changed').length,
+});
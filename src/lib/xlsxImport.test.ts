@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { readXlsxSheets } from './xlsxImport';
+import { importSalesRecords } from './csvImport';
+import { buildZip, TestZipEntry } from './testZip';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// A workbook with one worksheet per entry of `sheets`, as Excel lays it out
+const buildWorkbook = (
+  sheets: Record<string, string>,
+  options: { sharedStrings?: string[]; styles?: string; date1904?: boolean } = {}
+) => {
+  const names = Object.keys(sheets);
+  const entries: TestZipEntry[] = [
+    {
+      name: 'xl/workbook.xml',
+      content: `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+        (options.date1904 ? '<workbookPr date1904="1"/>' : '') +
+        `<sheets>${names.map((name, index) => `<sheet name="${name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        names.map((_, index) => `<Relationship Id="rId${index + 1}" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+        '</Relationships>',
+    },
+    ...names.map((name, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      content: `<worksheet xmlns="${MAIN_NS}"><sheetData>${sheets[name]}</sheetData></worksheet>`,
+    })),
+  ];
+  if (options.sharedStrings) {
+    entries.push({
+      name: 'xl/sharedStrings.xml',
+      content: `<sst xmlns="${MAIN_NS}">${options.sharedStrings.map(text => `<si>${text}</si>`).join('')}</sst>`,
+    });
+  }
+  if (options.styles) {
+    entries.push({ name: 'xl/styles.xml', content: `<styleSheet xmlns="${MAIN_NS}">${options.styles}</styleSheet>` });
+  }
+  return buildZip(entries);
+};
+
+// Style 0 is general, style 1 the built-in d/m/yyyy format and style 2 a custom "dd mmm yyyy"
+const DATE_STYLES =
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="dd mmm yyyy"/></numFmts>' +
+  '<cellXfs count="3"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/></cellXfs>';
+
+const fieldsOf = async (buffer: Promise<ArrayBuffer>) =>
+  (await readXlsxSheets(await buffer))[0].records.map(record => record.fields);
+
+describe('readXlsxSheets', () => {
+  it('reads shared strings, including rich text without its phonetic hints', async () => {
+    const fields = await fieldsOf(buildWorkbook(
+      { Data: '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' },
+      { sharedStrings: ['<t>Tanggal</t>', '<r><t>Komisi </t></r><r><t>Kotor</t></r><rPh><t>komisi</t></rPh>'] }
+    ));
+    expect(fields).toEqual([['Tanggal', 'Komisi Kotor']]);
+  });
+
+  it('reads inline strings and formula results', async () => {
+    const fields = await fieldsOf(buildWorkbook({
+      Data: '<row r="1"><c r="A1" t="inlineStr"><is><t>Klik</t></is></c><c r="B1" t="str"><f>A1</f><v>Klik</v></c><c r="C1" t="b"><v>1</v></c></row>',
+    }));
+    expect(fields).toEqual([['Klik', 'Klik', 'TRUE']]);
+  });
+
+  it('turns date-formatted serials into dates and keeps other numbers', async () => {
+    const fields = await fieldsOf(buildWorkbook(
+      { Data: '<row r="1"><c r="A1" s="1"><v>46266</v></c><c r="B1" s="2"><v>46266.75</v></c><c r="C1" s="0"><v>46266</v></c><c r="D1"><v>1234.5</v></c></row>' },
+      { styles: DATE_STYLES }
+    ));
+    expect(fields).toEqual([['2026-09-01', '2026-09-01', 46266, 1234.5]]);
+  });
+
+  it('counts date serials from 1904 when the workbook says so', async () => {
+    const fields = await fieldsOf(buildWorkbook(
+      { Data: '<row r="1"><c r="A1" s="1"><v>44804</v></c></row>' },
+      { styles: DATE_STYLES, date1904: true }
+    ));
+    expect(fields).toEqual([['2026-09-01']]);
+  });
+
+  it('fills skipped and empty cells with empty text and drops empty rows', async () => {
+    const fields = await fieldsOf(buildWorkbook({
+      Data: '<row r="1"><c r="A1"><v>1</v></c><c r="D1"><v>4</v></c></row>' +
+        '<row r="2"><c r="A2" t="s"/><c r="B2"/></row>' +
+        '<row r="5"><c r="B5"/><c r="C5"><v>3</v></c></row>',
+    }));
+    expect(fields).toEqual([[1, '', '', 4], ['', '', 3]]);
+  });
+
+  it('keeps the sheet names and row numbers', async () => {
+    const sheets = await readXlsxSheets(await buildWorkbook({
+      Summary: '<row r="1"><c r="A1" t="inlineStr"><is><t>Total</t></is></c></row>',
+      Daily: '<row r="3"><c r="A3"><v>7</v></c></row>',
+    }));
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Summary', 'Daily']);
+    expect(sheets[1].records).toEqual([{ line: 3, fields: [7] }]);
+  });
+
+  it('produces records the sales import reads like a CSV', async () => {
+    const headers = ['Tanggal', 'Klik', 'Pesanan', 'Komisi Kotor(Rp)', 'Produk Terjual', 'Total Pembelian yang Dibuat(Rp)', 'Pembeli Baru'];
+    const headerRow = headers.map((_, index) => `<c r="${String.fromCharCode(65 + index)}1" t="s"><v>${index}</v></c>`).join('');
+    const dataRow = [46266, 120, 6, 45000.5, 7, 900000, 2]
+      .map((value, index) => `<c r="${String.fromCharCode(65 + index)}2"${index === 0 ? ' s="1"' : ''}><v>${value}</v></c>`)
+      .join('');
+    const [sheet] = await readXlsxSheets(await buildWorkbook(
+      { Data: `<row r="1">${headerRow}</row><row r="2">${dataRow}</row>` },
+      { sharedStrings: headers.map(header => `<t>${header}</t>`), styles: DATE_STYLES }
+    ));
+
+    expect(importSalesRecords(sheet.records).rows).toEqual([{
+      date: '2026-09-01',
+      clicks: 120,
+      orders: 6,
+      gross_commission: 45000.5,
+      products_sold: 7,
+      total_purchases: 900000,
+      new_buyers: 2,
+    }]);
+  });
+
+  it('rejects archives without a workbook', async () => {
+    await expect(readXlsxSheets(await buildZip([{ name: 'sales.csv', content: 'a,b' }]))).rejects.toThrow('Not an Excel workbook');
+  });
+});
@@ -0,0 +1,147 @@
+import { ImportCell, ImportRecord } from './csvImport';
+import { readZipEntries, ZipEntry } from './zipReader';
+
+// Reads the worksheets of an .xlsx workbook into import records. Cells keep their
+// type: numbers stay numbers, date-formatted cells become YYYY-MM-DD strings and
+// everything else is text, so `importSalesRecords` can validate them like a CSV.
+
+export interface XlsxSheet {
+  name: string;
+  records: ImportRecord[];
+}
+
+const SPREADSHEET_NS = '*';
+
+// Built-in number formats that render as dates (ECMA-376 Part 1, 18.8.30)
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const elements = (parent: Document | Element, tagName: string) =>
+  Array.from(parent.getElementsByTagNameNS(SPREADSHEET_NS, tagName));
+
+// Rich text keeps its runs in separate <t> elements; phonetic hints (<rPh>) are not part of the value
+const readText = (element: Element) =>
+  elements(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+const isDateFormatCode = (formatCode: string) =>
+  /[dmy]/i.test(formatCode.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+const toDateString = (serial: number, date1904: boolean) => {
+  // Serial 1 is 1900-01-01; counting from 1899-12-30 absorbs Excel's fake 1900-02-29
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.floor(serial) * 86400000);
+  return date.toISOString().slice(0, 10);
+};
+
+// "AB12" -> 27 (zero-based column index)
+const columnIndex = (cellRef: string) => {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const resolveTarget = (target: string) =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+export const isXlsxFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.xlsx') ||
+  file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const readXlsxSheets = async (buffer: ArrayBuffer): Promise<XlsxSheet[]> => {
+  const entries = new Map<string, ZipEntry>(readZipEntries(buffer).map(entry => [entry.name, entry]));
+  const readXml = async (path: string) => {
+    const entry = entries.get(path);
+    if (!entry) return null;
+    return parseXml(new TextDecoder().decode(await entry.read()));
+  };
+
+  const workbook = await readXml('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook');
+
+  const date1904 = elements(workbook, 'workbookPr').some(pr =>
+    ['1', 'true'].includes(pr.getAttribute('date1904') || '')
+  );
+
+  const relationships = new Map<string, string>();
+  const rels = await readXml('xl/_rels/workbook.xml.rels');
+  if (rels) {
+    elements(rels, 'Relationship').forEach(rel => {
+      relationships.set(rel.getAttribute('Id') || '', resolveTarget(rel.getAttribute('Target') || ''));
+    });
+  }
+
+  const sharedStringsXml = await readXml('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(readText) : [];
+
+  // Style index -> whether the cell is formatted as a date
+  const dateStyles: boolean[] = [];
+  const styles = await readXml('xl/styles.xml');
+  if (styles) {
+    const customDateFormats = new Set(
+      elements(styles, 'numFmt')
+        .filter(numFmt => isDateFormatCode(numFmt.getAttribute('formatCode') || ''))
+        .map(numFmt => Number(numFmt.getAttribute('numFmtId')))
+    );
+    const cellXfs = elements(styles, 'cellXfs')[0];
+    if (cellXfs) {
+      elements(cellXfs, 'xf').forEach(xf => {
+        const numFmtId = Number(xf.getAttribute('numFmtId') || 0);
+        dateStyles.push(BUILT_IN_DATE_FORMATS.has(numFmtId) || customDateFormats.has(numFmtId));
+      });
+    }
+  }
+
+  const readCell = (cell: Element): ImportCell => {
+    const type = cell.getAttribute('t') || 'n';
+    const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+    switch (type) {
+      case 's':
+        return sharedStrings[Number(value)] ?? '';
+      case 'inlineStr':
+        return readText(cell);
+      case 'str':
+      case 'e':
+        return value;
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE';
+      default: {
+        if (value === '') return '';
+        const number = Number(value);
+        const isDate = dateStyles[Number(cell.getAttribute('s') || 0)];
+        return isDate ? toDateString(number, date1904) : number;
+      }
+    }
+  };
+
+  const sheets: XlsxSheet[] = [];
+  for (const sheet of elements(workbook, 'sheet')) {
+    const relationshipId = sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+      || sheet.getAttribute('r:id')
+      || '';
+    const sheetXml = await readXml(relationships.get(relationshipId) || '');
+    if (!sheetXml) continue;
+
+    const records: ImportRecord[] = [];
+    elements(sheetXml, 'row').forEach((row, rowIndex) => {
+      const fields: ImportCell[] = [];
+      elements(row, 'c').forEach((cell, cellIndex) => {
+        const ref = cell.getAttribute('r');
+        const index = ref ? columnIndex(ref) : cellIndex;
+        while (fields.length < index) fields.push('');
+        fields[index] = readCell(cell);
+      });
+
+      if (fields.some(field => String(field).trim() !== '')) {
+        records.push({ line: Number(row.getAttribute('r')) || rowIndex + 1, fields });
+      }
+    });
+
+    sheets.push({ name: sheet.getAttribute('name') || `Sheet${sheets.length + 1}`, records });
+  }
+
+  return sheets;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { readZipEntries } from './zipReader';
+import { buildZip } from './testZip';
+
+const readText = async (data: Promise<Uint8Array>) => new TextDecoder().decode(await data);
+
+describe('readZipEntries', () => {
+  it('reads a stored entry as it is', async () => {
+    const [entry] = readZipEntries(await buildZip([{ name: 'sales.csv', content: 'Tanggal,Klik\n2026-09-01,10' }]));
+    expect(entry.name).toBe('sales.csv');
+    expect(entry.size).toBe(26);
+    expect(await readText(entry.read())).toBe('Tanggal,Klik\n2026-09-01,10');
+  });
+
+  it('inflates a deflated entry', async () => {
+    const content = 'Tanggal,Klik\n' + '2026-09-01,10\n'.repeat(200);
+    const [entry] = readZipEntries(await buildZip([{ name: 'big.csv', content, deflate: true }]));
+    expect(entry.size).toBe(content.length);
+    expect(await readText(entry.read())).toBe(content);
+  });
+
+  it('lists every file in order and skips directories', async () => {
+    const entries = readZipEntries(await buildZip([
+      { name: 'september/', content: '' },
+      { name: 'september/shop_a.csv', content: 'a' },
+      { name: 'september/shop_b.csv', content: 'b', deflate: true },
+    ]));
+    expect(entries.map(entry => entry.name)).toEqual(['september/shop_a.csv', 'september/shop_b.csv']);
+    expect(await readText(entries[1].read())).toBe('b');
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readZipEntries(new TextEncoder().encode('Tanggal,Klik\n2026-09-01,10\n'.repeat(3)).buffer)).toThrow('Not a valid ZIP file');
+  });
+});
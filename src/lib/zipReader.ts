@@ -0,0 +1,84 @@
+// Minimal ZIP reader for the browser: lists entries from the central directory and
+// inflates them with the native DecompressionStream, so no archive library is needed.
+// Only stored and deflated entries are supported, which covers XLSX files and
+// archives created by the usual desktop tools. ZIP64 archives are rejected.
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The record is 22 bytes plus an optional comment of up to 65535 bytes
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a valid ZIP file');
+};
+
+export const readZipEntries = (buffer: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories carry no data
+    if (name.endsWith('/')) continue;
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+          throw new Error(`Corrupt ZIP entry: ${name}`);
+        }
+        // The local header repeats name and extra field, with lengths that may differ from the central directory
+        const dataOffset = localHeaderOffset + 30 +
+          view.getUint16(localHeaderOffset + 26, true) +
+          view.getUint16(localHeaderOffset + 28, true);
+        const data = bytes.subarray(dataOffset, dataOffset + compressedSize);
+
+        if (method === 0) return data;
+        if (method === 8) return inflateRaw(data);
+        throw new Error(`Unsupported compression method ${method} for ${name}`);
+      },
+    });
+  }
+
+  return entries;
+};
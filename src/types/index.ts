@@ -7,7 +7,7 @@ export interface Account {
   payment_data: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah';
   account_code: string;
   category_id: string;
-  user_id: string | null;
+  user_id: string | null; // Creator; who manages the account lives in account_assignments
   created_at: string;
 }
 
@@ -28,9 +28,62 @@ export interface SalesData {
   products_sold: number;
   total_purchases: number;
   new_buyers: number;
+  batch_id?: string | null; // Upload batch that last wrote this row
   created_at: string;
 }
 
+export interface DateFilter {
+  startDate: string;
+  endDate: string;
+  preset: string;
+}
+
+// Server-side scoping for sales queries; omitted fields leave that side open
+export interface SalesQuery {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+  accountIds?: string[]; // Omit for all accounts the caller may read
+}
+
+export interface SalesTotals {
+  clicks: number;
+  orders: number;
+  gross_commission: number;
+  products_sold: number;
+  total_purchases: number;
+  new_buyers: number;
+}
+
+export interface DailySalesTotals extends SalesTotals {
+  date: string;
+  account_count: number;
+}
+
+export interface AccountSalesTotals extends SalesTotals {
+  account_id: string;
+  row_count: number;
+  first_date: string;
+  last_date: string;
+}
+
+// How charts group days: `period` is the first day of the bucket, weeks start on Monday
+export type ChartBucket = 'day' | 'week' | 'month';
+
+export interface AccountPeriodTotals extends SalesTotals {
+  period: string;
+  account_id: string;
+}
+
+// Sales of an account credited to whoever managed it on each day
+export interface AssignmentSalesTotals extends AccountSalesTotals {
+  user_id: string;
+}
+
+export interface UserSalesTotals extends SalesTotals {
+  user_id: string;
+  account_count: number;
+}
+
 export interface DashboardMetrics {
   totalCommission: number;
   totalRevenue: number;
@@ -39,6 +92,17 @@ export interface DashboardMetrics {
   commissionPercentage: number;
   conversionRate: number;
 }
+
+// What the dashboard compares the selected range with
+export type ComparisonPeriod = 'previous' | 'last_month' | 'last_year';
+
+// Change against the comparison range: relative % for amounts, percentage points for rates
+export interface MetricTrend {
+  value: number;
+  isPositive: boolean;
+  unit: '%' | 'pp';
+}
+
 export interface IncentiveTier {
   id: string;
   revenue_threshold: number;
@@ -46,6 +110,13 @@ export interface IncentiveTier {
   created_at: string;
 }
 
+export type IncentivePayoutMode = 'progressive' | 'flat';
+
+export interface IncentivePeriod {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
 export interface IncentiveRule {
   id: string;
   name: string;
@@ -54,8 +125,34 @@ export interface IncentiveRule {
   commission_rate_min: number;
   commission_rate_max: number;
   base_revenue_threshold: number;
+  payout_mode: IncentivePayoutMode; // progressive = marginal per tier, flat = current tier rate on whole revenue
   tiers: IncentiveTier[];
   is_active: boolean;
+  squad_id?: string | null; // Only members of this squad earn under the rule; null for everyone
+  created_at: string;
+}
+
+export type UserRole = 'user' | 'team_lead' | 'finance' | 'superadmin';
+
+// Named permissions; lib/permissions describes each one and the defaults per role
+export type Capability =
+  | 'accounts.view_all'
+  | 'accounts.view_squad'
+  | 'accounts.manage'
+  | 'accounts.edit_payment'
+  | 'incentives.earn'
+  | 'incentives.view_team'
+  | 'incentives.edit_rules'
+  | 'payouts.view'
+  | 'payouts.approve'
+  | 'files.manage'
+  | 'team.manage'
+  | 'audit.view';
+
+// A capability granted to a role; superadmins have every capability without rows
+export interface RoleCapability {
+  role: UserRole;
+  capability: Capability;
   created_at: string;
 }
 
@@ -63,8 +160,10 @@ export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'user' | 'superadmin';
-  managed_accounts: string[]; // Array of account IDs
+  role: UserRole;
+  managed_accounts: string[]; // Accounts assigned to the user today, from account_assignments
+  squad_id?: string | null; // The squad the user belongs to
+  capabilities?: Capability[]; // What the user's role may do, from role_capabilities
   created_at: string;
   access_token?: string;
   refresh_token?: string;
@@ -75,12 +174,34 @@ export interface User {
   avatar_url?: string;
 }
 
+// Who manages an account over a date range; an account has one owner on any given day
+// A group of users under a leader; Dashboard, Reports and Incentive Overview roll up per squad
+export interface Squad {
+  id: string;
+  name: string;
+  description: string;
+  leader_id: string | null;
+  created_at: string;
+}
+
+export interface AccountAssignment {
+  id: string;
+  account_id: string;
+  user_id: string;
+  effective_from: string; // YYYY-MM-DD, inclusive
+  effective_to: string | null; // YYYY-MM-DD, inclusive; null while the assignment runs
+  created_by: string | null;
+  created_at: string;
+}
+
 export interface IncentiveCalculation {
   user_id: string;
   user_name: string;
   total_revenue: number;
   total_commission: number;
   commission_rate: number;
+  qualifying_revenue: number; // Revenue from accounts meeting the rule's minimum commission
+  qualifying_accounts_count: number;
   applicable_rule: IncentiveRule | null;
   current_tier: IncentiveTier | null;
   next_tier: IncentiveTier | null;
@@ -88,4 +209,149 @@ export interface IncentiveCalculation {
   progress_percentage: number;
   remaining_to_next_tier: number;
   managed_accounts_count: number;
-}
\ No newline at end of file
+}
+export interface PayoutPeriod {
+  id: string;
+  month: string; // YYYY-MM
+  status: 'open' | 'closed';
+  closed_at: string | null;
+  closed_by: string | null;
+  created_at: string;
+}
+
+export type PayoutStatus = 'pending' | 'approved' | 'paid';
+
+export interface PayoutEntry {
+  id: string;
+  period_id: string;
+  user_id: string;
+  user_name: string;
+  entry_type: 'snapshot' | 'adjustment'; // Snapshots are written on close, adjustments for late data
+  rule_id: string | null;
+  rule_name: string | null;
+  tier_id: string | null;
+  total_revenue: number;
+  total_commission: number;
+  commission_rate: number;
+  qualifying_revenue: number;
+  incentive_amount: number;
+  note: string | null;
+  status: PayoutStatus;
+  approved_at: string | null;
+  approved_by: string | null;
+  paid_at: string | null;
+  paid_by: string | null;
+  created_at: string;
+}
+
+// A file is either a spreadsheet link or an attachment uploaded to Storage
+export interface FileData {
+  id: string;
+  name: string;
+  category_id: string | null;
+  spreadsheet_url: string | null;
+  description: string | null;
+  storage_path: string | null; // Latest version of the attachment
+  file_size: number | null;
+  mime_type: string | null;
+  current_version: number; // 0 for links
+  is_pinned: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FileVersion {
+  id: string;
+  file_id: string;
+  version: number;
+  storage_path: string;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+// How an upload treats dates that already have data
+export type UploadMode = 'overwrite' | 'skip_existing' | 'fill_gaps';
+
+export type UploadBatchStatus = 'active' | 'reverted';
+
+export interface UploadBatch {
+  id: string;
+  account_id: string;
+  uploaded_by: string | null;
+  uploaded_by_name: string | null;
+  file_name: string;
+  mode: UploadMode;
+  row_count: number;
+  start_date: string | null;
+  end_date: string | null;
+  status: UploadBatchStatus;
+  reverted_at: string | null;
+  reverted_by: string | null;
+  created_at: string;
+}
+
+// Checks that flag uploaded or stored sales rows for review; see lib/anomalies
+export type AnomalyRule =
+  | 'commission_exceeds_purchases'
+  | 'orders_exceed_clicks'
+  | 'buyers_exceed_orders'
+  | 'products_below_orders'
+  | 'metric_spike';
+
+// Someone confirmed a flagged row is correct. Only valid while the row keeps the values in `fingerprint`.
+export interface AnomalyAcknowledgement {
+  id: string;
+  account_id: string;
+  date: string;
+  fingerprint: string;
+  rules: AnomalyRule[]; // What was flagged when it was acknowledged
+  note: string | null;
+  acknowledged_by: string | null;
+  acknowledged_by_name: string | null;
+  created_at: string;
+}
+
+export type AuditEntityType =
+  | 'category'
+  | 'account'
+  | 'user'
+  | 'incentive_rule'
+  | 'sales_data'
+  | 'payout_period'
+  | 'payout_entry'
+  | 'file'
+  | 'role_capability'
+  | 'squad'
+  | 'account_assignment'
+  | 'anomaly_acknowledgement';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'import' | 'revert';
+
+// Changed fields only; `before` is null for creates and `after` is null for deletes
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  entity_label: string | null;
+  action: AuditAction;
+  changes: AuditChanges;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AuditQuery {
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  actorId?: string;
+  entityId?: string;
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
@@ -0,0 +1,105 @@
+/*
+  # admin-users
+
+  Privileged user administration that needs the service role key, so it can't run in the
+  browser. Only callers who may manage the team can use it; the caller's JWT is checked with
+  `has_capability('team.manage')`.
+
+  Actions (POST JSON body):
+    - `{ action: 'invite', email, name, role, redirect_to }`: creates the auth user and emails an
+      invitation link. The invitee sets their own password when they follow it. Returns `{ user_id }`.
+    - `{ action: 'delete', user_id }`: removes the auth user. Their `users` row is deleted by the client.
+
+  Run locally from the repository root with `supabase start` and `supabase functions serve admin-users`
+  (ports and settings are in `supabase/config.toml`); the CLI provides
+  SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY. Deploy with
+  `supabase functions deploy admin-users`.
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+type AdminUsersRequest =
+  | { action: 'invite'; email: string; name: string; role: 'user' | 'team_lead' | 'finance' | 'superadmin'; redirect_to?: string }
+  | { action: 'delete'; user_id: string };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'Missing authorization header' }, 401);
+  }
+
+  // Ask the database as the caller, so the same check guards the function and the policies
+  const callerClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data: canManageTeam, error: roleError } = await callerClient.rpc('has_capability', {
+    p_capability: 'team.manage',
+  });
+  if (roleError) {
+    return json({ error: roleError.message }, 401);
+  }
+  if (!canManageTeam) {
+    return json({ error: 'You are not allowed to manage users' }, 403);
+  }
+
+  const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+  let request: AdminUsersRequest;
+  try {
+    request = await req.json();
+  } catch {
+    return json({ error: 'Request body must be JSON' }, 400);
+  }
+
+  switch (request.action) {
+    case 'invite': {
+      if (!request.email) {
+        return json({ error: 'Email is required' }, 400);
+      }
+      const { data, error } = await adminClient.auth.admin.inviteUserByEmail(request.email, {
+        data: { name: request.name, role: request.role },
+        redirectTo: request.redirect_to,
+      });
+      if (error) {
+        return json({ error: error.message }, error.status ?? 400);
+      }
+      return json({ user_id: data.user.id });
+    }
+    case 'delete': {
+      if (!request.user_id) {
+        return json({ error: 'user_id is required' }, 400);
+      }
+      const { error } = await adminClient.auth.admin.deleteUser(request.user_id);
+      // Users created before invitations may have no auth account; that is not an error
+      if (error && error.status !== 404) {
+        return json({ error: error.message }, error.status ?? 400);
+      }
+      return json({ deleted: true });
+    }
+    default:
+      return json({ error: 'Unknown action' }, 400);
+  }
+});
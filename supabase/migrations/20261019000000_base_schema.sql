@@ -0,0 +1,187 @@
+/*
+  # Base schema
+
+  The tables the app started with were created in the hosted project before migrations were kept in
+  this repository. This migration records them as they were then, so `supabase start` can build a local
+  database that the later migrations apply to. Everything is created only when missing, so it changes
+  nothing on a database that already has them.
+
+  1. Types
+    - `account_status`, `payment_status` and `user_role` (`user` or `superadmin`; later migrations add roles)
+
+  2. Tables
+    - `categories`: account categories
+    - `users`: one row per auth user, with the account ids they manage in `managed_accounts`
+    - `accounts`: affiliate accounts, with the user who created them in `user_id`
+    - `sales_data`: one row of metrics per account and day
+    - `incentive_rules` and `incentive_tiers`: the rules the incentive engine applies
+
+  3. Security
+    - RLS on every table. Users read, create and update their own `users` row without changing their
+      role, and superadmins manage all of them. Everyone signed in reads categories, superadmins manage them
+    - `accounts`, `sales_data` and the incentive tables are open to every signed-in user, as they were
+      before. Later migrations replace these policies.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'account_status') THEN
+    CREATE TYPE account_status AS ENUM ('active', 'violation', 'inactive');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'payment_status') THEN
+    CREATE TYPE payment_status AS ENUM ('belum diatur', 'utamakan', 'dimasukkan', 'disetujui', 'sah');
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_role') THEN
+    CREATE TYPE user_role AS ENUM ('user', 'superadmin');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS users (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  email text NOT NULL UNIQUE,
+  role user_role NOT NULL DEFAULT 'user',
+  managed_accounts text[] NOT NULL DEFAULT '{}',
+  phone text,
+  address text,
+  bio text,
+  company text,
+  avatar_url text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  username text NOT NULL,
+  email text NOT NULL,
+  phone text NOT NULL,
+  status account_status NOT NULL DEFAULT 'active',
+  payment_data payment_status NOT NULL DEFAULT 'belum diatur',
+  account_code text NOT NULL,
+  category_id uuid NOT NULL REFERENCES categories(id),
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sales_data (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  clicks integer NOT NULL DEFAULT 0,
+  orders integer NOT NULL DEFAULT 0,
+  gross_commission numeric NOT NULL DEFAULT 0,
+  products_sold integer NOT NULL DEFAULT 0,
+  total_purchases numeric NOT NULL DEFAULT 0,
+  new_buyers integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (account_id, date)
+);
+
+CREATE TABLE IF NOT EXISTS incentive_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  min_commission_threshold numeric NOT NULL DEFAULT 0,
+  commission_rate_min numeric NOT NULL DEFAULT 0,
+  commission_rate_max numeric NOT NULL DEFAULT 100,
+  base_revenue_threshold numeric NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS incentive_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES incentive_rules(id) ON DELETE CASCADE,
+  revenue_threshold numeric NOT NULL,
+  incentive_rate numeric NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Same body as in the row level security migration, which replaces it
+CREATE OR REPLACE FUNCTION is_superadmin()
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_superadmin() TO authenticated;
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incentive_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incentive_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Policies are only created on a fresh database; an existing one keeps its own
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('categories', 'users', 'accounts', 'sales_data', 'incentive_rules', 'incentive_tiers')
+  ) THEN
+    RETURN;
+  END IF;
+
+  CREATE POLICY "Authenticated users read categories"
+    ON categories FOR SELECT TO authenticated
+    USING (true);
+
+  CREATE POLICY "Superadmins manage categories"
+    ON categories FOR ALL TO authenticated
+    USING (is_superadmin())
+    WITH CHECK (is_superadmin());
+
+  CREATE POLICY "Users read their own row"
+    ON users FOR SELECT TO authenticated
+    USING (id = auth.uid());
+
+  CREATE POLICY "Users create their own row"
+    ON users FOR INSERT TO authenticated
+    WITH CHECK (id = auth.uid() AND role = 'user');
+
+  -- Their role stays as it is; only superadmins change roles
+  CREATE POLICY "Users update their own row"
+    ON users FOR UPDATE TO authenticated
+    USING (id = auth.uid())
+    WITH CHECK (id = auth.uid() AND role = (SELECT existing.role FROM users existing WHERE existing.id = auth.uid()));
+
+  CREATE POLICY "Superadmins manage users"
+    ON users FOR ALL TO authenticated
+    USING (is_superadmin())
+    WITH CHECK (is_superadmin());
+
+  CREATE POLICY "Authenticated users manage accounts"
+    ON accounts FOR ALL TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+  CREATE POLICY "Authenticated users manage sales data"
+    ON sales_data FOR ALL TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+  CREATE POLICY "Authenticated users manage incentive rules"
+    ON incentive_rules FOR ALL TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+  CREATE POLICY "Authenticated users manage incentive tiers"
+    ON incentive_tiers FOR ALL TO authenticated
+    USING (true)
+    WITH CHECK (true);
+END $$;
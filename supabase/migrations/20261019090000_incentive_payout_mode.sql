@@ -0,0 +1,20 @@
+/*
+  # Incentive payout mode
+
+  1. New Types
+    - `incentive_payout_mode` enum: `progressive` (marginal rate per tier) or `flat` (current tier rate on the whole revenue)
+
+  2. Changes
+    - `incentive_rules.payout_mode` column, defaulting to `progressive` so existing rules keep the behaviour
+      described on the Incentive Rules page
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'incentive_payout_mode') THEN
+    CREATE TYPE incentive_payout_mode AS ENUM ('progressive', 'flat');
+  END IF;
+END $$;
+
+ALTER TABLE incentive_rules
+  ADD COLUMN IF NOT EXISTS payout_mode incentive_payout_mode NOT NULL DEFAULT 'progressive';
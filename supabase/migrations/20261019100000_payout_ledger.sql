@@ -0,0 +1,126 @@
+/*
+  # Incentive period closing and payout ledger
+
+  1. New Tables
+    - `payout_periods`: one row per closed month (`YYYY-MM`), with who closed it and when
+    - `payout_entries`: the ledger. Closing a period writes one `snapshot` entry per user; data that arrives
+      after closing is booked as `adjustment` entries carrying only the difference. Each entry moves through
+      `pending` -> `approved` -> `paid`.
+
+  2. Locking
+    - Closed periods cannot be reopened and their entries cannot be deleted
+    - The calculated figures of an entry are immutable; only the approval/paid columns can change
+
+  3. Security
+    - RLS enabled on both tables
+    - Superadmins can read and write everything, users can read their own entries
+*/
+
+CREATE TABLE IF NOT EXISTS payout_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  month text NOT NULL UNIQUE CHECK (month ~ '^\d{4}-\d{2}$'),
+  status text NOT NULL DEFAULT 'closed' CHECK (status IN ('open', 'closed')),
+  closed_at timestamptz DEFAULT now(),
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payout_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_id uuid NOT NULL REFERENCES payout_periods(id) ON DELETE RESTRICT,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  user_name text NOT NULL,
+  entry_type text NOT NULL DEFAULT 'snapshot' CHECK (entry_type IN ('snapshot', 'adjustment')),
+  rule_id uuid REFERENCES incentive_rules(id) ON DELETE SET NULL,
+  rule_name text,
+  tier_id uuid,
+  total_revenue numeric NOT NULL DEFAULT 0,
+  total_commission numeric NOT NULL DEFAULT 0,
+  commission_rate numeric NOT NULL DEFAULT 0,
+  qualifying_revenue numeric NOT NULL DEFAULT 0,
+  incentive_amount numeric NOT NULL DEFAULT 0,
+  note text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'paid')),
+  approved_at timestamptz,
+  approved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  paid_at timestamptz,
+  paid_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS payout_entries_one_snapshot_per_user
+  ON payout_entries (period_id, user_id) WHERE entry_type = 'snapshot';
+CREATE INDEX IF NOT EXISTS payout_entries_user_id_idx ON payout_entries (user_id);
+
+CREATE OR REPLACE FUNCTION lock_payout_periods()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'closed' THEN
+      RAISE EXCEPTION 'Closed payout period % cannot be deleted', OLD.month;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status = 'closed' AND (NEW.status <> 'closed' OR NEW.month <> OLD.month) THEN
+    RAISE EXCEPTION 'Closed payout period % cannot be reopened or renamed', OLD.month;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_payout_periods ON payout_periods;
+CREATE TRIGGER lock_payout_periods
+  BEFORE UPDATE OR DELETE ON payout_periods
+  FOR EACH ROW EXECUTE FUNCTION lock_payout_periods();
+
+CREATE OR REPLACE FUNCTION lock_payout_entries()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Payout entries cannot be deleted, book an adjustment instead';
+  END IF;
+
+  IF NEW.period_id IS DISTINCT FROM OLD.period_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.entry_type IS DISTINCT FROM OLD.entry_type
+    OR NEW.total_revenue IS DISTINCT FROM OLD.total_revenue
+    OR NEW.total_commission IS DISTINCT FROM OLD.total_commission
+    OR NEW.commission_rate IS DISTINCT FROM OLD.commission_rate
+    OR NEW.qualifying_revenue IS DISTINCT FROM OLD.qualifying_revenue
+    OR NEW.incentive_amount IS DISTINCT FROM OLD.incentive_amount THEN
+    RAISE EXCEPTION 'Payout entry figures are locked once recorded';
+  END IF;
+
+  IF OLD.status = 'paid' AND NEW.status <> 'paid' THEN
+    RAISE EXCEPTION 'Paid payout entries cannot change status';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_payout_entries ON payout_entries;
+CREATE TRIGGER lock_payout_entries
+  BEFORE UPDATE OR DELETE ON payout_entries
+  FOR EACH ROW EXECUTE FUNCTION lock_payout_entries();
+
+ALTER TABLE payout_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read payout periods"
+  ON payout_periods FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Superadmins manage payout periods"
+  ON payout_periods FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+CREATE POLICY "Users read their own payout entries"
+  ON payout_entries FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Superadmins manage payout entries"
+  ON payout_entries FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
@@ -0,0 +1,124 @@
+/*
+  # Server-side sales aggregates
+
+  1. Indexes
+    - `sales_data (date)` and `sales_data (account_id, date)` for range and account scoped queries
+
+  2. Functions (all SECURITY INVOKER so table policies still apply)
+    - `sales_daily_totals(p_start_date, p_end_date, p_account_ids)`: one row per day
+    - `sales_account_totals(p_start_date, p_end_date, p_account_ids)`: one row per account, with row count and first/last date
+    - `sales_user_totals(p_start_date, p_end_date)`: one row per user, summed over the accounts in `users.managed_accounts`
+
+    Every parameter is optional: a NULL date leaves that side of the range open and a NULL account list means all accounts.
+*/
+
+CREATE INDEX IF NOT EXISTS sales_data_date_idx ON sales_data (date);
+CREATE INDEX IF NOT EXISTS sales_data_account_id_date_idx ON sales_data (account_id, date);
+
+CREATE OR REPLACE FUNCTION sales_daily_totals(
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  date date,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint,
+  account_count bigint
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    s.date,
+    COALESCE(SUM(s.clicks), 0)::bigint,
+    COALESCE(SUM(s.orders), 0)::bigint,
+    COALESCE(SUM(s.gross_commission), 0)::numeric,
+    COALESCE(SUM(s.products_sold), 0)::bigint,
+    COALESCE(SUM(s.total_purchases), 0)::numeric,
+    COALESCE(SUM(s.new_buyers), 0)::bigint,
+    COUNT(DISTINCT s.account_id)::bigint
+  FROM sales_data s
+  WHERE (p_start_date IS NULL OR s.date >= p_start_date)
+    AND (p_end_date IS NULL OR s.date <= p_end_date)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY s.date
+  ORDER BY s.date;
+$$;
+
+CREATE OR REPLACE FUNCTION sales_account_totals(
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  account_id uuid,
+  row_count bigint,
+  first_date date,
+  last_date date,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    s.account_id,
+    COUNT(*)::bigint,
+    MIN(s.date),
+    MAX(s.date),
+    COALESCE(SUM(s.clicks), 0)::bigint,
+    COALESCE(SUM(s.orders), 0)::bigint,
+    COALESCE(SUM(s.gross_commission), 0)::numeric,
+    COALESCE(SUM(s.products_sold), 0)::bigint,
+    COALESCE(SUM(s.total_purchases), 0)::numeric,
+    COALESCE(SUM(s.new_buyers), 0)::bigint
+  FROM sales_data s
+  WHERE (p_start_date IS NULL OR s.date >= p_start_date)
+    AND (p_end_date IS NULL OR s.date <= p_end_date)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY s.account_id;
+$$;
+
+CREATE OR REPLACE FUNCTION sales_user_totals(
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  account_count bigint,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    u.id,
+    COUNT(DISTINCT s.account_id)::bigint,
+    COALESCE(SUM(s.clicks), 0)::bigint,
+    COALESCE(SUM(s.orders), 0)::bigint,
+    COALESCE(SUM(s.gross_commission), 0)::numeric,
+    COALESCE(SUM(s.products_sold), 0)::bigint,
+    COALESCE(SUM(s.total_purchases), 0)::numeric,
+    COALESCE(SUM(s.new_buyers), 0)::bigint
+  FROM users u
+  CROSS JOIN LATERAL unnest(u.managed_accounts) AS managed(account_id)
+  JOIN sales_data s ON s.account_id = managed.account_id::uuid
+  WHERE (p_start_date IS NULL OR s.date >= p_start_date)
+    AND (p_end_date IS NULL OR s.date <= p_end_date)
+  GROUP BY u.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION sales_daily_totals(date, date, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION sales_account_totals(date, date, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION sales_user_totals(date, date) TO authenticated;
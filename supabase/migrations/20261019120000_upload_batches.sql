@@ -0,0 +1,212 @@
+/*
+  # Upload batches with rollback
+
+  1. New Tables
+    - `upload_batches`: one row per account per import, with uploader, file name, upload mode,
+      row count and date span. `status` becomes `reverted` once the batch is rolled back.
+    - `upload_batch_rows`: one row per date written by a batch, holding the values that date had
+      before the import (`previous` is NULL when the batch created the date)
+
+  2. Changes
+    - `sales_data.batch_id` links every row to the batch that last wrote it
+
+  3. Functions (SECURITY INVOKER so table policies still apply)
+    - `import_sales_batches(p_file_name, p_mode, p_rows)`: upserts the rows, creating one batch per account
+    - `revert_upload_batch(p_batch_id)`: deletes the dates a batch created and restores the values it
+      overwrote. Refuses when a later upload has since written the same dates.
+
+  4. Security
+    - RLS enabled on both tables
+    - Users can see and create batches for the accounts they manage, superadmins for every account
+*/
+
+CREATE TABLE IF NOT EXISTS upload_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  uploaded_by_name text,
+  file_name text NOT NULL DEFAULT '',
+  mode text NOT NULL DEFAULT 'overwrite' CHECK (mode IN ('overwrite', 'skip_existing', 'fill_gaps')),
+  row_count integer NOT NULL DEFAULT 0,
+  start_date date,
+  end_date date,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'reverted')),
+  reverted_at timestamptz,
+  reverted_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS upload_batch_rows (
+  batch_id uuid NOT NULL REFERENCES upload_batches(id) ON DELETE CASCADE,
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  previous jsonb,
+  previous_batch_id uuid REFERENCES upload_batches(id) ON DELETE SET NULL,
+  PRIMARY KEY (batch_id, date)
+);
+
+ALTER TABLE sales_data ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES upload_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS upload_batches_account_id_idx ON upload_batches (account_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS sales_data_batch_id_idx ON sales_data (batch_id);
+
+CREATE OR REPLACE FUNCTION import_sales_batches(
+  p_file_name text,
+  p_mode text,
+  p_rows jsonb
+)
+RETURNS SETOF upload_batches
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+DECLARE
+  v_account_id uuid;
+  v_batch_id uuid;
+  v_uploader_name text;
+BEGIN
+  SELECT name INTO v_uploader_name FROM users WHERE id = auth.uid();
+
+  FOR v_account_id IN
+    SELECT DISTINCT (r->>'account_id')::uuid FROM jsonb_array_elements(p_rows) AS r
+  LOOP
+    INSERT INTO upload_batches (account_id, uploaded_by, uploaded_by_name, file_name, mode, row_count, start_date, end_date)
+    SELECT v_account_id, auth.uid(), v_uploader_name, COALESCE(p_file_name, ''), COALESCE(p_mode, 'overwrite'),
+      COUNT(*), MIN((r->>'date')::date), MAX((r->>'date')::date)
+    FROM jsonb_array_elements(p_rows) AS r
+    WHERE (r->>'account_id')::uuid = v_account_id
+    RETURNING id INTO v_batch_id;
+
+    -- Remember what each date held before, so the batch can be reverted
+    INSERT INTO upload_batch_rows (batch_id, account_id, date, previous, previous_batch_id)
+    SELECT v_batch_id, v_account_id, (r->>'date')::date,
+      CASE WHEN s.id IS NULL THEN NULL ELSE jsonb_build_object(
+        'clicks', s.clicks,
+        'orders', s.orders,
+        'gross_commission', s.gross_commission,
+        'products_sold', s.products_sold,
+        'total_purchases', s.total_purchases,
+        'new_buyers', s.new_buyers
+      ) END,
+      s.batch_id
+    FROM jsonb_array_elements(p_rows) AS r
+    LEFT JOIN sales_data s ON s.account_id = v_account_id AND s.date = (r->>'date')::date
+    WHERE (r->>'account_id')::uuid = v_account_id;
+
+    INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers, batch_id)
+    SELECT v_account_id, (r->>'date')::date,
+      COALESCE((r->>'clicks')::integer, 0),
+      COALESCE((r->>'orders')::integer, 0),
+      COALESCE((r->>'gross_commission')::numeric, 0),
+      COALESCE((r->>'products_sold')::integer, 0),
+      COALESCE((r->>'total_purchases')::numeric, 0),
+      COALESCE((r->>'new_buyers')::integer, 0),
+      v_batch_id
+    FROM jsonb_array_elements(p_rows) AS r
+    WHERE (r->>'account_id')::uuid = v_account_id
+    ON CONFLICT (account_id, date) DO UPDATE SET
+      clicks = EXCLUDED.clicks,
+      orders = EXCLUDED.orders,
+      gross_commission = EXCLUDED.gross_commission,
+      products_sold = EXCLUDED.products_sold,
+      total_purchases = EXCLUDED.total_purchases,
+      new_buyers = EXCLUDED.new_buyers,
+      batch_id = EXCLUDED.batch_id;
+
+    RETURN QUERY SELECT * FROM upload_batches WHERE id = v_batch_id;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revert_upload_batch(p_batch_id uuid)
+RETURNS upload_batches
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+DECLARE
+  v_batch upload_batches;
+  v_overwritten integer;
+BEGIN
+  SELECT * INTO v_batch FROM upload_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload batch % not found', p_batch_id;
+  END IF;
+  IF v_batch.status = 'reverted' THEN
+    RAISE EXCEPTION 'Upload batch % was already reverted', p_batch_id;
+  END IF;
+
+  -- Restoring would silently undo a newer upload, so that one has to be reverted first
+  SELECT COUNT(*) INTO v_overwritten
+  FROM upload_batch_rows r
+  JOIN sales_data s ON s.account_id = r.account_id AND s.date = r.date
+  WHERE r.batch_id = p_batch_id AND s.batch_id IS DISTINCT FROM p_batch_id;
+  IF v_overwritten > 0 THEN
+    RAISE EXCEPTION '% dates of this batch were changed by a later upload. Revert that upload first.', v_overwritten;
+  END IF;
+
+  -- Dates the batch created are removed
+  DELETE FROM sales_data s
+  USING upload_batch_rows r
+  WHERE r.batch_id = p_batch_id
+    AND r.previous IS NULL
+    AND s.account_id = r.account_id
+    AND s.date = r.date;
+
+  -- Dates the batch overwrote get their previous values back
+  INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers, batch_id)
+  SELECT r.account_id, r.date,
+    (r.previous->>'clicks')::integer,
+    (r.previous->>'orders')::integer,
+    (r.previous->>'gross_commission')::numeric,
+    (r.previous->>'products_sold')::integer,
+    (r.previous->>'total_purchases')::numeric,
+    (r.previous->>'new_buyers')::integer,
+    r.previous_batch_id
+  FROM upload_batch_rows r
+  WHERE r.batch_id = p_batch_id AND r.previous IS NOT NULL
+  ON CONFLICT (account_id, date) DO UPDATE SET
+    clicks = EXCLUDED.clicks,
+    orders = EXCLUDED.orders,
+    gross_commission = EXCLUDED.gross_commission,
+    products_sold = EXCLUDED.products_sold,
+    total_purchases = EXCLUDED.total_purchases,
+    new_buyers = EXCLUDED.new_buyers,
+    batch_id = EXCLUDED.batch_id;
+
+  UPDATE upload_batches
+  SET status = 'reverted', reverted_at = now(), reverted_by = auth.uid()
+  WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_sales_batches(text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION revert_upload_batch(uuid) TO authenticated;
+
+ALTER TABLE upload_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upload_batch_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage upload batches of their accounts"
+  ON upload_batches FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND (users.role = 'superadmin' OR upload_batches.account_id::text = ANY (users.managed_accounts))
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND (users.role = 'superadmin' OR upload_batches.account_id::text = ANY (users.managed_accounts))
+  ));
+
+CREATE POLICY "Users manage upload batch rows of their accounts"
+  ON upload_batch_rows FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND (users.role = 'superadmin' OR upload_batch_rows.account_id::text = ANY (users.managed_accounts))
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND (users.role = 'superadmin' OR upload_batch_rows.account_id::text = ANY (users.managed_accounts))
+  ));
@@ -0,0 +1,67 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_log`: one row per mutation made through the app, with the actor, the entity that changed,
+      the action and a before/after diff of the changed fields (`changes`). `metadata` holds context
+      that is not a field change, e.g. the file name and date span of an import.
+
+  2. Triggers
+    - `set_audit_actor` fills `actor_id` and `actor_name` from the session, so entries cannot be
+      written in someone else's name
+
+  3. Security
+    - RLS enabled
+    - Every authenticated user can append entries for their own mutations
+    - Only superadmins can read the log
+    - No update or delete policies: the log is append-only
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  actor_name text,
+  entity_type text NOT NULL CHECK (entity_type IN (
+    'category', 'account', 'user', 'incentive_rule', 'sales_data', 'payout_period', 'payout_entry'
+  )),
+  entity_id text,
+  entity_label text,
+  action text NOT NULL CHECK (action IN ('create', 'update', 'delete', 'import', 'revert')),
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON audit_log (actor_id);
+
+CREATE OR REPLACE FUNCTION set_audit_actor()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+BEGIN
+  NEW.actor_id := auth.uid();
+  SELECT name INTO NEW.actor_name FROM users WHERE id = auth.uid();
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_log_set_actor
+  BEFORE INSERT ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION set_audit_actor();
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can append audit entries"
+  ON audit_log FOR INSERT TO authenticated
+  WITH CHECK (actor_id = auth.uid());
+
+CREATE POLICY "Superadmins can read the audit log"
+  ON audit_log FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+  ));
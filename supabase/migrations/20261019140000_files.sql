@@ -0,0 +1,73 @@
+/*
+  # Files
+
+  1. New Tables
+    - `files`: spreadsheets and documents shown in File Management, linked to a category.
+      `is_pinned` keeps a file at the top of the list; `updated_at` is maintained by a trigger.
+
+  2. Changes
+    - `audit_log.entity_type` also accepts `file`
+
+  3. Security
+    - RLS enabled
+    - Superadmins manage every file
+    - Users can read the files in categories of the accounts they manage
+*/
+
+CREATE TABLE IF NOT EXISTS files (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  spreadsheet_url text NOT NULL,
+  description text,
+  file_size bigint,
+  is_pinned boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS files_category_id_idx ON files (category_id);
+
+CREATE OR REPLACE FUNCTION set_files_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER files_set_updated_at
+  BEFORE UPDATE ON files
+  FOR EACH ROW EXECUTE FUNCTION set_files_updated_at();
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_entity_type_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_entity_type_check CHECK (entity_type IN (
+  'category', 'account', 'user', 'incentive_rule', 'sales_data', 'payout_period', 'payout_entry', 'file'
+));
+
+ALTER TABLE files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can manage files"
+  ON files FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+  ));
+
+CREATE POLICY "Users can read files of their account categories"
+  ON files FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users
+    JOIN accounts ON accounts.id::text = ANY (users.managed_accounts)
+    WHERE users.id = auth.uid()
+      AND accounts.category_id = files.category_id
+  ));
@@ -0,0 +1,95 @@
+/*
+  # File attachments in Storage
+
+  1. Storage
+    - Private bucket `file-attachments`. Objects live at `<file id>/v<version>-<file name>` and are
+      only handed out through signed URLs.
+
+  2. Changes
+    - `files.spreadsheet_url` becomes optional: a file is either a link or an uploaded attachment
+    - `files.storage_path`, `files.mime_type` and `files.current_version` describe the latest upload;
+      `file_size` now holds its real size
+
+  3. New Tables
+    - `file_versions`: every upload of a file, so replacing an attachment keeps the older ones
+
+  4. Security
+    - RLS on `file_versions` follows `files`: superadmins manage them, users read the versions of
+      files they can see
+    - Storage objects in the bucket follow the same rules through their `file_versions` row
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('file-attachments', 'file-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE files ALTER COLUMN spreadsheet_url DROP NOT NULL;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS storage_path text;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS mime_type text;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS current_version integer NOT NULL DEFAULT 0;
+ALTER TABLE files ADD CONSTRAINT files_has_source CHECK (spreadsheet_url IS NOT NULL OR storage_path IS NOT NULL);
+
+CREATE TABLE IF NOT EXISTS file_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id uuid NOT NULL REFERENCES files(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  file_size bigint NOT NULL,
+  mime_type text NOT NULL DEFAULT 'application/octet-stream',
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (file_id, version)
+);
+
+ALTER TABLE file_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can manage file versions"
+  ON file_versions FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+  ));
+
+-- The files policies apply inside the subquery, so this reads "versions of files the user can see"
+CREATE POLICY "Users can read versions of visible files"
+  ON file_versions FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM files
+    WHERE files.id = file_versions.file_id
+  ));
+
+CREATE POLICY "Superadmins can manage file attachments"
+  ON storage.objects FOR ALL TO authenticated
+  USING (
+    bucket_id = 'file-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+        AND users.role = 'superadmin'
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'file-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.users
+      WHERE users.id = auth.uid()
+        AND users.role = 'superadmin'
+    )
+  );
+
+CREATE POLICY "Users can read attachments of visible files"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'file-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.file_versions
+      WHERE file_versions.storage_path = storage.objects.name
+    )
+  );
@@ -0,0 +1,115 @@
+/*
+  # Row level security for accounts and sales data
+
+  Until now every signed-in user could read every account and every sales row; the app only
+  filtered them on the client. These policies make the database enforce `users.managed_accounts`.
+
+  1. Functions (SECURITY DEFINER so policies can read `users` without recursing into its own policies)
+    - `is_superadmin()`: whether the caller is a superadmin
+    - `manages_account(p_account_id)`: whether the caller manages the account. This is the single place
+      that defines account ownership for policies.
+
+  2. Triggers
+    - `claim_created_account`: an account created by a regular user is added to their
+      `managed_accounts`, otherwise they could not see it after creating it
+
+  3. Security
+    - Existing policies on `accounts` and `sales_data` are replaced
+    - `accounts`: superadmins do everything; users read and update the accounts they manage and
+      create accounts owned by themselves (`user_id`). Only superadmins delete accounts.
+    - `sales_data`: superadmins do everything; users read and write rows of the accounts they manage
+*/
+
+CREATE OR REPLACE FUNCTION is_superadmin()
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND users.role = 'superadmin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION manages_account(p_account_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+      AND p_account_id::text = ANY (users.managed_accounts)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_superadmin() TO authenticated;
+GRANT EXECUTE ON FUNCTION manages_account(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION claim_created_account()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_superadmin() THEN
+    UPDATE users
+    SET managed_accounts = array_append(managed_accounts, NEW.id::text)
+    WHERE id = auth.uid()
+      AND NOT (NEW.id::text = ANY (managed_accounts));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS accounts_claim_created ON accounts;
+CREATE TRIGGER accounts_claim_created
+  AFTER INSERT ON accounts
+  FOR EACH ROW EXECUTE FUNCTION claim_created_account();
+
+-- Replace whatever policies the tables had, they were not scoped to managed accounts
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('accounts', 'sales_data')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_data ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins manage all accounts"
+  ON accounts FOR ALL TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+-- The creator check lets RETURNING see a new account before the trigger's update is visible
+CREATE POLICY "Users read their accounts"
+  ON accounts FOR SELECT TO authenticated
+  USING (manages_account(id) OR user_id = auth.uid());
+
+CREATE POLICY "Users create their own accounts"
+  ON accounts FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users update their accounts"
+  ON accounts FOR UPDATE TO authenticated
+  USING (manages_account(id))
+  WITH CHECK (manages_account(id));
+
+CREATE POLICY "Superadmins manage all sales data"
+  ON sales_data FOR ALL TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+CREATE POLICY "Users manage sales data of their accounts"
+  ON sales_data FOR ALL TO authenticated
+  USING (manages_account(account_id))
+  WITH CHECK (manages_account(account_id));
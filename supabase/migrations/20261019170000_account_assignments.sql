@@ -0,0 +1,317 @@
+/*
+  # Account assignments
+
+  Ownership used to be stored twice, in `accounts.user_id` and `users.managed_accounts`, and the two
+  drifted apart. `account_assignments` is now the only source: who manages an account, and from when
+  until when. Reassigning an account mid-month splits its sales by date between the old and new owner.
+
+  1. New Tables
+    - `account_assignments`: one row per account and owner with an inclusive `effective_from` /
+      `effective_to` range (`effective_to` is NULL while the assignment runs). An account has at most
+      one owner on any day.
+
+  2. Views
+    - `current_account_assignments`: the assignments running today
+
+  3. Data
+    - Existing ownership is copied from `users.managed_accounts`, falling back to `accounts.user_id`
+      for accounts a regular user created. Assignments start at the account's first sale or creation.
+    - `users.managed_accounts` is dropped; `accounts.user_id` stays as the account's creator
+
+  4. Functions
+    - `assigned_on(p_account_id, p_date)`: whether the caller managed the account on that day;
+      `manages_account(p_account_id)` now means "assigned today"
+    - `assign_accounts(p_user_id, p_account_ids, p_effective_from)`: sets the accounts a user manages
+      from a date on, ending the user's other assignments and taking the listed accounts over from
+      their previous owners
+    - `sales_assignment_totals(p_start_date, p_end_date, p_account_ids)`: per account and owner totals,
+      each sales day credited to whoever managed the account that day
+    - `sales_user_totals` credits sales the same way
+    - `claim_created_account` assigns an account to the regular user who created it
+
+  5. Security
+    - Superadmins manage assignments, users read their own
+    - Users also read the sales rows and accounts from their past assignments, so they can see the
+      credit they earned before an account was reassigned
+    - Policies that read `users.managed_accounts` are recreated on top of the assignments
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS account_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  effective_from date NOT NULL DEFAULT current_date,
+  effective_to date,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT account_assignments_valid_range CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  CONSTRAINT account_assignments_no_overlap EXCLUDE USING gist (
+    account_id WITH =,
+    daterange(effective_from, effective_to, '[]') WITH &&
+  )
+);
+
+CREATE INDEX IF NOT EXISTS account_assignments_user_id_idx ON account_assignments (user_id);
+
+INSERT INTO account_assignments (account_id, user_id, effective_from)
+SELECT DISTINCT ON (a.id)
+  a.id,
+  owner.user_id,
+  COALESCE(LEAST(a.created_at::date, first_sale.date), current_date)
+FROM accounts a
+JOIN LATERAL (
+  SELECT u.id AS user_id, 0 AS priority, u.created_at
+  FROM users u
+  WHERE a.id::text = ANY (u.managed_accounts)
+  UNION ALL
+  SELECT u.id, 1, u.created_at
+  FROM users u
+  WHERE u.id = a.user_id
+    AND u.role = 'user'
+) owner ON true
+LEFT JOIN LATERAL (
+  SELECT MIN(s.date) AS date FROM sales_data s WHERE s.account_id = a.id
+) first_sale ON true
+ORDER BY a.id, owner.priority, owner.created_at;
+
+CREATE OR REPLACE VIEW current_account_assignments
+WITH (security_invoker = true) AS
+SELECT *
+FROM account_assignments
+WHERE effective_from <= current_date
+  AND (effective_to IS NULL OR effective_to >= current_date);
+
+CREATE OR REPLACE FUNCTION assigned_on(p_account_id uuid, p_date date)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM account_assignments
+    WHERE account_assignments.account_id = p_account_id
+      AND account_assignments.user_id = auth.uid()
+      AND account_assignments.effective_from <= p_date
+      AND (account_assignments.effective_to IS NULL OR account_assignments.effective_to >= p_date)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION manages_account(p_account_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT assigned_on(p_account_id, current_date);
+$$;
+
+GRANT EXECUTE ON FUNCTION assigned_on(uuid, date) TO authenticated;
+
+CREATE OR REPLACE FUNCTION claim_created_account()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_superadmin() THEN
+    INSERT INTO account_assignments (account_id, user_id, effective_from)
+    VALUES (NEW.id, auth.uid(), current_date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Runs as the caller, so only superadmins get past the assignment policies
+CREATE OR REPLACE FUNCTION assign_accounts(
+  p_user_id uuid,
+  p_account_ids uuid[],
+  p_effective_from date DEFAULT current_date
+)
+RETURNS SETOF account_assignments
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+BEGIN
+  -- Accounts no longer in the list end the day before
+  DELETE FROM account_assignments
+  WHERE user_id = p_user_id
+    AND NOT (account_id = ANY (p_account_ids))
+    AND effective_from >= p_effective_from;
+
+  UPDATE account_assignments
+  SET effective_to = p_effective_from - 1
+  WHERE user_id = p_user_id
+    AND NOT (account_id = ANY (p_account_ids))
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  -- Listed accounts are taken over from their previous owners; later plans for them are replaced
+  DELETE FROM account_assignments
+  WHERE account_id = ANY (p_account_ids)
+    AND (
+      effective_from > p_effective_from
+      OR (user_id <> p_user_id AND effective_from = p_effective_from)
+    );
+
+  UPDATE account_assignments
+  SET effective_to = p_effective_from - 1
+  WHERE account_id = ANY (p_account_ids)
+    AND user_id <> p_user_id
+    AND effective_from < p_effective_from
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  -- An assignment the user already had on that day simply keeps running
+  UPDATE account_assignments
+  SET effective_to = NULL
+  WHERE account_id = ANY (p_account_ids)
+    AND user_id = p_user_id
+    AND effective_from <= p_effective_from
+    AND effective_to >= p_effective_from;
+
+  INSERT INTO account_assignments (account_id, user_id, effective_from)
+  SELECT listed.account_id, p_user_id, p_effective_from
+  FROM unnest(p_account_ids) AS listed(account_id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM account_assignments a
+    WHERE a.account_id = listed.account_id
+      AND a.user_id = p_user_id
+      AND a.effective_to IS NULL
+  );
+
+  RETURN QUERY
+  SELECT * FROM account_assignments
+  WHERE user_id = p_user_id
+  ORDER BY effective_from;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sales_assignment_totals(
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  account_id uuid,
+  user_id uuid,
+  row_count bigint,
+  first_date date,
+  last_date date,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    s.account_id,
+    a.user_id,
+    COUNT(*)::bigint,
+    MIN(s.date),
+    MAX(s.date),
+    COALESCE(SUM(s.clicks), 0)::bigint,
+    COALESCE(SUM(s.orders), 0)::bigint,
+    COALESCE(SUM(s.gross_commission), 0)::numeric,
+    COALESCE(SUM(s.products_sold), 0)::bigint,
+    COALESCE(SUM(s.total_purchases), 0)::numeric,
+    COALESCE(SUM(s.new_buyers), 0)::bigint
+  FROM sales_data s
+  JOIN account_assignments a
+    ON a.account_id = s.account_id
+    AND s.date >= a.effective_from
+    AND (a.effective_to IS NULL OR s.date <= a.effective_to)
+  WHERE (p_start_date IS NULL OR s.date >= p_start_date)
+    AND (p_end_date IS NULL OR s.date <= p_end_date)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY s.account_id, a.user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION sales_user_totals(
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  account_count bigint,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint
+)
+LANGUAGE sql STABLE SECURITY INVOKER
+AS $$
+  SELECT
+    a.user_id,
+    COUNT(DISTINCT s.account_id)::bigint,
+    COALESCE(SUM(s.clicks), 0)::bigint,
+    COALESCE(SUM(s.orders), 0)::bigint,
+    COALESCE(SUM(s.gross_commission), 0)::numeric,
+    COALESCE(SUM(s.products_sold), 0)::bigint,
+    COALESCE(SUM(s.total_purchases), 0)::numeric,
+    COALESCE(SUM(s.new_buyers), 0)::bigint
+  FROM account_assignments a
+  JOIN sales_data s
+    ON s.account_id = a.account_id
+    AND s.date >= a.effective_from
+    AND (a.effective_to IS NULL OR s.date <= a.effective_to)
+  WHERE (p_start_date IS NULL OR s.date >= p_start_date)
+    AND (p_end_date IS NULL OR s.date <= p_end_date)
+  GROUP BY a.user_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_accounts(uuid, uuid[], date) TO authenticated;
+GRANT EXECUTE ON FUNCTION sales_assignment_totals(date, date, uuid[]) TO authenticated;
+
+ALTER TABLE account_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins manage account assignments"
+  ON account_assignments FOR ALL TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+CREATE POLICY "Users read their own assignments"
+  ON account_assignments FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users read their accounts" ON accounts;
+CREATE POLICY "Users read their accounts"
+  ON accounts FOR SELECT TO authenticated
+  USING (
+    manages_account(id)
+    OR user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM account_assignments
+      WHERE account_assignments.account_id = accounts.id
+        AND account_assignments.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users read sales data from their past assignments"
+  ON sales_data FOR SELECT TO authenticated
+  USING (assigned_on(account_id, date));
+
+DROP POLICY IF EXISTS "Users manage upload batches of their accounts" ON upload_batches;
+CREATE POLICY "Users manage upload batches of their accounts"
+  ON upload_batches FOR ALL TO authenticated
+  USING (is_superadmin() OR manages_account(account_id))
+  WITH CHECK (is_superadmin() OR manages_account(account_id));
+
+DROP POLICY IF EXISTS "Users manage upload batch rows of their accounts" ON upload_batch_rows;
+CREATE POLICY "Users manage upload batch rows of their accounts"
+  ON upload_batch_rows FOR ALL TO authenticated
+  USING (is_superadmin() OR manages_account(account_id))
+  WITH CHECK (is_superadmin() OR manages_account(account_id));
+
+DROP POLICY IF EXISTS "Users can read files of their account categories" ON files;
+CREATE POLICY "Users can read files of their account categories"
+  ON files FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM current_account_assignments
+    JOIN accounts ON accounts.id = current_account_assignments.account_id
+    WHERE current_account_assignments.user_id = auth.uid()
+      AND accounts.category_id = files.category_id
+  ));
+
+ALTER TABLE users DROP COLUMN managed_accounts;
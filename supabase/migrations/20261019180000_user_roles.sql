@@ -0,0 +1,12 @@
+/*
+  # Team lead and finance roles
+
+  1. Changes
+    - `user_role` gains `team_lead` and `finance`
+
+  New enum values can't be used in the transaction that adds them, so the capabilities that build on
+  these roles follow in the next migration.
+*/
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'team_lead';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'finance';
@@ -0,0 +1,253 @@
+/*
+  # Role capabilities
+
+  Access used to be "superadmin or not". Each role now has a set of named capabilities that the app
+  and the policies check, and superadmins can change which role has which capability.
+
+  1. New Tables
+    - `role_capabilities`: one row per capability a role has. Superadmins have every capability
+      without rows, so they can't lock themselves out.
+
+  2. Changes
+    - `audit_log.entity_type` also accepts `role_capability`
+
+  3. Functions (SECURITY DEFINER, like `is_superadmin()`)
+    - `has_capability(p_capability)`: whether the caller's role has the capability
+
+  4. Triggers
+    - `guard_payment_only_update`: callers who may only edit payment status can't change other account fields
+    - `claim_created_account` skips callers with `accounts.manage` instead of only superadmins
+
+  5. Security
+    - `users`: readable by whoever sees team incentives or manages the team
+    - `accounts`, `sales_data`, `account_assignments`: readable in full with `accounts.view_all`;
+      accounts are managed with `accounts.manage`, and `accounts.edit_payment` allows updating
+      payment status. What `accounts.view_squad` lets a team lead read comes with squads.
+    - Upload batches follow `accounts.manage` like sales data
+    - Incentive rules with `incentives.edit_rules`, payouts with `payouts.view` / `payouts.approve`,
+      files with `files.manage`, the audit log with `audit.view`, assignments and capabilities with
+      `team.manage`. These replace the superadmin-only policies.
+    - Existing policies on `incentive_rules` and `incentive_tiers` are replaced
+*/
+
+CREATE TABLE IF NOT EXISTS role_capabilities (
+  role user_role NOT NULL,
+  capability text NOT NULL CHECK (capability IN (
+    'accounts.view_all', 'accounts.view_squad', 'accounts.manage', 'accounts.edit_payment',
+    'incentives.earn', 'incentives.view_team', 'incentives.edit_rules',
+    'payouts.view', 'payouts.approve', 'files.manage', 'team.manage', 'audit.view'
+  )),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (role, capability)
+);
+
+INSERT INTO role_capabilities (role, capability) VALUES
+  ('user', 'incentives.earn'),
+  ('team_lead', 'accounts.view_squad'),
+  ('team_lead', 'incentives.earn'),
+  ('team_lead', 'incentives.view_team'),
+  ('finance', 'accounts.view_all'),
+  ('finance', 'accounts.edit_payment'),
+  ('finance', 'incentives.view_team'),
+  ('finance', 'payouts.view'),
+  ('finance', 'payouts.approve')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_entity_type_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_entity_type_check CHECK (entity_type IN (
+  'category', 'account', 'user', 'incentive_rule', 'sales_data', 'payout_period', 'payout_entry', 'file',
+  'role_capability'
+));
+
+CREATE OR REPLACE FUNCTION has_capability(p_capability text)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_superadmin() OR EXISTS (
+    SELECT 1 FROM users
+    JOIN role_capabilities ON role_capabilities.role = users.role
+    WHERE users.id = auth.uid()
+      AND role_capabilities.capability = p_capability
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_capability(text) TO authenticated;
+
+-- RLS can't limit columns, so payment-only editors are held to `payment_data` here
+CREATE OR REPLACE FUNCTION guard_payment_only_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR has_capability('accounts.manage') OR manages_account(OLD.id) THEN
+    RETURN NEW;
+  END IF;
+  IF (to_jsonb(NEW) - 'payment_data') IS DISTINCT FROM (to_jsonb(OLD) - 'payment_data') THEN
+    RAISE EXCEPTION 'Only the payment status of this account can be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS accounts_guard_payment_only_update ON accounts;
+CREATE TRIGGER accounts_guard_payment_only_update
+  BEFORE UPDATE ON accounts
+  FOR EACH ROW EXECUTE FUNCTION guard_payment_only_update();
+
+CREATE OR REPLACE FUNCTION claim_created_account()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_capability('accounts.manage') THEN
+    INSERT INTO account_assignments (account_id, user_id, effective_from)
+    VALUES (NEW.id, auth.uid(), current_date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE role_capabilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users read role capabilities"
+  ON role_capabilities FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Team managers manage role capabilities"
+  ON role_capabilities FOR ALL TO authenticated
+  USING (has_capability('team.manage'))
+  WITH CHECK (has_capability('team.manage'));
+
+-- Team views list the users they cover; policies the users table already has stay in place
+CREATE POLICY "Team viewers read users"
+  ON users FOR SELECT TO authenticated
+  USING (has_capability('incentives.view_team') OR has_capability('team.manage'));
+
+-- Accounts and sales data
+DROP POLICY IF EXISTS "Superadmins manage all accounts" ON accounts;
+CREATE POLICY "Account managers manage all accounts"
+  ON accounts FOR ALL TO authenticated
+  USING (has_capability('accounts.manage'))
+  WITH CHECK (has_capability('accounts.manage'));
+
+CREATE POLICY "Capable users read all accounts"
+  ON accounts FOR SELECT TO authenticated
+  USING (has_capability('accounts.view_all'));
+
+CREATE POLICY "Payment editors update payment status"
+  ON accounts FOR UPDATE TO authenticated
+  USING (has_capability('accounts.edit_payment'))
+  WITH CHECK (has_capability('accounts.edit_payment'));
+
+DROP POLICY IF EXISTS "Superadmins manage all sales data" ON sales_data;
+CREATE POLICY "Account managers manage all sales data"
+  ON sales_data FOR ALL TO authenticated
+  USING (has_capability('accounts.manage'))
+  WITH CHECK (has_capability('accounts.manage'));
+
+CREATE POLICY "Capable users read all sales data"
+  ON sales_data FOR SELECT TO authenticated
+  USING (has_capability('accounts.view_all'));
+
+DROP POLICY IF EXISTS "Users manage upload batches of their accounts" ON upload_batches;
+CREATE POLICY "Users manage upload batches of their accounts"
+  ON upload_batches FOR ALL TO authenticated
+  USING (has_capability('accounts.manage') OR manages_account(account_id))
+  WITH CHECK (has_capability('accounts.manage') OR manages_account(account_id));
+
+DROP POLICY IF EXISTS "Users manage upload batch rows of their accounts" ON upload_batch_rows;
+CREATE POLICY "Users manage upload batch rows of their accounts"
+  ON upload_batch_rows FOR ALL TO authenticated
+  USING (has_capability('accounts.manage') OR manages_account(account_id))
+  WITH CHECK (has_capability('accounts.manage') OR manages_account(account_id));
+
+-- Account assignments
+DROP POLICY IF EXISTS "Superadmins manage account assignments" ON account_assignments;
+CREATE POLICY "Team managers manage account assignments"
+  ON account_assignments FOR ALL TO authenticated
+  USING (has_capability('team.manage'))
+  WITH CHECK (has_capability('team.manage'));
+
+CREATE POLICY "Capable users read all assignments"
+  ON account_assignments FOR SELECT TO authenticated
+  USING (has_capability('accounts.view_all'));
+
+-- Incentive rules: replace whatever policies the tables had
+DO $$
+DECLARE
+  v_policy record;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('incentive_rules', 'incentive_tiers')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE incentive_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incentive_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users read incentive rules"
+  ON incentive_rules FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Rule editors manage incentive rules"
+  ON incentive_rules FOR ALL TO authenticated
+  USING (has_capability('incentives.edit_rules'))
+  WITH CHECK (has_capability('incentives.edit_rules'));
+
+CREATE POLICY "Authenticated users read incentive tiers"
+  ON incentive_tiers FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Rule editors manage incentive tiers"
+  ON incentive_tiers FOR ALL TO authenticated
+  USING (has_capability('incentives.edit_rules'))
+  WITH CHECK (has_capability('incentives.edit_rules'));
+
+-- Payouts
+DROP POLICY IF EXISTS "Superadmins manage payout periods" ON payout_periods;
+CREATE POLICY "Payout approvers manage payout periods"
+  ON payout_periods FOR ALL TO authenticated
+  USING (has_capability('payouts.approve'))
+  WITH CHECK (has_capability('payouts.approve'));
+
+DROP POLICY IF EXISTS "Superadmins manage payout entries" ON payout_entries;
+CREATE POLICY "Payout approvers manage payout entries"
+  ON payout_entries FOR ALL TO authenticated
+  USING (has_capability('payouts.approve'))
+  WITH CHECK (has_capability('payouts.approve'));
+
+CREATE POLICY "Payout viewers read payout entries"
+  ON payout_entries FOR SELECT TO authenticated
+  USING (has_capability('payouts.view'));
+
+-- Files
+DROP POLICY IF EXISTS "Superadmins can manage files" ON files;
+CREATE POLICY "File managers can manage files"
+  ON files FOR ALL TO authenticated
+  USING (has_capability('files.manage'))
+  WITH CHECK (has_capability('files.manage'));
+
+DROP POLICY IF EXISTS "Superadmins can manage file versions" ON file_versions;
+CREATE POLICY "File managers can manage file versions"
+  ON file_versions FOR ALL TO authenticated
+  USING (has_capability('files.manage'))
+  WITH CHECK (has_capability('files.manage'));
+
+DROP POLICY IF EXISTS "Superadmins can manage file attachments" ON storage.objects;
+CREATE POLICY "File managers can manage file attachments"
+  ON storage.objects FOR ALL TO authenticated
+  USING (bucket_id = 'file-attachments' AND public.has_capability('files.manage'))
+  WITH CHECK (bucket_id = 'file-attachments' AND public.has_capability('files.manage'));
+
+-- Audit log
+DROP POLICY IF EXISTS "Superadmins can read the audit log" ON audit_log;
+CREATE POLICY "Auditors can read the audit log"
+  ON audit_log FOR SELECT TO authenticated
+  USING (has_capability('audit.view'));
@@ -0,0 +1,106 @@
+/*
+  # Squads
+
+  A squad groups users under a leader, so team leads can follow their squad's accounts, the app can
+  roll sales and incentives up per squad and incentive rules can target one squad.
+
+  1. New Tables
+    - `squads`: a named group of users with an optional leader
+
+  2. Changes
+    - `users.squad_id`: the squad the user belongs to
+    - `incentive_rules.squad_id`: rules with a squad only apply to its members; rules without one
+      apply to everyone
+    - `audit_log.entity_type` also accepts `squad`
+
+  3. Functions (SECURITY DEFINER, like `has_capability()`)
+    - `leads_user(p_user_id)`: whether the caller leads the user's squad
+    - `leads_account_on(p_account_id, p_date)`: whether the account belonged to the caller's squad that day
+
+  4. Security
+    - `squads`: readable by every signed-in user, managed with `team.manage`
+    - `accounts`, `sales_data`, `account_assignments`: readable for the caller's squad with
+      `accounts.view_squad`
+*/
+
+CREATE TABLE IF NOT EXISTS squads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text NOT NULL DEFAULT '',
+  leader_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS squads_leader_id_idx ON squads (leader_id);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS squad_id uuid REFERENCES squads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS users_squad_id_idx ON users (squad_id);
+
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS squad_id uuid REFERENCES squads(id) ON DELETE CASCADE;
+
+CREATE OR REPLACE FUNCTION leads_user(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    JOIN squads ON squads.id = users.squad_id
+    WHERE users.id = p_user_id
+      AND squads.leader_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION leads_account_on(p_account_id uuid, p_date date)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM account_assignments
+    WHERE account_assignments.account_id = p_account_id
+      AND account_assignments.effective_from <= p_date
+      AND (account_assignments.effective_to IS NULL OR account_assignments.effective_to >= p_date)
+      AND leads_user(account_assignments.user_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION leads_user(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION leads_account_on(uuid, date) TO authenticated;
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_entity_type_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_entity_type_check CHECK (entity_type IN (
+  'category', 'account', 'user', 'incentive_rule', 'sales_data', 'payout_period', 'payout_entry', 'file',
+  'role_capability', 'squad'
+));
+
+ALTER TABLE squads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users read squads"
+  ON squads FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Team managers manage squads"
+  ON squads FOR ALL TO authenticated
+  USING (has_capability('team.manage'))
+  WITH CHECK (has_capability('team.manage'));
+
+CREATE POLICY "Team leads read their squad's accounts"
+  ON accounts FOR SELECT TO authenticated
+  USING (
+    has_capability('accounts.view_squad')
+    AND EXISTS (
+      SELECT 1 FROM account_assignments
+      WHERE account_assignments.account_id = accounts.id
+        AND leads_user(account_assignments.user_id)
+    )
+  );
+
+CREATE POLICY "Team leads read their squad's sales data"
+  ON sales_data FOR SELECT TO authenticated
+  USING (has_capability('accounts.view_squad') AND leads_account_on(account_id, date));
+
+CREATE POLICY "Team leads read their squad's assignments"
+  ON account_assignments FOR SELECT TO authenticated
+  USING (has_capability('accounts.view_squad') AND leads_user(user_id));
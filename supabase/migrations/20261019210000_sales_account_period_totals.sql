@@ -0,0 +1,56 @@
+/*
+  # Per-account sales per period for charts
+
+  The stacked charts split every day, week or month of a range by account or category. Summing
+  per account and period in the database keeps long ranges to a few rows per account.
+
+  1. Functions (SECURITY INVOKER so table policies still apply)
+    - `sales_account_period_totals(p_start_date, p_end_date, p_account_ids, p_bucket)`: one row per
+      account and period. `p_bucket` is `day`, `week` (starting Monday) or `month`; `period` is the
+      first day of the bucket.
+
+    Like the other aggregates, a NULL date leaves that side of the range open and a NULL account
+    list means all accounts.
+*/
+
+CREATE OR REPLACE FUNCTION sales_account_period_totals(
+  p_start_date date DEFAULT NULL,
+  p_end_date date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL,
+  p_bucket text DEFAULT 'day'
+)
+RETURNS TABLE (
+  period date,
+  account_id uuid,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint
+)
+LANGUAGE plpgsql STABLE SECURITY INVOKER
+AS $$
+BEGIN
+  IF p_bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Unknown bucket %', p_bucket;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_trunc(p_bucket, s.date)::date,
+    s.account_id,
+    COALESCE(SUM(s.clicks), 0)::bigint,
+    COALESCE(SUM(s.orders), 0)::bigint,
+    COALESCE(SUM(s.gross_commission), 0)::numeric,
+    COALESCE(SUM(s.products_sold), 0)::bigint,
+    COALESCE(SUM(s.total_purchases), 0)::numeric,
+    COALESCE(SUM(s.new_buyers), 0)::bigint
+  FROM sales_data s
+  WHERE (p_start_date IS NULL OR s.date >= p_start_date)
+    AND (p_end_date IS NULL OR s.date <= p_end_date)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY 1, 2
+  ORDER BY 1;
+END;
+$$;
@@ -0,0 +1,22 @@
+/*
+  # Account history for account readers
+
+  The account detail page lists when an account's status and payment status changed. Those
+  changes live in the audit log, which only users with `audit.view` could read.
+
+  1. Security
+    - New SELECT policy on `audit_log`: entries about an account are readable by everyone who can
+      read that account. The subquery on `accounts` runs under the reader's own account policies,
+      so it follows managers, team leads and `accounts.view_all` alike. Entries of deleted
+      accounts stay visible to auditors only.
+*/
+
+CREATE POLICY "Account readers read their accounts' history"
+  ON audit_log FOR SELECT TO authenticated
+  USING (
+    entity_type = 'account'
+    AND EXISTS (
+      SELECT 1 FROM accounts
+      WHERE accounts.id::text = audit_log.entity_id
+    )
+  );
@@ -0,0 +1,66 @@
+/*
+  # Sales anomaly acknowledgements
+
+  Uploads are checked for impossible values (commission above purchases, more orders than clicks, ...)
+  and for spikes against each account's typical day. The checks run in the app; this table records
+  who confirmed that a flagged row is correct.
+
+  1. New Tables
+    - `sales_anomaly_acknowledgements`: one row per account, date and set of values. `fingerprint`
+      holds the values that were confirmed, so uploading different numbers for the same date makes
+      the row open again. `rules` lists what was flagged at the time.
+
+  2. Triggers
+    - `set_anomaly_acknowledger` fills `acknowledged_by` and `acknowledged_by_name` from the session
+
+  3. Security
+    - RLS enabled
+    - Everyone who can read an account can read its acknowledgements
+    - Account managers and the users managing an account can acknowledge its rows
+    - No update or delete policies: acknowledgements are a record of who vouched for what
+*/
+
+CREATE TABLE IF NOT EXISTS sales_anomaly_acknowledgements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  fingerprint text NOT NULL,
+  rules text[] NOT NULL DEFAULT '{}',
+  note text,
+  acknowledged_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  acknowledged_by_name text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (account_id, date, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS sales_anomaly_acknowledgements_date_idx
+  ON sales_anomaly_acknowledgements (date, account_id);
+
+CREATE OR REPLACE FUNCTION set_anomaly_acknowledger()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+BEGIN
+  NEW.acknowledged_by := auth.uid();
+  SELECT name INTO NEW.acknowledged_by_name FROM users WHERE id = auth.uid();
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sales_anomaly_acknowledgements_set_acknowledger
+  BEFORE INSERT ON sales_anomaly_acknowledgements
+  FOR EACH ROW EXECUTE FUNCTION set_anomaly_acknowledger();
+
+ALTER TABLE sales_anomaly_acknowledgements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Account readers read anomaly acknowledgements"
+  ON sales_anomaly_acknowledgements FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM accounts
+    WHERE accounts.id = sales_anomaly_acknowledgements.account_id
+  ));
+
+CREATE POLICY "Account writers acknowledge anomalies"
+  ON sales_anomaly_acknowledgements FOR INSERT TO authenticated
+  WITH CHECK (has_capability('accounts.manage') OR manages_account(account_id));
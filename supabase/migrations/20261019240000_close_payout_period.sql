@@ -0,0 +1,53 @@
+/*
+  # Close a payout period in one transaction
+
+  Closing a month used to insert the period and its snapshot entries in two requests. When the
+  entries failed the month stayed closed without a snapshot, and since closed periods cannot be
+  deleted and `month` is unique it could never be closed again.
+
+  1. Functions (SECURITY INVOKER so table policies still apply)
+    - `close_payout_period(p_month, p_entries)`: creates the closed period and one snapshot entry per
+      element of `p_entries`, or nothing at all when any insert fails. `closed_by` is the caller and
+      the entries' `period_id` is the new period, whatever the elements carry.
+*/
+
+CREATE OR REPLACE FUNCTION close_payout_period(
+  p_month text,
+  p_entries jsonb
+)
+RETURNS payout_periods
+LANGUAGE plpgsql SECURITY INVOKER
+AS $$
+DECLARE
+  v_period payout_periods;
+BEGIN
+  INSERT INTO payout_periods (month, status, closed_at, closed_by)
+  VALUES (p_month, 'closed', now(), auth.uid())
+  RETURNING * INTO v_period;
+
+  INSERT INTO payout_entries (
+    period_id, user_id, user_name, entry_type, rule_id, rule_name, tier_id,
+    total_revenue, total_commission, commission_rate, qualifying_revenue, incentive_amount, note
+  )
+  SELECT v_period.id, e.user_id, e.user_name, 'snapshot', e.rule_id, e.rule_name, e.tier_id,
+    COALESCE(e.total_revenue, 0), COALESCE(e.total_commission, 0), COALESCE(e.commission_rate, 0),
+    COALESCE(e.qualifying_revenue, 0), COALESCE(e.incentive_amount, 0), e.note
+  FROM jsonb_to_recordset(COALESCE(p_entries, '[]'::jsonb)) AS e(
+    user_id uuid,
+    user_name text,
+    rule_id uuid,
+    rule_name text,
+    tier_id uuid,
+    total_revenue numeric,
+    total_commission numeric,
+    commission_rate numeric,
+    qualifying_revenue numeric,
+    incentive_amount numeric,
+    note text
+  );
+
+  RETURN v_period;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_payout_period(text, jsonb) TO authenticated;
@@ -0,0 +1,16 @@
+/*
+  # Audit account assignments and anomaly acknowledgements
+
+  Reassigning accounts and acknowledging flagged sales rows went through the app without an audit
+  entry. Both are now logged like every other mutation.
+
+  1. Changes
+    - `audit_log.entity_type` also accepts `account_assignment` (one entry per reassigned user, with
+      the accounts they manage before and after) and `anomaly_acknowledgement`
+*/
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_entity_type_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_entity_type_check CHECK (entity_type IN (
+  'category', 'account', 'user', 'incentive_rule', 'sales_data', 'payout_period', 'payout_entry', 'file',
+  'role_capability', 'squad', 'account_assignment', 'anomaly_acknowledgement'
+));
@@ -0,0 +1,44 @@
+-- Local development data, loaded by `supabase start` and `supabase db reset`.
+-- Two regular users, each assigned one account with a day of sales, for the row level security
+-- tests in supabase/tests. Both sign in with the password `password123`.
+
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change_token_new, email_change
+)
+SELECT
+  '00000000-0000-0000-0000-000000000000', seeded.id, 'authenticated', 'authenticated', seeded.email,
+  extensions.crypt('password123', extensions.gen_salt('bf')), now(),
+  '{"provider": "email", "providers": ["email"]}', '{}', now(), now(),
+  '', '', '', ''
+FROM (VALUES
+  ('a1111111-1111-4111-8111-111111111111'::uuid, 'alice@example.com'),
+  ('b2222222-2222-4222-8222-222222222222'::uuid, 'bob@example.com')
+) AS seeded(id, email);
+
+INSERT INTO auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+SELECT gen_random_uuid(), id, id::text, jsonb_build_object('sub', id::text, 'email', email), 'email', now(), now(), now()
+FROM auth.users
+WHERE id IN ('a1111111-1111-4111-8111-111111111111', 'b2222222-2222-4222-8222-222222222222');
+
+INSERT INTO users (id, name, email, role) VALUES
+  ('a1111111-1111-4111-8111-111111111111', 'Alice', 'alice@example.com', 'user'),
+  ('b2222222-2222-4222-8222-222222222222', 'Bob', 'bob@example.com', 'user');
+
+INSERT INTO categories (id, name, description) VALUES
+  ('c3333333-3333-4333-8333-333333333333', 'Fashion', 'Seeded category');
+
+INSERT INTO accounts (id, username, email, phone, account_code, category_id, user_id) VALUES
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'alice_shop', 'alice.shop@example.com', '0800000001', 'ALICE01',
+    'c3333333-3333-4333-8333-333333333333', 'a1111111-1111-4111-8111-111111111111'),
+  ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'bob_shop', 'bob.shop@example.com', '0800000002', 'BOB01',
+    'c3333333-3333-4333-8333-333333333333', 'b2222222-2222-4222-8222-222222222222');
+
+INSERT INTO account_assignments (account_id, user_id, effective_from) VALUES
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'a1111111-1111-4111-8111-111111111111', '2020-01-01'),
+  ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'b2222222-2222-4222-8222-222222222222', '2020-01-01');
+
+INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers) VALUES
+  ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '2026-09-01', 120, 6, 45000, 7, 900000, 2),
+  ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', '2026-09-01', 80, 4, 30000, 4, 600000, 1);
@@ -0,0 +1,93 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+// Row level security on accounts and sales data, checked as the two users from supabase/seed.sql.
+// Needs the local stack: run `supabase start` (or `supabase db reset` for fresh seed data), then
+// `SUPABASE_ANON_KEY=<anon key from supabase status> npm run test:rls`.
+
+const supabaseUrl = process.env.SUPABASE_URL || 'http://127.0.0.1:54321';
+const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+
+const ALICE_ACCOUNT_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const BOB_ACCOUNT_ID = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const BOB_USER_ID = 'b2222222-2222-4222-8222-222222222222';
+const CATEGORY_ID = 'c3333333-3333-4333-8333-333333333333';
+
+const signIn = async (email: string) => {
+  if (!supabaseAnonKey) {
+    throw new Error('Set SUPABASE_ANON_KEY to the anon key printed by `supabase status`');
+  }
+  const client = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { error } = await client.auth.signInWithPassword({ email, password: 'password123' });
+  if (error) throw error;
+  return client;
+};
+
+describe('row level security', () => {
+  let alice: SupabaseClient;
+  let bob: SupabaseClient;
+
+  beforeAll(async () => {
+    [alice, bob] = await Promise.all([signIn('alice@example.com'), signIn('bob@example.com')]);
+  });
+
+  // Without this the cross-account checks below would also pass against empty tables
+  it('lets a user read their own account and sales data', async () => {
+    const { data: accounts, error: accountsError } = await alice.from('accounts').select('id');
+    expect(accountsError).toBeNull();
+    expect(accounts?.map(account => account.id)).toEqual([ALICE_ACCOUNT_ID]);
+
+    const { data: sales, error: salesError } = await alice.from('sales_data').select('account_id');
+    expect(salesError).toBeNull();
+    expect(sales?.length).toBeGreaterThan(0);
+    expect(sales?.every(row => row.account_id === ALICE_ACCOUNT_ID)).toBe(true);
+  });
+
+  it("returns no rows when selecting another user's account or sales data", async () => {
+    const { data: accounts, error: accountsError } = await alice.from('accounts').select('id').eq('id', BOB_ACCOUNT_ID);
+    expect(accountsError).toBeNull();
+    expect(accounts).toEqual([]);
+
+    const { data: sales, error: salesError } = await alice.from('sales_data').select('id').eq('account_id', BOB_ACCOUNT_ID);
+    expect(salesError).toBeNull();
+    expect(sales).toEqual([]);
+  });
+
+  it('rejects creating an account owned by another user', async () => {
+    const { error } = await alice.from('accounts').insert({
+      username: 'not_yours',
+      email: 'not.yours@example.com',
+      phone: '0800000003',
+      account_code: 'NOPE01',
+      category_id: CATEGORY_ID,
+      user_id: BOB_USER_ID,
+    });
+    expect(error?.code).toBe('42501');
+  });
+
+  it("rejects adding sales data to another user's account", async () => {
+    const { error } = await alice.from('sales_data').insert({ account_id: BOB_ACCOUNT_ID, date: '2026-09-02', clicks: 1 });
+    expect(error?.code).toBe('42501');
+  });
+
+  // Rows a policy hides can't be updated: the update matches nothing and the owner's row stays as it was
+  it("leaves another user's account unchanged on update", async () => {
+    const { data, error } = await alice.from('accounts').update({ username: 'taken_over' }).eq('id', BOB_ACCOUNT_ID).select();
+    expect(error).toBeNull();
+    expect(data).toEqual([]);
+
+    const { data: account } = await bob.from('accounts').select('username').eq('id', BOB_ACCOUNT_ID).single();
+    expect(account?.username).toBe('bob_shop');
+  });
+
+  it("leaves another user's sales data unchanged on update", async () => {
+    const { data, error } = await alice.from('sales_data').update({ clicks: 0 }).eq('account_id', BOB_ACCOUNT_ID).select();
+    expect(error).toBeNull();
+    expect(data).toEqual([]);
+
+    const { data: sales } = await bob.from('sales_data').select('clicks').eq('account_id', BOB_ACCOUNT_ID);
+    expect(sales?.map(row => row.clicks)).toEqual([80]);
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests against the local Supabase stack, kept out of `npm test` since they need `supabase start`
+export default defineConfig({
+  test: {
+    include: ['supabase/tests/**/*.test.ts'],
+    testTimeout: 20000,
+  },
+});